@@ -0,0 +1,233 @@
+/**
+ * Three.js TypeScript Tutorial - 06. Animation System
+ *
+ * `ObjectConfig.animation`（`AnimationConfig`）に書かれた回転・位置の振動・スケールの脈動を、
+ * 毎フレームの`deltaTime`からメッシュに適用するアニメーションシステムです。
+ * 動きは「基準の変換（作成時の位置・回転・スケール）＋経過時間から計算したオフセット」として
+ * 求めるため、一時停止や基準状態へのリセットを正確に行えます。
+ */
+
+import * as THREE from 'three';
+import type { AnimationConfig, Transform } from '../types/geometry-types';
+
+/**
+ * アニメーション設定のデフォルト値。`AnimationConfig`に記載された値と一致させる。
+ */
+export const ANIMATION_DEFAULTS = {
+  position: { amplitude: 0.5, frequency: 0.5, axis: 'y' },
+  scale: { min: 0.8, max: 1.2, frequency: 0.5 },
+  phase: 0
+} as const;
+
+/**
+ * 登録されたオブジェクトごとのアニメーション状態
+ */
+interface AnimationEntry {
+  config: AnimationConfig;
+  /** 登録時の変換。アニメーションはこの値を基準に計算される */
+  base: {
+    position: THREE.Vector3;
+    rotation: THREE.Euler;
+    scale: THREE.Vector3;
+  };
+  /** このオブジェクトのアニメーションの経過時間（秒） */
+  elapsed: number;
+  paused: boolean;
+}
+
+export class AnimationSystem {
+  private entries = new Map<THREE.Object3D, AnimationEntry>();
+  private enabled = true;
+
+  /**
+   * オブジェクトにアニメーションを設定します。
+   * オブジェクトの現在の位置・回転・スケールが、アニメーションの基準になります。
+   * すでに登録済みの場合は、基準を保ったまま設定だけを置き換えます。
+   */
+  public add(object: THREE.Object3D, config: AnimationConfig): void {
+    const existing = this.entries.get(object);
+    if (existing) {
+      existing.config = config;
+      return;
+    }
+    this.entries.set(object, {
+      config,
+      base: {
+        position: object.position.clone(),
+        rotation: object.rotation.clone(),
+        scale: object.scale.clone()
+      },
+      elapsed: 0,
+      paused: false
+    });
+  }
+
+  /**
+   * オブジェクトのアニメーションを解除します。
+   * @param resetTransform trueの場合、基準の変換に戻してから解除する
+   */
+  public remove(object: THREE.Object3D, resetTransform: boolean = false): void {
+    if (resetTransform) this.reset(object);
+    this.entries.delete(object);
+  }
+
+  public has(object: THREE.Object3D): boolean {
+    return this.entries.has(object);
+  }
+
+  /**
+   * 全てのアニメーションを解除します。オブジェクトの変換はそのまま残ります。
+   */
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * アニメーションシステム全体を有効・無効にします。
+   * 無効の間は`update`を呼んでも時間が進まず、オブジェクトはその場で止まります。
+   */
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * 動いている（有効で一時停止していない）アニメーションがあるかどうかを返します。
+   */
+  public isAnimating(): boolean {
+    if (!this.enabled) return false;
+    return [...this.entries.values()].some(entry => entry.config.enabled && !entry.paused);
+  }
+
+  /**
+   * 個別のオブジェクトのアニメーションを有効・無効にします（`AnimationConfig.enabled`を書き換えます）。
+   * 無効にしたオブジェクトは基準の変換に戻ります。
+   */
+  public setObjectEnabled(object: THREE.Object3D, enabled: boolean): void {
+    const entry = this.entries.get(object);
+    if (!entry) return;
+    entry.config = { ...entry.config, enabled };
+    if (!enabled) this.reset(object);
+  }
+
+  /**
+   * 個別のオブジェクトのアニメーションを一時停止します。オブジェクトは現在の状態で止まります。
+   */
+  public pause(object: THREE.Object3D): void {
+    const entry = this.entries.get(object);
+    if (entry) entry.paused = true;
+  }
+
+  public resume(object: THREE.Object3D): void {
+    const entry = this.entries.get(object);
+    if (entry) entry.paused = false;
+  }
+
+  public isPaused(object: THREE.Object3D): boolean {
+    return this.entries.get(object)?.paused ?? false;
+  }
+
+  /**
+   * オブジェクトの位相のずれ（秒）を設定します。
+   */
+  public setPhase(object: THREE.Object3D, phase: number): void {
+    const entry = this.entries.get(object);
+    if (!entry) return;
+    entry.config = { ...entry.config, phase };
+    this.apply(object, entry);
+  }
+
+  /**
+   * オブジェクトを基準の変換に戻し、経過時間を0にします。
+   * オブジェクトを省略した場合は、登録されている全てのオブジェクトをリセットします。
+   */
+  public reset(object?: THREE.Object3D): void {
+    const targets = object ? [object] : [...this.entries.keys()];
+    targets.forEach(target => {
+      const entry = this.entries.get(target);
+      if (!entry) return;
+      entry.elapsed = 0;
+      target.position.copy(entry.base.position);
+      target.rotation.copy(entry.base.rotation);
+      target.scale.copy(entry.base.scale);
+    });
+  }
+
+  /**
+   * アニメーションの基準の変換を取得します。
+   * シーンの保存など、アニメーションによる揺れを含まない値が必要な場合に使います。
+   */
+  public getBaseTransform(object: THREE.Object3D): Transform | undefined {
+    const entry = this.entries.get(object);
+    if (!entry) return undefined;
+    const { position, rotation, scale } = entry.base;
+    return {
+      position: { x: position.x, y: position.y, z: position.z },
+      rotation: { x: rotation.x, y: rotation.y, z: rotation.z },
+      scale: { x: scale.x, y: scale.y, z: scale.z }
+    };
+  }
+
+  /**
+   * アニメーションの基準の変換を置き換えます。オブジェクトの現在の変換は変わりません。
+   * ドラッグなどでオブジェクトを動かした後に、動かした先を基準にしてアニメーションを続けるために使います。
+   * 省略したフィールド（軸）は、元の基準の値のままです。
+   */
+  public setBaseTransform(object: THREE.Object3D, transform: Transform): void {
+    const entry = this.entries.get(object);
+    if (!entry) return;
+    const { position, rotation, scale } = transform;
+    const { base } = entry;
+    if (position) base.position.set(position.x ?? base.position.x, position.y ?? base.position.y, position.z ?? base.position.z);
+    if (rotation) base.rotation.set(rotation.x ?? base.rotation.x, rotation.y ?? base.rotation.y, rotation.z ?? base.rotation.z);
+    if (scale) base.scale.set(scale.x ?? base.scale.x, scale.y ?? base.scale.y, scale.z ?? base.scale.z);
+  }
+
+  /**
+   * 全てのアニメーションを`deltaTime`秒だけ進めます。毎フレーム呼び出します。
+   */
+  public update(deltaTime: number): void {
+    if (!this.enabled) return;
+    this.entries.forEach((entry, object) => {
+      if (!entry.config.enabled || entry.paused) return;
+      entry.elapsed += deltaTime;
+      this.apply(object, entry);
+    });
+  }
+
+  private apply(object: THREE.Object3D, entry: AnimationEntry): void {
+    const { config, base } = entry;
+    const t = entry.elapsed + (config.phase ?? ANIMATION_DEFAULTS.phase);
+
+    // 回転: 基準の角度に「速度 × 経過時間」を加える。
+    if (config.rotation) {
+      object.rotation.set(
+        base.rotation.x + (config.rotation.x ?? 0) * t,
+        base.rotation.y + (config.rotation.y ?? 0) * t,
+        base.rotation.z + (config.rotation.z ?? 0) * t
+      );
+    }
+
+    // 位置の振動: Math.sin(2π × 周波数 × 時間) は -1〜1 の間を周期的に行き来する。
+    if (config.position) {
+      const amplitude = config.position.amplitude ?? ANIMATION_DEFAULTS.position.amplitude;
+      const frequency = config.position.frequency ?? ANIMATION_DEFAULTS.position.frequency;
+      const axis = config.position.axis ?? ANIMATION_DEFAULTS.position.axis;
+      object.position.copy(base.position);
+      object.position[axis] += amplitude * Math.sin(Math.PI * 2 * frequency * t);
+    }
+
+    // スケールの脈動: 0〜1に変換したサイン波で min〜max の間を補間する。
+    if (config.scale) {
+      const min = config.scale.min ?? ANIMATION_DEFAULTS.scale.min;
+      const max = config.scale.max ?? ANIMATION_DEFAULTS.scale.max;
+      const frequency = config.scale.frequency ?? ANIMATION_DEFAULTS.scale.frequency;
+      const wave = 0.5 + 0.5 * Math.sin(Math.PI * 2 * frequency * t);
+      // THREE.MathUtils.lerp(a, b, t): aとbの間をtの割合で線形補間する。
+      object.scale.copy(base.scale).multiplyScalar(THREE.MathUtils.lerp(min, max, wave));
+    }
+  }
+}
@@ -0,0 +1,413 @@
+/**
+ * Three.js TypeScript Tutorial - 11. Asset Loader
+ *
+ * glTF / GLB・OBJ・STLの3Dモデルを読み込むアセットローダーです。
+ * 同じURLの読み込みは1回にまとめてキャッシュし、進捗の通知・`AbortSignal`による中止・
+ * 失敗の種類ごとのエラークラスに対応します。
+ * `{ geometry: { type: 'model', config: { url } } }`のようなオブジェクト設定から、
+ * プリミティブと同じように変換・名前・userDataを適用したオブジェクトを作成できます。
+ */
+
+import * as THREE from 'three';
+// GLTFLoader / OBJLoader / STLLoader: Three.js付属の各形式のローダー。
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+// SkeletonUtils.clone: ボーン（スケルトン）を持つモデルも正しく複製できるclone。
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { TypedGeometryFactory, TypedObjectFactory } from './typed-geometry-factory';
+import type { ObjectFactoryOptions } from './typed-geometry-factory';
+import { sharedResourceCache } from './resource-cache';
+import type { ResourceCache } from './resource-cache';
+import type { AssetLoadOptions, AssetLoadProgress, LoadedModel } from '../types/asset-types';
+import type { ModelFormat, ModelObjectConfig, ObjectConfig } from '../types/geometry-types';
+
+// ===================================================================
+// Part 1: Errors (エラー)
+// ===================================================================
+
+/**
+ * アセットの読み込みに失敗した場合のエラーの基底クラス
+ */
+export class AssetLoadError extends Error {
+  constructor(message: string, public readonly url: string) {
+    super(message);
+    this.name = 'AssetLoadError';
+  }
+}
+
+/**
+ * ファイルが見つからない、または取得できなかった場合のエラー
+ */
+export class AssetNotFoundError extends AssetLoadError {
+  /**
+   * @param status HTTPステータスコード。ネットワークエラーの場合はundefined
+   */
+  constructor(url: string, public readonly status?: number) {
+    super(
+      status === undefined ? `Failed to fetch asset: ${url}` : `Asset not found (HTTP ${status}): ${url}`,
+      url
+    );
+    this.name = 'AssetNotFoundError';
+  }
+}
+
+/**
+ * ファイルは取得できたが、モデルとして解析できなかった場合のエラー
+ */
+export class AssetParseError extends AssetLoadError {
+  constructor(url: string, public readonly format: ModelFormat, public readonly reason: unknown) {
+    super(`Failed to parse ${format} asset ${url}: ${reason instanceof Error ? reason.message : String(reason)}`, url);
+    this.name = 'AssetParseError';
+  }
+}
+
+/**
+ * 対応していない拡張子の場合のエラー
+ */
+export class UnsupportedAssetFormatError extends AssetLoadError {
+  constructor(url: string, public readonly extension: string) {
+    super(`Unsupported asset format "${extension}": ${url}`, url);
+    this.name = 'UnsupportedAssetFormatError';
+  }
+}
+
+/**
+ * `AbortSignal`で読み込みが中止された場合のエラー
+ */
+export class AssetLoadCancelledError extends AssetLoadError {
+  constructor(url: string) {
+    super(`Asset load was cancelled: ${url}`, url);
+    this.name = 'AssetLoadCancelledError';
+  }
+}
+
+// ===================================================================
+// Part 2: Loader (ローダー)
+// ===================================================================
+
+const FORMATS_BY_EXTENSION: Readonly<Record<string, ModelFormat>> = {
+  gltf: 'gltf',
+  glb: 'glb',
+  obj: 'obj',
+  stl: 'stl'
+};
+
+/**
+ * 1つのURLの読み込み。同じURLを待っている全ての呼び出しで共有する
+ */
+interface PendingLoad {
+  promise: Promise<LoadedModel>;
+  controller: AbortController;
+  listeners: Set<(progress: AssetLoadProgress) => void>;
+  /** 結果を待っている呼び出しの数。全員が中止したら読み込み自体を中止する */
+  waiting: number;
+  settled: boolean;
+}
+
+/**
+ * モデル読み込みのオプション
+ */
+export interface ModelObjectOptions extends ObjectFactoryOptions, Omit<AssetLoadOptions, 'format'> {}
+
+export class AssetLoader {
+  private loads = new Map<string, PendingLoad>();
+
+  /**
+   * URLの拡張子からモデルの形式を判定します。
+   * @throws {UnsupportedAssetFormatError} 対応していない拡張子の場合
+   */
+  static detectFormat(url: string): ModelFormat {
+    const path = url.split(/[?#]/)[0];
+    const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+    const format = FORMATS_BY_EXTENSION[extension];
+    if (!format) throw new UnsupportedAssetFormatError(url, extension);
+    return format;
+  }
+
+  /**
+   * モデルを読み込みます。同じURLはキャッシュされ、2回目以降はダウンロードしません。
+   * 返されるモデルはキャッシュと共有されているため、シーンに追加する場合は`instantiate`で複製します。
+   */
+  public load(url: string, options: AssetLoadOptions = {}): Promise<LoadedModel> {
+    let format: ModelFormat;
+    try {
+      format = options.format ?? AssetLoader.detectFormat(url);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    const { signal, onProgress } = options;
+    if (signal?.aborted) return Promise.reject(new AssetLoadCancelledError(url));
+
+    let pending = this.loads.get(url);
+    if (!pending) {
+      pending = this.startLoad(url, format);
+      this.loads.set(url, pending);
+    }
+    const load = pending;
+    load.waiting++;
+    if (onProgress) load.listeners.add(onProgress);
+    const detach = () => {
+      load.waiting--;
+      if (onProgress) load.listeners.delete(onProgress);
+    };
+
+    if (!signal) return load.promise.finally(detach);
+
+    return new Promise<LoadedModel>((resolve, reject) => {
+      const onAbort = () => {
+        detach();
+        // 誰も待っていなければ、ダウンロード自体を中止してキャッシュから取り除く。
+        if (load.waiting === 0 && !load.settled) {
+          load.controller.abort();
+          if (this.loads.get(url) === load) this.loads.delete(url);
+        }
+        reject(new AssetLoadCancelledError(url));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      load.promise.then(
+        model => {
+          signal.removeEventListener('abort', onAbort);
+          detach();
+          resolve(model);
+        },
+        (error: unknown) => {
+          signal.removeEventListener('abort', onAbort);
+          detach();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * 読み込んだモデルを複製します。ジオメトリとマテリアルは複製せずに共有し、
+   * `ResourceCache`に登録して参照数で管理します（最後の複製が解放されたときにGPUリソースが破棄される）。
+   */
+  public instantiate(model: LoadedModel, cache: ResourceCache = sharedResourceCache): THREE.Object3D {
+    const instance = cloneSkinned(model.scene);
+    instance.traverse(child => {
+      if (child instanceof THREE.Mesh) {
+        const mesh = child as THREE.Mesh;
+        cache.adopt(mesh.geometry);
+        const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+        materials.forEach(material => cache.adopt(material));
+      }
+    });
+    return instance;
+  }
+
+  /**
+   * モデルのオブジェクト設定からオブジェクトを作成します。
+   * 変換・名前・userDataはプリミティブと同じように適用され、`material`を指定した場合は
+   * モデル内の全てのメッシュのマテリアルを置き換えます。
+   */
+  public async createObject(config: ModelObjectConfig, options: ModelObjectOptions = {}): Promise<THREE.Object3D> {
+    const cache = options.cache ?? sharedResourceCache;
+    const model = await this.load(config.geometry.config.url, {
+      format: config.geometry.config.format,
+      onProgress: options.onProgress,
+      signal: options.signal
+    });
+    const instance = this.instantiate(model, cache);
+    if (config.material) {
+      const override = config.material;
+      instance.traverse(child => {
+        if (!(child instanceof THREE.Mesh)) return;
+        const mesh = child as THREE.Mesh;
+        const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+        materials.forEach(material => cache.release(material));
+        mesh.material = options.cache
+          ? options.cache.acquireMaterial(override)
+          : TypedGeometryFactory.createMaterial(override.type, override.config, options.textures);
+      });
+    }
+    TypedObjectFactory.applyObjectConfig(instance, config);
+    return instance;
+  }
+
+  /**
+   * モデルのオブジェクト設定から、読み込みを待たずにオブジェクト（空のグループ）を作成します。
+   * 変換・名前などの設定はすぐに適用され、読み込みが終わるとモデルがグループの子として追加されます。
+   * シーンドキュメントの読み込みのように、結果をすぐに返す必要がある場合に使います。
+   * @returns グループと、モデルが追加されると解決される（読み込みに失敗すると拒否される）Promise
+   */
+  public createDeferredObject(
+    config: ModelObjectConfig,
+    options: ModelObjectOptions = {}
+  ): { object: THREE.Group; loaded: Promise<THREE.Object3D> } {
+    const group = new THREE.Group();
+    TypedObjectFactory.applyObjectConfig(group, config);
+    // 変換・名前・アニメーションはグループが持つため、中身には形状とマテリアルだけを使う。
+    const { geometry, material } = config;
+    const loaded = this.createObject(material ? { geometry, material } : { geometry }, options).then(object => {
+      // 影の設定は、シーンに追加されたときにグループに設定された値に合わせる。
+      object.traverse(child => {
+        child.castShadow = group.castShadow;
+        child.receiveShadow = group.receiveShadow;
+      });
+      group.add(object);
+      return object;
+    });
+    // 結果を待たない呼び出しで、失敗が未処理の拒否として報告されないようにする。
+    loaded.catch(() => undefined);
+    return { object: group, loaded };
+  }
+
+  /**
+   * プリミティブとモデルのどちらの設定からでもオブジェクトを作成します。
+   */
+  public async createSceneObject(config: ObjectConfig, options: ModelObjectOptions = {}): Promise<THREE.Object3D> {
+    if (isModelObjectConfig(config)) return this.createObject(config, options);
+    return TypedObjectFactory.createMesh(config, options);
+  }
+
+  /**
+   * 読み込み済み（または読み込み中）のURLかどうか
+   */
+  public has(url: string): boolean {
+    return this.loads.has(url);
+  }
+
+  /**
+   * キャッシュからモデルを取り除きます。URLを省略した場合は全てを取り除きます。
+   * 複製済みのオブジェクトには影響しません。
+   */
+  public clear(url?: string): void {
+    if (url === undefined) {
+      this.loads.clear();
+    } else {
+      this.loads.delete(url);
+    }
+  }
+
+  private startLoad(url: string, format: ModelFormat): PendingLoad {
+    const controller = new AbortController();
+    const listeners = new Set<(progress: AssetLoadProgress) => void>();
+    const pending: PendingLoad = {
+      controller,
+      listeners,
+      waiting: 0,
+      settled: false,
+      promise: fetchWithProgress(url, controller.signal, progress => {
+        listeners.forEach(listener => listener(progress));
+      })
+        .then(data => parseModel(url, format, data))
+        .then(
+          model => {
+            pending.settled = true;
+            return model;
+          },
+          (error: unknown) => {
+            pending.settled = true;
+            // 失敗した読み込みはキャッシュに残さず、次回は再試行できるようにする。
+            if (this.loads.get(url) === pending) this.loads.delete(url);
+            throw error;
+          }
+        )
+    };
+    // 全員が中止した読み込みの拒否が、未処理の拒否として報告されないようにする。
+    pending.promise.catch(() => undefined);
+    return pending;
+  }
+}
+
+/**
+ * オブジェクト設定がモデルの設定かどうかを判定する型ガード
+ */
+export function isModelObjectConfig(config: ObjectConfig): config is ModelObjectConfig {
+  return config.geometry.type === 'model';
+}
+
+/**
+ * アプリケーション全体で共有するデフォルトのローダー
+ */
+export const sharedAssetLoader = new AssetLoader();
+
+// ===================================================================
+// Part 3: Fetch & Parse (取得と解析)
+// ===================================================================
+
+async function fetchWithProgress(
+  url: string,
+  signal: AbortSignal,
+  onProgress: (progress: AssetLoadProgress) => void
+): Promise<ArrayBuffer> {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch {
+    if (signal.aborted) throw new AssetLoadCancelledError(url);
+    throw new AssetNotFoundError(url);
+  }
+  if (!response.ok) {
+    if (response.status === 404 || response.status === 410) throw new AssetNotFoundError(url, response.status);
+    throw new AssetLoadError(`Failed to load asset (HTTP ${response.status}): ${url}`, url);
+  }
+
+  // Content-Lengthヘッダーから全体の大きさを取得する（圧縮転送などで無い場合もある）。
+  const total = Number(response.headers.get('Content-Length')) || 0;
+  const report = (loaded: number) => onProgress({ loaded, total, ratio: total > 0 ? Math.min(loaded / total, 1) : null });
+
+  try {
+    if (!response.body) {
+      const buffer = await response.arrayBuffer();
+      report(buffer.byteLength);
+      return buffer;
+    }
+    // response.body.getReader(): ダウンロード中のデータを少しずつ受け取り、進捗を通知する。
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      loaded += value.byteLength;
+      report(loaded);
+    }
+    const bytes = new Uint8Array(loaded);
+    let offset = 0;
+    chunks.forEach(chunk => {
+      bytes.set(chunk, offset);
+      offset += chunk.byteLength;
+    });
+    return bytes.buffer;
+  } catch {
+    if (signal.aborted) throw new AssetLoadCancelledError(url);
+    throw new AssetNotFoundError(url);
+  }
+}
+
+async function parseModel(url: string, format: ModelFormat, data: ArrayBuffer): Promise<LoadedModel> {
+  try {
+    switch (format) {
+      case 'gltf':
+      case 'glb': {
+        // LoaderUtils.extractUrlBase(url): 外部の.binやテクスチャを探すためのベースURLを取り出す。
+        const gltf = await new GLTFLoader().parseAsync(data, THREE.LoaderUtils.extractUrlBase(url));
+        return { url, format, scene: gltf.scene, animations: gltf.animations };
+      }
+      case 'obj': {
+        // OBJはテキスト形式なので、バイナリをUTF-8の文字列に戻してから解析する。
+        const scene = new OBJLoader().parse(new TextDecoder().decode(data));
+        return { url, format, scene, animations: [] };
+      }
+      case 'stl': {
+        // STLは形状だけを持つので、標準的なマテリアルでメッシュにする。
+        const geometry = new STLLoader().parse(data);
+        const hasColors = geometry.getAttribute('color') !== undefined;
+        const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ vertexColors: hasColors }));
+        const scene = new THREE.Group();
+        scene.add(mesh);
+        return { url, format, scene, animations: [] };
+      }
+      default: {
+        const _exhaustiveCheck: never = format;
+        throw new Error(`Unsupported model format: ${String(_exhaustiveCheck)}`);
+      }
+    }
+  } catch (error) {
+    throw new AssetParseError(url, format, error);
+  }
+}
@@ -7,6 +7,11 @@
  */
 
 import * as THREE from 'three';
+import { CommandHistory, createColorCommand } from './command-history';
+import { animationFrameSource } from './frame-scheduler';
+import { windowSize } from './scene-environment';
+import type { SceneEnvironment, SceneRenderer, SizeProvider } from '../types/renderer-types';
+import type { FrameSource } from '../types/scheduler-types';
 
 /**
  * カメラ設定のインターフェース
@@ -58,11 +63,12 @@ interface SceneConfig {
 /**
  * デフォルト設定値
  * ユーザーが設定を省略した場合に使用される標準的な値です。
+ * アスペクト比は描画サイズから求めるため、作成するときに渡します（読み込んだ時点ではwindowに触れない）。
  */
-const defaultConfig: SceneConfig = {
+const createDefaultConfig = (aspect: number): SceneConfig => ({
   camera: {
     fov: 75,
-    aspect: window.innerWidth / window.innerHeight,
+    aspect,
     near: 0.1,
     far: 1000,
     position: new THREE.Vector3(0, 0, 5)
@@ -74,7 +80,7 @@ const defaultConfig: SceneConfig = {
   scene: {
     background: new THREE.Color(0x000000) // 黒色の背景
   }
-};
+});
 
 /**
  * 基本的なThree.jsシーンを管理するクラス。
@@ -83,12 +89,31 @@ const defaultConfig: SceneConfig = {
 export class BasicScene {
   public readonly camera: THREE.PerspectiveCamera;
   public readonly scene: THREE.Scene;
-  public readonly renderer: THREE.WebGLRenderer;
+  public readonly renderer: SceneRenderer;
   private cube: THREE.Mesh;
   private animationId: number | null = null;
+  // レンダラーを渡された場合は、キャンバスをページに追加するのは呼び出し側
+  private readonly ownsRenderer: boolean;
+  private readonly environment: SceneEnvironment;
+  private readonly events: EventTarget;
+  private readonly size: SizeProvider;
+  private readonly frames: FrameSource;
+  // abortController.abort(): signalを指定して登録したイベントリスナーを、まとめて解除する。
+  private readonly listeners = new AbortController();
+  // 色の変更を元に戻す（history.undo()）・やり直す（history.redo()）ための履歴
+  public readonly history = new CommandHistory();
 
-  constructor(config: Partial<SceneConfig> = {}) {
-    const mergedConfig = this.mergeConfig(defaultConfig, config);
+  /**
+   * @param environment 実行環境。省略するとブラウザ（window・document・WebGL）で動く。
+   *                    ページの要素に埋め込む場合は`createContainerEnvironment()`を渡す
+   */
+  constructor(config: Partial<SceneConfig> = {}, environment: SceneEnvironment = {}) {
+    this.environment = environment;
+    this.events = environment.events ?? window;
+    this.size = environment.size ?? windowSize;
+    this.frames = environment.frames ?? animationFrameSource;
+    const { width, height, pixelRatio } = this.size();
+    const mergedConfig = this.mergeConfig(createDefaultConfig(width / height), config);
     
     // --- コア要素の初期化 ---
     // 1. カメラを作成
@@ -111,11 +136,13 @@ export class BasicScene {
 
     // 3. レンダラーを作成
     // new THREE.WebGLRenderer({ antialias: ... }): WebGLで3Dシーンを描画するレンダラーを作成
-    this.renderer = new THREE.WebGLRenderer(mergedConfig.renderer);
+    // ヘッドレス環境では、渡されたレンダラー（HeadlessRendererなど）を使う。
+    this.ownsRenderer = !environment.renderer;
+    this.renderer = environment.renderer ?? new THREE.WebGLRenderer(mergedConfig.renderer);
     // renderer.setPixelRatio(): デバイスのピクセル比を設定し、高解像度ディスプレイで鮮明に表示
-    this.renderer.setPixelRatio(window.devicePixelRatio);
-    // renderer.setSize(): レンダラーの描画サイズをブラウザのウィンドウサイズに設定
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
+    this.renderer.setPixelRatio(pixelRatio);
+    // renderer.setSize(): レンダラーの描画サイズをブラウザのウィンドウサイズ（埋め込んだ要素の大きさ）に設定
+    this.renderer.setSize(width, height, environment.updateStyle ?? true);
 
     // --- オブジェクトの作成 ---
     this.cube = this.createCube();
@@ -143,21 +170,24 @@ export class BasicScene {
   }
 
   private setupEventListeners(): void {
-    window.addEventListener('resize', this.onWindowResize.bind(this));
+    // bind(this)は呼ぶたびに新しい関数を作るため、後からremoveEventListenerに渡しても解除できない。
+    // signalを指定しておき、disposeでまとめて解除する。
+    this.events.addEventListener('resize', () => this.onWindowResize(), { signal: this.listeners.signal });
   }
 
   private onWindowResize(): void {
-    this.camera.aspect = window.innerWidth / window.innerHeight;
+    const { width, height } = this.size();
+    this.camera.aspect = width / height;
     // camera.updateProjectionMatrix(): カメラのプロパティ（視野角、アスペクト比など）を変更した後に、
     // 変更を反映させるために必ず呼び出す必要がある。
     this.camera.updateProjectionMatrix();
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
+    this.renderer.setSize(width, height, this.environment.updateStyle ?? true);
   }
 
   private animate(): void {
-    // requestAnimationFrame(callback): ブラウザに次の描画タイミングでコールバックを実行するように要求する。
+    // frames.request(callback): 次の描画タイミングでコールバックを実行するように要求する（ブラウザではrequestAnimationFrame）。
     // これにより、スムーズなアニメーションループが実現される。
-    this.animationId = requestAnimationFrame(this.animate.bind(this));
+    this.animationId = this.frames.request(this.animate.bind(this));
     
     // object.rotation.x/y/z: オブジェクトの各軸周りの回転角度（ラジアン単位）
     this.cube.rotation.x += 0.01;
@@ -171,7 +201,7 @@ export class BasicScene {
   public start(): void {
     // renderer.domElement: レンダラーが描画を行うためのcanvas要素。
     // これをHTMLのbodyに追加することで、画面に表示される。
-    if (!document.body.contains(this.renderer.domElement)) {
+    if (this.ownsRenderer && this.renderer instanceof THREE.WebGLRenderer && !document.body.contains(this.renderer.domElement)) {
       document.body.appendChild(this.renderer.domElement);
     }
     this.animate();
@@ -180,7 +210,7 @@ export class BasicScene {
   public stop(): void {
     if (this.animationId !== null) {
       // cancelAnimationFrame(id): requestAnimationFrameで予約されたコールバックをキャンセルする。
-      cancelAnimationFrame(this.animationId);
+      this.frames.cancel(this.animationId);
       this.animationId = null;
     }
   }
@@ -205,17 +235,18 @@ export class BasicScene {
     // renderer.dispose(): レンダラーが使用しているWebGLコンテキストとリソースを解放する。
     this.renderer.dispose();
     
-    if (this.renderer.domElement.parentNode) {
-      this.renderer.domElement.parentNode.removeChild(this.renderer.domElement);
-    }
+    // element.remove(): 要素をページから取り除く（追加されていなければ何もしない）。
+    // 渡されたレンダラーのキャンバスは、実行環境（createContainerEnvironmentなど）が片付ける。
+    if (this.ownsRenderer) this.renderer.domElement.remove();
     
-    window.removeEventListener('resize', this.onWindowResize.bind(this));
+    this.listeners.abort();
+    this.environment.dispose?.();
   }
 
   public setCubeColor(color: THREE.ColorRepresentation): void {
-    // material.color.set(color): マテリアルの色を新しい色に設定する。
+    // 色の変更をコマンドとして実行し、履歴に記録する（元に戻すと変更前の色になる）。
     if (this.cube.material instanceof THREE.MeshBasicMaterial) {
-      this.cube.material.color.set(color);
+      this.history.execute(createColorCommand([this.cube.material], color));
     }
   }
 
@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { OrbitController } from './camera-controls';
+import { createHeadlessEnvironment } from './scene-environment';
+import { InteractiveSceneManager } from './scene-manager';
+
+function createCamera(x: number, y: number, z: number): THREE.PerspectiveCamera {
+  const camera = new THREE.PerspectiveCamera(50, 1, 0.1, 100);
+  camera.position.set(x, y, z);
+  camera.lookAt(0, 0, 0);
+  return camera;
+}
+
+describe('OrbitController', () => {
+  it('does not touch the camera without input', () => {
+    const camera = new THREE.PerspectiveCamera();
+    camera.position.set(1, 2, 3);
+    camera.rotation.set(0, 0.5, 0);
+    const controller = new OrbitController(camera);
+
+    expect(controller.update(1 / 60)).toBe(false);
+    expect(camera.position.toArray()).toEqual([1, 2, 3]);
+    expect(camera.rotation.y).toBe(0.5);
+  });
+
+  it('rotates around the target by the dragged amount', () => {
+    const camera = createCamera(0, 0, 5);
+    const controller = new OrbitController(camera, { enableDamping: false });
+    // 画面の高さの1/4だけ右へドラッグすると、注視点の周りを90°回る。
+    controller.apply({ rotate: { x: 0.25, y: 0 } });
+
+    expect(controller.update(1 / 60)).toBe(true);
+    expect(camera.position.x).toBeCloseTo(-5);
+    expect(camera.position.z).toBeCloseTo(0);
+    expect(controller.hasPendingInput()).toBe(false);
+  });
+
+  it('zooms within the distance limits', () => {
+    const camera = createCamera(0, 0, 5);
+    const controller = new OrbitController(camera, { enableDamping: false, maxDistance: 6 });
+    controller.apply({ zoom: 100 });
+    controller.update(1 / 60);
+    expect(camera.position.length()).toBeCloseTo(6);
+  });
+
+  it('spreads the input over several frames with damping', () => {
+    const camera = createCamera(0, 0, 5);
+    const controller = new OrbitController(camera, { dampingFactor: 0.5 });
+    controller.apply({ rotate: { x: 0.25, y: 0 } });
+
+    controller.update(1 / 60);
+    const angle = Math.atan2(-camera.position.x, camera.position.z);
+    expect(angle).toBeCloseTo(Math.PI / 4);
+    expect(controller.hasPendingInput()).toBe(true);
+    for (let i = 0; i < 60; i++) controller.update(1 / 60);
+    expect(camera.position.x).toBeCloseTo(-5);
+    expect(controller.hasPendingInput()).toBe(false);
+  });
+
+  it('keeps the view when the camera was turned before the next drag', () => {
+    const camera = createCamera(0, 0, 5);
+    const controller = new OrbitController(camera, { enableDamping: false });
+    controller.apply({ rotate: { x: 0.01, y: 0 } });
+    controller.update(1 / 60);
+
+    // 外部から（トゥイーンなどで）カメラの向きを変えた後に、わずかにズームする。
+    camera.rotateY(0.3);
+    const forward = camera.getWorldDirection(new THREE.Vector3());
+    controller.apply({ zoom: 0.01 });
+    controller.update(1 / 60);
+    expect(camera.getWorldDirection(new THREE.Vector3()).dot(forward)).toBeCloseTo(1);
+  });
+});
+
+describe('camera controls in the scene manager', () => {
+  let manager: InteractiveSceneManager | null = null;
+
+  afterEach(() => {
+    manager?.dispose();
+    manager = null;
+  });
+
+  it('are not enabled by default', () => {
+    manager = new InteractiveSceneManager(createHeadlessEnvironment());
+    manager.initialize();
+    expect(manager.getCameraControlMode()).toBeNull();
+  });
+
+  it('keep a tweened camera rotation', () => {
+    manager = new InteractiveSceneManager(createHeadlessEnvironment());
+    manager.initialize();
+    manager.setupCameraControls('orbit');
+    const camera = manager.getCamera();
+    camera.rotation.set(0, 0.5, 0);
+    manager.tweens.to(camera, { 'rotation.y': 1 }, { duration: 0.1 });
+    for (let i = 0; i < 10; i++) manager.scheduler.step(1 / 60);
+
+    expect(camera.rotation.x).toBe(0);
+    expect(camera.rotation.y).toBe(1);
+  });
+});
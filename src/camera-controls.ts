@@ -0,0 +1,525 @@
+/**
+ * Three.js TypeScript Tutorial - 17. Camera Controls
+ *
+ * マウス・ホイール・タッチ・キーボードでカメラを動かす仕組みです。
+ * カメラの動きを計算する「コントローラー」と、DOMのイベントを入力の量に変換する「入力のバインディング」を分けているため、
+ * コントローラーには合成した入力を与えるだけで、ブラウザなしで動きを確かめられます。
+ *
+ * @example
+ * const controller = new OrbitController(camera, { target: { x: 0, y: 1, z: 0 }, enableDamping: false });
+ * controller.apply({ rotate: { x: 0.25, y: 0 } }); // 画面の高さの1/4だけ右へドラッグした
+ * controller.update(1 / 60);                       // カメラが注視点の周りを90°回る
+ */
+
+import * as THREE from 'three';
+import type {
+  CameraControlConfigMap,
+  CameraControlMode,
+  ControlInput,
+  FirstPersonControlsConfig,
+  FlyControlsConfig,
+  MovementAxes,
+  OrbitControlsConfig
+} from '../types/camera-control-types';
+import type { RenderSurface } from '../types/renderer-types';
+
+// ===================================================================
+// Part 1: Controller Base (コントローラーの基底クラス)
+// ===================================================================
+
+// これより小さい変化は「動いていない」とみなす。
+const EPSILON = 1e-6;
+
+/**
+ * カメラを動かすコントローラーの基底クラス。
+ * `apply`で受け取った入力と`setMovement`で設定した移動の向きを、`update`でカメラに反映する
+ */
+export abstract class CameraController {
+  public abstract readonly mode: CameraControlMode;
+  /** falseの間は、`CameraInputBinding`のドラッグ・ホイールの入力を受け付けない（ギズモのドラッグ中など） */
+  public enabled = true;
+  protected readonly movement: MovementAxes = { forward: 0, right: 0, up: 0, roll: 0 };
+
+  constructor(public readonly camera: THREE.Camera) {}
+
+  /**
+   * ドラッグやホイールなど、1回分の入力を受け取ります。カメラには次の`update`で反映されます。
+   */
+  public abstract apply(input: ControlInput): void;
+
+  /**
+   * キーを押している間続く移動の向きを設定します（指定しなかった軸は変わらない）。
+   */
+  public setMovement(axes: Partial<MovementAxes>): void {
+    Object.assign(this.movement, axes);
+  }
+
+  public getMovement(): Readonly<MovementAxes> {
+    return this.movement;
+  }
+
+  /**
+   * 受け取った入力をカメラに反映します。毎フレーム呼び出します。
+   * @returns カメラの位置または向きが変わった場合はtrue
+   */
+  public update(deltaTime: number): boolean {
+    const position = this.camera.position.clone();
+    const quaternion = this.camera.quaternion.clone();
+    this.step(deltaTime);
+    // quaternion.dot(q): 2つの回転が同じなら±1になる。
+    return position.distanceToSquared(this.camera.position) > EPSILON
+      || 1 - Math.abs(quaternion.dot(this.camera.quaternion)) > EPSILON;
+  }
+
+  protected abstract step(deltaTime: number): void;
+}
+
+// ===================================================================
+// Part 2: Orbit (注視点の周りを回る)
+// ===================================================================
+
+type OrbitSettings = Required<Omit<OrbitControlsConfig, 'target'>>;
+
+const ORBIT_DEFAULTS: Readonly<OrbitSettings> = {
+  minDistance: 0,
+  maxDistance: Infinity,
+  minPolarAngle: 0,
+  maxPolarAngle: Math.PI,
+  minAzimuthAngle: -Infinity,
+  maxAzimuthAngle: Infinity,
+  enableDamping: true,
+  dampingFactor: 0.1,
+  rotateSpeed: 1,
+  panSpeed: 1,
+  zoomSpeed: 1
+};
+
+// ホイールの1ノッチで、注視点までの距離を1/0.95倍にする。
+const ZOOM_STEP = Math.log(1 / 0.95);
+
+/**
+ * 注視点の周りをカメラが回るコントローラー（回転・平行移動・ズーム）
+ *
+ * 注視点からカメラへの向きを球面座標（距離・真上からの角度・水平の角度）で表し、入力で角度と距離を変える。
+ * 反映していない入力がない間はカメラに触れないため、トゥイーンやシーンドキュメントで設定した向きはそのまま保たれる。
+ * 入力は現在のカメラの位置から求めた球面座標に加え、前回の操作の後に外部からカメラが動かされていた場合は
+ * カメラの前方に注視点を置き直すため、操作を始めた瞬間に視界が跳ばない。
+ */
+export class OrbitController extends CameraController {
+  public readonly mode = 'orbit';
+  /** 注視点 */
+  public readonly target: THREE.Vector3;
+  private readonly settings: OrbitSettings;
+  // まだカメラに反映していない入力（慣性がある場合は毎フレーム少しずつ反映する）
+  private pendingTheta = 0;
+  private pendingPhi = 0;
+  private pendingZoom = 0;
+  private readonly pendingPan = new THREE.Vector3();
+  // 最後に入力を反映した後のカメラの位置と向き（外部からカメラが動かされたかの判定に使う）。
+  // 最初の入力の前と`setTarget`の後はnullで、注視点をそのまま使う。
+  private lastPose: { position: THREE.Vector3; quaternion: THREE.Quaternion } | null = null;
+
+  constructor(camera: THREE.Camera, config: OrbitControlsConfig = {}) {
+    super(camera);
+    const { target, ...settings } = config;
+    this.settings = { ...ORBIT_DEFAULTS, ...settings };
+    this.target = new THREE.Vector3(target?.x ?? 0, target?.y ?? 0, target?.z ?? 0);
+  }
+
+  public apply(input: ControlInput): void {
+    const { rotateSpeed, panSpeed, zoomSpeed } = this.settings;
+    if (input.rotate) {
+      // 画面の高さ分ドラッグすると1周する。
+      this.pendingTheta -= 2 * Math.PI * input.rotate.x * rotateSpeed;
+      this.pendingPhi -= 2 * Math.PI * input.rotate.y * rotateSpeed;
+    }
+    if (input.pan) this.addPan(input.pan.x * panSpeed, input.pan.y * panSpeed);
+    if (input.zoom !== undefined) this.pendingZoom += input.zoom * zoomSpeed * ZOOM_STEP;
+  }
+
+  /**
+   * 注視点を設定します。カメラは次に入力を反映するときに、この点の方を向きます。
+   */
+  public setTarget(x: number, y: number, z: number): void {
+    this.target.set(x, y, z);
+    this.lastPose = null;
+  }
+
+  /**
+   * カメラに反映していない入力（慣性で残っている動きを含む）があるかどうかを返します。
+   */
+  public hasPendingInput(): boolean {
+    return this.pendingTheta !== 0 || this.pendingPhi !== 0 || this.pendingZoom !== 0 || this.pendingPan.lengthSq() > 0;
+  }
+
+  protected step(deltaTime: number): void {
+    if (!this.hasPendingInput()) return;
+    if (this.lastPose && this.cameraMovedSince(this.lastPose)) this.syncTarget();
+    const { enableDamping, dampingFactor } = this.settings;
+    // 慣性がある場合、1フレーム（60fps換算）ごとに残りのdampingFactorの割合を反映する。
+    // フレームレートが変わっても、同じ時間で同じだけ動くように経過時間で補正する。
+    const amount = enableDamping ? 1 - Math.pow(1 - dampingFactor, deltaTime * 60) : 1;
+
+    // カメラのupが+Yでない場合も同じ計算で扱えるよう、+Yが上の空間に回転させてから球面座標にする。
+    const toYUp = new THREE.Quaternion().setFromUnitVectors(this.camera.up, new THREE.Vector3(0, 1, 0));
+    const offset = this.camera.position.clone().sub(this.target).applyQuaternion(toYUp);
+    // new THREE.Spherical().setFromVector3(v): ベクトルを球面座標（radius, phi: 真上からの角度, theta: 水平の角度）に変換する。
+    const spherical = new THREE.Spherical().setFromVector3(offset);
+
+    const { minAzimuthAngle, maxAzimuthAngle, minPolarAngle, maxPolarAngle, minDistance, maxDistance } = this.settings;
+    spherical.theta = THREE.MathUtils.clamp(spherical.theta + this.pendingTheta * amount, minAzimuthAngle, maxAzimuthAngle);
+    spherical.phi = THREE.MathUtils.clamp(spherical.phi + this.pendingPhi * amount, minPolarAngle, maxPolarAngle);
+    // spherical.makeSafe(): phiが0やπちょうどになると向きが決まらなくなるため、わずかにずらす。
+    spherical.makeSafe();
+
+    const scale = Math.exp(this.pendingZoom * amount);
+    if (this.camera instanceof THREE.OrthographicCamera) {
+      // 平行投影では距離を変えても大きさが変わらないため、zoomを変える。
+      this.camera.zoom = Math.max(this.camera.zoom / scale, EPSILON);
+      this.camera.updateProjectionMatrix();
+    } else {
+      spherical.radius = THREE.MathUtils.clamp(spherical.radius * scale, minDistance, maxDistance);
+    }
+
+    this.target.addScaledVector(this.pendingPan, amount);
+    offset.setFromSpherical(spherical).applyQuaternion(toYUp.invert());
+    this.camera.position.copy(this.target).add(offset);
+    this.camera.lookAt(this.target);
+    this.lastPose = { position: this.camera.position.clone(), quaternion: this.camera.quaternion.clone() };
+
+    this.pendingTheta = settle(this.pendingTheta * (1 - amount));
+    this.pendingPhi = settle(this.pendingPhi * (1 - amount));
+    this.pendingZoom = settle(this.pendingZoom * (1 - amount));
+    this.pendingPan.multiplyScalar(1 - amount);
+    if (this.pendingPan.lengthSq() < EPSILON * EPSILON) this.pendingPan.set(0, 0, 0);
+  }
+
+  private cameraMovedSince(pose: { position: THREE.Vector3; quaternion: THREE.Quaternion }): boolean {
+    return pose.position.distanceToSquared(this.camera.position) > EPSILON
+      || 1 - Math.abs(pose.quaternion.dot(this.camera.quaternion)) > EPSILON;
+  }
+
+  // 外部から動かされたカメラが注視点を向いていない場合は、同じ距離だけ前方の点を注視点にする。
+  // そのままlookAtすると、操作を始めた瞬間に元の注視点の方へ向きが跳ぶため。
+  private syncTarget(): void {
+    // 描画前でも正しいよう、matrixではなくquaternionから前方（-Z）を求める。
+    const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(this.camera.quaternion);
+    const toTarget = this.target.clone().sub(this.camera.position);
+    const distance = toTarget.length();
+    if (distance < EPSILON) return;
+    if (forward.dot(toTarget) / distance < 1 - EPSILON) this.target.copy(this.camera.position).addScaledVector(forward, distance);
+  }
+
+  // 画面上の移動量を、注視点の位置での3D空間の移動量に変換する。
+  private addPan(x: number, y: number): void {
+    let visibleHeight: number;
+    if (this.camera instanceof THREE.PerspectiveCamera) {
+      // 注視点の距離で、画面の高さに映る範囲の大きさ
+      const distance = this.camera.position.distanceTo(this.target);
+      visibleHeight = 2 * distance * Math.tan(THREE.MathUtils.degToRad(this.camera.fov / 2));
+    } else if (this.camera instanceof THREE.OrthographicCamera) {
+      visibleHeight = (this.camera.top - this.camera.bottom) / this.camera.zoom;
+    } else {
+      return;
+    }
+    // カメラの右方向と上方向（描画前でも正しいよう、matrixではなくquaternionから求める）
+    const right = new THREE.Vector3(1, 0, 0).applyQuaternion(this.camera.quaternion);
+    const up = new THREE.Vector3(0, 1, 0).applyQuaternion(this.camera.quaternion);
+    // ドラッグした方向に景色が動くよう、注視点は逆向きに動かす。
+    this.pendingPan.addScaledVector(right, -x * visibleHeight).addScaledVector(up, y * visibleHeight);
+  }
+}
+
+function settle(value: number): number {
+  return Math.abs(value) < EPSILON ? 0 : value;
+}
+
+// ===================================================================
+// Part 3: Fly & First Person (飛行・一人称視点)
+// ===================================================================
+
+const FLY_DEFAULTS: Readonly<Required<FlyControlsConfig>> = { moveSpeed: 5, lookSpeed: 1, rollSpeed: 1 };
+
+/**
+ * 向いている方向へ自由に飛ぶコントローラー。
+ * 回転はカメラ自身の軸を基準にするため、宙返りやロールもできる
+ */
+export class FlyController extends CameraController {
+  public readonly mode = 'fly';
+  private readonly settings: Required<FlyControlsConfig>;
+  private pendingYaw = 0;
+  private pendingPitch = 0;
+
+  constructor(camera: THREE.Camera, config: FlyControlsConfig = {}) {
+    super(camera);
+    this.settings = { ...FLY_DEFAULTS, ...config };
+  }
+
+  public apply(input: ControlInput): void {
+    if (!input.rotate) return;
+    // 画面の高さ分ドラッグすると半周（π × lookSpeed）する。
+    this.pendingYaw -= Math.PI * input.rotate.x * this.settings.lookSpeed;
+    this.pendingPitch -= Math.PI * input.rotate.y * this.settings.lookSpeed;
+  }
+
+  protected step(deltaTime: number): void {
+    const { moveSpeed, rollSpeed } = this.settings;
+    // object.rotateX/Y/Z(angle): オブジェクト自身の軸を中心に回転する。
+    this.camera.rotateY(this.pendingYaw);
+    this.camera.rotateX(this.pendingPitch);
+    // カメラの+Z軸は後ろ向きなので、右回りのロールは負の回転になる。
+    this.camera.rotateZ(-this.movement.roll * rollSpeed * deltaTime);
+    this.pendingYaw = 0;
+    this.pendingPitch = 0;
+
+    const distance = moveSpeed * deltaTime;
+    // object.translateX/Y/Z(distance): オブジェクト自身の軸の方向に移動する。カメラの前方は-Z。
+    this.camera.translateX(this.movement.right * distance);
+    this.camera.translateY(this.movement.up * distance);
+    this.camera.translateZ(-this.movement.forward * distance);
+  }
+}
+
+const FIRST_PERSON_DEFAULTS: Readonly<Required<FirstPersonControlsConfig>> = {
+  moveSpeed: 5,
+  lookSpeed: 1,
+  maxPitch: Math.PI / 2 - 0.01
+};
+
+/**
+ * 地面に立った人の視点で歩くコントローラー。
+ * 水平の向き（yaw）と上下の向き（pitch）だけを変え、前後左右の移動は水平面上に限られる
+ */
+export class FirstPersonController extends CameraController {
+  public readonly mode = 'firstPerson';
+  private readonly settings: Required<FirstPersonControlsConfig>;
+  private pendingYaw = 0;
+  private pendingPitch = 0;
+
+  constructor(camera: THREE.Camera, config: FirstPersonControlsConfig = {}) {
+    super(camera);
+    this.settings = { ...FIRST_PERSON_DEFAULTS, ...config };
+  }
+
+  public apply(input: ControlInput): void {
+    if (!input.rotate) return;
+    this.pendingYaw -= Math.PI * input.rotate.x * this.settings.lookSpeed;
+    this.pendingPitch -= Math.PI * input.rotate.y * this.settings.lookSpeed;
+  }
+
+  protected step(deltaTime: number): void {
+    const { moveSpeed, maxPitch } = this.settings;
+    // 'YXZ'の順のオイラー角では、yが水平の向き、xが上下の向きになる。
+    const euler = new THREE.Euler().setFromQuaternion(this.camera.quaternion, 'YXZ');
+    euler.y += this.pendingYaw;
+    euler.x = THREE.MathUtils.clamp(euler.x + this.pendingPitch, -maxPitch, maxPitch);
+    // 首をかしげた状態（ロール）は元に戻す。
+    euler.z = 0;
+    this.camera.quaternion.setFromEuler(euler);
+    this.pendingYaw = 0;
+    this.pendingPitch = 0;
+
+    const distance = moveSpeed * deltaTime;
+    const forward = new THREE.Vector3(-Math.sin(euler.y), 0, -Math.cos(euler.y));
+    const right = new THREE.Vector3(Math.cos(euler.y), 0, -Math.sin(euler.y));
+    this.camera.position
+      .addScaledVector(forward, this.movement.forward * distance)
+      .addScaledVector(right, this.movement.right * distance);
+    this.camera.position.y += this.movement.up * distance;
+  }
+}
+
+/**
+ * 操作モードに対応するコントローラーを作成します。
+ */
+export function createCameraController<M extends CameraControlMode>(
+  mode: M,
+  camera: THREE.Camera,
+  config: CameraControlConfigMap[M] = {}
+): CameraController {
+  const modeName: CameraControlMode = mode;
+  switch (modeName) {
+    case 'orbit':
+      return new OrbitController(camera, config as OrbitControlsConfig);
+    case 'fly':
+      return new FlyController(camera, config as FlyControlsConfig);
+    case 'firstPerson':
+      return new FirstPersonController(camera, config as FirstPersonControlsConfig);
+    default: {
+      const exhaustiveCheck: never = modeName;
+      throw new Error(`Unknown camera control mode: ${String(exhaustiveCheck)}`);
+    }
+  }
+}
+
+// ===================================================================
+// Part 4: DOM Input (DOMのイベントから入力への変換)
+// ===================================================================
+
+/**
+ * 押している間、移動が続くキー（KeyboardEvent.codeで判定するため、キーボードの配列に左右されない）
+ * - W/S, ↑/↓: 前後、A/D, ←/→: 左右、R/F: 上下、Q/E: ロール（flyのみ）
+ */
+export const MOVEMENT_KEYS: Readonly<Record<string, readonly [keyof MovementAxes, number]>> = {
+  KeyW: ['forward', 1],
+  ArrowUp: ['forward', 1],
+  KeyS: ['forward', -1],
+  ArrowDown: ['forward', -1],
+  KeyD: ['right', 1],
+  ArrowRight: ['right', 1],
+  KeyA: ['right', -1],
+  ArrowLeft: ['right', -1],
+  KeyR: ['up', 1],
+  KeyF: ['up', -1],
+  KeyE: ['roll', 1],
+  KeyQ: ['roll', -1]
+};
+
+// WheelEvent.deltaModeごとの、ホイール1ノッチ分の量（0: ピクセル, 1: 行, 2: ページ）
+const WHEEL_STEP_SIZE = [100, 3, 1];
+
+interface PointerPosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * 要素のポインター・ホイールと、ウィンドウのキーボードのイベントを、コントローラーへの入力に変換します。
+ *
+ * - マウス: 左ドラッグで回転（視点の向き）、右・中ドラッグまたはShift+左ドラッグで平行移動、ホイールでズーム
+ * - タッチ: 1本指で回転、2本指の移動で平行移動、ピンチでズーム
+ * - キーボード: `MOVEMENT_KEYS`で移動
+ *
+ * 入力先のコントローラーは関数で受け取るため、操作モードを切り替えてもイベントを登録し直す必要はない。
+ */
+export class CameraInputBinding {
+  // abortController.abort(): signalを指定して登録したイベントリスナーを、まとめて解除する。
+  private readonly listeners = new AbortController();
+  private readonly pointers = new Map<number, PointerPosition>();
+  private readonly pressedKeys = new Set<string>();
+  private dragAction: 'rotate' | 'pan' = 'rotate';
+  private readonly previousTouchAction: string;
+
+  /**
+   * @param keyTarget キーボードのイベントを受け取る対象 デフォルト: window
+   */
+  constructor(
+    private readonly element: RenderSurface,
+    private readonly getController: () => CameraController | null,
+    keyTarget: EventTarget = window
+  ) {
+    const { signal } = this.listeners;
+    // touch-action: none: タッチ操作でブラウザがページをスクロール・拡大しないようにする。
+    this.previousTouchAction = element.style.touchAction;
+    element.style.touchAction = 'none';
+
+    element.addEventListener('pointerdown', e => this.onPointerDown(e), { signal });
+    element.addEventListener('pointermove', e => this.onPointerMove(e), { signal });
+    element.addEventListener('pointerup', e => this.onPointerUp(e), { signal });
+    element.addEventListener('pointercancel', e => this.onPointerUp(e), { signal });
+    // passive: false: preventDefault()でページのスクロールを止めるために必要。
+    element.addEventListener('wheel', e => this.onWheel(e), { signal, passive: false });
+    // 右ドラッグで平行移動するため、右クリックのメニューを出さない。
+    element.addEventListener('contextmenu', e => e.preventDefault(), { signal });
+    keyTarget.addEventListener('keydown', e => this.onKey(e as KeyboardEvent, true), { signal });
+    keyTarget.addEventListener('keyup', e => this.onKey(e as KeyboardEvent, false), { signal });
+    // キーを押したままウィンドウの外に出ると、keyupが届かず移動し続けてしまう。
+    keyTarget.addEventListener('blur', () => this.releaseKeys(), { signal });
+  }
+
+  /**
+   * 押されているキーから求めた移動の向きを、現在のコントローラーに設定し直します。
+   * 操作モードを切り替えた後に呼び出します。
+   */
+  public syncMovement(): void {
+    const axes: MovementAxes = { forward: 0, right: 0, up: 0, roll: 0 };
+    this.pressedKeys.forEach(code => {
+      const [axis, direction] = MOVEMENT_KEYS[code];
+      axes[axis] = THREE.MathUtils.clamp(axes[axis] + direction, -1, 1);
+    });
+    this.getController()?.setMovement(axes);
+  }
+
+  /**
+   * 全てのイベントリスナーを解除します。
+   */
+  public dispose(): void {
+    this.listeners.abort();
+    this.element.style.touchAction = this.previousTouchAction;
+    this.pointers.clear();
+    this.releaseKeys();
+  }
+
+  private onPointerDown(event: PointerEvent): void {
+    // element.setPointerCapture(id): 要素の外に出ても、離すまでこの要素にポインターのイベントを届ける。
+    this.element.setPointerCapture(event.pointerId);
+    this.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    if (event.pointerType === 'mouse') {
+      // event.button: 0が左、1が中、2が右ボタン
+      this.dragAction = event.button === 0 && !event.shiftKey ? 'rotate' : 'pan';
+    }
+  }
+
+  private onPointerMove(event: PointerEvent): void {
+    const previous = this.pointers.get(event.pointerId);
+    if (!previous) return;
+    const controller = this.activeController();
+    const height = this.element.clientHeight || 1;
+
+    if (this.pointers.size === 1) {
+      const delta = { x: (event.clientX - previous.x) / height, y: (event.clientY - previous.y) / height };
+      controller?.apply(event.pointerType === 'mouse' && this.dragAction === 'pan' ? { pan: delta } : { rotate: delta });
+    } else if (this.pointers.size === 2) {
+      // 2本指: 中点の移動で平行移動、指の間隔の変化でズームする。
+      const other = [...this.pointers.entries()].find(([id]) => id !== event.pointerId)?.[1] ?? previous;
+      const current = { x: event.clientX, y: event.clientY };
+      const previousSpan = Math.hypot(previous.x - other.x, previous.y - other.y);
+      const currentSpan = Math.hypot(current.x - other.x, current.y - other.y);
+      controller?.apply({
+        // 1本の指だけが動いた場合、中点はその半分だけ動く。
+        pan: { x: (current.x - previous.x) / 2 / height, y: (current.y - previous.y) / 2 / height },
+        // 指を広げると近づく（距離が previousSpan / currentSpan 倍になる）。
+        zoom: previousSpan > 0 && currentSpan > 0 ? Math.log(previousSpan / currentSpan) / ZOOM_STEP : 0
+      });
+    }
+    this.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+  }
+
+  private onPointerUp(event: PointerEvent): void {
+    this.pointers.delete(event.pointerId);
+    if (this.element.hasPointerCapture(event.pointerId)) this.element.releasePointerCapture(event.pointerId);
+  }
+
+  private onWheel(event: WheelEvent): void {
+    event.preventDefault();
+    this.activeController()?.apply({ zoom: event.deltaY / (WHEEL_STEP_SIZE[event.deltaMode] ?? 1) });
+  }
+
+  private activeController(): CameraController | null {
+    const controller = this.getController();
+    return controller?.enabled ? controller : null;
+  }
+
+  private onKey(event: KeyboardEvent, pressed: boolean): void {
+    if (!(event.code in MOVEMENT_KEYS) || isEditable(event.target)) return;
+    if (pressed) this.pressedKeys.add(event.code);
+    else this.pressedKeys.delete(event.code);
+    this.syncMovement();
+  }
+
+  private releaseKeys(): void {
+    this.pressedKeys.clear();
+    this.getController()?.setMovement({ forward: 0, right: 0, up: 0, roll: 0 });
+  }
+}
+
+/**
+ * キーボードのイベントが入力欄（input・textarea・contenteditable）で発生したかどうか。
+ * 入力欄で文字を打っている間は、カメラの移動などのショートカットに反応しないようにする。
+ */
+export function isEditable(target: EventTarget | null): boolean {
+  // ヘッドレス環境（Node.js）にはHTMLElementがないため、入力欄はない。
+  if (typeof HTMLElement === 'undefined') return false;
+  return target instanceof HTMLElement
+    && (target.isContentEditable || target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement);
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import type { Command } from '../types/history-types';
+import { CommandHistory, CommandHistoryError, createCommand } from './command-history';
+
+// 値を1つ書き換えるコマンド。履歴から外れたときの状態を記録する。
+function setter(state: { value: number; disposed: Map<string, boolean> }, label: string, value: number): Command {
+  const before = state.value;
+  return createCommand({
+    label,
+    do: () => {
+      state.value = value;
+    },
+    undo: () => {
+      state.value = before;
+    },
+    dispose: applied => {
+      state.disposed.set(label, applied);
+    }
+  });
+}
+
+function createState(): { value: number; disposed: Map<string, boolean> } {
+  return { value: 0, disposed: new Map() };
+}
+
+describe('CommandHistory', () => {
+  it('drops the oldest edits beyond the limit and disposes them as applied', () => {
+    const state = createState();
+    const history = new CommandHistory({ limit: 2 });
+    history.execute(setter(state, 'one', 1));
+    history.execute(setter(state, 'two', 2));
+    history.execute(setter(state, 'three', 3));
+
+    expect(state.disposed.get('one')).toBe(true);
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(true);
+    expect(history.undo()).toBe(false);
+    expect(state.value).toBe(1);
+
+    history.redo();
+    history.setLimit(1);
+    expect(history.getState()).toMatchObject({ undoLabel: 'two', redoLabel: 'three' });
+  });
+
+  it('disposes redo entries as not applied when a new edit is recorded', () => {
+    const state = createState();
+    const history = new CommandHistory();
+    history.execute(setter(state, 'one', 1));
+    history.undo();
+    history.execute(setter(state, 'two', 2));
+
+    expect(state.disposed.get('one')).toBe(false);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('records a transaction as one edit and undoes it in reverse order', () => {
+    const state = createState();
+    const history = new CommandHistory();
+    history.transaction('Both', () => {
+      history.execute(setter(state, 'one', 1));
+      history.execute(setter(state, 'two', 2));
+    });
+
+    expect(history.getState()).toMatchObject({ canUndo: true, undoLabel: 'Both' });
+    history.undo();
+    expect(state.value).toBe(0);
+    expect(history.canUndo()).toBe(false);
+    history.redo();
+    expect(state.value).toBe(2);
+  });
+
+  it('rolls back a transaction whose callback throws', () => {
+    const state = createState();
+    const history = new CommandHistory();
+
+    expect(() => history.transaction('Fails', () => {
+      history.execute(setter(state, 'one', 1));
+      throw new Error('failed');
+    })).toThrow('failed');
+    expect(state.value).toBe(0);
+    expect(state.disposed.get('one')).toBe(false);
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('refuses to undo while a transaction is open', () => {
+    const history = new CommandHistory();
+    history.beginTransaction('Open');
+
+    expect(() => history.undo()).toThrow(CommandHistoryError);
+    history.cancelTransaction();
+    expect(() => history.commitTransaction()).toThrow(CommandHistoryError);
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * Three.js TypeScript Tutorial - 22. Command History
+ *
+ * シーンの編集を「コマンド」（適用する処理`do`と取り消す処理`undo`の組）として記録し、
+ * 元に戻す（undo）・やり直す（redo）仕組みです。複数のコマンドをトランザクションにまとめると、
+ * 1回の操作として元に戻せます。履歴から外れたコマンドは`dispose`で、残していたリソースを解放します。
+ *
+ * @example
+ * const history = new CommandHistory({ limit: 50 });
+ * history.execute(createColorCommand([material], 0xff0000));
+ * history.transaction('Align objects', () => {
+ *   meshes.forEach(mesh => history.execute(createTransformCommand(mesh, captureTransform(mesh), { position: { y: 0 } })));
+ * });
+ * history.undo(); // 2つのメッシュの位置がまとめて戻る
+ * const unbind = bindHistoryShortcuts(history); // Ctrl+Z / Ctrl+Shift+Z
+ */
+
+import * as THREE from 'three';
+import { isEditable } from './camera-controls';
+import { applyTransform } from './transform-controls';
+import type { Transform } from '../types/geometry-types';
+import type {
+  Command,
+  CommandDefinition,
+  CommandHistoryOptions,
+  HistoryEventMap,
+  HistoryState
+} from '../types/history-types';
+
+/**
+ * トランザクションの途中で元に戻そうとした場合など、履歴を正しく操作できない場合のエラー
+ */
+export class CommandHistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandHistoryError';
+  }
+}
+
+// ===================================================================
+// Part 1: Commands (コマンド)
+// ===================================================================
+
+/**
+ * 関数の組からコマンドを作成します。
+ */
+export function createCommand(definition: CommandDefinition): Command {
+  return { ...definition };
+}
+
+/**
+ * 複数のコマンドを1つにまとめたコマンド。適用は追加した順に、取り消しは逆の順に行います。
+ */
+export class CompositeCommand implements Command {
+  private readonly commands: Command[];
+
+  constructor(public readonly label: string, commands: readonly Command[] = []) {
+    this.commands = [...commands];
+  }
+
+  public add(command: Command): void {
+    this.commands.push(command);
+  }
+
+  public isEmpty(): boolean {
+    return this.commands.length === 0;
+  }
+
+  public do(): void {
+    this.commands.forEach(command => command.do());
+  }
+
+  public undo(): void {
+    [...this.commands].reverse().forEach(command => command.undo());
+  }
+
+  public dispose(applied: boolean): void {
+    this.commands.forEach(command => command.dispose?.(applied));
+  }
+}
+
+/**
+ * オブジェクトの変換（位置・回転・拡大縮小率）を変えるコマンドを作成します。
+ */
+export function createTransformCommand(
+  object: THREE.Object3D,
+  before: Transform,
+  after: Transform,
+  label = 'Transform object'
+): Command {
+  return createCommand({
+    label,
+    do: () => applyTransform(object, after),
+    undo: () => applyTransform(object, before)
+  });
+}
+
+/**
+ * 色を持つマテリアル（MeshBasicMaterial・MeshStandardMaterialなど）
+ */
+export type ColoredMaterial = THREE.Material & { color: THREE.Color };
+
+/**
+ * マテリアルの色を変えるコマンドを作成します。取り消すと、作成した時点の色に戻ります。
+ */
+export function createColorCommand(
+  materials: readonly ColoredMaterial[],
+  color: THREE.ColorRepresentation,
+  label = 'Change color'
+): Command {
+  const before = materials.map(material => material.color.clone());
+  const after = new THREE.Color(color);
+  return createCommand({
+    label,
+    do: () => materials.forEach(material => material.color.copy(after)),
+    undo: () => materials.forEach((material, i) => material.color.copy(before[i]))
+  });
+}
+
+// ===================================================================
+// Part 2: History (履歴)
+// ===================================================================
+
+/**
+ * 実行したコマンドを記録し、元に戻す・やり直す履歴
+ */
+export class CommandHistory extends THREE.EventDispatcher<HistoryEventMap> {
+  private readonly undoStack: Command[] = [];
+  private readonly redoStack: Command[] = [];
+  // 開いているトランザクション（入れ子にできる。最後の要素が一番内側）
+  private readonly transactions: CompositeCommand[] = [];
+  // コマンドのdo・undoを実行している間はtrue（その中で呼ばれたexecuteは記録しない）
+  private applying = false;
+  private limit: number;
+
+  constructor(options: CommandHistoryOptions = {}) {
+    super();
+    this.limit = Math.max(1, options.limit ?? 100);
+  }
+
+  /**
+   * コマンドを適用して記録します。トランザクションの途中であれば、トランザクションに加えます。
+   * 他のコマンドのdo・undoの中から呼ばれた場合は、適用だけを行います（そのコマンドの一部として扱われる）。
+   */
+  public execute(command: Command): void {
+    if (this.applying) {
+      command.do();
+      return;
+    }
+    this.apply(() => command.do());
+    this.record(command);
+  }
+
+  /**
+   * 適用済みの編集をコマンドとして記録します（ドラッグで動かし終えたオブジェクトなど）。
+   */
+  public record(command: Command): void {
+    if (this.applying) return;
+    const transaction = this.transactions[this.transactions.length - 1];
+    if (transaction) {
+      transaction.add(command);
+      return;
+    }
+    this.discardRedo();
+    this.undoStack.push(command);
+    this.trim();
+    this.notify('execute');
+  }
+
+  /**
+   * トランザクションを始めます。`commitTransaction`までに実行したコマンドは、1回の操作として記録されます。
+   */
+  public beginTransaction(label: string): void {
+    this.transactions.push(new CompositeCommand(label));
+  }
+
+  /**
+   * トランザクションを終え、まとめたコマンドを記録します。コマンドがなければ何も記録しません。
+   * @throws {CommandHistoryError} トランザクションが開かれていない場合
+   */
+  public commitTransaction(): void {
+    const transaction = this.transactions.pop();
+    if (!transaction) throw new CommandHistoryError('No transaction is open');
+    if (!transaction.isEmpty()) this.record(transaction);
+  }
+
+  /**
+   * トランザクションを取りやめ、その中で実行したコマンドを取り消します。
+   * @throws {CommandHistoryError} トランザクションが開かれていない場合
+   */
+  public cancelTransaction(): void {
+    const transaction = this.transactions.pop();
+    if (!transaction) throw new CommandHistoryError('No transaction is open');
+    this.apply(() => transaction.undo());
+    transaction.dispose(false);
+  }
+
+  /**
+   * 関数の中で実行したコマンドを、1回の操作として記録します。関数が例外を投げた場合は取り消します。
+   */
+  public transaction<T>(label: string, callback: () => T): T {
+    this.beginTransaction(label);
+    let result: T;
+    try {
+      result = callback();
+    } catch (error) {
+      this.cancelTransaction();
+      throw error;
+    }
+    this.commitTransaction();
+    return result;
+  }
+
+  public isInTransaction(): boolean {
+    return this.transactions.length > 0;
+  }
+
+  /**
+   * 最後の操作を元に戻します。
+   * @returns 元に戻した場合はtrue
+   * @throws {CommandHistoryError} トランザクションの途中の場合
+   */
+  public undo(): boolean {
+    this.assertNoTransaction('undo');
+    const command = this.undoStack.pop();
+    if (!command) return false;
+    this.apply(() => command.undo());
+    this.redoStack.push(command);
+    this.notify('undo');
+    return true;
+  }
+
+  /**
+   * 元に戻した操作をやり直します。
+   * @returns やり直した場合はtrue
+   * @throws {CommandHistoryError} トランザクションの途中の場合
+   */
+  public redo(): boolean {
+    this.assertNoTransaction('redo');
+    const command = this.redoStack.pop();
+    if (!command) return false;
+    this.apply(() => command.do());
+    this.undoStack.push(command);
+    this.notify('redo');
+    return true;
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  public getState(): HistoryState {
+    return {
+      canUndo: this.canUndo(),
+      canRedo: this.canRedo(),
+      undoLabel: this.undoStack[this.undoStack.length - 1]?.label ?? null,
+      redoLabel: this.redoStack[this.redoStack.length - 1]?.label ?? null
+    };
+  }
+
+  /**
+   * 元に戻せる操作の数を変更します。超えた分は古いものから履歴を外れます。
+   */
+  public setLimit(limit: number): void {
+    this.limit = Math.max(1, limit);
+    this.trim();
+  }
+
+  /**
+   * 履歴を全て消去します。コマンドが残していたリソースは解放されます。
+   */
+  public clear(): void {
+    const hadHistory = this.canUndo() || this.canRedo();
+    this.undoStack.splice(0).forEach(command => command.dispose?.(true));
+    this.discardRedo();
+    if (hadHistory) this.notify('clear');
+  }
+
+  /**
+   * 開いているトランザクションを確定し、履歴を消去します。
+   */
+  public dispose(): void {
+    while (this.transactions.length > 0) this.commitTransaction();
+    this.clear();
+  }
+
+  private apply(callback: () => void): void {
+    this.applying = true;
+    try {
+      callback();
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  private discardRedo(): void {
+    // やり直せなくなったコマンドは、取り消された状態のまま履歴を外れる。
+    this.redoStack.splice(0).forEach(command => command.dispose?.(false));
+  }
+
+  private trim(): void {
+    while (this.undoStack.length > this.limit) this.undoStack.shift()?.dispose?.(true);
+  }
+
+  private assertNoTransaction(action: string): void {
+    if (this.isInTransaction()) throw new CommandHistoryError(`Cannot ${action} while a transaction is open`);
+  }
+
+  private notify(action: HistoryEventMap['change']['action']): void {
+    this.dispatchEvent({ type: 'change', action, ...this.getState() });
+  }
+}
+
+// ===================================================================
+// Part 3: Keyboard Shortcuts (キーボードショートカット)
+// ===================================================================
+
+/**
+ * Ctrl+Z（macOSでは⌘+Z）で元に戻し、Ctrl+Shift+ZまたはCtrl+Yでやり直すショートカットを登録します。
+ * 入力欄で文字を打っている間と、トランザクションの途中では反応しません。
+ * @returns 登録を解除する関数
+ */
+export function bindHistoryShortcuts(history: CommandHistory, target: EventTarget = window): () => void {
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditable(event.target)) return;
+    // event.key: Shiftを押していると大文字になるため、小文字にそろえて比べる。
+    const key = event.key.toLowerCase();
+    if (key !== 'z' && key !== 'y') return;
+    event.preventDefault();
+    if (history.isInTransaction()) return;
+    if (key === 'y' || event.shiftKey) history.redo();
+    else history.undo();
+  };
+  const listener = onKeyDown as EventListener;
+  target.addEventListener('keydown', listener);
+  return () => target.removeEventListener('keydown', listener);
+}
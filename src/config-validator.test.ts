@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ValidationIssue } from '../types/validation-types';
+import { ConfigValidationError, validateGeometryConfig, validateMaterialConfig } from './config-validator';
+
+const outOfRange = { type: 'box', config: { width: -1, heightSegments: 2.5 } };
+const unknownType = { type: 'nope', config: {} };
+
+describe('validateGeometryConfig', () => {
+  it('reports issues without correcting or throwing in report mode', () => {
+    const result = validateGeometryConfig(outOfRange);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(issue => [issue.path, issue.resolution])).toEqual([
+      ['$.config.width', 'clamped'],
+      ['$.config.heightSegments', 'clamped']
+    ]);
+    expect(validateGeometryConfig(unknownType).value).toBeNull();
+  });
+
+  it('throws on any issue in strict mode', () => {
+    expect(() => validateGeometryConfig(outOfRange, { mode: 'strict' })).toThrow(ConfigValidationError);
+    expect(validateGeometryConfig({ type: 'box', config: { width: 2 } }, { mode: 'strict' }).valid).toBe(true);
+  });
+
+  it('corrects values and passes each issue to onWarning in lenient mode', () => {
+    const warnings: ValidationIssue[] = [];
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const result = validateGeometryConfig(outOfRange, { mode: 'lenient', onWarning: issue => warnings.push(issue) });
+
+    expect(result.value).toEqual({ type: 'box', config: { width: 0, heightSegments: 3 } });
+    expect(warnings).toEqual(result.issues);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('throws only the unresolved issues in lenient mode', () => {
+    const onWarning = vi.fn();
+    expect(() => validateGeometryConfig(unknownType, { mode: 'lenient', onWarning })).toThrow(/Unknown type "nope"/);
+    expect(onWarning).not.toHaveBeenCalled();
+  });
+});
+
+describe('validateMaterialConfig', () => {
+  it('requires shader sources to define main()', () => {
+    const shader = (fragmentShader: string) =>
+      validateMaterialConfig({ type: 'shader', config: { vertexShader: 'void main() {}', fragmentShader } });
+
+    expect(shader('void main ( ) { gl_FragColor = vec4(1.0); }').valid).toBe(true);
+    expect(shader('uniform float domain;').issues.map(issue => issue.path)).toEqual(['$.config.fragmentShader']);
+    expect(shader('// main\nvoid other() {}').valid).toBe(false);
+  });
+});
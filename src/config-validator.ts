@@ -0,0 +1,1000 @@
+/**
+ * Three.js TypeScript Tutorial - 05. Config Validator
+ *
+ * JSONファイルやネットワークから受け取った値は、TypeScriptの型チェックを通っていません。
+ * このファイルでは、`GeometryConfig`・`MaterialConfig`・`Transform`・`ObjectConfig`を
+ * 実行時に検査し、問題をJSONパス・値・許容範囲付きで報告するバリデーターを提供します。
+ * シーンドキュメントに保存されるカメラとライトの設定も、同じ仕組みで検査します。
+ */
+
+import * as THREE from 'three';
+import type {
+  AnimationConfig,
+  BuiltinGeometryType,
+  BuiltinMaterialType,
+  GeometryConfig,
+  MaterialConfig,
+  ObjectConfig,
+  PrimitiveObjectConfig,
+  Transform
+} from '../types/geometry-types';
+import type { LightConfig, LightType } from '../types/light-types';
+import type { CameraDocument } from '../types/scene-document-types';
+import type {
+  IssueResolution,
+  NumericRange,
+  ValidationIssue,
+  ValidationOptions,
+  ValidationResult
+} from '../types/validation-types';
+import { getParametricSurfaceNames, isParametricSurfaceRegistered } from './procedural-geometry';
+import { isEncodedUniformValue } from './shader-material';
+import {
+  getGeometryDefinition,
+  getMaterialDefinition,
+  getRegisteredGeometryTypes,
+  getRegisteredMaterialTypes
+} from './type-registry';
+
+/**
+ * strictモード（またはlenientモードで修正できない問題）で投げられるエラー
+ */
+export class ConfigValidationError extends Error {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super(`Invalid config:\n${issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+// ===================================================================
+// Part 1: Schemas (許容値の定義)
+// ===================================================================
+
+type FieldRule =
+  | ({ kind: 'number' } & NumericRange)
+  | { kind: 'boolean' }
+  | { kind: 'color' }
+  | { kind: 'side' }
+  | { kind: 'texture' }
+  | { kind: 'vector2' }
+  | { kind: 'points'; dimensions: 2 | 3; min: number }
+  | { kind: 'holes' }
+  | { kind: 'option'; values: readonly string[] }
+  | { kind: 'heightmap' }
+  | { kind: 'colorStops' }
+  | { kind: 'surface' }
+  | { kind: 'shaderSource' }
+  | { kind: 'identifier'; nullable: boolean }
+  | { kind: 'uniforms' }
+  | { kind: 'defines' }
+  | { kind: 'string' }
+  | { kind: 'vector3' }
+  | { kind: 'nested'; schema: ConfigSchema }
+  | { kind: 'unchecked' };
+
+type ConfigSchema = Record<string, FieldRule>;
+
+const TWO_PI = Math.PI * 2;
+const MAX_SEGMENTS = 1024;
+
+const size: FieldRule = { kind: 'number', min: 0 };
+const angle: FieldRule = { kind: 'number' };
+const fullTurn: FieldRule = { kind: 'number', min: 0, max: TWO_PI };
+const unit: FieldRule = { kind: 'number', min: 0, max: 1 };
+const nonNegative: FieldRule = { kind: 'number', min: 0 };
+const segments = (min: number): FieldRule => ({ kind: 'number', min, max: MAX_SEGMENTS, integer: true });
+const polyhedron: ConfigSchema = { radius: size, detail: { kind: 'number', min: 0, max: 6, integer: true } };
+
+// マップ型を使うことで、組み込みのタイプを追加した際にスキーマの追加漏れがコンパイルエラーになる。
+const GEOMETRY_SCHEMAS: { [K in BuiltinGeometryType]: ConfigSchema } = {
+  box: {
+    width: size, height: size, depth: size,
+    widthSegments: segments(1), heightSegments: segments(1), depthSegments: segments(1)
+  },
+  sphere: {
+    radius: size, widthSegments: segments(3), heightSegments: segments(2),
+    phiStart: angle, phiLength: fullTurn, thetaStart: angle, thetaLength: { kind: 'number', min: 0, max: Math.PI }
+  },
+  cone: {
+    radius: size, height: size, radialSegments: segments(3), heightSegments: segments(1),
+    openEnded: { kind: 'boolean' }, thetaStart: angle, thetaLength: fullTurn
+  },
+  cylinder: {
+    radiusTop: size, radiusBottom: size, height: size, radialSegments: segments(3), heightSegments: segments(1),
+    openEnded: { kind: 'boolean' }, thetaStart: angle, thetaLength: fullTurn
+  },
+  torus: { radius: size, tube: size, radialSegments: segments(2), tubularSegments: segments(3), arc: fullTurn },
+  plane: { width: size, height: size, widthSegments: segments(1), heightSegments: segments(1) },
+  ring: {
+    innerRadius: size, outerRadius: size, thetaSegments: segments(3), phiSegments: segments(1),
+    thetaStart: angle, thetaLength: fullTurn
+  },
+  circle: { radius: size, segments: segments(3), thetaStart: angle, thetaLength: fullTurn },
+  dodecahedron: polyhedron,
+  icosahedron: polyhedron,
+  octahedron: polyhedron,
+  tetrahedron: polyhedron,
+  capsule: {
+    radius: size, height: size, capSegments: segments(1), radialSegments: segments(3), heightSegments: segments(1)
+  },
+  torusKnot: {
+    radius: size, tube: size, tubularSegments: segments(3), radialSegments: segments(3),
+    p: { kind: 'number', min: 1, integer: true }, q: { kind: 'number', min: 1, integer: true }
+  },
+  lathe: {
+    points: { kind: 'points', dimensions: 2, min: 2 }, segments: segments(1), phiStart: angle, phiLength: fullTurn
+  },
+  extrude: {
+    shape: { kind: 'points', dimensions: 2, min: 3 }, holes: { kind: 'holes' },
+    depth: nonNegative, steps: segments(1), curveSegments: segments(1),
+    bevelEnabled: { kind: 'boolean' }, bevelThickness: nonNegative,
+    bevelSize: { kind: 'number' }, bevelOffset: { kind: 'number' }, bevelSegments: segments(1)
+  },
+  tube: {
+    path: { kind: 'points', dimensions: 3, min: 2 }, tubularSegments: segments(1), radius: size,
+    radialSegments: segments(3), closed: { kind: 'boolean' },
+    curveType: { kind: 'option', values: ['centripetal', 'chordal', 'catmullrom'] }, tension: unit
+  },
+  terrain: {
+    width: size, depth: size, widthSegments: segments(1), depthSegments: segments(1),
+    height: { kind: 'number' }, heightmap: { kind: 'heightmap' }, seed: { kind: 'number', integer: true },
+    octaves: { kind: 'number', min: 1, max: 16, integer: true }, persistence: unit,
+    lacunarity: { kind: 'number', min: 1 }, frequency: nonNegative, colors: { kind: 'colorStops' }
+  },
+  parametric: {
+    surface: { kind: 'surface' }, uSegments: segments(1), vSegments: segments(1), colors: { kind: 'colorStops' }
+  }
+};
+
+const baseMaterial: ConfigSchema = {
+  color: { kind: 'color' },
+  transparent: { kind: 'boolean' },
+  opacity: unit,
+  visible: { kind: 'boolean' },
+  side: { kind: 'side' },
+  wireframe: { kind: 'boolean' },
+  vertexColors: { kind: 'boolean' }
+};
+const lambertMaterial: ConfigSchema = {
+  ...baseMaterial,
+  emissive: { kind: 'color' },
+  emissiveIntensity: nonNegative,
+  map: { kind: 'texture' }
+};
+const standardMaterial: ConfigSchema = {
+  ...baseMaterial,
+  roughness: unit,
+  metalness: unit,
+  emissive: { kind: 'color' },
+  emissiveIntensity: nonNegative,
+  envMapIntensity: nonNegative,
+  map: { kind: 'texture' },
+  normalMap: { kind: 'texture' },
+  roughnessMap: { kind: 'texture' },
+  metalnessMap: { kind: 'texture' }
+};
+
+// マテリアル設定の`map`などに書かれたTextureConfigのスキーマ（sourceは'texture'の検査で確認する）。
+const TEXTURE_SCHEMA: ConfigSchema = {
+  source: { kind: 'unchecked' },
+  repeat: { kind: 'vector2' },
+  offset: { kind: 'vector2' },
+  rotation: angle,
+  center: { kind: 'vector2' },
+  wrapS: { kind: 'option', values: ['clamp', 'repeat', 'mirror'] },
+  wrapT: { kind: 'option', values: ['clamp', 'repeat', 'mirror'] },
+  magFilter: { kind: 'option', values: ['nearest', 'linear'] },
+  minFilter: {
+    kind: 'option',
+    values: [
+      'nearest',
+      'linear',
+      'nearest-mipmap-nearest',
+      'nearest-mipmap-linear',
+      'linear-mipmap-nearest',
+      'linear-mipmap-linear'
+    ]
+  },
+  anisotropy: { kind: 'number', min: 1 },
+  colorSpace: { kind: 'option', values: ['srgb', 'linear'] },
+  flipY: { kind: 'boolean' }
+};
+
+const MATERIAL_SCHEMAS: { [K in BuiltinMaterialType]: ConfigSchema } = {
+  basic: baseMaterial,
+  lambert: lambertMaterial,
+  phong: { ...lambertMaterial, specular: { kind: 'color' }, shininess: nonNegative },
+  standard: standardMaterial,
+  physical: {
+    ...standardMaterial,
+    clearcoat: unit,
+    clearcoatRoughness: unit,
+    transmission: unit,
+    thickness: nonNegative
+  },
+  toon: baseMaterial,
+  normal: baseMaterial,
+  depth: baseMaterial,
+  shader: {
+    ...baseMaterial,
+    vertexShader: { kind: 'shaderSource' },
+    fragmentShader: { kind: 'shaderSource' },
+    uniforms: { kind: 'uniforms' },
+    defines: { kind: 'defines' },
+    timeUniform: { kind: 'identifier', nullable: true }
+  },
+  wireframe: baseMaterial
+};
+
+// シーンドキュメントのライト（LightConfig）のスキーマ。
+const SHADOW_SCHEMA: ConfigSchema = {
+  mapSize: { kind: 'number', min: 1, max: 16384, integer: true },
+  bias: { kind: 'number' },
+  normalBias: { kind: 'number' },
+  radius: nonNegative,
+  camera: {
+    kind: 'nested',
+    schema: {
+      near: nonNegative, far: nonNegative,
+      left: { kind: 'number' }, right: { kind: 'number' }, top: { kind: 'number' }, bottom: { kind: 'number' }
+    }
+  }
+};
+const baseLight: ConfigSchema = { name: { kind: 'string' }, color: { kind: 'color' }, intensity: nonNegative };
+const shadowLight: ConfigSchema = { ...baseLight, castShadow: { kind: 'boolean' }, shadow: { kind: 'nested', schema: SHADOW_SCHEMA } };
+const attenuation: ConfigSchema = { distance: nonNegative, decay: nonNegative };
+
+const LIGHT_SCHEMAS: { [K in LightType]: ConfigSchema } = {
+  ambient: baseLight,
+  hemisphere: { ...baseLight, groundColor: { kind: 'color' }, position: { kind: 'vector3' } },
+  directional: { ...shadowLight, position: { kind: 'vector3' }, target: { kind: 'vector3' } },
+  point: { ...shadowLight, position: { kind: 'vector3' }, ...attenuation },
+  spot: {
+    ...shadowLight, position: { kind: 'vector3' }, target: { kind: 'vector3' }, ...attenuation,
+    angle: { kind: 'number', min: 0, max: Math.PI / 2 }, penumbra: unit
+  },
+  rectArea: { ...baseLight, position: { kind: 'vector3' }, target: { kind: 'vector3' }, width: size, height: size }
+};
+
+// シーンドキュメントのカメラ（CameraDocument）のスキーマ。全てのフィールドが必須。
+const baseCamera: ConfigSchema = {
+  near: nonNegative, far: nonNegative, position: { kind: 'vector3' }, rotation: { kind: 'vector3' }
+};
+const CAMERA_SCHEMAS: { [K in CameraDocument['type']]: ConfigSchema } = {
+  perspective: { ...baseCamera, fov: { kind: 'number', min: 0, max: 180 } },
+  orthographic: { ...baseCamera, height: size, zoom: { kind: 'number', min: 0 } }
+};
+
+// 読み込むモデル（ModelGeometryConfig）のスキーマ。urlは必須なので、オブジェクトの検査で確認する。
+const MODEL_SCHEMAS: Record<'model', ConfigSchema> = {
+  model: { url: { kind: 'string' }, format: { kind: 'option', values: ['gltf', 'glb', 'obj', 'stl'] } }
+};
+
+/**
+ * `registerGeometryType`で登録された独自のタイプを含む、全てのジオメトリのスキーマ
+ */
+function geometrySchemas(): Record<string, ConfigSchema> {
+  const schemas: Record<string, ConfigSchema> = { ...GEOMETRY_SCHEMAS };
+  getRegisteredGeometryTypes().forEach(type => {
+    schemas[type] ??= inferSchema(getGeometryDefinition(type).defaults, {});
+  });
+  return schemas;
+}
+
+/**
+ * `registerMaterialType`で登録された独自のタイプを含む、全てのマテリアルのスキーマ
+ */
+function materialSchemas(): Record<string, ConfigSchema> {
+  const schemas: Record<string, ConfigSchema> = { ...MATERIAL_SCHEMAS };
+  getRegisteredMaterialTypes().forEach(type => {
+    schemas[type] ??= inferSchema(getMaterialDefinition(type).defaults, baseMaterial);
+  });
+  return schemas;
+}
+
+/**
+ * 独自のタイプのデフォルト値からスキーマを作る。数値と真偽値は型だけを検査し、それ以外の値は検査しない。
+ */
+function inferSchema(defaults: object, base: ConfigSchema): ConfigSchema {
+  const schema: ConfigSchema = {};
+  Object.entries(defaults).forEach(([key, value]) => {
+    if (base[key]) schema[key] = base[key];
+    else if (typeof value === 'number') schema[key] = { kind: 'number' };
+    else if (typeof value === 'boolean') schema[key] = { kind: 'boolean' };
+    else schema[key] = { kind: 'unchecked' };
+  });
+  return schema;
+}
+
+const SIDES: THREE.Side[] = [THREE.FrontSide, THREE.BackSide, THREE.DoubleSide];
+const AXES = ['x', 'y', 'z'] as const;
+
+// ===================================================================
+// Part 2: Validation Context (検査中の状態)
+// ===================================================================
+
+/**
+ * 1回のバリデーションで見つかった問題を集める。
+ */
+class IssueCollector {
+  public readonly issues: ValidationIssue[] = [];
+
+  report(issue: Omit<ValidationIssue, 'resolution'>, resolution: IssueResolution, correctedValue?: unknown): void {
+    const entry: ValidationIssue = { ...issue, resolution };
+    if (correctedValue !== undefined) entry.correctedValue = correctedValue;
+    this.issues.push(entry);
+  }
+
+  get unresolved(): boolean {
+    return this.issues.some(issue => issue.resolution === 'unresolved');
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isNaN(value)) return 'NaN';
+  return typeof value;
+}
+
+function describeRange(range: NumericRange): string {
+  const kind = range.integer ? 'integer' : 'number';
+  if (range.min !== undefined && range.max !== undefined) return `${kind} in [${range.min}, ${range.max}]`;
+  if (range.min !== undefined) return `${kind} >= ${range.min}`;
+  if (range.max !== undefined) return `${kind} <= ${range.max}`;
+  return `finite ${kind}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * {x, y}（dimensionsが3の場合は{x, y, z}）の点の配列かどうか
+ */
+function isPointList(value: unknown, dimensions: 2 | 3, min: number): boolean {
+  const axes = dimensions === 2 ? ['x', 'y'] : ['x', 'y', 'z'];
+  return Array.isArray(value) && value.length >= min && value.every(point =>
+    isRecord(point) && axes.every(axis => typeof point[axis] === 'number' && Number.isFinite(point[axis]))
+  );
+}
+
+/**
+ * 行と列の数に合った長さの数値データを持つハイトマップかどうか（RGBAの画像の場合は4倍の長さ）
+ */
+function isHeightmap(value: unknown): boolean {
+  if (!isRecord(value)) return false;
+  const { width, height, data } = value;
+  if (typeof width !== 'number' || typeof height !== 'number') return false;
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) return false;
+  if (!Array.isArray(data) && !ArrayBuffer.isView(data)) return false;
+  const length = (data as ArrayLike<number>).length;
+  return length === width * height || length === width * height * 4;
+}
+
+const GLSL_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+// main関数の定義。'domain'などの名前の一部や、定義ではない"main"には一致しない
+const GLSL_MAIN = /\bvoid\s+main\s*\(/;
+
+function isUniformValue(value: unknown): boolean {
+  if (value === null || typeof value === 'boolean') return true;
+  if (typeof value === 'number') return Number.isFinite(value);
+  if (isEncodedUniformValue(value)) return true;
+  return [
+    THREE.Color, THREE.Vector2, THREE.Vector3, THREE.Vector4, THREE.Matrix3, THREE.Matrix4, THREE.Texture
+  ].some(type => value instanceof type);
+}
+
+/**
+ * 名前と値の組を1つずつ検査し、問題のある組を取り除いたコピーを返す。
+ * @param check 問題がなければnull、あればそのメッセージを返す
+ */
+function checkEntries(
+  value: unknown,
+  path: string,
+  issues: IssueCollector,
+  label: string,
+  expected: string,
+  check: (name: string, entry: unknown) => string | null
+): Record<string, unknown> | undefined {
+  if (!isRecord(value)) {
+    issues.report({ path, message: `Expected ${label} object, got ${describe(value)}`, value, expected }, 'defaulted');
+    return undefined;
+  }
+  const result: Record<string, unknown> = {};
+  Object.entries(value).forEach(([name, entry]) => {
+    const message = check(name, entry);
+    if (message === null) result[name] = entry;
+    else issues.report({ path: `${path}.${name}`, message, value: entry, expected }, 'removed');
+  });
+  return result;
+}
+
+function isValidColor(value: unknown): boolean {
+  if (value instanceof THREE.Color) return true;
+  if (typeof value === 'number') return Number.isInteger(value) && value >= 0 && value <= 0xffffff;
+  if (typeof value === 'string') {
+    return /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value)
+      || /^(rgb|hsl)a?\(.*\)$/i.test(value)
+      || value.toLowerCase() in THREE.Color.NAMES;
+  }
+  return false;
+}
+
+/**
+ * 数値を検査し、範囲外なら丸めた値を返す。
+ * 数値として扱えない場合はundefined（デフォルト値を使う）を返す。
+ */
+function checkNumber(rule: NumericRange, value: unknown, path: string, issues: IssueCollector): number | undefined {
+  // FieldRuleのkindなどを含めず、範囲の情報だけを報告する。
+  const range: NumericRange = {};
+  if (rule.min !== undefined) range.min = rule.min;
+  if (rule.max !== undefined) range.max = rule.max;
+  if (rule.integer) range.integer = true;
+  const expected = describeRange(range);
+  const rangeInfo = Object.keys(range).length > 0 ? { range } : {};
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.report({ path, message: `Expected ${expected}, got ${describe(value)}`, value, expected, ...rangeInfo }, 'defaulted');
+    return undefined;
+  }
+  let corrected = range.integer ? Math.round(value) : value;
+  if (range.min !== undefined) corrected = Math.max(range.min, corrected);
+  if (range.max !== undefined) corrected = Math.min(range.max, corrected);
+  if (corrected !== value) {
+    issues.report({ path, message: `Expected ${expected}, got ${value}`, value, expected, ...rangeInfo }, 'clamped', corrected);
+  }
+  return corrected;
+}
+
+function checkField(value: unknown, rule: FieldRule, path: string, issues: IssueCollector): unknown {
+  switch (rule.kind) {
+    case 'number':
+      return checkNumber(rule, value, path, issues);
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      issues.report({ path, message: `Expected boolean, got ${describe(value)}`, value, expected: 'boolean' }, 'defaulted');
+      return undefined;
+    case 'color':
+      if (isValidColor(value)) return value;
+      issues.report({
+        path,
+        message: 'Expected a color (0x000000-0xffffff, CSS color string or THREE.Color)',
+        value,
+        expected: 'color'
+      }, 'defaulted');
+      return undefined;
+    case 'side':
+      if (SIDES.includes(value as THREE.Side)) return value;
+      issues.report({
+        path,
+        message: 'Expected THREE.FrontSide, THREE.BackSide or THREE.DoubleSide',
+        value,
+        expected: 'one of 0 | 1 | 2'
+      }, 'defaulted');
+      return undefined;
+    case 'texture':
+      if (value === null || value instanceof THREE.Texture) return value;
+      if (isRecord(value) && typeof value.source === 'string' && value.source !== '') {
+        return checkSchema(value, TEXTURE_SCHEMA, path, issues);
+      }
+      issues.report({
+        path,
+        message: 'Expected THREE.Texture, a texture config with a non-empty source, or null',
+        value,
+        expected: 'THREE.Texture | TextureConfig | null'
+      }, 'defaulted');
+      return undefined;
+    case 'vector2':
+      if (isRecord(value) && Number.isFinite(value.x) && Number.isFinite(value.y)) return value;
+      issues.report({ path, message: 'Expected { x, y } with finite numbers', value, expected: '{ x: number; y: number }' }, 'defaulted');
+      return undefined;
+    case 'points': {
+      if (isPointList(value, rule.dimensions, rule.min)) return value;
+      const point = rule.dimensions === 2 ? '{ x, y }' : '{ x, y, z }';
+      issues.report({
+        path,
+        message: `Expected an array of at least ${rule.min} ${point} points with finite coordinates`,
+        value,
+        expected: `${point}[] (length >= ${rule.min})`
+      }, 'defaulted');
+      return undefined;
+    }
+    case 'holes':
+      if (Array.isArray(value) && value.every(hole => isPointList(hole, 2, 3))) return value;
+      issues.report({
+        path,
+        message: 'Expected an array of holes, each an array of at least 3 { x, y } points',
+        value,
+        expected: '{ x, y }[][]'
+      }, 'defaulted');
+      return undefined;
+    case 'option':
+      if (typeof value === 'string' && rule.values.includes(value)) return value;
+      issues.report({
+        path,
+        message: `Expected one of ${rule.values.map(option => `'${option}'`).join(' | ')}, got ${typeof value === 'string' ? `'${value}'` : describe(value)}`,
+        value,
+        expected: `one of ${rule.values.map(option => `'${option}'`).join(' | ')}`
+      }, 'defaulted');
+      return undefined;
+    case 'heightmap':
+      if (value === null || isHeightmap(value)) return value;
+      issues.report({
+        path,
+        message: 'Expected { width, height, data } with data.length of width * height (or width * height * 4 for RGBA)',
+        value,
+        expected: 'HeightmapData | null'
+      }, 'defaulted');
+      return undefined;
+    case 'colorStops':
+      if (Array.isArray(value) && value.every(stop =>
+        isRecord(stop) && typeof stop.height === 'number' && Number.isFinite(stop.height) && isValidColor(stop.color)
+      )) return value;
+      issues.report({
+        path,
+        message: 'Expected an array of { height, color } stops',
+        value,
+        expected: '{ height: number; color: ColorInput }[]'
+      }, 'defaulted');
+      return undefined;
+    case 'surface':
+      if (typeof value === 'function') return value;
+      if (typeof value === 'string' && isParametricSurfaceRegistered(value)) return value;
+      issues.report({
+        path,
+        message: typeof value === 'string'
+          ? `Unknown parametric surface "${value}" (registered: ${getParametricSurfaceNames().join(', ')})`
+          : `Expected function or registered surface name, got ${describe(value)}`,
+        value,
+        expected: 'ParametricSurfaceFunction | string'
+      }, 'defaulted');
+      return undefined;
+    case 'shaderSource':
+      if (typeof value === 'string' && GLSL_MAIN.test(value)) return value;
+      issues.report({
+        path,
+        message: 'Expected GLSL source with a main() function',
+        value,
+        expected: 'string'
+      }, 'defaulted');
+      return undefined;
+    case 'identifier':
+      if ((value === null && rule.nullable) || (typeof value === 'string' && GLSL_IDENTIFIER.test(value))) return value;
+      issues.report({
+        path,
+        message: `Expected a GLSL identifier${rule.nullable ? ' or null' : ''}, got ${describe(value)}`,
+        value,
+        expected: rule.nullable ? 'string | null' : 'string'
+      }, 'defaulted');
+      return undefined;
+    case 'uniforms':
+      return checkEntries(value, path, issues, 'uniforms', '{ [name]: UniformValue }', (name, uniform) =>
+        GLSL_IDENTIFIER.test(name) && isUniformValue(uniform)
+          ? null
+          : 'Expected a GLSL identifier with a number, boolean, THREE.Color, THREE.Vector2/3/4, THREE.Matrix3/4, THREE.Texture, '
+            + '{ type, value } (e.g. { type: "vec3", value: [0, 1, 0] }) or null'
+      );
+    case 'defines':
+      return checkEntries(value, path, issues, 'defines', '{ [name]: string | number | boolean }', (name, define) =>
+        GLSL_IDENTIFIER.test(name) && ['string', 'number', 'boolean'].includes(typeof define)
+          ? null
+          : 'Expected a GLSL identifier with a string, number or boolean'
+      );
+    case 'string':
+      if (typeof value === 'string') return value;
+      issues.report({ path, message: `Expected string, got ${describe(value)}`, value, expected: 'string' }, 'defaulted');
+      return undefined;
+    case 'vector3':
+      if (isRecord(value) && AXES.every(axis => typeof value[axis] === 'number' && Number.isFinite(value[axis]))) {
+        return { x: value.x, y: value.y, z: value.z };
+      }
+      issues.report({
+        path,
+        message: 'Expected { x, y, z } with finite numbers',
+        value,
+        expected: '{ x: number; y: number; z: number }'
+      }, 'defaulted');
+      return undefined;
+    case 'nested':
+      return checkSchema(value, rule.schema, path, issues);
+    case 'unchecked':
+      return value;
+    default: {
+      const _exhaustiveCheck: never = rule;
+      throw new Error(`Unsupported field rule: ${String(_exhaustiveCheck)}`);
+    }
+  }
+}
+
+/**
+ * スキーマに従ってオブジェクトの各フィールドを検査し、補正済みのコピーを返す。
+ */
+function checkSchema(
+  value: unknown,
+  schema: ConfigSchema,
+  path: string,
+  issues: IssueCollector
+): Record<string, unknown> {
+  if (value === undefined) return {};
+  if (!isRecord(value)) {
+    issues.report({ path, message: `Expected object, got ${describe(value)}`, value, expected: 'object' }, 'defaulted');
+    return {};
+  }
+  const result: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, fieldValue]) => {
+    const fieldPath = `${path}.${key}`;
+    const rule = schema[key];
+    if (!rule) {
+      issues.report({
+        path: fieldPath,
+        message: `Unknown property "${key}"`,
+        value: fieldValue,
+        expected: `one of ${Object.keys(schema).map(name => `'${name}'`).join(' | ')}`
+      }, 'removed');
+      return;
+    }
+    if (fieldValue === undefined) return;
+    const checked = checkField(fieldValue, rule, fieldPath, issues);
+    if (checked !== undefined) result[key] = checked;
+  });
+  return result;
+}
+
+function checkTypedConfig(
+  value: unknown,
+  schemas: Record<string, ConfigSchema>,
+  path: string,
+  issues: IssueCollector
+): { type: string; config: Record<string, unknown> } | null {
+  if (!isRecord(value)) {
+    issues.report({ path, message: `Expected object, got ${describe(value)}`, value, expected: 'object' }, 'unresolved');
+    return null;
+  }
+  const type = value.type;
+  const types = Object.keys(schemas);
+  if (typeof type !== 'string' || !types.includes(type)) {
+    issues.report({
+      path: `${path}.type`,
+      message: `Unknown type ${JSON.stringify(type) ?? String(type)}`,
+      value: type,
+      expected: `one of ${types.map(t => `'${t}'`).join(' | ')}`
+    }, 'unresolved');
+    return null;
+  }
+  Object.keys(value).filter(key => key !== 'type' && key !== 'config').forEach(key => {
+    issues.report({
+      path: `${path}.${key}`,
+      message: `Unknown property "${key}"`,
+      value: value[key],
+      expected: "one of 'type' | 'config'"
+    }, 'removed');
+  });
+  return { type, config: checkSchema(value.config, schemas[type], `${path}.config`, issues) };
+}
+
+/**
+ * `type`と設定が同じ階層に並ぶ設定（カメラ・ライト）を検査する。
+ * @param required 省略できないフィールド。省略されている場合はデフォルト値を使う
+ */
+function checkFlatTypedConfig(
+  value: unknown,
+  schemas: Record<string, ConfigSchema>,
+  path: string,
+  issues: IssueCollector,
+  required: readonly string[] = []
+): Record<string, unknown> | null {
+  if (!isRecord(value)) {
+    issues.report({ path, message: `Expected object, got ${describe(value)}`, value, expected: 'object' }, 'unresolved');
+    return null;
+  }
+  const { type, ...fields } = value;
+  const types = Object.keys(schemas);
+  if (typeof type !== 'string' || !types.includes(type)) {
+    issues.report({
+      path: `${path}.type`,
+      message: `Unknown type ${JSON.stringify(type) ?? String(type)}`,
+      value: type,
+      expected: `one of ${types.map(t => `'${t}'`).join(' | ')}`
+    }, 'unresolved');
+    return null;
+  }
+  required.filter(key => fields[key] === undefined).forEach(key => {
+    issues.report({
+      path: `${path}.${key}`,
+      message: `Missing required property "${key}"`,
+      value: undefined,
+      expected: describeRule(schemas[type][key])
+    }, 'defaulted');
+  });
+  return { type, ...checkSchema(fields, schemas[type], path, issues) };
+}
+
+function describeRule(rule: FieldRule): string {
+  switch (rule.kind) {
+    case 'number':
+      return describeRange(rule);
+    case 'vector3':
+      return '{ x: number; y: number; z: number }';
+    default:
+      return rule.kind;
+  }
+}
+
+function checkVector(value: unknown, range: NumericRange, path: string, issues: IssueCollector): Record<string, number> | undefined {
+  if (!isRecord(value)) {
+    issues.report({ path, message: `Expected {x, y, z} object, got ${describe(value)}`, value, expected: 'object' }, 'defaulted');
+    return undefined;
+  }
+  const result: Record<string, number> = {};
+  Object.entries(value).forEach(([key, component]) => {
+    if (!(AXES as readonly string[]).includes(key)) {
+      issues.report({ path: `${path}.${key}`, message: `Unknown axis "${key}"`, value: component, expected: "one of 'x' | 'y' | 'z'" }, 'removed');
+      return;
+    }
+    if (component === undefined) return;
+    const checked = checkNumber(range, component, `${path}.${key}`, issues);
+    if (checked !== undefined) result[key] = checked;
+  });
+  return result;
+}
+
+function checkTransform(value: unknown, path: string, issues: IssueCollector): Transform | undefined {
+  if (!isRecord(value)) {
+    issues.report({ path, message: `Expected object, got ${describe(value)}`, value, expected: 'object' }, 'defaulted');
+    return undefined;
+  }
+  const transform: Transform = {};
+  Object.entries(value).forEach(([key, vector]) => {
+    if (key !== 'position' && key !== 'rotation' && key !== 'scale') {
+      issues.report({
+        path: `${path}.${key}`,
+        message: `Unknown property "${key}"`,
+        value: vector,
+        expected: "one of 'position' | 'rotation' | 'scale'"
+      }, 'removed');
+      return;
+    }
+    if (vector === undefined) return;
+    const checked = checkVector(vector, {}, `${path}.${key}`, issues);
+    if (checked) transform[key] = checked;
+  });
+  return transform;
+}
+
+const ANIMATION_SCHEMAS = {
+  position: { amplitude: nonNegative, frequency: nonNegative } as ConfigSchema,
+  scale: { min: nonNegative, max: nonNegative, frequency: nonNegative } as ConfigSchema
+};
+
+function checkAnimation(value: unknown, path: string, issues: IssueCollector): AnimationConfig | undefined {
+  if (!isRecord(value)) {
+    issues.report({ path, message: `Expected object, got ${describe(value)}`, value, expected: 'object' }, 'defaulted');
+    return undefined;
+  }
+  let enabled = value.enabled;
+  if (typeof enabled !== 'boolean') {
+    issues.report({ path: `${path}.enabled`, message: `Expected boolean, got ${describe(enabled)}`, value: enabled, expected: 'boolean' }, 'defaulted');
+    enabled = true;
+  }
+  const animation: AnimationConfig = { enabled: enabled as boolean };
+
+  Object.entries(value).forEach(([key, field]) => {
+    const fieldPath = `${path}.${key}`;
+    if (key === 'enabled' || field === undefined) return;
+    if (key === 'rotation') {
+      const rotation = checkVector(field, {}, fieldPath, issues);
+      if (rotation) animation.rotation = rotation;
+    } else if (key === 'phase') {
+      const phase = checkNumber({}, field, fieldPath, issues);
+      if (phase !== undefined) animation.phase = phase;
+    } else if (key === 'position') {
+      // axisは文字列なので、スキーマで扱える数値部分と分けて検査する。
+      const { axis, ...rest } = isRecord(field) ? field : { axis: undefined };
+      const position: NonNullable<AnimationConfig['position']> = checkSchema(
+        isRecord(field) ? rest : field, ANIMATION_SCHEMAS.position, fieldPath, issues
+      );
+      if (axis !== undefined) {
+        if ((AXES as readonly unknown[]).includes(axis)) {
+          position.axis = axis as 'x' | 'y' | 'z';
+        } else {
+          issues.report({ path: `${fieldPath}.axis`, message: 'Unknown axis', value: axis, expected: "one of 'x' | 'y' | 'z'" }, 'defaulted');
+        }
+      }
+      animation.position = position;
+    } else if (key === 'scale') {
+      const scale: NonNullable<AnimationConfig['scale']> = checkSchema(field, ANIMATION_SCHEMAS.scale, fieldPath, issues);
+      if (scale.min !== undefined && scale.max !== undefined && scale.min > scale.max) {
+        issues.report({
+          path: `${fieldPath}.max`,
+          message: `Expected max >= min (${scale.min}), got ${scale.max}`,
+          value: scale.max,
+          expected: `number >= ${scale.min}`,
+          range: { min: scale.min }
+        }, 'clamped', scale.min);
+        scale.max = scale.min;
+      }
+      animation.scale = scale;
+    } else {
+      issues.report({
+        path: fieldPath,
+        message: `Unknown property "${key}"`,
+        value: field,
+        expected: "one of 'enabled' | 'rotation' | 'position' | 'scale' | 'phase'"
+      }, 'removed');
+    }
+  });
+  return animation;
+}
+
+function checkObject(value: unknown, path: string, issues: IssueCollector): ObjectConfig | null {
+  if (!isRecord(value)) {
+    issues.report({ path, message: `Expected object, got ${describe(value)}`, value, expected: 'object' }, 'unresolved');
+    return null;
+  }
+  // モデルの設定では、マテリアルは置き換える場合だけ指定する。
+  const isModel = isRecord(value.geometry) && value.geometry.type === 'model';
+  const geometry = checkTypedConfig(value.geometry, isModel ? MODEL_SCHEMAS : geometrySchemas(), `${path}.geometry`, issues);
+  if (geometry && isModel && typeof geometry.config.url !== 'string') {
+    issues.report({
+      path: `${path}.geometry.config.url`,
+      message: 'Expected the URL of the model file',
+      value: geometry.config.url,
+      expected: 'string'
+    }, 'unresolved');
+  }
+  const material = isModel && value.material === undefined
+    ? undefined
+    : checkTypedConfig(value.material, materialSchemas(), `${path}.material`, issues);
+
+  const config = { geometry: geometry as GeometryConfig | null } as Partial<PrimitiveObjectConfig>;
+  if (material !== undefined) config.material = material as MaterialConfig;
+
+  Object.entries(value).forEach(([key, field]) => {
+    const fieldPath = `${path}.${key}`;
+    if (key === 'geometry' || key === 'material' || field === undefined) return;
+    switch (key) {
+      case 'transform': {
+        const transform = checkTransform(field, fieldPath, issues);
+        if (transform) config.transform = transform;
+        break;
+      }
+      case 'animation': {
+        const animation = checkAnimation(field, fieldPath, issues);
+        if (animation) config.animation = animation;
+        break;
+      }
+      case 'name':
+        if (typeof field === 'string') {
+          config.name = field;
+        } else {
+          issues.report({ path: fieldPath, message: `Expected string, got ${describe(field)}`, value: field, expected: 'string' }, 'removed');
+        }
+        break;
+      case 'castShadow':
+      case 'receiveShadow':
+        if (typeof field === 'boolean') {
+          config[key] = field;
+        } else {
+          issues.report({ path: fieldPath, message: `Expected boolean, got ${describe(field)}`, value: field, expected: 'boolean' }, 'removed');
+        }
+        break;
+      case 'userData':
+        if (isRecord(field)) {
+          config.userData = { ...field };
+        } else {
+          issues.report({ path: fieldPath, message: `Expected object, got ${describe(field)}`, value: field, expected: 'object' }, 'removed');
+        }
+        break;
+      default:
+        issues.report({
+          path: fieldPath,
+          message: `Unknown property "${key}"`,
+          value: field,
+          expected: "one of 'geometry' | 'material' | 'transform' | 'animation' | 'castShadow' | 'receiveShadow' | 'name' | 'userData'"
+        }, 'removed');
+    }
+  });
+
+  return geometry && (material ?? isModel) ? config as ObjectConfig : null;
+}
+
+// ===================================================================
+// Part 3: Public API (公開関数)
+// ===================================================================
+
+/**
+ * 検査結果をモードに応じて仕上げる。
+ * strictモードは問題があれば例外を投げ、lenientモードは修正した問題をonWarningに渡す。
+ */
+function finish<T>(value: T | null, issues: IssueCollector, options: ValidationOptions): ValidationResult<T> {
+  const { mode = 'report', onWarning } = options;
+  const result: ValidationResult<T> = {
+    valid: issues.issues.length === 0,
+    issues: issues.issues,
+    value: issues.unresolved ? null : value
+  };
+  if (mode === 'strict' && !result.valid) {
+    throw new ConfigValidationError(result.issues);
+  }
+  if (mode === 'lenient') {
+    if (issues.unresolved) {
+      throw new ConfigValidationError(result.issues.filter(issue => issue.resolution === 'unresolved'));
+    }
+    if (onWarning) result.issues.forEach(issue => onWarning(issue));
+  }
+  return result;
+}
+
+/**
+ * ジオメトリ設定を検査します。
+ * @example validateGeometryConfig({ type: 'sphere', config: { radius: -1 } })
+ *   // → issues: [{ path: '$.config.radius', range: { min: 0 }, resolution: 'clamped', correctedValue: 0, ... }]
+ */
+export function validateGeometryConfig(value: unknown, options: ValidationOptions = {}): ValidationResult<GeometryConfig> {
+  const issues = new IssueCollector();
+  const checked = checkTypedConfig(value, geometrySchemas(), options.path ?? '$', issues);
+  return finish(checked as GeometryConfig | null, issues, options);
+}
+
+/**
+ * マテリアル設定を検査します。
+ */
+export function validateMaterialConfig(value: unknown, options: ValidationOptions = {}): ValidationResult<MaterialConfig> {
+  const issues = new IssueCollector();
+  const checked = checkTypedConfig(value, materialSchemas(), options.path ?? '$', issues);
+  return finish(checked as MaterialConfig | null, issues, options);
+}
+
+/**
+ * 位置・回転・スケールの設定を検査します。
+ */
+export function validateTransform(value: unknown, options: ValidationOptions = {}): ValidationResult<Transform> {
+  const issues = new IssueCollector();
+  const checked = checkTransform(value, options.path ?? '$', issues) ?? {};
+  return finish(checked, issues, options);
+}
+
+/**
+ * オブジェクト設定全体（ジオメトリ・マテリアル・変換・アニメーションなど）を検査します。
+ */
+export function validateObjectConfig(value: unknown, options: ValidationOptions = {}): ValidationResult<ObjectConfig> {
+  const issues = new IssueCollector();
+  const checked = checkObject(value, options.path ?? '$', issues);
+  return finish(checked, issues, options);
+}
+
+/**
+ * シーンドキュメントのカメラ設定を検査します。
+ * 全てのフィールドが必須で、省略されている場合はカメラのデフォルト値で補われます。
+ */
+export function validateCameraDocument(value: unknown, options: ValidationOptions = {}): ValidationResult<CameraDocument> {
+  const issues = new IssueCollector();
+  const type = isRecord(value) ? value.type : undefined;
+  const required = typeof type === 'string' && type in CAMERA_SCHEMAS
+    ? Object.keys(CAMERA_SCHEMAS[type as CameraDocument['type']])
+    : [];
+  const checked = checkFlatTypedConfig(value, CAMERA_SCHEMAS, options.path ?? '$', issues, required);
+  return finish(checked as CameraDocument | null, issues, options);
+}
+
+/**
+ * ライト設定の配列をまとめて検査します。パスには配列のインデックスが含まれます。
+ */
+export function validateLightConfigs(values: readonly unknown[], options: ValidationOptions = {}): ValidationResult<LightConfig[]> {
+  const issues = new IssueCollector();
+  const path = options.path ?? '$';
+  const checked = values.map((value, i) =>
+    checkFlatTypedConfig(value, LIGHT_SCHEMAS, `${path}[${i}]`, issues) as LightConfig | null
+  );
+  return finish(checked as LightConfig[], issues, options);
+}
+
+/**
+ * オブジェクト設定の配列をまとめて検査します。パスには配列のインデックスが含まれます。
+ */
+export function validateObjectConfigs(values: readonly unknown[], options: ValidationOptions = {}): ValidationResult<ObjectConfig[]> {
+  const issues = new IssueCollector();
+  const path = options.path ?? '$';
+  const checked = values.map((value, i) => checkObject(value, `${path}[${i}]`, issues));
+  return finish(checked as ObjectConfig[], issues, options);
+}
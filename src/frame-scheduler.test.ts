@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { FrameTime, SchedulerOptions } from '../types/scheduler-types';
+import { FrameScheduler, ManualFrameSource } from './frame-scheduler';
+
+function createScheduler(options: SchedulerOptions): { scheduler: FrameScheduler; steps: number[]; frames: FrameTime[] } {
+  const steps: number[] = [];
+  const frames: FrameTime[] = [];
+  const scheduler = new FrameScheduler({
+    step: deltaTime => steps.push(deltaTime),
+    render: time => frames.push(time)
+  }, options);
+  return { scheduler, steps, frames };
+}
+
+describe('FrameScheduler', () => {
+  it('runs whole fixed steps and carries the remainder into the next frame', () => {
+    const source = new ManualFrameSource();
+    const { scheduler, steps, frames } = createScheduler({ source, updateMode: 'fixed', fixedTimeStep: 0.01 });
+    scheduler.start();
+    // 最初のフレームは経過時間0として扱う。
+    source.advance(0);
+    source.advance(25);
+
+    expect(steps).toEqual([0.01, 0.01]);
+    expect(frames[1].alpha).toBeCloseTo(0.5);
+    source.advance(5);
+    expect(steps).toHaveLength(3);
+    expect(frames[2].alpha).toBeCloseTo(0);
+    expect(scheduler.getElapsedTime()).toBeCloseTo(0.03);
+    scheduler.dispose();
+  });
+
+  it('drops the time it cannot catch up with after maxSubSteps', () => {
+    const source = new ManualFrameSource();
+    const { scheduler, steps, frames } = createScheduler({
+      source,
+      updateMode: 'fixed',
+      fixedTimeStep: 0.01,
+      maxSubSteps: 3,
+      maxDeltaTime: 1
+    });
+    scheduler.start();
+    source.advance(0);
+    source.advance(55);
+
+    expect(steps).toHaveLength(3);
+    // 残りの時間は1ステップ未満に切り詰められる。
+    expect(frames[1].alpha).toBeCloseTo(0.5);
+    source.advance(5);
+    expect(steps).toHaveLength(4);
+    scheduler.dispose();
+  });
+
+  it('scales the simulation time and stops it while paused', () => {
+    const source = new ManualFrameSource();
+    const { scheduler, steps, frames } = createScheduler({ source, updateMode: 'fixed', fixedTimeStep: 0.01, timeScale: 0.5 });
+    scheduler.start();
+    source.advance(0);
+    source.advance(40);
+    expect(steps).toHaveLength(2);
+
+    scheduler.pause();
+    source.advance(40);
+    expect(steps).toHaveLength(2);
+    expect(frames[2]).toMatchObject({ deltaTime: 0, realDeltaTime: 0.04 });
+
+    // コマ送りは一時停止中でも進む（timeScaleは掛けられる）。
+    scheduler.step(0.02);
+    expect(steps).toHaveLength(3);
+    scheduler.dispose();
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Three.js TypeScript Tutorial - 23. Frame Scheduler
+ *
+ * シミュレーションの更新と描画のタイミングを管理する仕組みです。
+ * 固定タイムステップ（一定の時間刻みでの更新）、一時停止、スローモーション（timeScale）、
+ * 手動でのコマ送り（step）、変化があったときだけ描画するオンデマンド描画を扱います。
+ * 時計（FrameSource）を差し替えられるため、テストでは時間を決まった量だけ進めて結果を確かめられます。
+ *
+ * @example
+ * const source = new ManualFrameSource();
+ * const scheduler = new FrameScheduler(
+ *   { step: dt => world.update(dt), render: () => renderer.render(scene, camera) },
+ *   { source, updateMode: 'fixed', fixedTimeStep: 1 / 120 }
+ * );
+ * scheduler.start();
+ * source.advance(1000 / 60); // stepが2回呼ばれ、1回描画される
+ */
+
+import type {
+  FrameCallbacks,
+  FrameSource,
+  FrameTime,
+  SchedulerOptions
+} from '../types/scheduler-types';
+
+// ===================================================================
+// Part 1: Frame Sources (時計)
+// ===================================================================
+
+/**
+ * ブラウザの描画のタイミング（requestAnimationFrame）に合わせる時計
+ */
+export const animationFrameSource: FrameSource = {
+  // requestAnimationFrame(callback): 次の画面の更新の直前にcallbackを呼ぶ。
+  request: callback => requestAnimationFrame(() => callback()),
+  cancel: handle => cancelAnimationFrame(handle),
+  now: () => performance.now()
+};
+
+/**
+ * `advance`を呼んだときだけ時間が進む時計。テストで、決まった時間だけシーンを進めるために使います。
+ */
+export class ManualFrameSource implements FrameSource {
+  private time = 0;
+  private nextHandle = 1;
+  private readonly pending = new Map<number, () => void>();
+
+  public request(callback: () => void): number {
+    const handle = this.nextHandle++;
+    this.pending.set(handle, callback);
+    return handle;
+  }
+
+  public cancel(handle: number): void {
+    this.pending.delete(handle);
+  }
+
+  public now(): number {
+    return this.time;
+  }
+
+  /**
+   * 時刻を進め、予約されているコールバックを呼びます（1フレーム分）。
+   * @param milliseconds 進める時間（ミリ秒） デフォルト: 60fpsの1フレーム分
+   */
+  public advance(milliseconds: number = 1000 / 60): void {
+    this.time += milliseconds;
+    const callbacks = [...this.pending.values()];
+    this.pending.clear();
+    callbacks.forEach(callback => callback());
+  }
+}
+
+// ===================================================================
+// Part 2: Scheduler (スケジューラー)
+// ===================================================================
+
+type ResolvedOptions = Required<SchedulerOptions>;
+
+const DEFAULT_OPTIONS: Omit<ResolvedOptions, 'source'> = {
+  updateMode: 'variable',
+  fixedTimeStep: 1 / 60,
+  maxSubSteps: 5,
+  maxDeltaTime: 0.1,
+  timeScale: 1,
+  renderMode: 'continuous',
+  suspendWhenHidden: true
+};
+
+// 浮動小数点の誤差で、ちょうど1ステップ分の時間が更新されずに残らないようにする。
+const STEP_EPSILON = 1e-9;
+
+/**
+ * シミュレーションの更新と描画を、フレームごとに呼び出すスケジューラー
+ */
+export class FrameScheduler {
+  private options: ResolvedOptions;
+  private handle: number | null = null;
+  private running = false;
+  private paused = false;
+  private hidden = false;
+  // 前のフレームの時刻。nullの場合、次のフレームは経過時間0として扱う（開始直後・再開直後）。
+  private lastTime: number | null = null;
+  private accumulator = 0;
+  private elapsed = 0;
+  private frameCount = 0;
+  private invalidated = true;
+  private readonly listeners = new AbortController();
+
+  constructor(private readonly callbacks: FrameCallbacks, options: SchedulerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, source: animationFrameSource, ...options };
+    if (typeof document !== 'undefined') {
+      // visibilitychange: タブの切り替えなどで、ページの表示・非表示が変わったときに発生する。
+      document.addEventListener('visibilitychange', () => this.setHidden(document.hidden), { signal: this.listeners.signal });
+    }
+  }
+
+  /**
+   * 設定を変更します。指定しなかった項目は変わりません。
+   */
+  public configure(options: SchedulerOptions): void {
+    const sourceChanged = options.source !== undefined && options.source !== this.options.source;
+    if (sourceChanged) this.cancelFrame();
+    this.options = { ...this.options, ...options };
+    if (sourceChanged) {
+      // 時計が変わると時刻の基準も変わるため、前の時刻との差は使えない。
+      this.lastTime = null;
+      this.scheduleFrame();
+    }
+    this.invalidate();
+  }
+
+  public getOptions(): Readonly<ResolvedOptions> {
+    return this.options;
+  }
+
+  /**
+   * フレームの更新を始めます。
+   */
+  public start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.lastTime = null;
+    this.invalidate();
+    this.scheduleFrame();
+  }
+
+  /**
+   * フレームの更新を止めます。
+   */
+  public stop(): void {
+    this.running = false;
+    this.cancelFrame();
+  }
+
+  public isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * シミュレーションの時間を止めます。フレームの処理（カメラの操作など）と描画は続きます。
+   */
+  public pause(): void {
+    this.paused = true;
+  }
+
+  public resume(): void {
+    this.paused = false;
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * シミュレーションの速さの倍率を設定します（1で等速、0.5でスローモーション）。
+   */
+  public setTimeScale(scale: number): void {
+    this.options.timeScale = Math.max(0, scale);
+  }
+
+  public getTimeScale(): number {
+    return this.options.timeScale;
+  }
+
+  /**
+   * シミュレーションの経過時間（秒）
+   */
+  public getElapsedTime(): number {
+    return this.elapsed;
+  }
+
+  /**
+   * 次のフレームで描画させます。'onDemand'の描画で、シーンを変更したときに呼び出します。
+   */
+  public invalidate(): void {
+    this.invalidated = true;
+  }
+
+  /**
+   * 1フレーム分の処理を、すぐに実行します（コマ送り）。一時停止中でもシミュレーションが進みます。
+   * @param deltaTime 進める時間（秒、timeScaleが掛けられる） デフォルト: fixedTimeStep
+   */
+  public step(deltaTime: number = this.options.fixedTimeStep): void {
+    this.invalidate();
+    this.runFrame(deltaTime, false);
+  }
+
+  /**
+   * フレームの更新を止め、ページの表示の監視を解除します。
+   */
+  public dispose(): void {
+    this.stop();
+    this.listeners.abort();
+  }
+
+  private scheduleFrame(): void {
+    if (!this.running || this.hidden || this.handle !== null) return;
+    this.handle = this.options.source.request(() => {
+      this.handle = null;
+      this.tick();
+    });
+  }
+
+  private cancelFrame(): void {
+    if (this.handle === null) return;
+    this.options.source.cancel(this.handle);
+    this.handle = null;
+  }
+
+  private setHidden(hidden: boolean): void {
+    if (!this.options.suspendWhenHidden) return;
+    this.hidden = hidden;
+    if (hidden) {
+      this.cancelFrame();
+    } else {
+      // 非表示だった間の時間は進めない。
+      this.lastTime = null;
+      this.invalidate();
+      this.scheduleFrame();
+    }
+  }
+
+  private tick(): void {
+    const now = this.options.source.now();
+    const deltaTime = this.lastTime === null ? 0 : Math.min((now - this.lastTime) / 1000, this.options.maxDeltaTime);
+    this.lastTime = now;
+    this.runFrame(deltaTime, this.paused);
+    this.scheduleFrame();
+  }
+
+  private runFrame(realDeltaTime: number, paused: boolean): void {
+    const { updateMode, fixedTimeStep, maxSubSteps, timeScale, renderMode } = this.options;
+    const deltaTime = paused ? 0 : realDeltaTime * timeScale;
+
+    if (updateMode === 'fixed') {
+      this.accumulator += deltaTime;
+      let steps = 0;
+      while (this.accumulator >= fixedTimeStep - STEP_EPSILON && steps < maxSubSteps) {
+        this.accumulator -= fixedTimeStep;
+        this.elapsed += fixedTimeStep;
+        this.callbacks.step(fixedTimeStep, this.elapsed);
+        steps++;
+      }
+      // 更新が追いつかない場合（処理が重いなど）は、残りの時間を捨てて遅れが積み重ならないようにする。
+      if (this.accumulator >= fixedTimeStep) this.accumulator %= fixedTimeStep;
+      this.accumulator = Math.max(this.accumulator, 0);
+    } else if (deltaTime > 0) {
+      this.elapsed += deltaTime;
+      this.callbacks.step(deltaTime, this.elapsed);
+    }
+
+    const time: FrameTime = {
+      deltaTime,
+      realDeltaTime,
+      elapsedTime: this.elapsed,
+      alpha: updateMode === 'fixed' ? this.accumulator / fixedTimeStep : 1,
+      frame: this.frameCount++
+    };
+    const changed = this.callbacks.frame?.(time) === true;
+    if (renderMode === 'continuous' || this.invalidated || changed) {
+      this.invalidated = false;
+      this.callbacks.render(time);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { InstancedBatch } from './instanced-batch';
+
+function createBatch(capacity?: number): InstancedBatch {
+  return new InstancedBatch(new THREE.BoxGeometry(), new THREE.MeshBasicMaterial(), capacity);
+}
+
+function positionAt(batch: InstancedBatch, index: number): number {
+  const matrix = new THREE.Matrix4();
+  batch.mesh.getMatrixAt(index, matrix);
+  return new THREE.Vector3().setFromMatrixPosition(matrix).x;
+}
+
+describe('InstancedBatch', () => {
+  it('moves the last instance into a removed slot without changing ids', () => {
+    const batch = createBatch();
+    const ids = [0, 1, 2, 3].map(x => batch.add({ transform: { position: { x } }, color: x === 3 ? 0xff0000 : 0xffffff }));
+
+    expect(batch.remove(ids[1])).toBe(true);
+    expect(batch.getIds()).toEqual([ids[0], ids[3], ids[2]]);
+    expect(batch.getIdAtIndex(1)).toBe(ids[3]);
+    expect(positionAt(batch, 1)).toBe(3);
+    expect(batch.getColor(ids[3])?.getHex()).toBe(0xff0000);
+    expect(batch.getTransform(ids[3])?.position.x).toBe(3);
+    expect(batch.has(ids[1])).toBe(false);
+    expect(batch.remove(ids[1])).toBe(false);
+  });
+
+  it('shrinks the drawn count when the last instance is removed', () => {
+    const batch = createBatch();
+    const first = batch.add();
+    const last = batch.add();
+
+    batch.remove(last);
+    expect(batch.getCount()).toBe(1);
+    expect(batch.getIds()).toEqual([first]);
+    expect(batch.getIdAtIndex(1)).toBeUndefined();
+    // 削除したIDは再利用されない。
+    expect(batch.add()).toBe(2);
+  });
+
+  it('keeps instances when growing past its capacity', () => {
+    const batch = createBatch(1);
+    const ids = [0, 1, 2].map(x => batch.add({ transform: { position: { x } } }));
+
+    expect(batch.getCount()).toBe(3);
+    expect(ids.map(id => batch.getTransform(id)?.position.x)).toEqual([0, 1, 2]);
+    expect(InstancedBatch.fromObject(batch.mesh)).toBe(batch);
+  });
+
+  it('hides instances with a zero scale while keeping their transform', () => {
+    const batch = createBatch();
+    const id = batch.add({ transform: { position: { x: 5 } } });
+
+    batch.setVisible(id, false);
+    const matrix = new THREE.Matrix4();
+    batch.mesh.getMatrixAt(0, matrix);
+    expect(matrix.determinant()).toBe(0);
+    expect(batch.getTransform(id)?.position.x).toBe(5);
+
+    batch.setVisible(id, true);
+    expect(positionAt(batch, 0)).toBe(5);
+  });
+});
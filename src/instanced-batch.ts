@@ -0,0 +1,267 @@
+/**
+ * Three.js TypeScript Tutorial - 09. Instanced Batch
+ *
+ * 同じジオメトリとマテリアルを使う何千個ものオブジェクトを、1つの`THREE.InstancedMesh`
+ * （1回の描画呼び出し）で描画するためのハンドルです。
+ * インスタンスには削除しても変わらないIDを割り当て、IDを通じて変換・色・表示状態を操作します。
+ * レイキャストの結果（配列上の位置）からIDへの変換も、このクラスが担当します。
+ */
+
+import * as THREE from 'three';
+import type { InstanceConfig, Transform } from '../types/geometry-types';
+
+// 非表示のインスタンスに設定する行列。スケール0で描画もレイキャストもされなくなる。
+const HIDDEN_MATRIX = new THREE.Matrix4().makeScale(0, 0, 0);
+
+interface InstanceState {
+  matrix: THREE.Matrix4;
+  visible: boolean;
+  userData: Record<string, unknown>;
+}
+
+export class InstancedBatch {
+  // InstancedMeshから、それを管理するバッチを探すための対応表
+  private static readonly batches = new WeakMap<THREE.Object3D, InstancedBatch>();
+
+  public readonly mesh: THREE.InstancedMesh;
+  private capacity: number;
+  private nextId = 0;
+  // 配列上の位置（InstancedMeshのインデックス）→ インスタンスID
+  private idsByIndex: number[] = [];
+  private indexById = new Map<number, number>();
+  private states = new Map<number, InstanceState>();
+
+  /**
+   * @param geometry 全てのインスタンスで共有するジオメトリ
+   * @param material 全てのインスタンスで共有するマテリアル。インスタンスの色はマテリアルの色に乗算される
+   * @param capacity 最初に確保するインスタンス数。足りなくなると自動的に拡張する
+   */
+  constructor(geometry: THREE.BufferGeometry, material: THREE.Material, capacity: number = 16) {
+    this.capacity = Math.max(1, Math.floor(capacity));
+    // new THREE.InstancedMesh(geometry, material, count): 同じ形状と材質のオブジェクトを
+    // 行列だけ変えて大量に描画するメッシュ。描画呼び出しは1回で済む。
+    this.mesh = new THREE.InstancedMesh(geometry, material, this.capacity);
+    // setUsage(THREE.DynamicDrawUsage): 頻繁に書き換えるバッファであることをGPUに伝える。
+    this.mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    this.mesh.count = 0;
+    InstancedBatch.batches.set(this.mesh, this);
+  }
+
+  /**
+   * InstancedMeshを管理しているバッチを取得します。
+   * クリックされたオブジェクト（`MouseEventInfo.target`）からバッチを探すときに使います。
+   */
+  static fromObject(object: THREE.Object3D | undefined): InstancedBatch | undefined {
+    return object ? this.batches.get(object) : undefined;
+  }
+
+  /**
+   * インスタンスを追加します。
+   * @returns 追加したインスタンスのID
+   */
+  public add(config: InstanceConfig = {}): number {
+    if (this.mesh.count >= this.capacity) this.grow(this.capacity * 2);
+
+    const id = this.nextId++;
+    const index = this.mesh.count;
+    this.mesh.count++;
+    this.idsByIndex[index] = id;
+    this.indexById.set(id, index);
+    this.states.set(id, {
+      matrix: composeMatrix(config.transform, new THREE.Matrix4()),
+      visible: config.visible ?? true,
+      userData: { ...config.userData }
+    });
+    // 色を指定しないインスタンスは白（マテリアルの色そのまま）にする。
+    this.writeColor(index, config.color ?? 0xffffff);
+    this.writeMatrix(id);
+    this.markChanged();
+    return id;
+  }
+
+  /**
+   * インスタンスの変換・色・表示状態を更新します。指定しなかった値は現在の状態を保ちます。
+   * @returns インスタンスが存在した場合はtrue
+   */
+  public update(id: number, config: InstanceConfig): boolean {
+    const state = this.states.get(id);
+    const index = this.indexById.get(id);
+    if (!state || index === undefined) return false;
+
+    if (config.transform) {
+      const position = new THREE.Vector3();
+      const quaternion = new THREE.Quaternion();
+      const scale = new THREE.Vector3();
+      // matrix.decompose(position, quaternion, scale): 行列を位置・回転・スケールに分解する。
+      state.matrix.decompose(position, quaternion, scale);
+      const rotation = new THREE.Euler().setFromQuaternion(quaternion);
+      const { position: p, rotation: r, scale: s } = config.transform;
+      composeMatrix({
+        position: { x: p?.x ?? position.x, y: p?.y ?? position.y, z: p?.z ?? position.z },
+        rotation: { x: r?.x ?? rotation.x, y: r?.y ?? rotation.y, z: r?.z ?? rotation.z },
+        scale: { x: s?.x ?? scale.x, y: s?.y ?? scale.y, z: s?.z ?? scale.z }
+      }, state.matrix);
+    }
+    if (config.visible !== undefined) state.visible = config.visible;
+    if (config.userData) state.userData = { ...state.userData, ...config.userData };
+    if (config.color !== undefined) this.writeColor(index, config.color);
+    this.writeMatrix(id);
+    this.markChanged();
+    return true;
+  }
+
+  /**
+   * インスタンスの表示・非表示を切り替えます。非表示のインスタンスはクリックもされません。
+   */
+  public setVisible(id: number, visible: boolean): boolean {
+    return this.update(id, { visible });
+  }
+
+  public isVisible(id: number): boolean {
+    return this.states.get(id)?.visible ?? false;
+  }
+
+  /**
+   * インスタンスを削除します。末尾のインスタンスを空いた位置に移動するため、他のIDは変わりません。
+   * @returns インスタンスが存在した場合はtrue
+   */
+  public remove(id: number): boolean {
+    const index = this.indexById.get(id);
+    if (index === undefined) return false;
+
+    const lastIndex = this.mesh.count - 1;
+    if (index !== lastIndex) {
+      const lastId = this.idsByIndex[lastIndex];
+      this.idsByIndex[index] = lastId;
+      this.indexById.set(lastId, index);
+      this.writeMatrix(lastId);
+      if (this.mesh.instanceColor) {
+        this.mesh.setColorAt(index, this.readColor(lastIndex));
+      }
+    }
+    this.idsByIndex.length = lastIndex;
+    this.indexById.delete(id);
+    this.states.delete(id);
+    this.mesh.count = lastIndex;
+    this.markChanged();
+    return true;
+  }
+
+  public has(id: number): boolean {
+    return this.states.has(id);
+  }
+
+  /**
+   * 現在のインスタンスのIDを、描画順に取得します。
+   */
+  public getIds(): number[] {
+    return this.idsByIndex.slice(0, this.mesh.count);
+  }
+
+  public getCount(): number {
+    return this.mesh.count;
+  }
+
+  /**
+   * レイキャスト結果の`instanceId`（配列上の位置）を、インスタンスのIDに変換します。
+   */
+  public getIdAtIndex(index: number): number | undefined {
+    return index < this.mesh.count ? this.idsByIndex[index] : undefined;
+  }
+
+  /**
+   * インスタンスの現在の変換を取得します。
+   */
+  public getTransform(id: number): Required<Transform> | undefined {
+    const state = this.states.get(id);
+    if (!state) return undefined;
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+    state.matrix.decompose(position, quaternion, scale);
+    const rotation = new THREE.Euler().setFromQuaternion(quaternion);
+    return {
+      position: { x: position.x, y: position.y, z: position.z },
+      rotation: { x: rotation.x, y: rotation.y, z: rotation.z },
+      scale: { x: scale.x, y: scale.y, z: scale.z }
+    };
+  }
+
+  public getColor(id: number): THREE.Color | undefined {
+    const index = this.indexById.get(id);
+    return index === undefined ? undefined : this.readColor(index);
+  }
+
+  public getUserData(id: number): Record<string, unknown> | undefined {
+    return this.states.get(id)?.userData;
+  }
+
+  /**
+   * インスタンス用のバッファを解放します。
+   * ジオメトリとマテリアルは`ResourceCache.releaseMesh(batch.mesh)`などで別に解放します。
+   */
+  public dispose(): void {
+    // instancedMesh.dispose(): インスタンス行列・色のバッファを解放する。
+    this.mesh.dispose();
+    InstancedBatch.batches.delete(this.mesh);
+  }
+
+  private writeMatrix(id: number): void {
+    const state = this.states.get(id);
+    const index = this.indexById.get(id);
+    if (!state || index === undefined) return;
+    // instancedMesh.setMatrixAt(index, matrix): index番目のインスタンスの変換行列を設定する。
+    this.mesh.setMatrixAt(index, state.visible ? state.matrix : HIDDEN_MATRIX);
+  }
+
+  private writeColor(index: number, color: InstanceConfig['color']): void {
+    // instancedMesh.setColorAt(index, color): index番目のインスタンスの色を設定する。
+    // 初めて呼ばれたときにinstanceColorバッファが作成される。
+    this.mesh.setColorAt(index, new THREE.Color(color as THREE.ColorRepresentation));
+  }
+
+  private readColor(index: number): THREE.Color {
+    const color = new THREE.Color(0xffffff);
+    if (this.mesh.instanceColor) this.mesh.getColorAt(index, color);
+    return color;
+  }
+
+  private markChanged(): void {
+    this.mesh.instanceMatrix.needsUpdate = true;
+    if (this.mesh.instanceColor) this.mesh.instanceColor.needsUpdate = true;
+    // 境界球をリセットし、次の視錐台カリングやレイキャストのときに再計算させる。
+    this.mesh.boundingSphere = null;
+    this.mesh.boundingBox = null;
+  }
+
+  /**
+   * インスタンス用のバッファを大きなものに作り直す
+   */
+  private grow(capacity: number): void {
+    const matrices = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 16), 16);
+    matrices.array.set(this.mesh.instanceMatrix.array);
+    matrices.setUsage(THREE.DynamicDrawUsage);
+    this.mesh.instanceMatrix = matrices;
+    if (this.mesh.instanceColor) {
+      const colors = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3);
+      colors.array.set(this.mesh.instanceColor.array);
+      this.mesh.instanceColor = colors;
+    }
+    this.capacity = capacity;
+  }
+}
+
+/**
+ * Transformから変換行列を作る
+ */
+function composeMatrix(transform: Transform | undefined, target: THREE.Matrix4): THREE.Matrix4 {
+  const position = transform?.position;
+  const rotation = transform?.rotation;
+  const scale = transform?.scale;
+  // matrix.compose(position, quaternion, scale): 位置・回転・スケールから変換行列を作る。
+  return target.compose(
+    new THREE.Vector3(position?.x ?? 0, position?.y ?? 0, position?.z ?? 0),
+    new THREE.Quaternion().setFromEuler(new THREE.Euler(rotation?.x ?? 0, rotation?.y ?? 0, rotation?.z ?? 0)),
+    new THREE.Vector3(scale?.x ?? 1, scale?.y ?? 1, scale?.z ?? 1)
+  );
+}
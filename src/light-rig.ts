@@ -0,0 +1,393 @@
+/**
+ * Three.js TypeScript Tutorial - 16. Light Rig
+ *
+ * ライトと影を設定オブジェクト（`LightConfig`）で記述し、名前で追加・更新・削除する仕組みです。
+ * シーンマネージャーはこのリグでライトを管理するため、ライトの構成をコードではなく設定として差し替えられます。
+ *
+ * @example
+ * const rig = new LightRig(scene);
+ * rig.add({ type: 'hemisphere', name: 'sky', color: 0x87ceeb, groundColor: 0x443322, intensity: 0.6 });
+ * rig.add({
+ *   type: 'directional', name: 'sun', position: { x: 10, y: 20, z: 5 },
+ *   castShadow: true, shadow: { mapSize: 2048, camera: { left: -15, right: 15, top: 15, bottom: -15 } }
+ * });
+ * rig.update('sun', { intensity: 0.4, color: 'orange' }); // 夕方にする
+ * rig.remove('sky');
+ */
+
+import * as THREE from 'three';
+import { RectAreaLightUniformsLib } from 'three/examples/jsm/lights/RectAreaLightUniformsLib.js';
+import type { Vector3Like } from '../types/geometry-types';
+import type {
+  DirectionalLightConfig,
+  HemisphereLightConfig,
+  LightChanges,
+  LightConfig,
+  LightInstanceMap,
+  LightShadowConfig,
+  LightType,
+  PointLightConfig,
+  RectAreaLightConfig,
+  SpotLightConfig
+} from '../types/light-types';
+
+/**
+ * 同じ名前のライトを、もう一度リグに追加しようとした場合のエラー
+ */
+export class DuplicateLightError extends Error {
+  constructor(public readonly lightName: string) {
+    super(`A light named "${lightName}" already exists`);
+    this.name = 'DuplicateLightError';
+  }
+}
+
+/**
+ * リグにない名前のライトを更新しようとした場合のエラー
+ */
+export class LightNotFoundError extends Error {
+  constructor(public readonly lightName: string) {
+    super(`No light named "${lightName}"`);
+    this.name = 'LightNotFoundError';
+  }
+}
+
+// ===================================================================
+// Part 1: Defaults (デフォルト値)
+// ===================================================================
+
+export const LIGHT_TYPES: readonly LightType[] = ['ambient', 'hemisphere', 'directional', 'point', 'spot', 'rectArea'];
+
+/**
+ * ライトの種類として使える値かどうか（JSONなど型のない値の判定に使う）
+ */
+export function isLightType(value: unknown): value is LightType {
+  return LIGHT_TYPES.includes(value as LightType);
+}
+
+/**
+ * シーンマネージャーが最初に使うライトの構成。弱い環境光と、影を落とす太陽光
+ */
+export const DEFAULT_LIGHTING: readonly LightConfig[] = [
+  { type: 'ambient', name: 'ambient', color: 0x404040, intensity: 0.3 },
+  {
+    type: 'directional',
+    name: 'sun',
+    intensity: 0.8,
+    position: { x: 10, y: 10, z: 5 },
+    castShadow: true,
+    shadow: {
+      mapSize: 2048,
+      normalBias: 0.02,
+      camera: { near: 0.5, far: 50, left: -10, right: 10, top: 10, bottom: -10 }
+    }
+  }
+];
+
+// Three.jsのデフォルト（512）は粗すぎるため、影を落とすライトはこの解像度から始める。
+const DEFAULT_SHADOW_MAP_SIZE = 1024;
+
+// ===================================================================
+// Part 2: Creation and Updates (作成と更新)
+// ===================================================================
+
+// 全ての種類のフィールドをまとめた、変更の内部表現
+type LightFields<C> = Omit<C, 'type' | 'name'>;
+type AnyLightChanges = Partial<
+  LightFields<HemisphereLightConfig> & LightFields<DirectionalLightConfig> & LightFields<PointLightConfig>
+  & LightFields<SpotLightConfig> & LightFields<RectAreaLightConfig>
+>;
+
+// RectAreaLightは照らす先のオブジェクトを持たないため、位置を変えたときに向き直す先を覚えておく。
+const rectAreaTargets = new WeakMap<THREE.RectAreaLight, THREE.Vector3>();
+let rectAreaInitialized = false;
+
+/**
+ * ライト設定からライトを作成します。
+ */
+export function createLight<C extends LightConfig>(config: C): LightInstanceMap[C['type']] {
+  const lightConfig: LightConfig = config;
+  let light: THREE.Light;
+  switch (lightConfig.type) {
+    case 'ambient':
+      // new THREE.AmbientLight(color, intensity): 全ての面を同じ明るさで照らす環境光。影はできない。
+      light = new THREE.AmbientLight();
+      break;
+    case 'hemisphere':
+      // new THREE.HemisphereLight(skyColor, groundColor, intensity): 空と地面の2色で照らす環境光。
+      light = new THREE.HemisphereLight(0xffffff, 0x000000);
+      break;
+    case 'directional':
+      // new THREE.DirectionalLight(color, intensity): 太陽光のような平行光源。positionからtargetの方向に照らす。
+      light = new THREE.DirectionalLight();
+      break;
+    case 'point':
+      // new THREE.PointLight(color, intensity, distance, decay): 1点から全方向に照らす点光源。
+      light = new THREE.PointLight();
+      break;
+    case 'spot':
+      // new THREE.SpotLight(color, intensity, distance, angle, penumbra, decay): 円錐状に照らすスポットライト。
+      light = new THREE.SpotLight();
+      break;
+    case 'rectArea':
+      if (!rectAreaInitialized) {
+        // RectAreaLightUniformsLib.init(): 面光源の計算に使うテーブルを、StandardMaterialなどのシェーダーに登録する。
+        RectAreaLightUniformsLib.init();
+        rectAreaInitialized = true;
+      }
+      // new THREE.RectAreaLight(color, intensity, width, height): 長方形の面から照らす面光源。
+      light = new THREE.RectAreaLight(0xffffff, 1, 10, 10);
+      light.position.set(0, 1, 0);
+      rectAreaTargets.set(light as THREE.RectAreaLight, new THREE.Vector3());
+      break;
+    default: {
+      const _exhaustiveCheck: never = lightConfig;
+      throw new Error(`Unsupported light type: ${String((_exhaustiveCheck as LightConfig).type)}`);
+    }
+  }
+  if (light.shadow) light.shadow.mapSize.set(DEFAULT_SHADOW_MAP_SIZE, DEFAULT_SHADOW_MAP_SIZE);
+  if (lightConfig.name) light.name = lightConfig.name;
+  updateLight(light, lightConfig);
+  return light as LightInstanceMap[C['type']];
+}
+
+/**
+ * 作成済みのライトに変更を適用します。指定したフィールドだけが変更され、
+ * ライトの種類にないフィールド（環境光の`angle`など）は無視されます。
+ */
+export function updateLight(light: THREE.Light, changes: LightChanges): void {
+  const c = changes as AnyLightChanges;
+  if (c.color !== undefined) light.color.set(c.color);
+  if (c.intensity !== undefined) light.intensity = c.intensity;
+  if (c.position) light.position.set(c.position.x, c.position.y, c.position.z);
+
+  if (light instanceof THREE.HemisphereLight && c.groundColor !== undefined) light.groundColor.set(c.groundColor);
+  if (light instanceof THREE.PointLight || light instanceof THREE.SpotLight) {
+    if (c.distance !== undefined) light.distance = c.distance;
+    if (c.decay !== undefined) light.decay = c.decay;
+  }
+  if (light instanceof THREE.SpotLight) {
+    if (c.angle !== undefined) light.angle = c.angle;
+    if (c.penumbra !== undefined) light.penumbra = c.penumbra;
+  }
+  if (light instanceof THREE.DirectionalLight || light instanceof THREE.SpotLight) {
+    if (c.target) light.target.position.set(c.target.x, c.target.y, c.target.z);
+    // light.target: 照らす先のオブジェクト。シーンに追加されていないため、行列を自分で更新する。
+    light.target.updateMatrixWorld();
+  }
+  if (light instanceof THREE.RectAreaLight) {
+    if (c.width !== undefined) light.width = c.width;
+    if (c.height !== undefined) light.height = c.height;
+    const target = rectAreaTargets.get(light) ?? new THREE.Vector3();
+    if (c.target) target.set(c.target.x, c.target.y, c.target.z);
+    rectAreaTargets.set(light, target);
+    // light.lookAt(target): 面の正面を照らす先に向ける。
+    if (c.target ?? c.position) light.lookAt(target);
+  }
+
+  if (light.shadow) {
+    if (c.castShadow !== undefined) light.castShadow = c.castShadow;
+    if (c.shadow) applyShadow(light.shadow, c.shadow);
+  }
+}
+
+function applyShadow(shadow: THREE.LightShadow, config: LightShadowConfig): void {
+  if (config.mapSize !== undefined && config.mapSize !== shadow.mapSize.x) {
+    shadow.mapSize.set(config.mapSize, config.mapSize);
+    // 作成済みのシャドウマップは古い解像度のままなので、次の描画で作り直させる。
+    shadow.map?.dispose();
+    shadow.map = null;
+  }
+  if (config.bias !== undefined) shadow.bias = config.bias;
+  if (config.normalBias !== undefined) shadow.normalBias = config.normalBias;
+  if (config.radius !== undefined) shadow.radius = config.radius;
+
+  const bounds = config.camera;
+  if (!bounds) return;
+  const camera = shadow.camera as THREE.PerspectiveCamera | THREE.OrthographicCamera;
+  if (bounds.near !== undefined) camera.near = bounds.near;
+  if (bounds.far !== undefined) camera.far = bounds.far;
+  if (camera instanceof THREE.OrthographicCamera) {
+    if (bounds.left !== undefined) camera.left = bounds.left;
+    if (bounds.right !== undefined) camera.right = bounds.right;
+    if (bounds.top !== undefined) camera.top = bounds.top;
+    if (bounds.bottom !== undefined) camera.bottom = bounds.bottom;
+  }
+  // camera.updateProjectionMatrix(): 範囲の変更をシャドウカメラに反映する。
+  camera.updateProjectionMatrix();
+}
+
+/**
+ * 作成済みのライトから、同じライトを作成できる設定を取り出します。色は16進数になります。
+ * @returns ライト設定。対応していない種類のライト（LightProbeなど）の場合はnull
+ */
+export function describeLight(light: THREE.Light): LightConfig | null {
+  const base: { name?: string; color: number; intensity: number } = {
+    color: light.color.getHex(),
+    intensity: light.intensity
+  };
+  if (light.name) base.name = light.name;
+  const position = toVector3Like(light.position);
+
+  if (light instanceof THREE.AmbientLight) return { type: 'ambient', ...base };
+  if (light instanceof THREE.HemisphereLight) {
+    return { type: 'hemisphere', ...base, groundColor: light.groundColor.getHex(), position };
+  }
+  if (light instanceof THREE.DirectionalLight) {
+    return { type: 'directional', ...base, position, target: toVector3Like(light.target.position), ...describeShadow(light) };
+  }
+  if (light instanceof THREE.SpotLight) {
+    return {
+      type: 'spot',
+      ...base,
+      position,
+      target: toVector3Like(light.target.position),
+      distance: light.distance,
+      decay: light.decay,
+      angle: light.angle,
+      penumbra: light.penumbra,
+      ...describeShadow(light)
+    };
+  }
+  if (light instanceof THREE.PointLight) {
+    return { type: 'point', ...base, position, distance: light.distance, decay: light.decay, ...describeShadow(light) };
+  }
+  if (light instanceof THREE.RectAreaLight) {
+    // リグ以外で作られた面光源は、正面（ライトは-Z方向を向く）の1つ先を照らす先とする。
+    const target = rectAreaTargets.get(light)
+      ?? light.position.clone().sub(light.getWorldDirection(new THREE.Vector3()));
+    return { type: 'rectArea', ...base, position, target: toVector3Like(target), width: light.width, height: light.height };
+  }
+  return null;
+}
+
+function describeShadow(light: THREE.Light): { castShadow: boolean; shadow?: LightShadowConfig } {
+  if (!light.castShadow || !light.shadow) return { castShadow: light.castShadow };
+  const { shadow } = light;
+  const camera = shadow.camera as THREE.PerspectiveCamera | THREE.OrthographicCamera;
+  const shadowConfig: LightShadowConfig = {
+    mapSize: shadow.mapSize.x,
+    bias: shadow.bias,
+    normalBias: shadow.normalBias,
+    radius: shadow.radius,
+    camera: camera instanceof THREE.OrthographicCamera
+      ? { near: camera.near, far: camera.far, left: camera.left, right: camera.right, top: camera.top, bottom: camera.bottom }
+      : { near: camera.near, far: camera.far }
+  };
+  return { castShadow: true, shadow: shadowConfig };
+}
+
+function toVector3Like(vector: THREE.Vector3): Vector3Like {
+  return { x: vector.x, y: vector.y, z: vector.z };
+}
+
+// ===================================================================
+// Part 3: Light Rig (ライトの管理)
+// ===================================================================
+
+/**
+ * 名前でライトを管理するクラス。ライトは指定したオブジェクト（通常はシーン）の子として追加されます。
+ */
+export class LightRig {
+  // 追加された順番を保つため、Mapを使う。
+  private readonly lights = new Map<string, THREE.Light>();
+
+  constructor(private readonly parent: THREE.Object3D) {}
+
+  /**
+   * ライト設定からライトを作成して追加します。名前を省略した場合は'spot-1'のような名前が付きます。
+   * @throws {DuplicateLightError} 同じ名前のライトが追加済みの場合
+   */
+  public add<C extends LightConfig>(config: C): LightInstanceMap[C['type']] {
+    const name = config.name ?? this.generateName(config.type);
+    if (this.lights.has(name)) throw new DuplicateLightError(name);
+    const light = createLight({ ...config, name });
+    this.register(name, light);
+    return light;
+  }
+
+  /**
+   * 作成済みのライトを追加します（読み込んだシーンドキュメントのライトなど）。
+   * ライトに名前がない場合は名前が付きます。
+   * @returns ライトの名前
+   * @throws {DuplicateLightError} 同じ名前のライトが追加済みの場合
+   */
+  public attach(light: THREE.Light): string {
+    const name = light.name !== '' ? light.name : this.generateName(describeLight(light)?.type ?? 'light');
+    if (this.lights.has(name)) throw new DuplicateLightError(name);
+    light.name = name;
+    this.register(name, light);
+    return name;
+  }
+
+  /**
+   * ライトに変更を適用します。
+   * @throws {LightNotFoundError} ライトが見つからない場合
+   */
+  public update(name: string, changes: LightChanges): THREE.Light {
+    const light = this.lights.get(name);
+    if (!light) throw new LightNotFoundError(name);
+    updateLight(light, changes);
+    return light;
+  }
+
+  /**
+   * ライトを取り除き、シャドウマップなどのリソースを解放します。
+   * @returns ライトが見つかった場合はtrue
+   */
+  public remove(name: string): boolean {
+    const light = this.lights.get(name);
+    if (!light) return false;
+    this.lights.delete(name);
+    light.removeFromParent();
+    // light.dispose(): ライトが持つシャドウマップなどのリソースを解放する。
+    light.dispose();
+    return true;
+  }
+
+  public get(name: string): THREE.Light | undefined {
+    return this.lights.get(name);
+  }
+
+  public has(name: string): boolean {
+    return this.lights.has(name);
+  }
+
+  /**
+   * ライトの名前を、追加された順に取得します。
+   */
+  public getNames(): string[] {
+    return [...this.lights.keys()];
+  }
+
+  /**
+   * 全てのライトの現在の設定を、追加された順に取得します。
+   */
+  public describe(): LightConfig[] {
+    return [...this.lights.values()]
+      .map(describeLight)
+      .filter((config): config is LightConfig => config !== null);
+  }
+
+  /**
+   * 全てのライトを取り除き、設定の一覧のライトで置き換えます。
+   */
+  public set(configs: readonly LightConfig[]): void {
+    this.clear();
+    configs.forEach(config => this.add(config));
+  }
+
+  public clear(): void {
+    [...this.lights.keys()].forEach(name => this.remove(name));
+  }
+
+  private register(name: string, light: THREE.Light): void {
+    this.lights.set(name, light);
+    this.parent.add(light);
+  }
+
+  private generateName(type: string): string {
+    let index = 1;
+    while (this.lights.has(`${type}-${index}`)) index++;
+    return `${type}-${index}`;
+  }
+}
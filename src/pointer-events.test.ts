@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import type { MouseEventInfo } from '../types/geometry-types';
+import { PointerEventDispatcher } from './pointer-events';
+import { HeadlessSurface } from './scene-environment';
+
+function createDispatcher(target: THREE.Object3D | null): { surface: HeadlessSurface; dispatcher: PointerEventDispatcher } {
+  const surface = new HeadlessSurface(() => new THREE.Vector2(800, 600));
+  const pick = (event: MouseEvent): MouseEventInfo => ({
+    position: new THREE.Vector2(event.clientX, event.clientY),
+    normalized: new THREE.Vector2(),
+    target: target ?? undefined,
+    modifiers: { shift: false, ctrl: false, alt: false, meta: false }
+  });
+  return { surface, dispatcher: new PointerEventDispatcher(surface, { pick }) };
+}
+
+describe('PointerEventDispatcher', () => {
+  it('captures the pointer while an object is pressed', () => {
+    const { surface, dispatcher } = createDispatcher(new THREE.Object3D());
+
+    surface.dispatchPointer('pointerdown', { clientX: 10, clientY: 10, buttons: 1 });
+    expect(surface.hasPointerCapture(1)).toBe(true);
+    surface.dispatchPointer('pointerup', { clientX: 10, clientY: 10 });
+    expect(surface.hasPointerCapture(1)).toBe(false);
+
+    surface.dispatchPointer('pointerdown', { clientX: 10, clientY: 10, buttons: 1 });
+    surface.dispatchPointer('pointercancel');
+    expect(surface.hasPointerCapture(1)).toBe(false);
+    dispatcher.dispose();
+  });
+
+  it('does not capture the pointer when nothing is pressed', () => {
+    const { surface, dispatcher } = createDispatcher(null);
+
+    surface.dispatchPointer('pointerdown', { clientX: 10, clientY: 10, buttons: 1 });
+    expect(surface.hasPointerCapture(1)).toBe(false);
+    dispatcher.dispose();
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Three.js TypeScript Tutorial - 20. Pointer Events
+ *
+ * 3Dオブジェクトごとに、DOMの要素と同じようなポインターイベント（マウス・タッチ・ペン）のリスナーを登録する仕組みです。
+ * キャンバスのPointer Eventsをレイキャストで3Dオブジェクトに振り分け、
+ * ホバー（enter/leave・over/out）、クリックとドラッグの区別、ダブルクリック、ホイールを扱います。
+ * イベントは当たったオブジェクトから親へと順に伝わり（バブリング）、`stopPropagation()`で止められます。
+ *
+ * @example
+ * on(mesh, 'pointerenter', () => mesh.scale.setScalar(1.2));
+ * on(mesh, 'pointerleave', () => mesh.scale.setScalar(1));
+ * const unsubscribe = on(group, 'click', event => {
+ *   console.log(`${event.target.name} in ${event.currentTarget.name}`, event.point);
+ *   event.stopPropagation();
+ * });
+ */
+
+import * as THREE from 'three';
+import type { MouseEventInfo } from '../types/geometry-types';
+import type {
+  PointerEventOptions,
+  ScenePointerEvent,
+  ScenePointerEventType,
+  ScenePointerListener
+} from '../types/pointer-types';
+import type { RenderSurface } from '../types/renderer-types';
+
+// ===================================================================
+// Part 1: Listener Registry (リスナーの登録)
+// ===================================================================
+
+// オブジェクトごとのリスナー。オブジェクトが破棄されれば一緒に解放されるよう、WeakMapで持つ。
+const registry = new WeakMap<THREE.Object3D, Map<ScenePointerEventType, Set<ScenePointerListener>>>();
+
+/**
+ * オブジェクトにポインターイベントのリスナーを登録します。
+ * @returns 登録を解除する関数
+ */
+export function on<T extends ScenePointerEventType>(
+  object: THREE.Object3D,
+  type: T,
+  listener: ScenePointerListener<T>
+): () => void {
+  let listeners = registry.get(object);
+  if (!listeners) {
+    listeners = new Map();
+    registry.set(object, listeners);
+  }
+  let set = listeners.get(type);
+  if (!set) {
+    set = new Set();
+    listeners.set(type, set);
+  }
+  set.add(listener as ScenePointerListener);
+  return () => off(object, type, listener);
+}
+
+/**
+ * 登録したリスナーを解除します。
+ */
+export function off<T extends ScenePointerEventType>(object: THREE.Object3D, type: T, listener: ScenePointerListener<T>): void {
+  registry.get(object)?.get(type)?.delete(listener as ScenePointerListener);
+}
+
+/**
+ * オブジェクトにポインターイベントのリスナーが1つでも登録されているかどうか
+ */
+export function hasPointerListeners(object: THREE.Object3D): boolean {
+  const listeners = registry.get(object);
+  return listeners !== undefined && [...listeners.values()].some(set => set.size > 0);
+}
+
+// オブジェクト自身から、シーンまでの祖先の一覧
+function ancestry(object: THREE.Object3D | null): THREE.Object3D[] {
+  const chain: THREE.Object3D[] = [];
+  for (let current = object; current; current = current.parent) chain.push(current);
+  return chain;
+}
+
+// ===================================================================
+// Part 2: Dispatcher (DOMのイベントからの振り分け)
+// ===================================================================
+
+// ポインターが当たっているオブジェクト（ポインターごと）
+interface HoverState {
+  object: THREE.Object3D;
+  info: MouseEventInfo;
+}
+
+// ボタンを押したときの状態（ポインターごと）
+interface PressState {
+  object: THREE.Object3D;
+  x: number;
+  y: number;
+  dragging: boolean;
+}
+
+/**
+ * キャンバスのPointer Eventsを受け取り、3Dオブジェクトに登録されたリスナーへ振り分けます。
+ */
+export class PointerEventDispatcher {
+  private readonly listeners = new AbortController();
+  private readonly hovered = new Map<number, HoverState>();
+  private readonly pressed = new Map<number, PressState>();
+  private lastClick: { object: THREE.Object3D; time: number } | null = null;
+  private readonly previousCursor: string;
+
+  constructor(private readonly element: RenderSurface, private readonly options: PointerEventOptions) {
+    const { signal } = this.listeners;
+    this.previousCursor = element.style.cursor;
+    element.addEventListener('pointermove', e => this.onPointerMove(e), { signal });
+    element.addEventListener('pointerdown', e => this.onPointerDown(e), { signal });
+    element.addEventListener('pointerup', e => this.onPointerUp(e), { signal });
+    element.addEventListener('pointercancel', e => this.onPointerCancel(e), { signal });
+    // ポインターがキャンバスの外に出たら、当たっているオブジェクトはなくなる。
+    element.addEventListener('pointerleave', e => this.setHover(e, null), { signal });
+    element.addEventListener('wheel', e => this.onWheel(e), { signal, passive: true });
+  }
+
+  /**
+   * 全てのイベントリスナーを解除し、カーソルを元に戻します。
+   */
+  public dispose(): void {
+    this.listeners.abort();
+    this.hovered.clear();
+    this.pressed.clear();
+    this.element.style.cursor = this.previousCursor;
+  }
+
+  private onPointerMove(event: PointerEvent): void {
+    const info = this.options.pick(event);
+    this.setHover(event, info);
+
+    const press = this.pressed.get(event.pointerId);
+    if (press) {
+      const { dragThreshold = 4 } = this.options;
+      if (!press.dragging && Math.hypot(event.clientX - press.x, event.clientY - press.y) >= dragThreshold) {
+        press.dragging = true;
+        this.dispatch('dragstart', press.object, event, info);
+      }
+      // ドラッグ中は、ポインターが外れても押したオブジェクトに届ける。
+      if (press.dragging) this.dispatch('drag', press.object, event, info);
+    }
+    if (info?.target) this.dispatch('pointermove', info.target, event, info);
+  }
+
+  private onPointerDown(event: PointerEvent): void {
+    const info = this.options.pick(event);
+    // タッチやペンは、触れるまでホバーしていないため、ここで当たったオブジェクトを更新する。
+    this.setHover(event, info);
+    if (!info?.target) return;
+    // 押している間はキャンバスの外でもmove/upを受け取り、ドラッグを最後まで追えるようにする。
+    this.element.setPointerCapture(event.pointerId);
+    this.pressed.set(event.pointerId, { object: info.target, x: event.clientX, y: event.clientY, dragging: false });
+    this.dispatch('pointerdown', info.target, event, info);
+  }
+
+  private onPointerUp(event: PointerEvent): void {
+    const info = this.options.pick(event);
+    const press = this.pressed.get(event.pointerId);
+    this.pressed.delete(event.pointerId);
+    this.releaseCapture(event.pointerId);
+    // 何もない位置で離した場合は、押したオブジェクトに届ける（押したときの状態を片付けられるように）。
+    const upTarget = info?.target ?? press?.object;
+    if (upTarget) this.dispatch('pointerup', upTarget, event, info);
+
+    if (press?.dragging) {
+      this.dispatch('dragend', press.object, event, info);
+    } else if (press && info?.target && ancestry(info.target).includes(press.object)) {
+      this.dispatch('click', press.object, event, info);
+      // event.timeStamp: イベントが発生した時刻（ミリ秒）
+      const { doubleClickDelay = 300 } = this.options;
+      const last = this.lastClick;
+      if (last && last.object === press.object && event.timeStamp - last.time <= doubleClickDelay) {
+        this.dispatch('dblclick', press.object, event, info);
+        this.lastClick = null;
+      } else {
+        this.lastClick = { object: press.object, time: event.timeStamp };
+      }
+    }
+    // 指やペンを離すと、ポインターそのものがなくなる。
+    if (event.pointerType !== 'mouse') this.setHover(event, null);
+  }
+
+  private onPointerCancel(event: PointerEvent): void {
+    const press = this.pressed.get(event.pointerId);
+    this.pressed.delete(event.pointerId);
+    this.releaseCapture(event.pointerId);
+    if (press?.dragging) this.dispatch('dragend', press.object, event, null);
+    this.setHover(event, null);
+  }
+
+  private releaseCapture(pointerId: number): void {
+    if (this.element.hasPointerCapture(pointerId)) this.element.releasePointerCapture(pointerId);
+  }
+
+  private onWheel(event: WheelEvent): void {
+    const info = this.options.pick(event);
+    if (info?.target) this.dispatch('wheel', info.target, event, info);
+  }
+
+  /**
+   * ポインターが当たっているオブジェクトを更新し、out/leave・over/enterを発行します。
+   */
+  private setHover(event: MouseEvent, info: MouseEventInfo | null): void {
+    const pointerId = pointerIdOf(event);
+    const previous = this.hovered.get(pointerId) ?? null;
+    const next = info?.target ?? null;
+    if (next) this.hovered.set(pointerId, { object: next, info: info! });
+    else this.hovered.delete(pointerId);
+    if (previous?.object === next) return;
+
+    const previousChain = ancestry(previous?.object ?? null);
+    const nextChain = ancestry(next);
+    if (previous) {
+      this.dispatch('pointerout', previous.object, event, info ?? previous.info);
+      // 新しいオブジェクトの祖先でもあるオブジェクトからは、出ていない。
+      previousChain
+        .filter(object => !nextChain.includes(object))
+        .forEach(object => this.dispatch('pointerleave', object, event, info ?? previous.info, false));
+    }
+    if (next) {
+      this.dispatch('pointerover', next, event, info);
+      // DOMと同じく、外側（祖先）から順にenterを発行する。
+      nextChain
+        .filter(object => !previousChain.includes(object))
+        .reverse()
+        .forEach(object => this.dispatch('pointerenter', object, event, info, false));
+    }
+    this.updateCursor(next);
+  }
+
+  /**
+   * オブジェクトのリスナーを呼び出します。bubblesがtrueなら親へと順に伝え、最後にonEventに渡します。
+   */
+  private dispatch(
+    type: ScenePointerEventType,
+    target: THREE.Object3D,
+    nativeEvent: MouseEvent,
+    info: MouseEventInfo | null,
+    bubbles = true
+  ): void {
+    let stopped = false;
+    const pointer = nativeEvent as MouseEvent & Partial<Pick<PointerEvent, 'pointerType'>>;
+    const event: ScenePointerEvent = {
+      position: new THREE.Vector2(nativeEvent.clientX, nativeEvent.clientY),
+      normalized: new THREE.Vector2(),
+      modifiers: { shift: nativeEvent.shiftKey, ctrl: nativeEvent.ctrlKey, alt: nativeEvent.altKey, meta: nativeEvent.metaKey },
+      // ヒットの情報（point・normalなど）は、ポインターの下にあるオブジェクトのもの
+      ...info,
+      type,
+      target,
+      currentTarget: target,
+      nativeEvent,
+      pointerId: pointerIdOf(nativeEvent),
+      pointerType: pointer.pointerType ?? 'mouse',
+      button: nativeEvent.button,
+      stopPropagation: () => { stopped = true; }
+    };
+    for (const object of bubbles ? ancestry(target) : [target]) {
+      event.currentTarget = object;
+      registry.get(object)?.get(type)?.forEach(listener => listener(event));
+      if (stopped) return;
+    }
+    this.options.onEvent?.(event);
+  }
+
+  private updateCursor(object: THREE.Object3D | null): void {
+    const { hoverCursor = 'pointer', isInteractive } = this.options;
+    let cursor = this.previousCursor;
+    for (const current of ancestry(object)) {
+      const custom = (current.userData as { cursor?: unknown }).cursor;
+      if (typeof custom === 'string') {
+        cursor = custom;
+        break;
+      }
+      if (hasPointerListeners(current) || isInteractive?.(current)) {
+        cursor = hoverCursor;
+        break;
+      }
+    }
+    this.element.style.cursor = cursor;
+  }
+}
+
+// PointerEventではないイベント（wheelなど）は、マウスのポインターとして扱う。
+function pointerIdOf(event: MouseEvent): number {
+  return (event as MouseEvent & Partial<Pick<PointerEvent, 'pointerId'>>).pointerId ?? 1;
+}
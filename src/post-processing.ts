@@ -0,0 +1,392 @@
+/**
+ * Three.js TypeScript Tutorial - 25. Post Processing
+ *
+ * シーンを一度画像（レンダーターゲット）に描画し、その画像に効果を重ねてから画面に表示する仕組みです。
+ * ブルーム・輪郭線・SSAO・色調補正・アンチエイリアスのパスを、設定の配列で順番に並べて使います。
+ * 実行中に名前を指定して、パスの有効・無効や設定を変えられます。
+ *
+ * @example
+ * const pipeline = new PostProcessingPipeline(renderer, scene, camera, [
+ *   { type: 'outline', visibleEdgeColor: 0x00ffff },
+ *   { type: 'bloom', strength: 0.6 },
+ *   { type: 'fxaa' }
+ * ]);
+ * pipeline.setSelection([mesh]);
+ * pipeline.update('bloom', { strength: 1.2 });
+ * pipeline.setEnabled('fxaa', false);
+ * pipeline.render();
+ */
+
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { FXAAPass } from 'three/examples/jsm/postprocessing/FXAAPass.js';
+import { OutlinePass } from 'three/examples/jsm/postprocessing/OutlinePass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { SMAAPass } from 'three/examples/jsm/postprocessing/SMAAPass.js';
+import { SSAOPass } from 'three/examples/jsm/postprocessing/SSAOPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import type { Pass } from 'three/examples/jsm/postprocessing/Pass.js';
+import type {
+  PostProcessingEventMap,
+  PostProcessingPassConfig,
+  PostProcessingPassType,
+  PostProcessingPassUpdate
+} from '../types/postprocessing-types';
+
+/**
+ * パスの名前が重複している・見つからない場合のエラー
+ */
+export class PostProcessingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PostProcessingError';
+  }
+}
+
+// ===================================================================
+// Part 1: Color Grading Shader (色調補正のシェーダー)
+// ===================================================================
+
+/**
+ * 露出・コントラスト・彩度・色味を調整するシェーダー（ShaderPassに渡す）
+ */
+export const ColorGradingShader = {
+  name: 'ColorGradingShader',
+  uniforms: {
+    // tDiffuse: 前のパスまでの結果の画像（ShaderPassが設定する）
+    tDiffuse: { value: null as THREE.Texture | null },
+    exposure: { value: 1 },
+    contrast: { value: 0 },
+    saturation: { value: 0 },
+    tint: { value: new THREE.Color(0xffffff) }
+  },
+  vertexShader: /* glsl */ `
+    varying vec2 vUv;
+    void main() {
+      vUv = uv;
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+  `,
+  fragmentShader: /* glsl */ `
+    uniform sampler2D tDiffuse;
+    uniform float exposure;
+    uniform float contrast;
+    uniform float saturation;
+    uniform vec3 tint;
+    varying vec2 vUv;
+    void main() {
+      vec4 texel = texture2D(tDiffuse, vUv);
+      vec3 color = texel.rgb * exposure * tint;
+      // コントラスト: 中間の明るさ（0.5）からの差を広げる・縮める。
+      color = (color - 0.5) * (1.0 + contrast) + 0.5;
+      // 彩度: 同じ明るさの灰色との間で補間する（範囲外に伸ばすと鮮やかになる）。
+      float luminance = dot(color, vec3(0.2126, 0.7152, 0.0722));
+      color = mix(vec3(luminance), color, 1.0 + saturation);
+      gl_FragColor = vec4(max(color, 0.0), texel.a);
+    }
+  `
+};
+
+// ===================================================================
+// Part 2: Passes (パス)
+// ===================================================================
+
+const BLOOM_DEFAULTS = { strength: 1, radius: 0.4, threshold: 0.85 } as const;
+const OUTLINE_DEFAULTS = {
+  visibleEdgeColor: 0xffaa00,
+  hiddenEdgeColor: 0x663300,
+  edgeStrength: 3,
+  edgeThickness: 1,
+  edgeGlow: 0,
+  pulsePeriod: 0
+} as const;
+const SSAO_DEFAULTS = { kernelRadius: 8, minDistance: 0.005, maxDistance: 0.1 } as const;
+const COLOR_GRADING_DEFAULTS = { exposure: 1, contrast: 0, saturation: 0, tint: 0xffffff } as const;
+
+// 色空間の変換（OutputPass）の後に実行するパス。アンチエイリアスは表示する色で輪郭を判定する。
+const AFTER_OUTPUT: ReadonlySet<PostProcessingPassType> = new Set(['fxaa', 'smaa']);
+
+// パスの設定（nameは省略時にtypeで補う）と、作成したパス
+interface PassEntry {
+  config: PostProcessingPassConfig & { name: string };
+  pass: Pass;
+}
+
+interface PassContext {
+  scene: THREE.Scene;
+  camera: THREE.Camera;
+  /** 描画する画素数（描画サイズ × ピクセル比） */
+  resolution: THREE.Vector2;
+}
+
+function createPass(config: PostProcessingPassConfig, context: PassContext): Pass {
+  const { scene, camera, resolution } = context;
+  switch (config.type) {
+    case 'bloom':
+      // new UnrealBloomPass(resolution, strength, radius, threshold): 明るい部分を縮小・ぼかして重ねる。
+      return new UnrealBloomPass(resolution.clone(), BLOOM_DEFAULTS.strength, BLOOM_DEFAULTS.radius, BLOOM_DEFAULTS.threshold);
+    case 'outline':
+      // new OutlinePass(resolution, scene, camera): selectedObjectsのシルエットの縁を検出して線を描く。
+      return new OutlinePass(resolution.clone(), scene, camera);
+    case 'ssao':
+      // new SSAOPass(scene, camera, width, height): 法線と深度を描画し、周囲の深度から遮られ具合を求める。
+      return new SSAOPass(scene, camera, resolution.x, resolution.y);
+    case 'colorGrading':
+      // new ShaderPass(shader): 前のパスの結果をtDiffuseとして、画面全体にシェーダーを適用する。
+      // ShaderPassはuniformsを複製するため、パスごとに別の値を持てる。
+      return new ShaderPass(ColorGradingShader);
+    case 'fxaa':
+      return new FXAAPass();
+    case 'smaa':
+      return new SMAAPass();
+    default: {
+      const exhaustiveCheck: never = config;
+      throw new PostProcessingError(`Unknown post processing pass: ${String((exhaustiveCheck as { type: unknown }).type)}`);
+    }
+  }
+}
+
+function applyPassConfig(pass: Pass, config: PostProcessingPassConfig): void {
+  pass.enabled = config.enabled ?? true;
+  switch (config.type) {
+    case 'bloom': {
+      const bloom = pass as UnrealBloomPass;
+      bloom.strength = config.strength ?? BLOOM_DEFAULTS.strength;
+      bloom.radius = config.radius ?? BLOOM_DEFAULTS.radius;
+      bloom.threshold = config.threshold ?? BLOOM_DEFAULTS.threshold;
+      return;
+    }
+    case 'outline': {
+      const outline = pass as OutlinePass;
+      outline.visibleEdgeColor.set(config.visibleEdgeColor ?? OUTLINE_DEFAULTS.visibleEdgeColor);
+      outline.hiddenEdgeColor.set(config.hiddenEdgeColor ?? OUTLINE_DEFAULTS.hiddenEdgeColor);
+      outline.edgeStrength = config.edgeStrength ?? OUTLINE_DEFAULTS.edgeStrength;
+      outline.edgeThickness = config.edgeThickness ?? OUTLINE_DEFAULTS.edgeThickness;
+      outline.edgeGlow = config.edgeGlow ?? OUTLINE_DEFAULTS.edgeGlow;
+      outline.pulsePeriod = config.pulsePeriod ?? OUTLINE_DEFAULTS.pulsePeriod;
+      return;
+    }
+    case 'ssao': {
+      const ssao = pass as SSAOPass;
+      ssao.kernelRadius = config.kernelRadius ?? SSAO_DEFAULTS.kernelRadius;
+      ssao.minDistance = config.minDistance ?? SSAO_DEFAULTS.minDistance;
+      ssao.maxDistance = config.maxDistance ?? SSAO_DEFAULTS.maxDistance;
+      return;
+    }
+    case 'colorGrading': {
+      const { uniforms } = pass as ShaderPass;
+      uniforms.exposure.value = config.exposure ?? COLOR_GRADING_DEFAULTS.exposure;
+      uniforms.contrast.value = config.contrast ?? COLOR_GRADING_DEFAULTS.contrast;
+      uniforms.saturation.value = config.saturation ?? COLOR_GRADING_DEFAULTS.saturation;
+      (uniforms.tint.value as THREE.Color).set(config.tint ?? COLOR_GRADING_DEFAULTS.tint);
+      return;
+    }
+    case 'fxaa':
+    case 'smaa':
+      return;
+    default: {
+      const exhaustiveCheck: never = config;
+      throw new PostProcessingError(`Unknown post processing pass: ${String((exhaustiveCheck as { type: unknown }).type)}`);
+    }
+  }
+}
+
+// ===================================================================
+// Part 3: Pipeline (パイプライン)
+// ===================================================================
+
+/**
+ * シーンの描画と、設定の配列で並べたポストプロセスのパスをまとめて実行するパイプライン
+ */
+export class PostProcessingPipeline extends THREE.EventDispatcher<PostProcessingEventMap> {
+  // new EffectComposer(renderer): 2枚のレンダーターゲットを交互に使い、パスを順に実行する。
+  private readonly composer: EffectComposer;
+  // 最初にシーンを描画するパス
+  private readonly renderPass: RenderPass;
+  // リニアの色を、トーンマッピングして画面の色空間（sRGB）に変換するパス
+  private readonly outputPass = new OutputPass();
+  private entries: PassEntry[] = [];
+  // 選択に合わせて輪郭線を描くオブジェクト
+  private selection: THREE.Object3D[] = [];
+
+  constructor(
+    renderer: THREE.WebGLRenderer,
+    private readonly scene: THREE.Scene,
+    private camera: THREE.Camera,
+    passes: readonly PostProcessingPassConfig[] = []
+  ) {
+    super();
+    this.composer = new EffectComposer(renderer);
+    const size = renderer.getSize(new THREE.Vector2());
+    this.composer.setPixelRatio(renderer.getPixelRatio());
+    this.composer.setSize(size.x, size.y);
+    this.renderPass = new RenderPass(scene, camera);
+    this.setPasses(passes);
+  }
+
+  /**
+   * パスの構成を置き換えます。以前のパスとそのレンダーターゲットは破棄されます。
+   * アンチエイリアス（fxaa・smaa）は、色空間の変換の後に実行する必要があるため、並べた順番にかかわらず最後に実行されます。
+   * @throws {PostProcessingError} パスの名前が重複している場合
+   */
+  public setPasses(passes: readonly PostProcessingPassConfig[]): void {
+    const names = new Set<string>();
+    passes.forEach(config => {
+      const name = config.name ?? config.type;
+      if (names.has(name)) {
+        throw new PostProcessingError(`Duplicate post processing pass name: ${name} (set a unique name for passes of the same type)`);
+      }
+      names.add(name);
+    });
+
+    this.entries.forEach(entry => entry.pass.dispose());
+    const context: PassContext = { scene: this.scene, camera: this.camera, resolution: this.getResolution() };
+    this.entries = passes.map(config => {
+      const entry: PassEntry = { config: { ...config, name: config.name ?? config.type }, pass: createPass(config, context) };
+      applyPassConfig(entry.pass, entry.config);
+      return entry;
+    });
+    this.rebuildComposer();
+    this.applySelection();
+    this.notify();
+  }
+
+  /**
+   * 現在のパスの設定を取得します（nameは補われています）。
+   */
+  public getPasses(): readonly PostProcessingPassConfig[] {
+    return this.entries.map(entry => entry.config);
+  }
+
+  /**
+   * Three.jsのパスを取得します。設定にない項目を直接変更する場合に使います。
+   */
+  public getPass(name: string): Pass | null {
+    return this.entries.find(entry => entry.config.name === name)?.pass ?? null;
+  }
+
+  /**
+   * パスを有効・無効にします。無効なパスは実行されず、画像はそのまま次のパスに渡されます。
+   * @throws {PostProcessingError} パスが見つからない場合
+   */
+  public setEnabled(name: string, enabled: boolean): void {
+    const entry = this.getEntry(name);
+    entry.config = { ...entry.config, enabled };
+    entry.pass.enabled = enabled;
+    this.notify();
+  }
+
+  public isEnabled(name: string): boolean {
+    return this.getEntry(name).pass.enabled;
+  }
+
+  /**
+   * パスの設定を変更します。指定しなかった項目は変わりません。
+   * @throws {PostProcessingError} パスが見つからない場合
+   */
+  public update(name: string, params: PostProcessingPassUpdate): void {
+    const entry = this.getEntry(name);
+    entry.config = { ...entry.config, ...params } as PassEntry['config'];
+    applyPassConfig(entry.pass, entry.config);
+    this.applySelection();
+    this.notify();
+  }
+
+  /**
+   * 選択中のオブジェクトを設定します。`followSelection`が有効な輪郭線のパスが、これらの輪郭線を描きます。
+   */
+  public setSelection(objects: readonly THREE.Object3D[]): void {
+    this.selection = [...objects];
+    this.applySelection();
+  }
+
+  /**
+   * 輪郭線のパスが描くオブジェクトを指定します（`followSelection: false`のパスで使います）。
+   * @throws {PostProcessingError} パスが見つからない、または輪郭線のパスでない場合
+   */
+  public setOutlineObjects(name: string, objects: readonly THREE.Object3D[]): void {
+    const { pass } = this.getEntry(name);
+    if (!(pass instanceof OutlinePass)) throw new PostProcessingError(`Post processing pass is not an outline pass: ${name}`);
+    pass.selectedObjects = [...objects];
+  }
+
+  /**
+   * 選択中のオブジェクトの輪郭線を描く、有効なパスがあるかどうか
+   */
+  public hasSelectionOutline(): boolean {
+    return this.entries.some(({ config }) => config.type === 'outline' && config.followSelection !== false && config.enabled !== false);
+  }
+
+  /**
+   * 描画するカメラを置き換えます。
+   */
+  public setCamera(camera: THREE.Camera): void {
+    this.camera = camera;
+    this.renderPass.camera = camera;
+    this.entries.forEach(({ pass }) => {
+      if (pass instanceof OutlinePass) pass.renderCamera = camera;
+      if (pass instanceof SSAOPass) pass.camera = camera;
+    });
+  }
+
+  /**
+   * 描画サイズを変更します。全てのパスのレンダーターゲットが、新しいサイズで作り直されます。
+   */
+  public setSize(width: number, height: number, pixelRatio: number): void {
+    this.composer.setPixelRatio(pixelRatio);
+    // composer.setSize(width, height): 自身のレンダーターゲットと、全てのパスのsetSizeを呼ぶ（ピクセル比を掛けた大きさ）。
+    this.composer.setSize(width, height);
+  }
+
+  /**
+   * シーンを描画し、パスを順に実行して画面に表示します。
+   * @param deltaTime 前の描画からの経過時間（秒）。輪郭線の点滅などに使う
+   */
+  public render(deltaTime?: number): void {
+    this.composer.render(deltaTime);
+  }
+
+  /**
+   * 全てのパスとレンダーターゲットを破棄します。
+   */
+  public dispose(): void {
+    this.entries.forEach(entry => entry.pass.dispose());
+    this.entries = [];
+    this.renderPass.dispose();
+    this.outputPass.dispose();
+    // composer.dispose(): パスの間で受け渡すレンダーターゲットを破棄する（パスは破棄しない）。
+    this.composer.dispose();
+  }
+
+  private getEntry(name: string): PassEntry {
+    const entry = this.entries.find(candidate => candidate.config.name === name);
+    if (!entry) throw new PostProcessingError(`Unknown post processing pass: ${name}`);
+    return entry;
+  }
+
+  private getResolution(): THREE.Vector2 {
+    // composer.renderTarget1: パスの間で受け渡す画像。大きさは描画サイズ × ピクセル比。
+    const { width, height } = this.composer.renderTarget1;
+    return new THREE.Vector2(width, height);
+  }
+
+  private rebuildComposer(): void {
+    [...this.composer.passes].forEach(pass => this.composer.removePass(pass));
+    this.composer.addPass(this.renderPass);
+    this.entries.filter(({ config }) => !AFTER_OUTPUT.has(config.type)).forEach(({ pass }) => this.composer.addPass(pass));
+    this.composer.addPass(this.outputPass);
+    this.entries.filter(({ config }) => AFTER_OUTPUT.has(config.type)).forEach(({ pass }) => this.composer.addPass(pass));
+  }
+
+  private applySelection(): void {
+    this.entries.forEach(({ config, pass }) => {
+      if (config.type === 'outline' && config.followSelection !== false) (pass as OutlinePass).selectedObjects = [...this.selection];
+    });
+  }
+
+  private notify(): void {
+    this.dispatchEvent({ type: 'change', passes: this.getPasses() });
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { createRandom, sampleHeightmap, TerrainGeometry } from './procedural-geometry';
+
+function attributeArray(geometry: THREE.BufferGeometry, name: string): number[] {
+  return Array.from(geometry.getAttribute(name).array);
+}
+
+describe('createRandom', () => {
+  it('returns the same sequence for the same seed', () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    const first = Array.from({ length: 5 }, () => a());
+    expect(Array.from({ length: 5 }, () => b())).toEqual(first);
+    first.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe('TerrainGeometry', () => {
+  const config = {
+    seed: 42,
+    widthSegments: 8,
+    depthSegments: 8,
+    height: 3,
+    colors: [{ height: 0, color: 0x2e5e2e }, { height: 1, color: 0xffffff }]
+  };
+
+  it('creates identical vertex buffers for the same seed', () => {
+    const a = new TerrainGeometry(config);
+    const b = new TerrainGeometry(config);
+    ['position', 'normal', 'uv', 'color'].forEach(name => {
+      expect(attributeArray(b, name)).toEqual(attributeArray(a, name));
+    });
+    expect(Array.from(b.getIndex()!.array)).toEqual(Array.from(a.getIndex()!.array));
+  });
+
+  it('creates different heights for a different seed', () => {
+    const a = new TerrainGeometry(config);
+    const b = new TerrainGeometry({ ...config, seed: 43 });
+    expect(attributeArray(b, 'position')).not.toEqual(attributeArray(a, 'position'));
+  });
+
+  it('keeps heights within 0 and height', () => {
+    const positions = new TerrainGeometry(config).getAttribute('position');
+    for (let i = 0; i < positions.count; i++) {
+      expect(positions.getY(i)).toBeGreaterThanOrEqual(0);
+      expect(positions.getY(i)).toBeLessThanOrEqual(config.height);
+    }
+  });
+
+  it('keeps the shape of the terrain when the segment count changes', () => {
+    const coarse = new TerrainGeometry(config).getAttribute('position');
+    const fine = new TerrainGeometry({ ...config, widthSegments: 16, depthSegments: 16 }).getAttribute('position');
+    // 粗いグリッドの頂点(column, row)は、細かいグリッドの頂点(2 * column, 2 * row)と同じ位置にある。
+    [[0, 0], [3, 5], [8, 8]].forEach(([column, row]) => {
+      const coarseIndex = row * 9 + column;
+      const fineIndex = row * 2 * 17 + column * 2;
+      expect(fine.getX(fineIndex)).toBeCloseTo(coarse.getX(coarseIndex));
+      expect(fine.getY(fineIndex)).toBeCloseTo(coarse.getY(coarseIndex));
+      expect(fine.getZ(fineIndex)).toBeCloseTo(coarse.getZ(coarseIndex));
+    });
+  });
+
+  it('uses heightmap values instead of noise', () => {
+    const geometry = new TerrainGeometry({
+      width: 2,
+      depth: 2,
+      widthSegments: 1,
+      depthSegments: 1,
+      height: 2,
+      heightmap: { width: 2, height: 2, data: [0, 0.25, 0.5, 1] }
+    });
+    const positions = geometry.getAttribute('position');
+    expect([0, 1, 2, 3].map(i => positions.getY(i))).toEqual([0, 0.5, 1, 2]);
+  });
+});
+
+describe('sampleHeightmap', () => {
+  it('interpolates between samples', () => {
+    const heightmap = { width: 2, height: 1, data: [0, 1] };
+    expect(sampleHeightmap(heightmap, 0, 0)).toBe(0);
+    expect(sampleHeightmap(heightmap, 0.5, 0)).toBeCloseTo(0.5);
+    expect(sampleHeightmap(heightmap, 1, 0)).toBe(1);
+  });
+});
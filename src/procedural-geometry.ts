@@ -0,0 +1,477 @@
+/**
+ * Three.js TypeScript Tutorial - 13. Procedural Geometry
+ *
+ * 平らな`PlaneGeometry`ではない地面や曲面を、プログラムで生成するジオメトリです。
+ * - `TerrainGeometry`: ハイトマップ（数値の配列や`ImageData`）またはシード付きのノイズから作る地形
+ * - `ParametricSurfaceGeometry`: `(u, v) => 位置`の関数（または`registerParametricSurface`で登録した名前）から作る曲面
+ *
+ * どちらも法線・UV・高さに応じた頂点カラー（任意）を持ち、同じ設定からは常に同じ頂点データが作られます。
+ * `TypedObjectFactory.createMesh`では`{ type: 'terrain' }`・`{ type: 'parametric' }`として使えます。
+ *
+ * @example
+ * const terrain = TypedObjectFactory.createMesh({
+ *   geometry: { type: 'terrain', config: { seed: 42, height: 3, colors: [
+ *     { height: 0, color: 0x2e5e2e }, { height: 0.7, color: 0x8b7355 }, { height: 1, color: 0xffffff }
+ *   ] } },
+ *   material: { type: 'standard', config: { vertexColors: true } }
+ * });
+ */
+
+import * as THREE from 'three';
+import type {
+  HeightColorStop,
+  HeightmapData,
+  ParametricGeometryConfig,
+  ParametricSurfaceFunction,
+  TerrainGeometryConfig
+} from '../types/geometry-types';
+
+// ===================================================================
+// Part 0: Defaults (デフォルト値)
+// ===================================================================
+
+/**
+ * 地形ジオメトリのデフォルト値。`types/geometry-types.ts`に記載された値と一致させる。
+ */
+export const TERRAIN_DEFAULTS: Readonly<Required<TerrainGeometryConfig>> = {
+  width: 10,
+  depth: 10,
+  widthSegments: 64,
+  depthSegments: 64,
+  height: 1,
+  heightmap: null,
+  seed: 1,
+  octaves: 4,
+  persistence: 0.5,
+  lacunarity: 2,
+  frequency: 0.1,
+  colors: []
+};
+
+/**
+ * パラメトリック曲面ジオメトリのデフォルト値
+ */
+export const PARAMETRIC_DEFAULTS: Readonly<Required<ParametricGeometryConfig>> = {
+  surface: 'plane',
+  uSegments: 32,
+  vSegments: 32,
+  colors: []
+};
+
+// 値がundefinedのフィールドを除いて、デフォルト値に上書きする
+function withDefined<T extends object>(defaults: Readonly<Required<T>>, config: T): Required<T> {
+  const defined = Object.entries(config).filter(([, value]) => value !== undefined);
+  return { ...defaults, ...Object.fromEntries(defined) } as Required<T>;
+}
+
+// ===================================================================
+// Part 1: Noise (ノイズ)
+// ===================================================================
+
+/**
+ * シードから、0以上1未満の疑似乱数を返す関数を作ります（mulberry32）。
+ * `Math.random`と違い、同じシードからは常に同じ数列が得られます。
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// グラデーションノイズで使う8方向の勾配
+const GRADIENTS = [[1, 1], [-1, 1], [1, -1], [-1, -1], [1, 0], [-1, 0], [0, 1], [0, -1]] as const;
+
+/**
+ * シード付きの2Dパーリンノイズ関数を作ります。
+ * 返される関数は、座標に対して-1〜1の滑らかに変化する値を返します。
+ */
+export function createNoise2D(seed: number): (x: number, y: number) => number {
+  // 0〜255をシードでシャッフルした順列表。2周分を並べて、添字の折り返しを省く。
+  const random = createRandom(seed);
+  const table = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = table.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [table[i], table[j]] = [table[j], table[i]];
+  }
+  const permutation = new Uint8Array(512);
+  for (let i = 0; i < 512; i++) permutation[i] = table[i & 255];
+
+  const gradient = (hash: number, x: number, y: number) => {
+    const [gx, gy] = GRADIENTS[hash & 7];
+    return gx * x + gy * y;
+  };
+
+  return (x, y) => {
+    const cellX = Math.floor(x);
+    const cellY = Math.floor(y);
+    const fx = x - cellX;
+    const fy = y - cellY;
+    const ix = cellX & 255;
+    const iy = cellY & 255;
+    // セルの4隅の勾配との内積を、滑らかな補間曲線（6t^5 - 15t^4 + 10t^3）で混ぜる。
+    const u = fade(fx);
+    const v = fade(fy);
+    const a = permutation[ix] + iy;
+    const b = permutation[ix + 1] + iy;
+    const bottom = THREE.MathUtils.lerp(gradient(permutation[a], fx, fy), gradient(permutation[b], fx - 1, fy), u);
+    const top = THREE.MathUtils.lerp(gradient(permutation[a + 1], fx, fy - 1), gradient(permutation[b + 1], fx - 1, fy - 1), u);
+    return THREE.MathUtils.clamp(THREE.MathUtils.lerp(bottom, top, v), -1, 1);
+  };
+}
+
+function fade(t: number): number {
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+/**
+ * フラクタルノイズのオプション
+ */
+export interface FractalNoiseOptions {
+  octaves: number;
+  persistence: number;
+  lacunarity: number;
+  frequency: number;
+}
+
+/**
+ * 周波数を上げながら振幅を下げたノイズを重ね合わせ（fBm）、自然な起伏を作ります。
+ * @returns -1〜1の値
+ */
+export function fractalNoise(
+  noise: (x: number, y: number) => number,
+  x: number,
+  y: number,
+  options: FractalNoiseOptions
+): number {
+  let amplitude = 1;
+  let frequency = options.frequency;
+  let total = 0;
+  let amplitudeSum = 0;
+  for (let octave = 0; octave < options.octaves; octave++) {
+    total += noise(x * frequency, y * frequency) * amplitude;
+    amplitudeSum += amplitude;
+    amplitude *= options.persistence;
+    frequency *= options.lacunarity;
+  }
+  return amplitudeSum > 0 ? total / amplitudeSum : 0;
+}
+
+// ===================================================================
+// Part 2: Terrain (地形)
+// ===================================================================
+
+/**
+ * ハイトマップの高さ（0〜1）を、0〜1の位置で双線形補間して取り出します。
+ * @throws ハイトマップのデータの長さが`width * height`（または×4）でない場合
+ */
+export function sampleHeightmap(heightmap: HeightmapData, u: number, v: number): number {
+  const { width, height, data } = heightmap;
+  const channels = data.length === width * height * 4 ? 4 : 1;
+  if (width < 1 || height < 1 || data.length !== width * height * channels) {
+    throw new Error(`Heightmap data length ${data.length} does not match ${width}x${height}`);
+  }
+  const scale = channels === 4 ? 1 / 255 : 1;
+  const at = (column: number, row: number) => data[(row * width + column) * channels] * scale;
+
+  const x = THREE.MathUtils.clamp(u, 0, 1) * (width - 1);
+  const y = THREE.MathUtils.clamp(v, 0, 1) * (height - 1);
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const top = THREE.MathUtils.lerp(at(x0, y0), at(x1, y0), x - x0);
+  const bottom = THREE.MathUtils.lerp(at(x0, y1), at(x1, y1), x - x0);
+  return THREE.MathUtils.lerp(top, bottom, y - y0);
+}
+
+/**
+ * ハイトマップまたはノイズから作る地形ジオメトリ
+ * XZ平面の中心を原点とし、高さはY方向（0〜`height`）に持ち上げます。
+ * ハイトマップの1行目は奥（-Z側）に対応します。
+ */
+export class TerrainGeometry extends THREE.BufferGeometry {
+  override readonly type: string = 'TerrainGeometry';
+  parameters: Readonly<Required<TerrainGeometryConfig>>;
+
+  constructor(config: TerrainGeometryConfig = {}) {
+    super();
+    const parameters = withDefined(TERRAIN_DEFAULTS, config);
+    this.parameters = parameters;
+
+    const columns = Math.max(1, Math.floor(parameters.widthSegments)) + 1;
+    const rows = Math.max(1, Math.floor(parameters.depthSegments)) + 1;
+    const heights = terrainHeights(parameters, columns, rows);
+    const cellWidth = parameters.width / (columns - 1);
+    const cellDepth = parameters.depth / (rows - 1);
+    const heightAt = (column: number, row: number) => heights[row * columns + column];
+
+    const positions: number[] = [];
+    const normals: number[] = [];
+    const uvs: number[] = [];
+    const normal = new THREE.Vector3();
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        positions.push(
+          -parameters.width / 2 + column * cellWidth,
+          heightAt(column, row),
+          -parameters.depth / 2 + row * cellDepth
+        );
+        // 高さの傾き（中央差分。端では片側の差分）から法線を求める: n = (-dh/dx, 1, -dh/dz)
+        const left = Math.max(column - 1, 0);
+        const right = Math.min(column + 1, columns - 1);
+        const back = Math.max(row - 1, 0);
+        const front = Math.min(row + 1, rows - 1);
+        const slopeX = (heightAt(right, row) - heightAt(left, row)) / ((right - left) * cellWidth);
+        const slopeZ = (heightAt(column, front) - heightAt(column, back)) / ((front - back) * cellDepth);
+        normal.set(-slopeX, 1, -slopeZ).normalize();
+        normals.push(normal.x, normal.y, normal.z);
+        // PlaneGeometryと同じく、奥（1行目）がv=1になる。
+        uvs.push(column / (columns - 1), 1 - row / (rows - 1));
+      }
+    }
+
+    this.setIndex(gridIndices(columns, rows));
+    // setAttribute(name, attribute): 頂点ごとのデータ（位置・法線・UV）をジオメトリに設定する。
+    this.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    this.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+    this.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+    applyHeightColors(this, heights, parameters.colors);
+  }
+
+  // clone()から呼ばれる。Three.jsの組み込みのジオメトリと同じく、作成時のパラメータも複製する。
+  override copy(source: TerrainGeometry): this {
+    super.copy(source);
+    this.parameters = { ...source.parameters };
+    return this;
+  }
+}
+
+/**
+ * グリッドの各頂点の高さを計算する
+ */
+function terrainHeights(parameters: Required<TerrainGeometryConfig>, columns: number, rows: number): number[] {
+  const heights = new Array<number>(columns * rows);
+  const heightmap = parameters.heightmap;
+  const noise = heightmap ? null : createNoise2D(parameters.seed);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const u = column / (columns - 1);
+      const v = row / (rows - 1);
+      let value: number;
+      if (heightmap) {
+        value = sampleHeightmap(heightmap, u, v);
+      } else {
+        // ワールド座標でノイズを取るため、分割数を変えても地形の形は変わらない。
+        const x = (u - 0.5) * parameters.width;
+        const z = (v - 0.5) * parameters.depth;
+        value = (fractalNoise(noise!, x, z, parameters) + 1) / 2;
+      }
+      heights[row * columns + column] = value * parameters.height;
+    }
+  }
+  return heights;
+}
+
+// ===================================================================
+// Part 3: Parametric Surface (パラメトリック曲面)
+// ===================================================================
+
+// 法線を求めるための微小な変化量
+const EPSILON = 1e-5;
+
+/**
+ * 登録済みの名前で、もう一度曲面を登録しようとした場合のエラー
+ */
+export class DuplicateSurfaceError extends Error {
+  constructor(public readonly surfaceName: string) {
+    super(`The parametric surface "${surfaceName}" is already registered`);
+    this.name = 'DuplicateSurfaceError';
+  }
+}
+
+/**
+ * 登録されていない名前の曲面を作成しようとした場合のエラー
+ */
+export class UnregisteredSurfaceError extends Error {
+  constructor(public readonly surfaceName: string) {
+    super(`The parametric surface "${surfaceName}" is not registered`);
+    this.name = 'UnregisteredSurfaceError';
+  }
+}
+
+const surfaces = new Map<string, ParametricSurfaceFunction>();
+
+/**
+ * 曲面の関数を名前で登録します。
+ * `surface`に関数の代わりに名前を指定すると、シーンドキュメントに保存して読み込み直せます。
+ * 読み込む側でも、同じ名前で同じ関数を登録しておく必要があります。
+ * @throws {DuplicateSurfaceError} 同じ名前の曲面がすでに登録されている場合
+ */
+export function registerParametricSurface(name: string, surface: ParametricSurfaceFunction): void {
+  if (surfaces.has(name)) throw new DuplicateSurfaceError(name);
+  surfaces.set(name, surface);
+}
+
+export function isParametricSurfaceRegistered(name: string): boolean {
+  return surfaces.has(name);
+}
+
+/**
+ * 登録されている曲面の名前の一覧を返します。
+ */
+export function getParametricSurfaceNames(): string[] {
+  return [...surfaces.keys()];
+}
+
+// 法線が+Y（上）を向くように、vが増えると-Z方向に進む。
+registerParametricSurface('plane', (u, v) => ({ x: u - 0.5, y: 0, z: 0.5 - v }));
+
+function resolveSurface(surface: ParametricSurfaceFunction | string): ParametricSurfaceFunction {
+  if (typeof surface === 'function') return surface;
+  const registered = surfaces.get(surface);
+  if (!registered) throw new UnregisteredSurfaceError(surface);
+  return registered;
+}
+
+/**
+ * `(u, v) => 位置`の関数から作る曲面ジオメトリ
+ * 法線は関数の偏微分（数値微分）の外積から求めるため、球や円環のように閉じた曲面でも継ぎ目が目立ちません。
+ */
+export class ParametricSurfaceGeometry extends THREE.BufferGeometry {
+  override readonly type: string = 'ParametricSurfaceGeometry';
+  parameters: Readonly<Required<ParametricGeometryConfig>>;
+
+  constructor(config: ParametricGeometryConfig = {}) {
+    super();
+    const parameters = withDefined(PARAMETRIC_DEFAULTS, config);
+    this.parameters = parameters;
+    const surface = resolveSurface(parameters.surface);
+
+    // uを行、vを列として並べると、三角形の表の向き（行方向 × 列方向）が法線の∂f/∂u × ∂f/∂vと一致する。
+    const rows = Math.max(1, Math.floor(parameters.uSegments)) + 1;
+    const columns = Math.max(1, Math.floor(parameters.vSegments)) + 1;
+    const positions: number[] = [];
+    const normals: number[] = [];
+    const uvs: number[] = [];
+    const heights: number[] = [];
+    const point = new THREE.Vector3();
+    const normal = new THREE.Vector3();
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const u = row / (rows - 1);
+        const v = column / (columns - 1);
+        evaluate(surface, u, v, point);
+        surfaceNormal(surface, u, v, point, normal);
+        positions.push(point.x, point.y, point.z);
+        normals.push(normal.x, normal.y, normal.z);
+        uvs.push(u, v);
+        heights.push(point.y);
+      }
+    }
+
+    this.setIndex(gridIndices(columns, rows));
+    this.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    this.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+    this.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+    applyHeightColors(this, heights, parameters.colors);
+  }
+
+  // clone()から呼ばれる。Three.jsの組み込みのジオメトリと同じく、作成時のパラメータも複製する。
+  override copy(source: ParametricSurfaceGeometry): this {
+    super.copy(source);
+    this.parameters = { ...source.parameters };
+    return this;
+  }
+}
+
+function evaluate(surface: ParametricSurfaceFunction, u: number, v: number, target: THREE.Vector3): THREE.Vector3 {
+  const { x, y, z } = surface(u, v);
+  return target.set(x, y, z);
+}
+
+/**
+ * 曲面の法線（∂f/∂u × ∂f/∂v）を数値微分で求める。
+ * 球の極のように外積が0になる点では、少し内側の点の法線を使う。
+ */
+function surfaceNormal(
+  surface: ParametricSurfaceFunction,
+  u: number,
+  v: number,
+  point: THREE.Vector3,
+  target: THREE.Vector3,
+  retry: boolean = true
+): THREE.Vector3 {
+  // 0の端では前進差分、それ以外では後退差分で接線を求める。
+  const tangentU = u - EPSILON >= 0
+    ? point.clone().sub(evaluate(surface, u - EPSILON, v, new THREE.Vector3()))
+    : evaluate(surface, u + EPSILON, v, new THREE.Vector3()).sub(point);
+  const tangentV = v - EPSILON >= 0
+    ? point.clone().sub(evaluate(surface, u, v - EPSILON, new THREE.Vector3()))
+    : evaluate(surface, u, v + EPSILON, new THREE.Vector3()).sub(point);
+  target.crossVectors(tangentU, tangentV);
+  // 接線の一方が他方に比べて極端に短い（点が縮退している）場合は、外積の向きが誤差で決まってしまう。
+  const scale = Math.max(tangentU.lengthSq(), tangentV.lengthSq());
+  if (target.lengthSq() > scale * scale * 1e-12) return target.normalize();
+  if (!retry) return target.set(0, 1, 0);
+
+  const innerU = u < 0.5 ? u + 1e-3 : u - 1e-3;
+  const innerV = v < 0.5 ? v + 1e-3 : v - 1e-3;
+  return surfaceNormal(surface, innerU, innerV, evaluate(surface, innerU, innerV, new THREE.Vector3()), target, false);
+}
+
+// ===================================================================
+// Part 4: Shared Helpers (共通の処理)
+// ===================================================================
+
+/**
+ * columns×rowsの頂点グリッドを三角形でつなぐインデックスを作る。
+ * 三角形は、(次の行 - 現在) × (次の列 - 現在)の方向が表（反時計回り）になる。
+ */
+function gridIndices(columns: number, rows: number): number[] {
+  const indices: number[] = [];
+  for (let row = 0; row < rows - 1; row++) {
+    for (let column = 0; column < columns - 1; column++) {
+      const a = row * columns + column;
+      const b = a + 1;
+      const c = a + columns + 1;
+      const d = a + columns;
+      indices.push(a, d, b, b, d, c);
+    }
+  }
+  return indices;
+}
+
+/**
+ * 高さ（最も低い頂点を0、最も高い頂点を1とした位置）に応じた頂点カラーを設定する
+ */
+function applyHeightColors(geometry: THREE.BufferGeometry, heights: number[], stops: HeightColorStop[]): void {
+  if (stops.length === 0) return;
+  const sorted = [...stops].sort((a, b) => a.height - b.height);
+  const colors = sorted.map(stop => new THREE.Color(stop.color as THREE.ColorRepresentation));
+  // 頂点数が多いとMath.min(...heights)は引数の数の上限を超えるため、reduceで求める。
+  const min = heights.reduce((a, b) => Math.min(a, b), Infinity);
+  const range = heights.reduce((a, b) => Math.max(a, b), -Infinity) - min;
+
+  const values = new Float32Array(heights.length * 3);
+  const color = new THREE.Color();
+  heights.forEach((height, i) => {
+    const t = range > 0 ? (height - min) / range : 0;
+    const next = sorted.findIndex(stop => stop.height >= t);
+    if (next <= 0) {
+      color.copy(colors[next === 0 ? 0 : colors.length - 1]);
+    } else {
+      const from = sorted[next - 1];
+      const to = sorted[next];
+      const span = to.height - from.height;
+      // color.lerpColors(a, b, t): 2つの色の間を線形に補間する。
+      color.lerpColors(colors[next - 1], colors[next], span > 0 ? (t - from.height) / span : 1);
+    }
+    color.toArray(values, i * 3);
+  });
+  geometry.setAttribute('color', new THREE.BufferAttribute(values, 3));
+}
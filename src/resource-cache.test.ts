@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { ResourceCache } from './resource-cache';
+import { TypedObjectFactory } from './typed-geometry-factory';
+
+const config = {
+  geometry: { type: 'box', config: { width: 2 } },
+  material: { type: 'standard', config: { color: 0xff0000 } }
+} as const;
+
+function disposed(resource: THREE.BufferGeometry | THREE.Material): () => boolean {
+  let called = false;
+  resource.addEventListener('dispose', () => {
+    called = true;
+  });
+  return () => called;
+}
+
+describe('ResourceCache', () => {
+  it('shares resources between meshes with the same config and counts references', () => {
+    const cache = new ResourceCache();
+    const first = TypedObjectFactory.createMesh(config, { cache });
+    const second = TypedObjectFactory.createMesh(config, { cache });
+
+    expect(second.geometry).toBe(first.geometry);
+    expect(second.material).toBe(first.material);
+    expect(cache.getStats()).toEqual({ hits: 2, misses: 2, geometries: 1, materials: 1, references: 4 });
+  });
+
+  it('disposes a shared resource only when its last user releases it', () => {
+    const cache = new ResourceCache();
+    const first = TypedObjectFactory.createMesh(config, { cache });
+    const clone = cache.cloneMesh(first);
+    const geometryDisposed = disposed(first.geometry);
+    const materialDisposed = disposed(first.material as THREE.Material);
+
+    ResourceCache.releaseMesh(first);
+    expect(geometryDisposed()).toBe(false);
+    expect(cache.isCached(clone.geometry)).toBe(true);
+
+    ResourceCache.releaseMesh(clone);
+    expect(geometryDisposed()).toBe(true);
+    expect(materialDisposed()).toBe(true);
+    expect(cache.getStats()).toMatchObject({ geometries: 0, materials: 0, references: 0 });
+  });
+
+  it('releases adopted resources like cached ones and disposes everything on dispose', () => {
+    const cache = new ResourceCache();
+    const adopted = new THREE.SphereGeometry();
+    const adoptedDisposed = disposed(adopted);
+    cache.adopt(adopted);
+    cache.adopt(adopted);
+
+    expect(cache.release(adopted)).toBe(true);
+    expect(adoptedDisposed()).toBe(false);
+    expect(cache.release(new THREE.BoxGeometry())).toBe(false);
+
+    const mesh = TypedObjectFactory.createMesh(config, { cache });
+    const geometryDisposed = disposed(mesh.geometry);
+    cache.dispose();
+    expect(adoptedDisposed()).toBe(true);
+    expect(geometryDisposed()).toBe(true);
+    expect(cache.getStats()).toEqual({ hits: 0, misses: 0, geometries: 0, materials: 0, references: 0 });
+  });
+});
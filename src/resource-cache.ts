@@ -0,0 +1,185 @@
+/**
+ * Three.js TypeScript Tutorial - 08. Resource Cache
+ *
+ * 同じ`{ type: 'box', config: { width: 1 } }`から何百個ものメッシュを作ると、
+ * そのたびに同じ内容のジオメトリとマテリアルがGPUに転送されます。
+ * このキャッシュは設定を正規化したキー（`geometryConfigKey`・`materialConfigKey`）でリソースを共有し、
+ * 参照カウントで管理します。
+ * 最後の利用者が解放したとき（または`dispose()`を呼んだとき）にだけGPUリソースを破棄します。
+ *
+ * 注意: 共有されたマテリアルを書き換えると、同じマテリアルを使う全てのメッシュに反映されます。
+ */
+
+import * as THREE from 'three';
+import { TypedGeometryFactory, geometryConfigKey, materialConfigKey } from './typed-geometry-factory';
+import { sharedTextureManager } from './texture-manager';
+import type { TextureManager } from './texture-manager';
+import type { GeometryConfig, MaterialConfig, ResourceCacheStats } from '../types/geometry-types';
+
+type CachedResource = THREE.BufferGeometry | THREE.Material;
+
+interface CacheEntry {
+  key: string;
+  resource: CachedResource;
+  references: number;
+}
+
+export class ResourceCache {
+  // どのキャッシュがリソースを管理しているかを記録する。メッシュの解放時に持ち主を探すために使う。
+  private static readonly owners = new WeakMap<CachedResource, ResourceCache>();
+
+  private entries = new Map<string, CacheEntry>();
+  private byResource = new Map<CachedResource, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * @param textures マテリアルのテクスチャ設定の変換に使うマネージャー デフォルト: sharedTextureManager
+   */
+  constructor(private readonly textures: TextureManager = sharedTextureManager) {}
+
+  /**
+   * 設定に対応するジオメトリを取得します。同じ設定のジオメトリがあれば共有し、参照数を1増やします。
+   */
+  public acquireGeometry(config: GeometryConfig): THREE.BufferGeometry {
+    const key = geometryConfigKey(config);
+    return this.acquire(key, () => TypedGeometryFactory.createGeometry(config.type, config.config)) as THREE.BufferGeometry;
+  }
+
+  /**
+   * 設定に対応するマテリアルを取得します。同じ設定のマテリアルがあれば共有し、参照数を1増やします。
+   */
+  public acquireMaterial(config: MaterialConfig): THREE.Material {
+    const key = materialConfigKey(config);
+    return this.acquire(key, () => TypedGeometryFactory.createMaterial(config.type, config.config, this.textures)) as THREE.Material;
+  }
+
+  /**
+   * キャッシュの外で作られたリソース（読み込んだモデルのジオメトリなど）を、参照数1で登録します。
+   * すでに登録済みの場合は参照数を1増やします。以後は`release`で他のリソースと同じように解放されます。
+   */
+  public adopt(resource: CachedResource): void {
+    if (this.retain(resource)) return;
+    const entry: CacheEntry = { key: `adopted:${resource.uuid}`, resource, references: 1 };
+    this.register(entry);
+  }
+
+  /**
+   * キャッシュ済みのリソースの参照数を1増やします。
+   * @returns このキャッシュが管理しているリソースだった場合はtrue
+   */
+  public retain(resource: CachedResource): boolean {
+    const entry = this.byResource.get(resource);
+    if (!entry) return false;
+    entry.references++;
+    return true;
+  }
+
+  /**
+   * リソースの参照数を1減らし、0になったらキャッシュから取り除いて破棄します。
+   * @returns このキャッシュが管理しているリソースだった場合はtrue
+   */
+  public release(resource: CachedResource): boolean {
+    const entry = this.byResource.get(resource);
+    if (!entry) return false;
+    entry.references--;
+    if (entry.references <= 0) {
+      this.entries.delete(entry.key);
+      this.byResource.delete(resource);
+      ResourceCache.owners.delete(resource);
+      resource.dispose();
+    }
+    return true;
+  }
+
+  public isCached(resource: CachedResource): boolean {
+    return this.byResource.has(resource);
+  }
+
+  /**
+   * キャッシュのリソースを共有したまま、メッシュを複製します。
+   * `TypedHelpers.cloneMesh`と違い、ジオメトリとマテリアルは複製せずに参照数を増やします。
+   * キャッシュ外のリソースは、これまでどおり複製します。
+   */
+  public cloneMesh<T extends THREE.Mesh>(mesh: T): T {
+    const cloned = mesh.clone();
+    if (!this.retain(mesh.geometry)) cloned.geometry = mesh.geometry.clone();
+    const share = (material: THREE.Material) => (this.retain(material) ? material : material.clone());
+    cloned.material = (Array.isArray(mesh.material)
+      ? mesh.material.map(share)
+      : share(mesh.material)) as T['material'];
+    return cloned;
+  }
+
+  public getStats(): ResourceCacheStats {
+    let geometries = 0;
+    let materials = 0;
+    let references = 0;
+    this.entries.forEach(entry => {
+      if (entry.resource instanceof THREE.BufferGeometry) geometries++;
+      else materials++;
+      references += entry.references;
+    });
+    return { hits: this.hits, misses: this.misses, geometries, materials, references };
+  }
+
+  /**
+   * 参照数に関係なく、全てのリソースを破棄してキャッシュを空にします。
+   */
+  public dispose(): void {
+    this.byResource.forEach((_entry, resource) => {
+      ResourceCache.owners.delete(resource);
+      resource.dispose();
+    });
+    this.entries.clear();
+    this.byResource.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * メッシュのジオメトリとマテリアルを解放します。
+   * キャッシュが管理しているリソースは参照数を減らし、それ以外のリソースはそのまま破棄します。
+   */
+  public static releaseMesh(mesh: THREE.Mesh): void {
+    ResourceCache.releaseResource(mesh.geometry);
+    if (Array.isArray(mesh.material)) {
+      mesh.material.forEach(material => ResourceCache.releaseResource(material));
+    } else {
+      ResourceCache.releaseResource(mesh.material);
+    }
+  }
+
+  private static releaseResource(resource: CachedResource): void {
+    const owner = ResourceCache.owners.get(resource);
+    if (owner) {
+      owner.release(resource);
+    } else {
+      resource.dispose();
+    }
+  }
+
+  private acquire(key: string, create: () => CachedResource): CachedResource {
+    const cached = this.entries.get(key);
+    if (cached) {
+      this.hits++;
+      cached.references++;
+      return cached.resource;
+    }
+    this.misses++;
+    const entry: CacheEntry = { key, resource: create(), references: 1 };
+    this.register(entry);
+    return entry.resource;
+  }
+
+  private register(entry: CacheEntry): void {
+    this.entries.set(entry.key, entry);
+    this.byResource.set(entry.resource, entry);
+    ResourceCache.owners.set(entry.resource, this);
+  }
+}
+
+/**
+ * アプリケーション全体で共有するデフォルトのキャッシュ
+ */
+export const sharedResourceCache = new ResourceCache();
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import {
+  applySceneDocument,
+  loadSceneDocument,
+  SCENE_DOCUMENT_VERSION,
+  SceneDocumentError,
+  serializeScene,
+  stringifySceneDocument
+} from './scene-document';
+import { createHeadlessEnvironment } from './scene-environment';
+import { InteractiveSceneManager } from './scene-manager';
+import { TypedObjectFactory } from './typed-geometry-factory';
+
+describe('scene documents', () => {
+  const managers: InteractiveSceneManager[] = [];
+
+  afterEach(() => {
+    managers.splice(0).forEach(manager => manager.dispose());
+  });
+
+  function createManager(): InteractiveSceneManager {
+    const manager = new InteractiveSceneManager(createHeadlessEnvironment());
+    manager.initialize();
+    manager.clearAllObjects();
+    managers.push(manager);
+    return manager;
+  }
+
+  it('restores objects, background and camera from a saved document', () => {
+    const source = createManager();
+    source.addObject(TypedObjectFactory.createMesh({
+      geometry: { type: 'sphere', config: { radius: 2 } },
+      material: { type: 'standard', config: { color: 0xff0000, roughness: 0.25 } },
+      transform: { position: { x: 1, y: 2, z: 3 }, scale: { x: 2, y: 2, z: 2 } },
+      name: 'ball'
+    }));
+    source.addObject(TypedObjectFactory.createMesh({
+      geometry: { type: 'box', config: { width: 3 } },
+      material: { type: 'basic', config: { color: 0x00ff00 } }
+    }));
+    source.getScene().background = new THREE.Color(0x123456);
+    source.getCamera().position.set(4, 5, 6);
+    const saved = serializeScene(source, { metadata: { name: 'round trip' } });
+
+    const target = createManager();
+    applySceneDocument(target, loadSceneDocument(stringifySceneDocument(saved)));
+    const restored = serializeScene(target, { metadata: saved.metadata });
+
+    expect(saved.objects).toHaveLength(2);
+    expect(restored.objects).toEqual(saved.objects);
+    expect(restored.background).toBe(0x123456);
+    expect(restored.camera).toEqual(saved.camera);
+    expect(restored.lights).toEqual(saved.lights);
+    expect(target.getObjects().map(mesh => mesh.name)).toContain('ball');
+  });
+
+  it('migrates a version 0 array of object configs', () => {
+    const loaded = loadSceneDocument([{ geometry: { type: 'box', config: {} }, material: { type: 'standard', config: {} } }]);
+
+    expect(loaded.document.version).toBe(SCENE_DOCUMENT_VERSION);
+    expect(loaded.objects).toHaveLength(1);
+    expect(loaded.camera).toBeUndefined();
+  });
+
+  it('rejects documents newer than the supported version', () => {
+    expect(() => loadSceneDocument({ version: SCENE_DOCUMENT_VERSION + 1, metadata: {}, objects: [] })).toThrow(SceneDocumentError);
+  });
+});
@@ -0,0 +1,528 @@
+/**
+ * Three.js TypeScript Tutorial - 04. Scene Document
+ *
+ * `InteractiveSceneManager`が管理しているシーンを、バージョン付きのJSONドキュメント
+ * (`SceneDocument`)として保存し、`TypedObjectFactory`を通じて同じシーンを再構築します。
+ * 古い形式のドキュメントは、登録されたマイグレーションで最新の形式に変換してから読み込みます。
+ */
+
+import * as THREE from 'three';
+import { TypedObjectFactory } from './typed-geometry-factory';
+import { InstancedBatch } from './instanced-batch';
+import { isModelObjectConfig, sharedAssetLoader } from './asset-loader';
+import type { AssetLoader } from './asset-loader';
+import { validateCameraDocument, validateLightConfigs, validateObjectConfigs } from './config-validator';
+import { createLight as createLightFromConfig, describeLight, isLightType } from './light-rig';
+import { createCamera as createCameraFromConfig } from './viewport-layout';
+import type { InteractiveSceneManager } from './scene-manager';
+import type { ResourceCache } from './resource-cache';
+import type { TextureManager } from './texture-manager';
+import type { ConfigurableCamera } from '../types/camera-types';
+import type {
+  MaterialConfig,
+  ModelObjectConfig,
+  ObjectConfig,
+  RequiredObjectConfig,
+  Vector3Like
+} from '../types/geometry-types';
+import type {
+  CameraDocument,
+  LightDocument,
+  SceneDocument,
+  SceneDocumentMigration,
+  SerializeSceneOptions,
+  SerializeWarning
+} from '../types/scene-document-types';
+import type { ValidationIssue, ValidationMode } from '../types/validation-types';
+
+/** 現在のドキュメント形式のバージョン */
+export const SCENE_DOCUMENT_VERSION = 1;
+
+/**
+ * シーンドキュメントの読み込み・保存に失敗したときに投げられるエラー
+ */
+export class SceneDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SceneDocumentError';
+  }
+}
+
+// ===================================================================
+// Part 1: Migrations (バージョン移行)
+// ===================================================================
+
+// キーは変換元のバージョン。version N のドキュメントを version N + 1 に変換する関数を保持する。
+const migrations = new Map<number, SceneDocumentMigration>();
+
+/**
+ * 古いバージョンのドキュメントを次のバージョンへ変換するマイグレーションを登録します。
+ * @param fromVersion 変換元のバージョン
+ * @param migrate 変換関数（`fromVersion + 1`の形式のドキュメントを返す）
+ */
+export function registerSceneDocumentMigration(fromVersion: number, migrate: SceneDocumentMigration): void {
+  if (migrations.has(fromVersion)) {
+    throw new SceneDocumentError(`Migration from version ${fromVersion} is already registered`);
+  }
+  migrations.set(fromVersion, migrate);
+}
+
+/**
+ * version 0: ファクトリーに渡していた`ObjectConfig`の配列をそのまま保存した形式。
+ * カメラ・ライト・背景は含まれないため、読み込み先の設定をそのまま使う。
+ */
+registerSceneDocumentMigration(0, (document) => ({
+  version: 1,
+  metadata: {},
+  objects: document.objects
+}));
+
+/**
+ * 任意のバージョンのドキュメントを、現在のバージョンまで順番に変換します。
+ * @param raw JSON.parse済みのドキュメント（version 0の場合は配列も可）
+ */
+export function migrateSceneDocument(raw: unknown): SceneDocument {
+  let document: Record<string, unknown>;
+  if (Array.isArray(raw)) {
+    document = { version: 0, objects: raw };
+  } else if (isRecord(raw)) {
+    document = raw;
+  } else {
+    throw new SceneDocumentError('Scene document must be an object or an array of object configs');
+  }
+
+  if (typeof document.version !== 'number' || !Number.isInteger(document.version) || document.version < 0) {
+    throw new SceneDocumentError(`Invalid scene document version: ${String(document.version)}`);
+  }
+  let version: number = document.version;
+  if (version > SCENE_DOCUMENT_VERSION) {
+    throw new SceneDocumentError(
+      `Scene document version ${version} is newer than the supported version ${SCENE_DOCUMENT_VERSION}`
+    );
+  }
+
+  while (version < SCENE_DOCUMENT_VERSION) {
+    const migrate = migrations.get(version);
+    if (!migrate) {
+      throw new SceneDocumentError(`No migration registered for scene document version ${version}`);
+    }
+    document = migrate(document);
+    if (document.version !== version + 1) {
+      throw new SceneDocumentError(`Migration from version ${version} did not produce version ${version + 1}`);
+    }
+    version += 1;
+  }
+
+  assertSceneDocument(document);
+  return document;
+}
+
+// ===================================================================
+// Part 2: Serialization (保存)
+// ===================================================================
+
+/**
+ * シーンマネージャーの現在の状態をドキュメントとして書き出します。
+ * オブジェクトの位置・回転・スケール・名前・マテリアルは作成時ではなく現在の値が保存されます。
+ * ジオメトリやマテリアルを`TypedObjectFactory`で表現できないオブジェクトはスキップされ、`onWarning`で報告されます。
+ * InstancedMeshにまとめたオブジェクト（`InstancedBatch`）は、インスタンスごとのオブジェクト設定として保存されます。
+ * `addModel`で追加したモデルは、読み込み元のURLを持つ`{ type: 'model' }`のオブジェクト設定として保存されます。
+ */
+export function serializeScene(manager: InteractiveSceneManager, options: SerializeSceneOptions = {}): SceneDocument {
+  const scene = manager.getScene();
+  const now = new Date().toISOString();
+  const warn = options.onWarning ?? (() => undefined);
+
+  const objects: ObjectConfig[] = [];
+  manager.getObjects().forEach((mesh) => {
+    // 作成後に変更された色なども保存できるよう、作成時の設定ではなく現在の状態から設定を取り出す。
+    const config = TypedObjectFactory.describeMesh(mesh, { includeDefaults: false });
+    if (!config) {
+      warn({
+        path: '$.objects',
+        message: `Object "${mesh.name}" was skipped because its geometry or material cannot be described by TypedObjectFactory`
+      });
+      return;
+    }
+    const batch = InstancedBatch.fromObject(mesh);
+    if (batch) {
+      describeInstances(mesh, batch, config, warn).forEach(instance => {
+        objects.push(toJsonSafe(instance, `$.objects[${objects.length}]`, warn) as ObjectConfig);
+      });
+      return;
+    }
+    // アニメーション中のオブジェクトは、揺れを含まない基準の変換を保存する。
+    const baseTransform = manager.animations.getBaseTransform(mesh);
+    if (baseTransform) config.transform = baseTransform;
+    objects.push(toJsonSafe(config, `$.objects[${objects.length}]`, warn) as ObjectConfig);
+  });
+  manager.getModels().forEach((model) => {
+    const config = describeModel(model);
+    if (!config) {
+      warn({ path: '$.objects', message: `Model "${model.name}" was skipped because it was not created from a model config` });
+      return;
+    }
+    const baseTransform = manager.animations.getBaseTransform(model);
+    if (baseTransform) config.transform = baseTransform;
+    objects.push(toJsonSafe(config, `$.objects[${objects.length}]`, warn) as ObjectConfig);
+  });
+
+  const document: SceneDocument = {
+    version: SCENE_DOCUMENT_VERSION,
+    metadata: { createdAt: now, ...options.metadata, updatedAt: now },
+    background: scene.background instanceof THREE.Color ? scene.background.getHex() : null,
+    objects
+  };
+  if (options.includeCamera ?? true) {
+    document.camera = serializeCamera(manager.getCamera());
+  }
+  if (options.includeLights ?? true) {
+    document.lights = scene.children
+      .filter((child): child is THREE.Light => child instanceof THREE.Light)
+      .map(serializeLight);
+  }
+  return document;
+}
+
+/**
+ * ドキュメントを、差分が見やすい整形済みのJSON文字列に変換します。
+ */
+export function stringifySceneDocument(document: SceneDocument): string {
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+/**
+ * バッチの各インスタンスを、個別のメッシュとして作成できるオブジェクト設定に変換します。
+ * 読み込むと個別のメッシュになります（`TypedObjectFactory.createBatched`で、まとめ直すことができます）。
+ * @param config バッチのメッシュの設定（ジオメトリとマテリアルを共有する）
+ */
+function describeInstances(
+  mesh: THREE.Mesh,
+  batch: InstancedBatch,
+  config: RequiredObjectConfig,
+  warn: (warning: SerializeWarning) => void
+): ObjectConfig[] {
+  mesh.updateMatrix();
+  return batch.getIds().flatMap((id) => {
+    if (!batch.isVisible(id)) {
+      warn({ path: '$.objects', message: `Hidden instance ${id} of "${mesh.name}" was skipped` });
+      return [];
+    }
+    // インスタンスの変換はバッチのメッシュからの相対値なので、メッシュの変換と合成する。
+    const { position, rotation, scale } = batch.getTransform(id)!;
+    const matrix = new THREE.Matrix4().compose(
+      new THREE.Vector3(position.x, position.y, position.z),
+      new THREE.Quaternion().setFromEuler(new THREE.Euler(rotation.x, rotation.y, rotation.z)),
+      new THREE.Vector3(scale.x, scale.y, scale.z)
+    ).premultiply(mesh.matrix);
+    const p = new THREE.Vector3();
+    const q = new THREE.Quaternion();
+    const s = new THREE.Vector3();
+    matrix.decompose(p, q, s);
+
+    // 共有するマテリアルは白で、インスタンスの色が実際の色になる。
+    const material = {
+      type: config.material.type,
+      config: { ...config.material.config, color: batch.getColor(id)!.getHex() }
+    } as MaterialConfig;
+    const instance: ObjectConfig = {
+      geometry: config.geometry,
+      material,
+      transform: { position: toVector3Like(p), rotation: toVector3Like(new THREE.Euler().setFromQuaternion(q)), scale: toVector3Like(s) }
+    };
+    if (config.castShadow !== undefined) instance.castShadow = config.castShadow;
+    if (config.receiveShadow !== undefined) instance.receiveShadow = config.receiveShadow;
+    const userData = batch.getUserData(id);
+    if (userData && Object.keys(userData).length > 0) instance.userData = { ...userData };
+    return [instance];
+  });
+}
+
+/**
+ * `AssetLoader`で作成したモデルの、現在の状態のオブジェクト設定を取り出します。
+ * @returns オブジェクト設定。モデルの設定から作成されていない場合はnull
+ */
+function describeModel(model: THREE.Object3D): ModelObjectConfig | null {
+  const source = TypedObjectFactory.getSourceConfig(model);
+  if (!source || !isModelObjectConfig(source)) return null;
+  const config: ModelObjectConfig = {
+    geometry: source.geometry,
+    transform: {
+      position: toVector3Like(model.position),
+      rotation: toVector3Like(model.rotation),
+      scale: toVector3Like(model.scale)
+    }
+  };
+  if (source.material) config.material = source.material;
+  if (source.animation) config.animation = source.animation;
+  // 影の設定は、作成時に指定されていた場合だけ現在の値を保存する（describeMeshと同じ）。
+  if (source.castShadow !== undefined) config.castShadow = model.castShadow;
+  if (source.receiveShadow !== undefined) config.receiveShadow = model.receiveShadow;
+  if (model.name) config.name = model.name;
+  if (Object.keys(model.userData).length > 0) config.userData = { ...model.userData };
+  return config;
+}
+
+function serializeCamera(camera: THREE.Camera): CameraDocument {
+  if (camera instanceof THREE.PerspectiveCamera) {
+    return {
+      type: 'perspective',
+      fov: camera.fov,
+      near: camera.near,
+      far: camera.far,
+      position: toVector3Like(camera.position),
+      rotation: toVector3Like(camera.rotation)
+    };
+  }
+  if (camera instanceof THREE.OrthographicCamera) {
+    return {
+      type: 'orthographic',
+      height: camera.top - camera.bottom,
+      zoom: camera.zoom,
+      near: camera.near,
+      far: camera.far,
+      position: toVector3Like(camera.position),
+      rotation: toVector3Like(camera.rotation)
+    };
+  }
+  throw new SceneDocumentError(`Unsupported camera type: ${camera.type}`);
+}
+
+function serializeLight(light: THREE.Light): LightDocument {
+  const document = describeLight(light);
+  if (!document) throw new SceneDocumentError(`Unsupported light type: ${light.type}`);
+  return document;
+}
+
+/**
+ * 設定値をJSONとして保存できる値に変換します。
+ * THREE.Colorは16進数に、THREE.Vector3などは{x, y, z}に変換し、
+ * テクスチャのように保存できない値は`warn`で報告して取り除きます。
+ */
+function toJsonSafe(value: unknown, path: string, warn: (warning: SerializeWarning) => void): unknown {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') return value;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (value instanceof THREE.Color) return value.getHex();
+  if (value instanceof THREE.Vector3 || value instanceof THREE.Euler) return toVector3Like(value);
+  if (value instanceof THREE.Texture) {
+    // TextureConfigから作ったテクスチャは、describeMaterialで設定に戻されるためここには来ない。
+    warn({ path, message: 'Texture cannot be serialized and was removed (use a TextureConfig to save it)' });
+    return null;
+  }
+  if (Array.isArray(value)) return value.map((item, i) => toJsonSafe(item, `${path}[${i}]`, warn));
+  if (isRecord(value)) {
+    const result: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, item]) => {
+      if (item === undefined) return;
+      if (typeof item === 'function') {
+        // パラメトリック曲面の関数など。名前で登録した曲面は文字列のまま保存される。
+        warn({
+          path: `${path}.${key}`,
+          message: 'Function cannot be serialized and was removed (register it with registerParametricSurface and use its name)'
+        });
+        return;
+      }
+      result[key] = toJsonSafe(item, `${path}.${key}`, warn);
+    });
+    return result;
+  }
+  return undefined;
+}
+
+function toVector3Like(vector: { x: number; y: number; z: number }): Vector3Like {
+  return { x: vector.x, y: vector.y, z: vector.z };
+}
+
+// ===================================================================
+// Part 3: Loading (読み込み)
+// ===================================================================
+
+/**
+ * ドキュメントから再構築されたシーンの構成要素
+ */
+export interface LoadedScene {
+  /** 最新バージョンに変換済みのドキュメント */
+  document: SceneDocument;
+  /** `TypedObjectFactory`で作成されたメッシュ（ドキュメントの順序通り） */
+  objects: THREE.Mesh[];
+  /** モデルのオブジェクト（ドキュメントの順序通り）。読み込みが終わるまでは空のグループ */
+  models: THREE.Object3D[];
+  /** 全てのモデルの読み込みが終わると解決される。読み込みに失敗したモデルがあると拒否される */
+  ready: Promise<void>;
+  /** ドキュメントのカメラ設定（省略されている場合はundefined） */
+  camera?: ConfigurableCamera;
+  /** ドキュメントのライト（省略されている場合はundefined） */
+  lights?: THREE.Light[];
+  /** 背景色（省略されている場合はundefined、背景なしの場合はnull） */
+  background?: THREE.Color | null;
+}
+
+/**
+ * ドキュメント読み込みのオプション
+ */
+export interface LoadSceneDocumentOptions {
+  /**
+   * オブジェクト・カメラ・ライトの設定の検査モード デフォルト: 'strict'
+   * 'lenient'を指定すると、範囲外の値などは補正して警告（`onValidationWarning`）を出したうえで読み込む。
+   */
+  validation?: Exclude<ValidationMode, 'report'>;
+  /** lenientモードで、補正した問題ごとに呼ばれる */
+  onValidationWarning?: (issue: ValidationIssue) => void;
+  /** 指定すると、同じ設定のジオメトリ・マテリアルをこのキャッシュから共有する */
+  cache?: ResourceCache;
+  /** モデルを読み込むローダー デフォルト: sharedAssetLoader */
+  assets?: AssetLoader;
+  /** テクスチャ設定の変換に使うマネージャー デフォルト: sharedTextureManager */
+  textures?: TextureManager;
+}
+
+/**
+ * JSON文字列（またはパース済みの値）からドキュメントを読み込み、シーンの構成要素を作成します。
+ * 古いバージョンのドキュメントは自動的にマイグレーションされ、
+ * 全てのオブジェクト・カメラ・ライトの設定は、シーンを作成する前に検査されます。
+ * モデルは読み込みを待たずに空のグループとして返され、読み込みが終わると中身が追加されます（`ready`で待てます）。
+ */
+export function loadSceneDocument(json: unknown, options: LoadSceneDocumentOptions = {}): LoadedScene {
+  let raw: unknown = json;
+  if (typeof json === 'string') {
+    try {
+      raw = JSON.parse(json);
+    } catch (error) {
+      throw new SceneDocumentError(`Scene document is not valid JSON: ${(error as Error).message}`);
+    }
+  }
+
+  const migrated = migrateSceneDocument(raw);
+  const mode = options.validation ?? 'strict';
+  const onWarning = options.onValidationWarning;
+  const { value: objects } = validateObjectConfigs(migrated.objects, { mode, path: '$.objects', onWarning });
+  const document: SceneDocument = { ...migrated, objects: objects! };
+  if (migrated.camera) {
+    document.camera = validateCameraDocument(migrated.camera, { mode, path: '$.camera', onWarning }).value!;
+  }
+  if (migrated.lights) {
+    document.lights = validateLightConfigs(migrated.lights, { mode, path: '$.lights', onWarning }).value!;
+  }
+  const primitives = document.objects.filter((config): config is RequiredObjectConfig => !isModelObjectConfig(config));
+  const assets = options.assets ?? sharedAssetLoader;
+  const models = document.objects
+    .filter(isModelObjectConfig)
+    .map(config => assets.createDeferredObject(config, { cache: options.cache, textures: options.textures }));
+  const ready = Promise.all(models.map(model => model.loaded)).then(() => undefined);
+  // readyを待たない呼び出しで、失敗が未処理の拒否として報告されないようにする。
+  ready.catch(() => undefined);
+  const loaded: LoadedScene = {
+    document,
+    objects: TypedObjectFactory.createMeshes(primitives, { cache: options.cache, textures: options.textures }),
+    models: models.map(model => model.object),
+    ready
+  };
+  if (document.camera) loaded.camera = createCamera(document.camera);
+  if (document.lights) loaded.lights = document.lights.map(createLight);
+  if (document.background !== undefined) {
+    loaded.background = document.background === null ? null : new THREE.Color(document.background);
+  }
+  return loaded;
+}
+
+/**
+ * 読み込んだシーンをシーンマネージャーに反映します。
+ * 既存のオブジェクトは全て破棄され、ドキュメントに含まれるカメラ・ライト・背景で置き換えられます。
+ * 読み込みは元に戻せない操作として扱い、それまでの編集の履歴は消去されます。
+ */
+export function applySceneDocument(manager: InteractiveSceneManager, loaded: LoadedScene): void {
+  const scene = manager.getScene();
+
+  manager.clearAllObjects();
+  loaded.objects.forEach(mesh => manager.addObject(mesh));
+  loaded.models.forEach(model => manager.addModel(model));
+  // オブジェクトの入れ替えだけが履歴に残ると、元に戻したときにカメラやライトと食い違う。
+  // 履歴を消去すると、削除したオブジェクトのリソースもここで解放される。
+  manager.history.clear();
+
+  if (loaded.lights) {
+    manager.lights.clear();
+    // ライトリグ以外で追加されたライトも取り除く。
+    scene.children
+      .filter((child): child is THREE.Light => child instanceof THREE.Light)
+      .forEach(light => {
+        scene.remove(light);
+        light.dispose();
+      });
+    loaded.lights.forEach(light => manager.lights.attach(light));
+  }
+
+  if (loaded.background !== undefined) {
+    scene.background = loaded.background;
+  }
+
+  if (loaded.camera) {
+    // アスペクト比はシーンマネージャーの描画サイズに合わせられる。
+    manager.setCamera(loaded.camera);
+  }
+}
+
+function createCamera(document: CameraDocument): ConfigurableCamera {
+  // アスペクト比は表示先のサイズで決まるため保存せず、反映時にシーンマネージャー側の値を使う。
+  let camera: ConfigurableCamera;
+  switch (document.type) {
+    case 'perspective':
+      camera = createCameraFromConfig({ type: 'perspective', fov: document.fov, near: document.near, far: document.far });
+      break;
+    case 'orthographic': {
+      const { height, zoom, near, far } = document;
+      camera = createCameraFromConfig({ type: 'orthographic', height, zoom, near, far });
+      break;
+    }
+    default: {
+      // JSONから読み込んだドキュメントには、型にない種類が含まれることがある。
+      const unsupported: never = document;
+      throw new SceneDocumentError(`Unsupported camera type: ${String((unsupported as { type: unknown }).type)}`);
+    }
+  }
+  // lenientモードで読み込んだ場合、不正な位置・回転は取り除かれ、カメラのデフォルト値が使われる。
+  if (document.position) camera.position.set(document.position.x, document.position.y, document.position.z);
+  if (document.rotation) camera.rotation.set(document.rotation.x, document.rotation.y, document.rotation.z);
+  return camera;
+}
+
+function createLight(document: LightDocument): THREE.Light {
+  const type: unknown = document.type;
+  if (!isLightType(type)) throw new SceneDocumentError(`Unsupported light type: ${String(type)}`);
+  return createLightFromConfig(document);
+}
+
+// ===================================================================
+// Part 4: Structural Checks (構造チェック)
+// ===================================================================
+
+function assertSceneDocument(document: Record<string, unknown>): asserts document is SceneDocument & Record<string, unknown> {
+  if (!isRecord(document.metadata)) {
+    throw new SceneDocumentError('Scene document "metadata" must be an object');
+  }
+  if (!Array.isArray(document.objects)) {
+    throw new SceneDocumentError('Scene document "objects" must be an array');
+  }
+  document.objects.forEach((object, i) => {
+    if (!isRecord(object) || !isRecord(object.geometry)) {
+      throw new SceneDocumentError(`Scene document "objects[${i}]" must have "geometry" and "material"`);
+    }
+    // モデルのマテリアルは、置き換える場合だけ指定する。
+    if (object.geometry.type !== 'model' && !isRecord(object.material)) {
+      throw new SceneDocumentError(`Scene document "objects[${i}]" must have "geometry" and "material"`);
+    }
+  });
+  if (document.camera !== undefined && !isRecord(document.camera)) {
+    throw new SceneDocumentError('Scene document "camera" must be an object');
+  }
+  if (document.lights !== undefined && !Array.isArray(document.lights)) {
+    throw new SceneDocumentError('Scene document "lights" must be an array');
+  }
+  if (document.background !== undefined && document.background !== null && typeof document.background !== 'number') {
+    throw new SceneDocumentError('Scene document "background" must be a number or null');
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { createHeadlessEnvironment, HeadlessRenderer } from './scene-environment';
+import { InteractiveSceneManager } from './scene-manager';
+import { TypedObjectFactory } from './typed-geometry-factory';
+
+function createBox(): THREE.Mesh {
+  return TypedObjectFactory.createMesh({ geometry: { type: 'box', config: {} }, material: { type: 'standard', config: {} } });
+}
+
+describe('HeadlessRenderer', () => {
+  it('records renders and counts triangles', () => {
+    const renderer = new HeadlessRenderer({ width: 320, height: 240, recordLimit: 2 });
+    const scene = new THREE.Scene();
+    scene.add(new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshBasicMaterial()));
+    const camera = new THREE.PerspectiveCamera();
+    renderer.render(scene, camera);
+    renderer.render(scene, camera);
+    renderer.render(scene, camera);
+
+    expect(renderer.renders).toHaveLength(2);
+    expect(renderer.getLastRender()?.scene).toBe(scene);
+    expect(renderer.info.render).toEqual({ calls: 1, triangles: 12 });
+    expect(renderer.getSize(new THREE.Vector2())).toEqual(new THREE.Vector2(320, 240));
+  });
+});
+
+describe('createHeadlessEnvironment', () => {
+  let manager: InteractiveSceneManager | null = null;
+
+  afterEach(() => {
+    manager?.dispose();
+    manager = null;
+  });
+
+  it('runs a scene manager without window, document or WebGL', () => {
+    const environment = createHeadlessEnvironment({ width: 400, height: 300 });
+    manager = new InteractiveSceneManager(environment);
+    manager.initialize();
+    manager.addObject(createBox());
+    manager.start();
+    environment.frames.advance();
+
+    const render = environment.renderer.getLastRender();
+    expect(render?.scene).toBe(manager.getScene());
+    expect(render?.camera).toBe(manager.getCamera());
+    expect(environment.renderer.info.render.triangles).toBeGreaterThanOrEqual(12);
+  });
+
+  it('resizes the renderer and the camera', () => {
+    const environment = createHeadlessEnvironment({ width: 400, height: 300 });
+    manager = new InteractiveSceneManager(environment);
+    manager.initialize();
+    environment.resize(200, 400);
+
+    expect(environment.renderer.getSize(new THREE.Vector2())).toEqual(new THREE.Vector2(200, 400));
+    expect((manager.getCamera() as THREE.PerspectiveCamera).aspect).toBeCloseTo(0.5);
+  });
+
+  it('selects an object with a pointer click on the headless surface', () => {
+    const environment = createHeadlessEnvironment({ width: 400, height: 300 });
+    manager = new InteractiveSceneManager(environment);
+    manager.initialize();
+    const mesh = createBox();
+    manager.addObject(mesh);
+    manager.getCamera().lookAt(mesh.position);
+    environment.renderer.render(manager.getScene(), manager.getCamera());
+
+    const surface = environment.renderer.domElement;
+    surface.dispatchPointer('pointerdown', { clientX: 200, clientY: 150, buttons: 1 });
+    surface.dispatchPointer('pointerup', { clientX: 200, clientY: 150 });
+    expect(manager.getSelectedObject()).toBe(mesh);
+  });
+});
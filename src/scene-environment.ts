@@ -0,0 +1,382 @@
+/**
+ * Three.js TypeScript Tutorial - 24. Scene Environment
+ *
+ * シーンマネージャーが動く環境（レンダラー・描画サイズ・イベントの発生元・時計）を差し替える仕組みです。
+ * ブラウザではwindowとWebGLRendererを使いますが、ヘッドレス環境（Node.jsのテストやサーバー側のツール）では
+ * GPUを使わずに描画を記録するだけのレンダラーを使い、シーンの構築・更新・選択・レイキャスト・破棄を実行できます。
+ * ページの中の要素（コンテナ）に埋め込むと、その要素の大きさに合わせて描画し、1つのページに複数のシーンを置けます。
+ *
+ * @example
+ * // ページの要素に埋め込む（破棄するとキャンバスが取り除かれる）
+ * const viewer = new SceneManagerBuilder(createContainerEnvironment(document.getElementById('viewer')!)).build();
+ * viewer.start();
+ * viewer.dispose();
+ *
+ * // ヘッドレス環境で動かす
+ * const environment = createHeadlessEnvironment({ width: 800, height: 600 });
+ * const manager = new SceneManagerBuilder(environment).build();
+ * manager.addObject(TypedObjectFactory.createMesh({
+ *   geometry: { type: 'box', config: {} },
+ *   material: { type: 'standard', config: {} }
+ * }));
+ * manager.start();
+ * environment.frames.advance(); // 1フレーム分更新して描画する
+ * environment.renderer.renders.length; // => 1
+ * environment.renderer.domElement.dispatchPointer('click', { clientX: 400, clientY: 300 });
+ */
+
+import * as THREE from 'three';
+import { ManualFrameSource } from './frame-scheduler';
+import { loadBlankImage } from './texture-manager';
+import type {
+  ContainerOptions,
+  HeadlessRendererOptions,
+  RenderRecord,
+  RenderSurface,
+  SceneEnvironment,
+  SceneRenderer,
+  SizeProvider,
+  SurfaceRect,
+  SurfaceSize
+} from '../types/renderer-types';
+import type { ImageLoadFunction } from '../types/texture-types';
+
+// ===================================================================
+// Part 1: Browser (ブラウザ)
+// ===================================================================
+
+/**
+ * ウィンドウの大きさとピクセル比を返します（ブラウザでのデフォルトの描画サイズ）。
+ */
+export const windowSize: SizeProvider = () => ({
+  width: window.innerWidth,
+  height: window.innerHeight,
+  // window.devicePixelRatio: CSSピクセル1つに対応する実際の画素数（高解像度ディスプレイでは2以上）。
+  pixelRatio: window.devicePixelRatio
+});
+
+// ===================================================================
+// Part 2: Container (コンテナ)
+// ===================================================================
+
+/**
+ * `createContainerEnvironment`で作成した実行環境
+ */
+export interface ContainerEnvironment extends SceneEnvironment {
+  renderer: THREE.WebGLRenderer;
+  size: SizeProvider;
+  /** resizeとキーボードのイベントの発生元（キャンバス） */
+  events: HTMLCanvasElement;
+  /** シーンを埋め込んだ要素 */
+  container: HTMLElement;
+  /** 監視を解除し、追加したキャンバスを取り除きます。マネージャーの破棄で呼ばれます */
+  dispose(): void;
+}
+
+/**
+ * ページの要素にシーンを埋め込む実行環境を作成します。
+ * 要素の中にキャンバスを追加し（要素がキャンバスの場合はそれに描画し）、キャンバスの大きさに合わせて描画します。
+ * 要素の大きさはCSSで決めておく必要があります（中身の大きさで決まる要素では、キャンバスの大きさが定まらない）。
+ * キーボードの操作（カメラの移動・元に戻すなど）は、クリックしてフォーカスしたキャンバスのシーンだけに届きます。
+ */
+export function createContainerEnvironment(target: HTMLElement, options: ContainerOptions = {}): ContainerEnvironment {
+  const maxPixelRatio = options.maxPixelRatio ?? 2;
+  const ownsCanvas = !(target instanceof HTMLCanvasElement);
+  const canvas = target instanceof HTMLCanvasElement ? target : document.createElement('canvas');
+  if (ownsCanvas) {
+    // CSSでコンテナいっぱいに広げる（描画する画素数は、この大きさに合わせてsetSizeで決まる）。
+    canvas.style.display = 'block';
+    canvas.style.width = '100%';
+    canvas.style.height = '100%';
+    target.appendChild(canvas);
+  }
+  // tabIndex: 要素をフォーカスできるようにする。フォーカスしたキャンバスにだけ、キーボードのイベントが届く。
+  if (!canvas.hasAttribute('tabindex')) canvas.tabIndex = 0;
+
+  const renderer = new THREE.WebGLRenderer({ antialias: true, ...options.renderer, canvas });
+  // new ResizeObserver(callback): 要素の大きさが変わったときに呼ばれる。ウィンドウの大きさが
+  // 変わらなくても、レイアウトの変化（サイドバーの開閉など）で発生する。
+  const observer = new ResizeObserver(() => canvas.dispatchEvent(new Event('resize')));
+  observer.observe(canvas);
+
+  return {
+    renderer,
+    size: () => ({
+      // clientWidth / clientHeight: 要素の内側の大きさ（CSSピクセル）。非表示の間は0になる。
+      width: Math.max(1, canvas.clientWidth),
+      height: Math.max(1, canvas.clientHeight),
+      pixelRatio: Math.min(window.devicePixelRatio, maxPixelRatio)
+    }),
+    events: canvas,
+    // キャンバスの大きさはCSSで決まるため、setSizeでstyleを書き換えない。
+    updateStyle: false,
+    container: target,
+    dispose: () => {
+      observer.disconnect();
+      if (ownsCanvas) canvas.remove();
+    }
+  };
+}
+
+// ===================================================================
+// Part 3: Headless Surface (ヘッドレスの描画先)
+// ===================================================================
+
+/**
+ * テストで発生させるポインターイベントの値
+ */
+export interface HeadlessPointerInit {
+  clientX?: number;
+  clientY?: number;
+  button?: number;
+  buttons?: number;
+  pointerId?: number;
+  pointerType?: string;
+  shiftKey?: boolean;
+  ctrlKey?: boolean;
+  altKey?: boolean;
+  metaKey?: boolean;
+  deltaX?: number;
+  deltaY?: number;
+}
+
+/**
+ * キャンバスの代わりになる描画先。左上が(0, 0)で、レンダラーの描画サイズの大きさを持ちます。
+ */
+export class HeadlessSurface extends EventTarget implements RenderSurface {
+  public readonly style = { cursor: '', touchAction: '' };
+  private readonly captured = new Set<number>();
+
+  constructor(private readonly getSize: () => THREE.Vector2) {
+    super();
+  }
+
+  // ブラウザの要素と同じく、イベントの種類に合った型のイベントをリスナーに渡す。
+  public addEventListener<K extends keyof HTMLElementEventMap>(
+    type: K,
+    listener: (event: HTMLElementEventMap[K]) => void,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  public addEventListener(type: string, listener: EventListenerOrEventListenerObject | null, options?: boolean | AddEventListenerOptions): void;
+  public addEventListener(type: string, listener: EventListenerOrEventListenerObject | null, options?: boolean | AddEventListenerOptions): void {
+    super.addEventListener(type, listener, options);
+  }
+
+  public get clientWidth(): number {
+    return this.getSize().x;
+  }
+
+  public get clientHeight(): number {
+    return this.getSize().y;
+  }
+
+  public getBoundingClientRect(): SurfaceRect {
+    const size = this.getSize();
+    return { left: 0, top: 0, width: size.x, height: size.y };
+  }
+
+  public setPointerCapture(pointerId: number): void {
+    this.captured.add(pointerId);
+  }
+
+  public hasPointerCapture(pointerId: number): boolean {
+    return this.captured.has(pointerId);
+  }
+
+  public releasePointerCapture(pointerId: number): void {
+    this.captured.delete(pointerId);
+  }
+
+  public remove(): void {
+    this.captured.clear();
+  }
+
+  /**
+   * ポインターのイベント（pointerdown・click・wheelなど）を発生させます。
+   * Node.jsにはPointerEventがないため、同じ値を持つイベントを作成します。
+   */
+  public dispatchPointer(type: string, init: HeadlessPointerInit = {}): boolean {
+    const event = Object.assign(new Event(type, { bubbles: true, cancelable: true }), {
+      clientX: 0,
+      clientY: 0,
+      button: 0,
+      buttons: 0,
+      pointerId: 1,
+      pointerType: 'mouse',
+      shiftKey: false,
+      ctrlKey: false,
+      altKey: false,
+      metaKey: false,
+      deltaX: 0,
+      deltaY: 0,
+      ...init
+    });
+    return this.dispatchEvent(event);
+  }
+}
+
+// ===================================================================
+// Part 4: Headless Renderer (ヘッドレスのレンダラー)
+// ===================================================================
+
+/**
+ * GPUを使わないレンダラー。描画の代わりに、描画したシーン・カメラ・領域を記録します。
+ * WebGLRendererと同じく、描画のたびにシーンとカメラのワールド行列を更新するため、
+ * 描画後のレイキャストなどは、ブラウザと同じ結果になります。
+ */
+export class HeadlessRenderer implements SceneRenderer {
+  public readonly domElement: HeadlessSurface;
+  // 直前の描画で描いたオブジェクト（メッシュ・線・点）の数と三角形の数。メモリの統計は常に0
+  public readonly info = {
+    render: { calls: 0, triangles: 0 },
+    memory: { geometries: 0, textures: 0 }
+  };
+  public readonly shadowMap: { enabled: boolean; type: THREE.ShadowMapType } = { enabled: false, type: THREE.PCFShadowMap };
+  public readonly debug: SceneRenderer['debug'] = { onShaderError: null };
+  // 記録した描画（古い順）
+  public readonly renders: RenderRecord[] = [];
+  private readonly size: THREE.Vector2;
+  private readonly viewport = new THREE.Vector4();
+  private readonly scissor = new THREE.Vector4();
+  private pixelRatio = 1;
+  private scissorTest = false;
+  private recordLimit: number;
+  private disposed = false;
+
+  constructor(options: HeadlessRendererOptions = {}) {
+    this.size = new THREE.Vector2(options.width ?? 800, options.height ?? 600);
+    this.viewport.set(0, 0, this.size.x, this.size.y);
+    this.recordLimit = Math.max(0, options.recordLimit ?? 100);
+    this.domElement = new HeadlessSurface(() => this.size);
+  }
+
+  public setPixelRatio(value: number): void {
+    this.pixelRatio = value;
+  }
+
+  public getPixelRatio(): number {
+    return this.pixelRatio;
+  }
+
+  public setSize(width: number, height: number): void {
+    this.size.set(width, height);
+    this.setViewport(0, 0, width, height);
+  }
+
+  public getSize(target: THREE.Vector2): THREE.Vector2 {
+    return target.copy(this.size);
+  }
+
+  public setViewport(x: number, y: number, width: number, height: number): void {
+    this.viewport.set(x, y, width, height);
+  }
+
+  public setScissor(x: number, y: number, width: number, height: number): void {
+    this.scissor.set(x, y, width, height);
+  }
+
+  public setScissorTest(enable: boolean): void {
+    this.scissorTest = enable;
+  }
+
+  public render(scene: THREE.Object3D, camera: THREE.Camera): void {
+    if (this.disposed) return;
+    // WebGLRendererと同じく、描画の前にワールド行列を更新する（親を持たないカメラも更新する）。
+    if (scene.matrixWorldAutoUpdate) scene.updateMatrixWorld();
+    if (camera.parent === null && camera.matrixWorldAutoUpdate) camera.updateMatrixWorld();
+
+    let calls = 0;
+    let triangles = 0;
+    // object.traverseVisible(callback): visibleがfalseのオブジェクトとその子孫を除いて巡回する。
+    scene.traverseVisible(object => {
+      if (!(object instanceof THREE.Mesh || object instanceof THREE.Line || object instanceof THREE.Points)) return;
+      calls++;
+      triangles += countTriangles(object);
+    });
+    this.info.render.calls = calls;
+    this.info.render.triangles = triangles;
+
+    if (this.recordLimit === 0) return;
+    this.renders.push({ scene, camera, viewport: this.scissorTest ? this.viewport.clone() : null });
+    if (this.renders.length > this.recordLimit) this.renders.splice(0, this.renders.length - this.recordLimit);
+  }
+
+  /**
+   * 最後に記録した描画を取得します。
+   */
+  public getLastRender(): RenderRecord | null {
+    return this.renders[this.renders.length - 1] ?? null;
+  }
+
+  /**
+   * 記録した描画を消去します。
+   */
+  public clearRenders(): void {
+    this.renders.length = 0;
+  }
+
+  public setRecordLimit(limit: number): void {
+    this.recordLimit = Math.max(0, limit);
+    if (this.renders.length > this.recordLimit) this.renders.splice(0, this.renders.length - this.recordLimit);
+  }
+
+  public isDisposed(): boolean {
+    return this.disposed;
+  }
+
+  public dispose(): void {
+    this.disposed = true;
+    this.renders.length = 0;
+  }
+}
+
+function countTriangles(object: THREE.Object3D): number {
+  if (!(object instanceof THREE.Mesh)) return 0;
+  const geometry = object.geometry as THREE.BufferGeometry;
+  const count = geometry.index ? geometry.index.count : geometry.attributes.position?.count ?? 0;
+  const instances = object instanceof THREE.InstancedMesh ? object.count : 1;
+  return Math.floor(count / 3) * instances;
+}
+
+// ===================================================================
+// Part 5: Headless Environment (ヘッドレスの実行環境)
+// ===================================================================
+
+/**
+ * `createHeadlessEnvironment`で作成した実行環境。シーンマネージャーにそのまま渡せます。
+ */
+export interface HeadlessEnvironment {
+  renderer: HeadlessRenderer;
+  size: SizeProvider;
+  /** resizeとキーボードのイベントの発生元（windowの代わり） */
+  events: EventTarget;
+  /** `advance()`で1フレームずつ進める時計 */
+  frames: ManualFrameSource;
+  /** テクスチャの画像を読み込む関数（シーンマネージャーの`textures`で使われる） */
+  loadImage: ImageLoadFunction;
+  /** 描画サイズを変え、resizeイベントを発生させます（ウィンドウの大きさの変更の代わり） */
+  resize(width: number, height: number): void;
+}
+
+/**
+ * window・document・WebGLを使わずにシーンマネージャーを動かす実行環境を作成します。
+ * テクスチャの画像は、`loadImage`を指定しない場合は読み込まずに1×1の白い画像で代用します（`loadBlankImage`）。
+ */
+export function createHeadlessEnvironment(
+  options: Partial<SurfaceSize> & Pick<HeadlessRendererOptions, 'recordLimit'> & { loadImage?: ImageLoadFunction } = {}
+): HeadlessEnvironment {
+  const current: SurfaceSize = { width: options.width ?? 800, height: options.height ?? 600, pixelRatio: options.pixelRatio ?? 1 };
+  const events = new EventTarget();
+  return {
+    renderer: new HeadlessRenderer({ width: current.width, height: current.height, recordLimit: options.recordLimit }),
+    size: () => ({ ...current }),
+    events,
+    frames: new ManualFrameSource(),
+    loadImage: options.loadImage ?? loadBlankImage,
+    resize: (width, height) => {
+      current.width = width;
+      current.height = height;
+      events.dispatchEvent(new Event('resize'));
+    }
+  };
+}
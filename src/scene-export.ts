@@ -0,0 +1,308 @@
+/**
+ * Three.js TypeScript Tutorial - 10. Scene Export
+ *
+ * `AbstractSceneManager`が管理しているシーンを、他のツールで開けるglTF 2.0（.gltf / .glb）として書き出します。
+ * Three.js付属の`GLTFExporter`を使い、マテリアルはglTFのPBR（metallic-roughness）に変換します。
+ * WebGLコンテキストを使わないため、ブラウザでもNode.jsでも実行できます。
+ *
+ * @example
+ * // ブラウザ: ファイルとしてダウンロードする
+ * downloadSceneExport(await exportScene(manager, { format: 'glb' }));
+ *
+ * // Node.js: fsで保存する
+ * const result = await exportScene(manager, { format: 'gltf', buffers: 'external' });
+ * for (const file of result.files) {
+ *   await writeFile(file.name, typeof file.data === 'string' ? file.data : Buffer.from(file.data));
+ * }
+ */
+
+import * as THREE from 'three';
+// GLTFExporter: Three.jsのシーンをglTF 2.0形式に変換する公式のエクスポーター。
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { InteractiveSceneManager } from './scene-manager';
+import { getOriginalMaterial } from './selection-manager';
+import { TransformGizmo } from './transform-controls';
+import type { AbstractSceneManager } from './scene-manager';
+import type {
+  SceneExportFile,
+  SceneExportOptions,
+  SceneExportResult
+} from '../types/scene-export-types';
+
+/**
+ * シーンを書き出せなかった場合のエラー
+ */
+export class SceneExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SceneExportError';
+  }
+}
+
+/**
+ * AxesHelperやGridHelperなど、編集用の補助オブジェクトかどうかを判定します。
+ * Three.jsの補助オブジェクトは`type`が'Helper'で終わります。独自の補助オブジェクトは
+ * `userData.isHelper = true`を設定すると同じように扱われます。
+ */
+export function isHelperObject(object: THREE.Object3D): boolean {
+  return object.type.endsWith('Helper') || object.userData.isHelper === true;
+}
+
+// ===================================================================
+// Part 1: Export (書き出し)
+// ===================================================================
+
+/**
+ * 管理しているシーンをglTF 2.0として書き出します。
+ * 元のシーンは変更しません（書き出し用の複製を作ってから変換します）。
+ */
+export async function exportScene(
+  manager: AbstractSceneManager,
+  options: SceneExportOptions = {}
+): Promise<SceneExportResult> {
+  const format = options.format ?? 'glb';
+  const fileName = options.fileName ?? 'scene';
+  const includeTextures = options.includeTextures ?? canEncodeImages();
+
+  const sources = selectSources(manager, options);
+  const root = new THREE.Scene();
+  root.name = manager.getScene().name || fileName;
+  const converted: THREE.Material[] = [];
+  sources.forEach(source => {
+    const copy = cloneForExport(source, options.stripHelpers ?? true, includeTextures, converted);
+    if (copy) root.add(copy);
+  });
+  if (options.includeCamera) {
+    const camera = manager.getCamera().clone();
+    // カメラはシーンに追加されていないことが多いため、ワールド変換をそのまま複製に反映する。
+    manager.getCamera().matrixWorld.decompose(camera.position, camera.quaternion, camera.scale);
+    root.add(camera);
+  }
+
+  try {
+    const output = await withFileReader(() => new GLTFExporter().parseAsync(root, {
+      binary: format === 'glb',
+      onlyVisible: true,
+      embedImages: true
+    }));
+    if (output instanceof ArrayBuffer) {
+      return {
+        format,
+        files: [{ name: `${fileName}.glb`, mimeType: 'model/gltf-binary', data: output }]
+      };
+    }
+    return { format, files: gltfFiles(output, fileName, options.buffers ?? 'embedded') };
+  } catch (error) {
+    if (error instanceof SceneExportError) throw error;
+    throw new SceneExportError(`Failed to export scene: ${(error as Error).message}`);
+  } finally {
+    converted.forEach(material => material.dispose());
+  }
+}
+
+/**
+ * 書き出したファイルを、ブラウザでダウンロードさせます。
+ */
+export function downloadSceneExport(result: SceneExportResult): void {
+  if (typeof document === 'undefined') {
+    throw new SceneExportError('downloadSceneExport is only available in the browser');
+  }
+  result.files.forEach(file => {
+    const url = URL.createObjectURL(new Blob([file.data], { type: file.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.name;
+    link.click();
+    URL.revokeObjectURL(url);
+  });
+}
+
+/**
+ * 書き出す対象のオブジェクトを選ぶ
+ */
+function selectSources(manager: AbstractSceneManager, options: SceneExportOptions): THREE.Object3D[] {
+  if (options.selectedOnly) {
+    const selected = manager instanceof InteractiveSceneManager ? manager.selection.getSelection() : [];
+    if (selected.length === 0) throw new SceneExportError('selectedOnly was requested but no object is selected');
+    return selected;
+  }
+  return manager.getScene().children.filter(child => {
+    if (child instanceof THREE.Light) {
+      // KHR_lights_punctualで表現できるのは平行光源・点光源・スポットライトだけ（環境光・半球光・面光源は除く）。
+      const punctual = child instanceof THREE.DirectionalLight || child instanceof THREE.PointLight || child instanceof THREE.SpotLight;
+      return (options.includeLights ?? false) && punctual;
+    }
+    return true;
+  });
+}
+
+/**
+ * 書き出し用にオブジェクトを複製する。補助オブジェクトを取り除き、マテリアルをPBRに変換する。
+ */
+function cloneForExport(
+  object: THREE.Object3D,
+  stripHelpers: boolean,
+  includeTextures: boolean,
+  converted: THREE.Material[]
+): THREE.Object3D | null {
+  if (stripHelpers && isHelperObject(object)) return null;
+  // 変換のギズモは編集中だけのものなので、補助オブジェクトを残す場合も書き出さない。
+  if (object instanceof TransformGizmo) return null;
+
+  // object.clone(false): 子オブジェクトを含めずに複製する。ジオメトリは元のものを共有する。
+  const copy = object.clone(false);
+  if (copy instanceof THREE.Mesh) {
+    const mesh = copy as THREE.Mesh;
+    // 選択のハイライトではなく、本来のマテリアルを書き出す。
+    const material = getOriginalMaterial(object as THREE.Mesh);
+    const toPbr = (material: THREE.Material) => {
+      const result = toExportMaterial(material, includeTextures);
+      if (result !== material) converted.push(result);
+      return result;
+    };
+    mesh.material = Array.isArray(material) ? material.map(toPbr) : toPbr(material);
+  }
+  object.children.forEach(child => {
+    const childCopy = cloneForExport(child, stripHelpers, includeTextures, converted);
+    if (childCopy) copy.add(childCopy);
+  });
+  return copy;
+}
+
+// ===================================================================
+// Part 2: Material Conversion (マテリアルの変換)
+// ===================================================================
+
+/**
+ * glTFのPBRで表現できるマテリアルに変換する。
+ * MeshStandardMaterial・MeshPhysicalMaterialはそのまま、MeshBasicMaterialはKHR_materials_unlitとして書き出される。
+ */
+function toExportMaterial(material: THREE.Material, includeTextures: boolean): THREE.Material {
+  const keepAsIs = material instanceof THREE.MeshStandardMaterial || material instanceof THREE.MeshBasicMaterial;
+  if (keepAsIs && (includeTextures || !hasTextures(material))) return material;
+
+  const source = material as THREE.Material & {
+    color?: THREE.Color;
+    emissive?: THREE.Color;
+    emissiveIntensity?: number;
+    map?: THREE.Texture | null;
+    shininess?: number;
+    roughness?: number;
+    metalness?: number;
+  };
+  const common = {
+    name: material.name,
+    color: source.color ?? 0xffffff,
+    opacity: material.opacity,
+    transparent: material.transparent,
+    side: material.side,
+    alphaTest: material.alphaTest,
+    map: includeTextures ? source.map ?? null : null
+  };
+  if (material instanceof THREE.MeshBasicMaterial) {
+    const basic = new THREE.MeshBasicMaterial(common);
+    basic.userData = { ...material.userData };
+    return basic;
+  }
+  // new THREE.MeshStandardMaterial(params): glTFのmetallic-roughnessに直接対応するマテリアル。
+  const standard = new THREE.MeshStandardMaterial({
+    ...common,
+    emissive: source.emissive ?? 0x000000,
+    emissiveIntensity: source.emissiveIntensity ?? 1,
+    // Phongの光沢度（shininess）は、よく使われる近似式で粗さ（roughness）に変換する。
+    roughness: source.roughness ?? (source.shininess !== undefined ? Math.sqrt(2 / (source.shininess + 2)) : 1),
+    metalness: source.metalness ?? 0
+  });
+  standard.userData = { ...material.userData };
+  return standard;
+}
+
+function hasTextures(material: THREE.Material): boolean {
+  return Object.values(material).some(value => value instanceof THREE.Texture);
+}
+
+// ===================================================================
+// Part 3: Output Files (出力ファイル)
+// ===================================================================
+
+/**
+ * .gltfのJSONから出力ファイルを作る。'external'の場合は埋め込みバッファを.binファイルに分ける。
+ */
+function gltfFiles(json: Record<string, unknown>, fileName: string, buffers: SceneExportOptions['buffers']): SceneExportFile[] {
+  const files: SceneExportFile[] = [];
+  const gltfBuffers = json.buffers as { uri?: string; byteLength: number }[] | undefined;
+  if (buffers === 'external' && gltfBuffers) {
+    gltfBuffers.forEach((buffer, index) => {
+      if (!buffer.uri?.startsWith('data:')) return;
+      const name = gltfBuffers.length === 1 ? `${fileName}.bin` : `${fileName}_${index}.bin`;
+      files.push({ name, mimeType: 'application/octet-stream', data: decodeDataUri(buffer.uri) });
+      buffer.uri = name;
+    });
+  }
+  files.unshift({ name: `${fileName}.gltf`, mimeType: 'model/gltf+json', data: JSON.stringify(json) });
+  return files;
+}
+
+function decodeDataUri(uri: string): ArrayBuffer {
+  // atob(base64): Base64文字列を1文字1バイトのバイナリ文字列に戻す。
+  const binary = atob(uri.slice(uri.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
+
+// ===================================================================
+// Part 4: Runtime Support (実行環境の差の吸収)
+// ===================================================================
+
+/**
+ * テクスチャ画像の変換に使うcanvasが使えるか
+ */
+function canEncodeImages(): boolean {
+  return typeof document !== 'undefined' || typeof OffscreenCanvas !== 'undefined';
+}
+
+/**
+ * GLTFExporterはバッファの結合にFileReaderを使うが、Node.jsにはFileReaderがない。
+ * 存在しない環境では、Blobの機能だけで作った最小限の代替を書き出しの間だけ用意する。
+ */
+let fileReaderUsers = 0;
+
+async function withFileReader<T>(task: () => Promise<T>): Promise<T> {
+  const scope = globalThis as { FileReader?: unknown };
+  const install = scope.FileReader === undefined || fileReaderUsers > 0;
+  if (install) {
+    if (fileReaderUsers === 0) scope.FileReader = BlobFileReader;
+    fileReaderUsers++;
+  }
+  try {
+    return await task();
+  } finally {
+    if (install && --fileReaderUsers === 0) delete scope.FileReader;
+  }
+}
+
+class BlobFileReader {
+  public result: ArrayBuffer | string | null = null;
+  public onloadend: (() => void) | null = null;
+
+  public readAsArrayBuffer(blob: Blob): void {
+    void blob.arrayBuffer().then(buffer => {
+      this.result = buffer;
+      this.onloadend?.();
+    });
+  }
+
+  public readAsDataURL(blob: Blob): void {
+    void blob.arrayBuffer().then(buffer => {
+      const bytes = new Uint8Array(buffer);
+      let binary = '';
+      // 大きなバッファでも引数の数の上限を超えないように、少しずつ文字列にする。
+      for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+      }
+      this.result = `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+      this.onloadend?.();
+    });
+  }
+}
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as THREE from 'three';
+import { createHeadlessEnvironment } from './scene-environment';
+import type { HeadlessEnvironment } from './scene-environment';
+import { InteractiveSceneManager } from './scene-manager';
+import { loadBlankImage, sharedTextureManager } from './texture-manager';
+import { TypedObjectFactory } from './typed-geometry-factory';
+
+describe('InteractiveSceneManager', () => {
+  let manager: InteractiveSceneManager | null = null;
+  let environment: HeadlessEnvironment;
+
+  afterEach(() => {
+    manager?.dispose();
+    manager = null;
+  });
+
+  function createManager(): InteractiveSceneManager {
+    environment = createHeadlessEnvironment();
+    manager = new InteractiveSceneManager(environment);
+    manager.initialize();
+    return manager;
+  }
+
+  it('keeps the animation base when a deleted animated object is restored', () => {
+    const scene = createManager();
+    const mesh = TypedObjectFactory.createMesh({
+      geometry: { type: 'box', config: {} },
+      material: { type: 'standard', config: {} },
+      animation: { enabled: true, position: { amplitude: 1, frequency: 0.25, axis: 'y' } }
+    });
+    scene.addObject(mesh);
+    scene.scheduler.step(1);
+    expect(mesh.position.y).toBeCloseTo(1);
+
+    scene.selection.select(mesh);
+    scene.removeSelectedObject();
+    scene.history.undo();
+
+    expect(scene.animations.getBaseTransform(mesh)?.position?.y).toBeCloseTo(0);
+    expect(mesh.position.y).toBeCloseTo(0);
+  });
+
+  it('keeps an animated object where it was dragged', () => {
+    const scene = createManager();
+    const mesh = TypedObjectFactory.createMesh({
+      geometry: { type: 'box', config: {} },
+      material: { type: 'standard', config: {} },
+      animation: { enabled: true, position: { amplitude: 1, frequency: 0.25, axis: 'y' } }
+    });
+    scene.addObject(mesh);
+    scene.getCamera().position.set(0, 10, 0);
+    scene.getCamera().lookAt(0, 0, 0);
+    scene.setTransformMode('drag');
+    scene.scheduler.step(0.5);
+
+    const surface = environment.renderer.domElement;
+    surface.dispatchPointer('pointerdown', { clientX: 400, clientY: 300, buttons: 1 });
+    surface.dispatchPointer('pointermove', { clientX: 500, clientY: 300, buttons: 1 });
+    surface.dispatchPointer('pointerup', { clientX: 500, clientY: 300 });
+    const dropped = mesh.position.x;
+    expect(dropped).toBeGreaterThan(0.5);
+    // 掴むと基準の位置に戻り、離した後は置いた位置を基準にアニメーションが続く。
+    scene.scheduler.step(1);
+    expect(mesh.position.x).toBeCloseTo(dropped);
+    expect(mesh.position.y).toBeCloseTo(1);
+    expect(scene.animations.getBaseTransform(mesh)?.position?.x).toBeCloseTo(dropped);
+
+    scene.history.undo();
+    expect(mesh.position.x).toBeCloseTo(0);
+    scene.scheduler.step(0.5);
+    expect(mesh.position.x).toBeCloseTo(0);
+  });
+
+  it('loads textures with the environment loader without replacing the shared one', () => {
+    const loadImage = vi.fn(loadBlankImage);
+    manager = new InteractiveSceneManager(createHeadlessEnvironment({ loadImage }));
+    manager.initialize();
+    const other = new InteractiveSceneManager(createHeadlessEnvironment());
+    other.initialize();
+    expect(manager.textures).not.toBe(sharedTextureManager);
+    expect(other.textures).not.toBe(manager.textures);
+
+    const shared = TypedObjectFactory.createMesh({
+      geometry: { type: 'box', config: {} },
+      material: { type: 'standard', config: { map: { source: 'shared.png' } } }
+    });
+    expect(loadImage).not.toHaveBeenCalled();
+    const own = TypedObjectFactory.createMesh(
+      { geometry: { type: 'box', config: {} }, material: { type: 'standard', config: { map: { source: 'own.png' } } } },
+      { textures: manager.textures }
+    );
+    expect(loadImage).toHaveBeenCalledWith('own.png');
+
+    (shared.material as THREE.Material).dispose();
+    (own.material as THREE.Material).dispose();
+    other.dispose();
+  });
+});
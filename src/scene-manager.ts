@@ -4,153 +4,1207 @@
  */
 
 import * as THREE from 'three';
-import type { EventHandlers, RenderStats, PerformanceCallback } from '../types/geometry-types';
+import { AnimationSystem } from './animation-system';
+import { CameraController, CameraInputBinding, createCameraController, OrbitController } from './camera-controls';
+import { bindHistoryShortcuts, CommandHistory, createColorCommand, createCommand, createTransformCommand } from './command-history';
+import { InstancedBatch } from './instanced-batch';
+import { FrameScheduler } from './frame-scheduler';
+import { DEFAULT_LIGHTING, LightRig } from './light-rig';
+import { on, PointerEventDispatcher } from './pointer-events';
+import { ResourceCache, sharedResourceCache } from './resource-cache';
+import { windowSize } from './scene-environment';
+import { getOriginalMaterial, SelectionManager } from './selection-manager';
+import { PostProcessingPipeline } from './post-processing';
+import { createShaderErrorHandler, setShaderTime, ShaderCompileError } from './shader-material';
+import { sharedTextureManager, TextureManager } from './texture-manager';
+import { TransformControls } from './transform-controls';
+import { TweenEngine } from './tween-engine';
+import { TypedObjectFactory } from './typed-geometry-factory';
+import { createCamera, updateCameraAspect, Viewport, ViewportLayout } from './viewport-layout';
+import type {
+  CameraControlConfigMap,
+  CameraControlMode,
+  CameraControlsOptions,
+  OrbitControlsConfig
+} from '../types/camera-control-types';
+import type { ColoredMaterial } from './command-history';
+import type { EventHandlers, MouseEventInfo, RenderStats, PerformanceCallback, Transform } from '../types/geometry-types';
+import type { Command } from '../types/history-types';
+import type { CameraConfig, ViewportConfig } from '../types/camera-types';
+import type { LightConfig } from '../types/light-types';
+import type { FrameTime, SchedulerOptions } from '../types/scheduler-types';
+import type { SceneEnvironment, SceneRenderer, SizeProvider, SurfaceSize } from '../types/renderer-types';
+import type { PostProcessingPassConfig } from '../types/postprocessing-types';
+import type { PointerEventOptions, ScenePointerEvent, ScenePointerEventType } from '../types/pointer-types';
+import type { HighlightStrategy, MarqueeMode, SelectionMode } from '../types/selection-types';
+import type { TransformAxis, TransformControlsOptions, TransformMode } from '../types/transform-types';
 
 // ===================================================================
 // Part 1: Abstract Base Class (抽象基底クラス)
 // ===================================================================
 
+/**
+ * 画面上の位置を描画しているカメラと、そのカメラでの正規化デバイス座標
+ */
+export interface PointerTarget {
+  camera: THREE.Camera;
+  /** 正規化デバイス座標 (-1 〜 1) */
+  normalized: THREE.Vector2;
+  /** ビューポートレイアウトを使っている場合、位置にあるビューポート */
+  viewport: Viewport | null;
+}
+
 export abstract class AbstractSceneManager {
   protected camera!: THREE.Camera;
   protected scene!: THREE.Scene;
-  protected renderer!: THREE.WebGLRenderer;
-  // new THREE.Clock(): 時間を管理するヘルパー。アニメーションの経過時間などを正確に計測する。
-  protected clock = new THREE.Clock();
-  private animationId: number | null = null;
-  
-  // (Abstract methods)
-  
+  protected renderer!: SceneRenderer;
+  // 台本どおりの動き（トゥイーン・タイムライン）を毎フレーム進めるエンジン
+  public readonly tweens = new TweenEngine();
+  // シーンの更新と描画のタイミング（固定タイムステップ・一時停止・timeScale・オンデマンド描画）を管理する
+  public readonly scheduler = new FrameScheduler({
+    step: (deltaTime, elapsedTime) => this.stepScene(deltaTime, elapsedTime),
+    frame: time => this.updateFrame(time),
+    render: time => this.render(time)
+  });
+  // 画面を分割して複数のカメラから描画する場合のレイアウト（nullの場合はcameraで全体に描画する）
+  private viewportLayout: ViewportLayout | null = null;
+  // 描画した画像に効果を加えるポストプロセス（nullの場合はそのまま描画する）
+  private postProcessing: PostProcessingPipeline | null = null;
+  private shaderErrorCallback?: (error: ShaderCompileError) => void;
+  // 描画中に見つかったシェーダーのエラー。Three.jsの描画を途中で止めないよう、描画が終わってから報告する
+  private pendingShaderErrors: ShaderCompileError[] = [];
+  // abortController.abort(): signalを指定して登録したイベントリスナーを、まとめて解除する。
+  private readonly listeners = new AbortController();
+  // レンダラー・描画サイズ・イベントの発生元（省略した項目はブラウザのものを使う）
+  protected readonly environment: SceneEnvironment;
+  // resizeとキーボードのイベントを受け取る対象（ブラウザではwindow）
+  protected readonly events: EventTarget;
+  private readonly sizeProvider: SizeProvider;
+  /**
+   * このシーンのオブジェクトのテクスチャを変換するマネージャー。
+   * 実行環境に`loadImage`がある場合はシーンごとのマネージャー、ない場合は`sharedTextureManager`です。
+   * 作成するメッシュで使うには、`TypedObjectFactory.createMesh(config, { textures: manager.textures })`のように渡します。
+   */
+  public readonly textures: TextureManager;
+
+  /**
+   * @param environment 実行環境。ページの要素に埋め込む場合は`createContainerEnvironment()`、
+   *                    ヘッドレス環境では`createHeadlessEnvironment()`を渡す
+   */
+  constructor(environment: SceneEnvironment = {}) {
+    this.environment = environment;
+    this.events = environment.events ?? window;
+    this.sizeProvider = environment.size ?? windowSize;
+    if (environment.frames) this.scheduler.configure({ source: environment.frames });
+    // 共有のマネージャーの読み込み関数は置き換えない（同じページの他のシーンに影響するため）。
+    this.textures = environment.loadImage ? new TextureManager({ loadImage: environment.loadImage }) : sharedTextureManager;
+  }
+
+  protected abstract initializeScene(): void;
+  protected abstract setupLighting(): void;
+  /**
+   * シミュレーションを進めます（アニメーションなど）。deltaTimeはtimeScaleが掛けられた時間で、
+   * 一時停止中は呼ばれません。固定タイムステップでは、1フレームに0回以上呼ばれます。
+   */
+  protected abstract updateScene(deltaTime: number): void;
+
   public initialize(): void {
     this.initializeScene();
+    this.setupShaderErrorReporting();
     this.setupLighting();
     this.setupEventListeners();
   }
-  
-  // (Common methods: setupEventListeners, onWindowResize, start, stop)
-  
-  private animate(): void {
-    this.animationId = requestAnimationFrame(this.animate.bind(this));
-    // clock.getDelta(): 前回のフレームからの経過時間（秒）を取得する。
-    // これをアニメーション計算に使うことで、フレームレートが変動しても動きの速度を一定に保てる。
-    const deltaTime = this.clock.getDelta();
+
+  /**
+   * シェーダーのコンパイルエラーを受け取る関数を設定します。エラーはプログラムごとに1回、描画が終わった後に渡されます。
+   * 設定しない場合は、`ShaderCompileError`が未処理のエラーとして報告されます（描画のループは止まりません）。
+   */
+  public setShaderErrorCallback(callback: (error: ShaderCompileError) => void): void {
+    this.shaderErrorCallback = callback;
+  }
+
+  protected setupShaderErrorReporting(): void {
+    // renderer.debug.onShaderError: 設定すると、Three.jsはシェーダーのソース全体をコンソールに出力する代わりにこの関数を呼ぶ。
+    // この関数の中で投げると、Three.jsの描画の状態が戻されないまま、同じプログラムで毎フレームエラーになる。
+    this.renderer.debug.onShaderError = createShaderErrorHandler(
+      error => this.pendingShaderErrors.push(error),
+      () => sceneMaterials(this.scene)
+    );
+  }
+
+  private reportShaderErrors(): void {
+    const errors = this.pendingShaderErrors;
+    if (errors.length === 0) return;
+    this.pendingShaderErrors = [];
+    errors.forEach(error => {
+      if (this.shaderErrorCallback) {
+        this.shaderErrorCallback(error);
+        return;
+      }
+      // queueMicrotask(callback): 現在の処理が終わった直後に呼ばれる。ここで投げたエラーは、
+      // イベントリスナーの例外と同じく未処理のエラーとして報告され、フレームの処理は中断されない。
+      queueMicrotask(() => {
+        throw error;
+      });
+    });
+  }
+
+  protected setupEventListeners(): void {
+    this.events.addEventListener('resize', () => this.onWindowResize(), { signal: this.listeners.signal });
+  }
+
+  protected onWindowResize(): void {
+    const { width, height, pixelRatio } = this.getViewportSize();
+    // 透視投影カメラはアスペクト比を、平行投影カメラは映る範囲の幅を合わせる。
+    updateCameraAspect(this.camera, width / height);
+    this.renderer.setPixelRatio(pixelRatio);
+    this.renderer.setSize(width, height, this.environment.updateStyle ?? true);
+    // ビューポートのカメラは、それぞれの領域のアスペクト比に合わせる。
+    this.viewportLayout?.resize(width, height);
+    // ポストプロセスのレンダーターゲットも、新しい描画サイズで作り直す。
+    this.postProcessing?.setSize(width, height, pixelRatio);
+    this.invalidate();
+  }
+
+  /**
+   * 描画サイズ（ブラウザではウィンドウの大きさ）とピクセル比を取得します。
+   */
+  public getViewportSize(): SurfaceSize {
+    return this.sizeProvider();
+  }
+
+  /**
+   * シーンを描画するレンダラーを用意します。実行環境でレンダラーが渡されていればそれを使い、
+   * なければWebGLRendererを作成してキャンバスをdocument.bodyに追加します。サイズは描画サイズに合わせます。
+   */
+  protected createRenderer(parameters: THREE.WebGLRendererParameters = {}): SceneRenderer {
+    let renderer = this.environment.renderer;
+    if (!renderer) {
+      const webGLRenderer = new THREE.WebGLRenderer(parameters);
+      document.body.appendChild(webGLRenderer.domElement);
+      renderer = webGLRenderer;
+    }
+    const { width, height, pixelRatio } = this.getViewportSize();
+    renderer.setPixelRatio(pixelRatio);
+    renderer.setSize(width, height, this.environment.updateStyle ?? true);
+    return renderer;
+  }
+
+  public start(): void {
+    this.scheduler.start();
+  }
+
+  public stop(): void {
+    this.scheduler.stop();
+  }
+
+  /**
+   * 次のフレームで描画させます。オンデマンド描画（`renderMode: 'onDemand'`）で、
+   * シーンを直接変更したときに呼び出します。
+   */
+  public invalidate(): void {
+    this.scheduler.invalidate();
+  }
+
+  /**
+   * 管理しているシーンを取得します。
+   */
+  public getScene(): THREE.Scene {
+    return this.scene;
+  }
+
+  /**
+   * シーンを描画しているカメラを取得します。
+   */
+  public getCamera(): THREE.Camera {
+    return this.camera;
+  }
+
+  /**
+   * シーンを描画するカメラを置き換えます。設定を渡すと新しいカメラを作成します。
+   * アスペクト比は現在の描画サイズに合わせます。初期化後に呼び出します。
+   */
+  public setCamera(camera: THREE.Camera | CameraConfig): void {
+    // renderer.getSize(target): 描画サイズ（CSSピクセル）を取得する。
+    const size = this.renderer.getSize(new THREE.Vector2());
+    const aspect = size.y > 0 ? size.x / size.y : 1;
+    this.camera = camera instanceof THREE.Camera ? camera : createCamera(camera, aspect);
+    updateCameraAspect(this.camera, aspect);
+    this.postProcessing?.setCamera(this.camera);
+    this.invalidate();
+  }
+
+  /**
+   * キャンバスを分割して、複数のカメラから描画するレイアウトを設定します。nullを渡すと、カメラ1台の描画に戻ります。
+   * ビューポートの設定の配列を渡すと、レイアウトを作成します。初期化後に呼び出します。
+   */
+  public setViewports(layout: ViewportLayout | readonly ViewportConfig[] | null): ViewportLayout | null {
+    this.viewportLayout = Array.isArray(layout) ? new ViewportLayout(layout) : layout as ViewportLayout | null;
+    const size = this.renderer.getSize(new THREE.Vector2());
+    this.viewportLayout?.resize(size.x, size.y);
+    this.invalidate();
+    return this.viewportLayout;
+  }
+
+  public getViewports(): ViewportLayout | null {
+    return this.viewportLayout;
+  }
+
+  /**
+   * 描画した画像に効果（ブルーム・輪郭線・アンチエイリアスなど）を加えるパスを、実行する順に設定します。
+   * nullまたは空の配列を渡すと、効果を加えずに描画します。初期化後に呼び出します。
+   * WebGLRendererでだけ使えます（ヘッドレス環境では何もせずnullを返します）。
+   * ビューポートレイアウトを使っている間は、効果を加えずに描画します。
+   */
+  public setPostProcessing(passes: readonly PostProcessingPassConfig[] | null): PostProcessingPipeline | null {
+    if (!passes || passes.length === 0 || !(this.renderer instanceof THREE.WebGLRenderer)) {
+      this.postProcessing?.dispose();
+      this.postProcessing = null;
+    } else if (this.postProcessing) {
+      this.postProcessing.setPasses(passes);
+    } else {
+      this.postProcessing = new PostProcessingPipeline(this.renderer, this.scene, this.camera, passes);
+      // 実行中にパスの有効・無効や設定を変えたら、描画し直す（オンデマンド描画）。
+      this.postProcessing.addEventListener('change', () => this.invalidate());
+    }
+    this.invalidate();
+    return this.postProcessing;
+  }
+
+  public getPostProcessing(): PostProcessingPipeline | null {
+    return this.postProcessing;
+  }
+
+  /**
+   * 画面上の位置（clientX, clientY）を描画しているカメラと、そのカメラでの正規化デバイス座標を求めます。
+   * ビューポートレイアウトを使っている場合、どのビューポートにも含まれない位置ではnullを返します。
+   * @param within 指定すると、位置がその外にあっても、そのカメラ（ビューポート）での座標を返す。
+   *               ドラッグの始点と同じカメラで終点を表す場合に使う（範囲外は-1 〜 1の外になる）
+   */
+  public resolvePointer(clientX: number, clientY: number, within?: PointerTarget): PointerTarget | null {
+    // element.getBoundingClientRect(): 要素の画面上の位置とサイズを取得する。
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    const x = (clientX - rect.left) / rect.width;
+    const y = (clientY - rect.top) / rect.height;
+    if (within) {
+      const normalized = within.viewport ? within.viewport.toNormalized(x, y) : new THREE.Vector2(x * 2 - 1, -y * 2 + 1);
+      return { camera: within.camera, normalized, viewport: within.viewport };
+    }
+    if (this.viewportLayout) {
+      const hit = this.viewportLayout.viewportAt(x, y);
+      return hit && { camera: hit.viewport.camera, normalized: hit.normalized, viewport: hit.viewport };
+    }
+    // 正規化デバイス座標（-1 〜 1、上が+1）に変換する。
+    return { camera: this.camera, normalized: new THREE.Vector2(x * 2 - 1, -y * 2 + 1), viewport: null };
+  }
+
+  /**
+   * フレームごとに1回、シミュレーションの更新の後に呼ばれます。カメラの操作など、一時停止や
+   * timeScaleの影響を受けない処理を行います（time.realDeltaTimeが実際の経過時間）。
+   * @returns 描画が必要な変化があった場合はtrue（オンデマンド描画で使う）
+   */
+  protected updateFrame(time: FrameTime): boolean {
+    // シミュレーションの時間が進んでいる間は、トゥイーンが動いていれば描画する。
+    return time.deltaTime > 0 && this.tweens.getActiveCount() > 0;
+  }
+
+  private stepScene(deltaTime: number, elapsedTime: number): void {
+    // シェーダーマテリアルのtimeのuniformに、このシーンの経過時間を使わせる。
+    // 一時停止やtimeScaleに合わせて、シェーダーの動きも止まったり遅くなったりする。
+    setShaderTime(this.scene, elapsedTime);
+    this.tweens.update(deltaTime);
     this.updateScene(deltaTime);
-    this.renderer.render(this.scene, this.camera);
   }
-  
+
+  private render(time: FrameTime): void {
+    if (this.viewportLayout) this.viewportLayout.render(this.renderer, this.scene);
+    else if (this.postProcessing) this.postProcessing.render(time.realDeltaTime);
+    else this.renderer.render(this.scene, this.camera);
+    this.reportShaderErrors();
+  }
+
   public dispose(): void {
-    this.stop();
-    // scene.traverse(callback): シーン内の全ての子オブジェクトに対して再帰的にコールバックを実行する。
-    this.scene.traverse((child) => {
+    this.scheduler.dispose();
+    this.tweens.stopAll();
+    // ギズモなどの補助オブジェクトは、それぞれの持ち主が破棄する。
+    traverseContent(this.scene, (child) => {
       if (child instanceof THREE.Mesh) {
-        child.geometry.dispose();
-        if (Array.isArray(child.material)) {
-          child.material.forEach(material => material.dispose());
-        } else {
-          child.material.dispose();
-        }
+        // キャッシュで共有されたリソースは参照数を減らし、最後の利用者のときだけ破棄される。
+        ResourceCache.releaseMesh(child as THREE.Mesh);
+        disposeInstances(child as THREE.Mesh);
       }
     });
+    this.postProcessing?.dispose();
+    this.postProcessing = null;
     this.renderer.dispose();
+    if (this.textures !== sharedTextureManager) this.textures.dispose();
+    // 渡されたレンダラーのキャンバスは、実行環境（createContainerEnvironmentなど）が片付ける。
+    // element.remove(): 要素をページから取り除く（追加されていなければ何もしない）。
+    if (!this.environment.renderer) this.renderer.domElement.remove();
+    this.listeners.abort();
+    this.environment.dispose?.();
   }
 }
 
+/**
+ * scene.traverseと同じように全ての子孫を巡回します。ただし、ギズモなどの補助オブジェクト
+ * （`userData.isHelper`が設定されたオブジェクト）とその子孫は、シーンの内容ではないため除きます。
+ */
+function traverseContent(object: THREE.Object3D, callback: (object: THREE.Object3D) => void): void {
+  if (object.userData.isHelper === true) return;
+  callback(object);
+  object.children.forEach(child => traverseContent(child, callback));
+}
+
+/**
+ * InstancedMeshのインスタンス用のバッファ（行列・色）を解放する。バッチのメッシュの場合はバッチごと破棄する。
+ */
+function disposeInstances(mesh: THREE.Mesh): void {
+  if (!(mesh instanceof THREE.InstancedMesh)) return;
+  const batch = InstancedBatch.fromObject(mesh);
+  if (batch) batch.dispose();
+  else mesh.dispose();
+}
+
+function sceneMaterials(scene: THREE.Object3D): THREE.Material[] {
+  const materials: THREE.Material[] = [];
+  scene.traverse(child => {
+    if (!(child instanceof THREE.Mesh)) return;
+    const material = child.material as THREE.Material | THREE.Material[];
+    materials.push(...(Array.isArray(material) ? material : [material]));
+  });
+  return materials;
+}
+
 // ===================================================================
 // Part 2: Mixins (ミックスイン)
 // ===================================================================
 
-type Constructor<T = {}> = new (...args: any[]) => T;
+// abstract new: 抽象クラス（AbstractSceneManager）もミックスインの基底として受け取れるようにする。
+type Constructor<T = {}> = abstract new (...args: any[]) => T;
+
+const TRANSFORM_LABELS: Record<TransformMode, string> = {
+  translate: 'Move object',
+  rotate: 'Rotate object',
+  scale: 'Scale object',
+  drag: 'Move object'
+};
+
+function drawsOnTop(object: THREE.Object3D): boolean {
+  if (!(object instanceof THREE.Mesh)) return false;
+  const material = object.material as THREE.Material | THREE.Material[];
+  return (Array.isArray(material) ? material : [material]).every(m => !m.depthTest);
+}
+
+// 3Dオブジェクトのポインターイベントのうち、シーンマネージャーのイベントハンドラーに渡すもの
+const POINTER_EVENT_HANDLERS: Partial<Record<ScenePointerEventType, keyof EventHandlers>> = {
+  click: 'onClick',
+  pointerover: 'onHover',
+  pointermove: 'onMouseMove'
+};
 
 export function InteractableMixin<TBase extends Constructor<AbstractSceneManager>>(Base: TBase) {
-  return class extends Base {
+  abstract class Interactable extends Base {
     // new THREE.Raycaster(): 3D空間に光線（レイ）を飛ばしてオブジェクトとの交差を検出する。
     // マウスでのオブジェクト選択（ピッキング）に不可欠。
     public raycaster = new THREE.Raycaster();
     public mouse = new THREE.Vector2();
     public eventHandlers: EventHandlers = {};
-    
-    public setupInteraction(): void { /* ... */ }
-    
-    public handleMouseEvent(event: MouseEvent, type: keyof EventHandlers): void {
-      // (mouse coordinate calculation)
-      
+    /** 3Dオブジェクトごとのポインターイベント（`on(mesh, 'click', ...)`）を振り分ける。setupInteractionで作成される */
+    public pointerEvents: PointerEventDispatcher | null = null;
+
+    /**
+     * キャンバスのポインターイベントを、3Dオブジェクトのリスナーとイベントハンドラーに振り分けます。
+     * イベントハンドラーには、オブジェクトのリスナーでstopPropagationされなかったイベントが届きます。
+     */
+    public setupInteraction(options: Omit<PointerEventOptions, 'pick' | 'onEvent'> = {}): void {
+      this.pointerEvents?.dispose();
+      this.pointerEvents = new PointerEventDispatcher(this.renderer.domElement, {
+        ...options,
+        pick: event => this.pick(event),
+        onEvent: event => {
+          const type = POINTER_EVENT_HANDLERS[event.type];
+          if (type) this.eventHandlers[type]?.(event);
+        }
+      });
+    }
+
+    /**
+     * ポインターイベントの位置にある3Dオブジェクトを、レイキャストで求めます。
+     * どのビューポートにも含まれない位置ではnullを返し、何にも当たらなければtargetのない情報を返します。
+     */
+    public pick(event: MouseEvent): MouseEventInfo | null {
+      // マウス座標を、その位置を描画しているカメラ（ビューポート）の正規化デバイス座標（-1 〜 1）に変換する。
+      const pointer = this.resolvePointer(event.clientX, event.clientY);
+      if (!pointer) return null;
+      this.mouse.copy(pointer.normalized);
+
       // raycaster.setFromCamera(mouseCoords, camera): カメラ視点からマウス座標に向かって光線を設定する。
-      this.raycaster.setFromCamera(this.mouse, this.camera);
+      this.raycaster.setFromCamera(this.mouse, pointer.camera);
       // raycaster.intersectObjects(objects, recursive): 光線と交差したオブジェクトを距離の近い順で配列として返す。
       const intersects = this.raycaster.intersectObjects(this.scene.children, true);
-      
-      // (handler call)
+
+      const info: MouseEventInfo = {
+        position: new THREE.Vector2(event.clientX, event.clientY),
+        normalized: this.mouse.clone(),
+        modifiers: { shift: event.shiftKey, ctrl: event.ctrlKey, alt: event.altKey, meta: event.metaKey }
+      };
+      if (pointer.viewport) info.viewport = pointer.viewport.name;
+      if (intersects.length === 0) return info;
+
+      // ギズモのように常に手前に描画される（depthTest: false）オブジェクトは、距離に関係なく優先する。
+      const hit = intersects.find(intersection => drawsOnTop(intersection.object)) ?? intersects[0];
+      const { object, point, distance, face, uv, instanceId } = hit;
+      info.target = object;
+      info.point = point;
+      info.distance = distance;
+      // face.normalはオブジェクトのローカル座標なので、ワールド座標の向きに変換する。
+      if (face) info.normal = face.normal.clone().transformDirection(object.matrixWorld);
+      if (uv) info.uv = uv;
+      // InstancedMeshの場合、intersection.instanceIdは配列上の位置なので、バッチのIDに変換する。
+      if (instanceId !== undefined) {
+        info.instanceId = InstancedBatch.fromObject(object)?.getIdAtIndex(instanceId) ?? instanceId;
+      }
+      return info;
+    }
+
+    public handleMouseEvent(event: MouseEvent, type: keyof EventHandlers): void {
+      const handler = this.eventHandlers[type];
+      const info = this.pick(event);
+      if (handler && info?.target) handler(info);
+    }
+
+    public setEventHandler(type: keyof EventHandlers, handler: EventHandlers[typeof type]): void {
+      this.eventHandlers[type] = handler;
+    }
+
+    public dispose(): void {
+      this.pointerEvents?.dispose();
+      this.pointerEvents = null;
+      super.dispose();
+    }
+  }
+  return Interactable;
+}
+
+export function PerformanceMonitorMixin<TBase extends Constructor<AbstractSceneManager>>(Base: TBase) {
+  abstract class PerformanceMonitor extends Base {
+    private performanceCallback?: PerformanceCallback;
+    private frameCount = 0;
+    private lastTime = performance.now();
+
+    public setPerformanceCallback(callback: PerformanceCallback): void {
+      this.performanceCallback = callback;
+    }
+
+    protected updatePerformanceStats(): void {
+      this.frameCount++;
+      const currentTime = performance.now();
+
+      // 1秒ごとに統計を計算してコールバックに通知する。
+      if (currentTime - this.lastTime >= 1000) {
+        const stats: RenderStats = {
+          fps: this.frameCount,
+          frameTime: (currentTime - this.lastTime) / this.frameCount,
+          triangles: this.getTriangleCount(),
+          vertices: this.getVertexCount(),
+          // renderer.info: 描画呼び出し回数やGPUメモリ上のリソース数などの統計情報。
+          drawCalls: this.renderer.info.render.calls,
+          memory: {
+            geometries: this.renderer.info.memory.geometries,
+            textures: this.renderer.info.memory.textures,
+            materials: 0 // Three.jsはマテリアル数を直接提供しない
+          },
+          resources: sharedResourceCache.getStats()
+        };
+        this.performanceCallback?.(stats);
+        this.frameCount = 0;
+        this.lastTime = currentTime;
+      }
+    }
+
+    private getTriangleCount(): number {
+      let count = 0;
+      traverseContent(this.scene, (child) => {
+        if (child instanceof THREE.Mesh) {
+          const geometry = child.geometry as THREE.BufferGeometry;
+          const triangles = geometry.index ? geometry.index.count / 3 : geometry.attributes.position.count / 3;
+          count += triangles * instanceCount(child as THREE.Mesh);
+        }
+      });
+      return count;
+    }
+
+    private getVertexCount(): number {
+      let count = 0;
+      traverseContent(this.scene, (child) => {
+        if (child instanceof THREE.Mesh) {
+          count += (child.geometry as THREE.BufferGeometry).attributes.position.count * instanceCount(child as THREE.Mesh);
+        }
+      });
+      return count;
+    }
+  }
+  return PerformanceMonitor;
+}
+
+// InstancedMeshは1つのオブジェクトで複数のインスタンスを描画する。
+function instanceCount(mesh: THREE.Mesh): number {
+  return mesh instanceof THREE.InstancedMesh ? mesh.count : 1;
+}
+
+export function CameraControlsMixin<TBase extends Constructor<AbstractSceneManager>>(Base: TBase) {
+  abstract class CameraControllable extends Base {
+    // 現在の操作モードのコントローラー（setupCameraControlsを呼ぶまではnull）
+    public cameraController: CameraController | null = null;
+    private cameraInput: CameraInputBinding | null = null;
+    private cameraControlOptions: CameraControlsOptions = {};
+
+    /**
+     * マウス・タッチ・キーボードでカメラを操作できるようにします。
+     * @param mode 最初の操作モード
+     * @param options 操作モードごとの設定（モードを切り替えたときにも使われる）
+     */
+    public setupCameraControls(mode: CameraControlMode = 'orbit', options: CameraControlsOptions = {}): void {
+      this.cameraControlOptions = { ...options };
+      this.cameraInput ??= new CameraInputBinding(this.renderer.domElement, () => this.cameraController, this.events);
+      this.setCameraControlMode(mode);
+    }
+
+    /**
+     * 操作モードを切り替えます。カメラの位置と向きはそのまま引き継がれます。
+     */
+    public setCameraControlMode(mode: CameraControlMode): void {
+      const config = { ...this.cameraControlOptions[mode] };
+      if (mode === 'orbit' && this.cameraController && this.cameraController.mode !== 'orbit') {
+        // fly・firstPersonから戻った場合、注視点を見ている方向の先に置き直して、視界が跳ばないようにする。
+        (config as OrbitControlsConfig).target = pointInFront(this.camera, this.orbitDistance());
+      }
+      this.cameraController = createCameraController(mode, this.camera, config);
+      this.cameraInput?.syncMovement();
+    }
+
+    public getCameraControlMode(): CameraControlMode | null {
+      return this.cameraController?.mode ?? null;
+    }
+
+    /**
+     * 操作モードの設定を変更します。そのモードで操作中の場合は、すぐに反映されます。
+     */
+    public configureCameraControls<M extends CameraControlMode>(mode: M, config: CameraControlConfigMap[M]): void {
+      this.cameraControlOptions[mode] = config;
+      if (this.cameraController?.mode === mode) this.setCameraControlMode(mode);
+    }
+
+    /**
+     * カメラの操作をやめ、イベントリスナーを解除します。
+     */
+    public disposeCameraControls(): void {
+      this.cameraInput?.dispose();
+      this.cameraInput = null;
+      this.cameraController = null;
+    }
+
+    public setCamera(camera: THREE.Camera | CameraConfig): void {
+      const previous = this.cameraController;
+      super.setCamera(camera);
+      if (!previous) return;
+      // 新しいカメラを同じモードで操作する。orbitの注視点は引き継ぐ。
+      this.setCameraControlMode(previous.mode);
+      if (previous instanceof OrbitController && this.cameraController instanceof OrbitController) {
+        this.cameraController.target.copy(previous.target);
+      }
+    }
+
+    public dispose(): void {
+      this.disposeCameraControls();
+      super.dispose();
+    }
+
+    /**
+     * @returns カメラが動いた場合はtrue
+     */
+    protected updateCameraControls(deltaTime: number): boolean {
+      return this.cameraController?.update(deltaTime) ?? false;
+    }
+
+    // 最後に使った注視点までの距離（orbitの設定の注視点、なければ原点まで）
+    private orbitDistance(): number {
+      const target = this.cameraControlOptions.orbit?.target;
+      const distance = this.camera.position.distanceTo(new THREE.Vector3(target?.x ?? 0, target?.y ?? 0, target?.z ?? 0));
+      return Math.max(distance, 1);
     }
-    
-    public setEventHandler(type: keyof EventHandlers, handler: any): void { /* ... */ }
-  };
+  }
+  return CameraControllable;
 }
 
-// (PerformanceMonitorMixin)
+function pointInFront(camera: THREE.Camera, distance: number): THREE.Vector3 {
+  // camera.getWorldDirection(target): カメラが向いている方向（-Z）の単位ベクトルを求める。
+  return camera.position.clone().addScaledVector(camera.getWorldDirection(new THREE.Vector3()), distance);
+}
 
 // ===================================================================
 // Part 3: Concrete Implementation Class (具象実装クラス)
 // ===================================================================
 
-export class InteractiveSceneManager extends PerformanceMonitorMixin(InteractableMixin(AbstractSceneManager)) {
-  // (properties)
-  
+// ギズモ（またはオブジェクト）を押したときの状態
+interface TransformPress {
+  axis: TransformAxis | null;
+  /** 押した位置を描画しているカメラ。ドラッグ中の光線も同じカメラで求める */
+  pointer: PointerTarget;
+  position: THREE.Vector2;
+  /** 押す前のカメラの操作の有効・無効（離したときに戻す） */
+  cameraEnabled: boolean;
+}
+
+export class InteractiveSceneManager extends CameraControlsMixin(
+  PerformanceMonitorMixin(InteractableMixin(AbstractSceneManager))
+) {
+  private objects: THREE.Mesh[] = [];
+  // 読み込んだ3Dモデル（複数のメッシュを持つグループ）
+  private models: THREE.Object3D[] = [];
+  // 選択中のオブジェクト（クリックで選択し、Shiftで追加、Ctrl・⌘で切り替える）
+  public readonly selection = new SelectionManager({ candidates: () => [...this.objects, ...this.models] });
+  // ObjectConfig.animationを持つオブジェクトを動かすアニメーションシステム
+  public readonly animations = new AnimationSystem();
+  // シーンのライトを名前で追加・更新・削除するリグ（setupLightingで作成する）
+  public lights!: LightRig;
+  private lighting: readonly LightConfig[] = DEFAULT_LIGHTING;
+  // 選択中のオブジェクトを移動・回転・拡大縮小するコントロール（initializeで作成する）
+  public transform!: TransformControls;
+  private transformMode: TransformMode | null = null;
+  // ギズモ（'drag'モードではオブジェクト）を押してから離すまでの状態
+  private transformPress: TransformPress | null = null;
+  // ドラッグ中に止めているアニメーションと、ドラッグ前に一時停止していたか
+  private draggedAnimation: { object: THREE.Object3D; paused: boolean } | null = null;
+  // オブジェクトの追加・削除・変換・色の変更を元に戻す・やり直す履歴
+  public readonly history = new CommandHistory();
+  private unbindHistoryShortcuts: (() => void) | null = null;
+  // 選択の輪郭線をポストプロセスで描いている間、外しておく選択のハイライト
+  private replacedHighlight: HighlightStrategy | null = null;
+
   protected initializeScene(): void {
-    this.camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000);
-    this.camera.position.set(5, 5, 5);
-    // camera.lookAt(vector): カメラを指定したVector3の座標の方向に向ける。
-    this.camera.lookAt(0, 0, 0);
-    // (scene and renderer setup)
+    const { width, height } = this.getViewportSize();
+    // 原点を斜め上から見下ろすカメラ（withCameraで平行投影カメラなどに置き換えられる）
+    this.camera = createCamera(
+      { type: 'perspective', fov: 75, near: 0.1, far: 1000, position: { x: 5, y: 5, z: 5 } },
+      width / height
+    );
+
+    this.scene = new THREE.Scene();
+    this.scene.background = new THREE.Color(0x0a0a1a);
+
+    this.renderer = this.createRenderer({ antialias: true });
+    this.renderer.shadowMap.enabled = true;
+    this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
   }
-  
+
   protected setupLighting(): void {
-    this.scene.add(new THREE.AmbientLight(0x404040, 0.3));
-    const light = new THREE.DirectionalLight(0xffffff, 0.8);
-    light.position.set(10, 10, 5);
-    this.scene.add(light);
+    this.lights = new LightRig(this.scene);
+    this.lights.set(this.lighting);
+  }
+
+  /**
+   * ライトの構成を設定します。初期化前に呼んだ場合は、初期化時にこの構成でライトが作られます。
+   * 初期化後に呼んだ場合は、リグの全てのライトがこの構成で置き換えられます。
+   */
+  public setLighting(rig: readonly LightConfig[]): void {
+    this.lighting = rig;
+    if (this.lights) this.lights.set(rig);
+    this.invalidate();
   }
-  
+
   protected updateScene(deltaTime: number): void {
-    // clock.getElapsedTime(): Clockのインスタンスが作られてからの総経過時間を返す。
-    const time = this.clock.getElapsedTime();
-    this.objects.forEach((obj, i) => {
-      obj.rotation.y = time * 0.5 + i * 0.15;
-    });
+    this.animations.update(deltaTime);
+  }
+
+  protected updateFrame(time: FrameTime): boolean {
+    // カメラの操作は、シミュレーションを一時停止していても実際の経過時間で動かす。
+    const cameraMoved = this.updateCameraControls(time.realDeltaTime);
+    this.transform.update(this.camera);
     this.updatePerformanceStats();
+    const animating = time.deltaTime > 0 && this.animations.isAnimating();
+    return super.updateFrame(time) || cameraMoved || animating || this.transform.isDragging();
   }
-  
+
   public initialize(): void {
     super.initialize();
-    this.setupInteraction();
+    // 選択できるメッシュの上では、リスナーがなくてもカーソルを変える。
+    this.setupInteraction({ isInteractive: object => object instanceof THREE.Mesh && this.selection.isSelectable(object) });
     this.setEventHandler('onClick', (info) => {
-      if (info.target instanceof THREE.Mesh) this.selectObject(info.target);
+      if (!(info.target instanceof THREE.Mesh)) return;
+      const { shift, ctrl, meta } = info.modifiers;
+      this.selection.select(info.target, ctrl || meta ? 'toggle' : shift ? 'add' : 'replace');
     });
+
+    this.transform = new TransformControls(this.scene);
+    this.selection.addEventListener('selectionChanged', () => {
+      this.syncTransformTarget();
+      this.syncSelectionOutline();
+      this.invalidate();
+    });
+    // ドラッグ中の変化は記録せず、ドラッグ全体を1回の操作として記録する。
+    this.transform.addEventListener('transformEnd', ({ object, mode, before, after }) => {
+      this.resumeDraggedAnimation(object, after);
+      if (JSON.stringify(before) === JSON.stringify(after)) return;
+      const command = createTransformCommand(object, before, after, TRANSFORM_LABELS[mode]);
+      // 元に戻す・やり直すでも、アニメーションの基準を一緒に動かす。
+      this.history.record(createCommand({
+        label: command.label,
+        do: () => {
+          command.do();
+          this.animations.setBaseTransform(object, after);
+        },
+        undo: () => {
+          command.undo();
+          this.animations.setBaseTransform(object, before);
+        }
+      }));
+    });
+    this.setupTransformInput();
+    this.setTransformMode(this.transformMode);
+    this.unbindHistoryShortcuts = bindHistoryShortcuts(this.history, this.events);
+    // 追加・削除・元に戻す・やり直すでシーンが変わったら描画する（オンデマンド描画）。
+    this.history.addEventListener('change', () => this.invalidate());
   }
-  
-  private selectObject(mesh: THREE.Mesh): void { /* ... */ }
-  
-  private highlightObject(mesh: THREE.Mesh, highlight: boolean): void {
-    const emissiveColor = highlight ? 0x444444 : 0x000000;
-    if (Array.isArray(mesh.material)) {
-      // (array material handling)
-    } else {
-      const material = mesh.material as THREE.MeshStandardMaterial;
-      if (material.emissive) {
-        // material.emissive.setHex(color): マテリアルの自己発光色を設定する。
-        // ライトの影響とは無関係に、マテリアル自体がその色で発光しているように見える。
-        // オブジェクトの選択状態を示すハイライトとしてよく利用される。
-        material.emissive.setHex(emissiveColor);
-      }
+
+  /**
+   * 選択中のオブジェクト（最初に選択したもの）を操作する方法を設定します。nullの場合は操作しません。
+   * 初期化前に呼んだ場合は、初期化時に設定されます。
+   */
+  public setTransformMode(mode: TransformMode | null): void {
+    this.transformMode = mode;
+    if (!this.transform) return;
+    if (mode) this.transform.setMode(mode);
+    this.syncTransformTarget();
+    this.invalidate();
+  }
+
+  public getTransformMode(): TransformMode | null {
+    return this.transformMode;
+  }
+
+  /**
+   * 選択中のオブジェクトの輪郭線を描くパス（`{ type: 'outline' }`）を設定した場合は、
+   * マテリアルを差し替える選択のハイライトの代わりに、輪郭線で選択を表します。
+   */
+  public setPostProcessing(passes: readonly PostProcessingPassConfig[] | null): PostProcessingPipeline | null {
+    const previous = this.getPostProcessing();
+    const pipeline = super.setPostProcessing(passes);
+    if (pipeline && pipeline !== previous) pipeline.addEventListener('change', () => this.syncSelectionOutline());
+    this.syncSelectionOutline();
+    return pipeline;
+  }
+
+  private syncSelectionOutline(): void {
+    const pipeline = this.getPostProcessing();
+    pipeline?.setSelection(this.selection.getSelection());
+    const outlined = pipeline?.hasSelectionOutline() ?? false;
+    if (outlined && !this.replacedHighlight) {
+      this.replacedHighlight = this.selection.getHighlight();
+      this.selection.setHighlight('none');
+    } else if (!outlined && this.replacedHighlight) {
+      this.selection.setHighlight(this.replacedHighlight);
+      this.replacedHighlight = null;
     }
   }
-  
-  // (other methods: addObject, removeSelectedObject, etc.)
+
+  private syncTransformTarget(): void {
+    const primary = this.selection.getPrimary();
+    if (this.transformMode && primary) this.transform.attach(primary);
+    else this.transform.detach();
+  }
+
+  private setupTransformInput(): void {
+    const { gizmo } = this.transform;
+    // ギズモへのイベントは、選択やホバーのイベントハンドラーに伝えない。
+    on(gizmo, 'pointerover', event => {
+      this.transform.setHovered(this.transform.getAxis(event.target));
+      this.invalidate();
+      event.stopPropagation();
+    });
+    on(gizmo, 'pointerout', event => {
+      this.transform.setHovered(null);
+      this.invalidate();
+      event.stopPropagation();
+    });
+    on(gizmo, 'pointerdown', event => {
+      if (event.button === 0) this.pressTransform(event, this.transform.getAxis(event.target));
+      event.stopPropagation();
+    });
+    on(gizmo, 'click', event => event.stopPropagation());
+
+    // 'drag'モードでは、選択できるメッシュそのものを掴んで動かす。
+    on(this.scene, 'pointerdown', event => {
+      const { target } = event;
+      if (this.transformMode !== 'drag' || event.button !== 0) return;
+      if (!(target instanceof THREE.Mesh) || !this.selection.isSelectable(target)) return;
+      if (!this.selection.isSelected(target)) this.selection.select(target);
+      this.pressTransform(event, null);
+    });
+
+    // ギズモのドラッグのイベントも、親のシーンまで伝わってくる。
+    // 押した位置から変換を始めるため、ドラッグと判定されるまでの小さな動きも含めて反映される。
+    on(this.scene, 'dragstart', () => {
+      const press = this.transformPress;
+      if (!press) return;
+      this.pauseDraggedAnimation();
+      this.transform.beginDrag(press.axis, this.pointerRay(press.position, press.pointer), press.pointer.camera);
+    });
+    on(this.scene, 'drag', event => {
+      const press = this.transformPress;
+      if (press && this.transform.isDragging()) this.transform.updateDrag(this.pointerRay(event.position, press.pointer));
+    });
+    on(this.scene, 'pointerup', () => this.releaseTransform());
+    on(this.scene, 'dragend', () => this.releaseTransform());
+  }
+
+  private pressTransform(event: ScenePointerEvent, axis: TransformAxis | null): void {
+    const pointer = this.resolvePointer(event.position.x, event.position.y);
+    if (!pointer) return;
+    const cameraEnabled = this.cameraController?.enabled ?? true;
+    // ギズモやオブジェクトを掴んでいる間は、ドラッグでカメラが動かないようにする。
+    if (this.cameraController) this.cameraController.enabled = false;
+    this.transformPress = { axis, pointer, position: event.position.clone(), cameraEnabled };
+  }
+
+  // アニメーションしているオブジェクトは、基準の変換に戻して止めてからドラッグする。
+  // 動いたままだと、次のフレームでアニメーションがドラッグした変換を上書きしてしまう。
+  private pauseDraggedAnimation(): void {
+    const object = this.transform.getObject();
+    if (!object || !this.animations.has(object)) return;
+    this.draggedAnimation = { object, paused: this.animations.isPaused(object) };
+    this.animations.reset(object);
+    this.animations.pause(object);
+  }
+
+  // ドラッグした先を基準にして、アニメーションを再開する（ドラッグ前に一時停止していた場合は止めたまま）。
+  private resumeDraggedAnimation(object: THREE.Object3D, after: Transform): void {
+    const dragged = this.draggedAnimation;
+    if (dragged?.object !== object) return;
+    this.draggedAnimation = null;
+    this.animations.setBaseTransform(object, after);
+    if (!dragged.paused) this.animations.resume(object);
+  }
+
+  private releaseTransform(): void {
+    const press = this.transformPress;
+    if (!press) return;
+    this.transformPress = null;
+    this.transform.endDrag();
+    if (this.cameraController) this.cameraController.enabled = press.cameraEnabled;
+  }
+
+  /**
+   * 画面上の位置の光線を、押したときと同じカメラ（ビューポート）で求める
+   */
+  private pointerRay(position: THREE.Vector2, within: PointerTarget): THREE.Ray {
+    const pointer = this.resolvePointer(position.x, position.y, within)!;
+    this.raycaster.setFromCamera(pointer.normalized, pointer.camera);
+    return this.raycaster.ray.clone();
+  }
+
+  /**
+   * 画面上の2点（clientX, clientY）を角とする矩形に入ったオブジェクトを選択します（矩形選択）。
+   * ビューポートレイアウトを使っている場合は、`start`があるビューポートのカメラで判定します。
+   */
+  public selectInScreenRect(
+    start: { x: number; y: number },
+    end: { x: number; y: number },
+    mode: SelectionMode = 'replace',
+    marquee: MarqueeMode = 'intersect'
+  ): void {
+    const from = this.resolvePointer(start.x, start.y);
+    if (!from) return;
+    // 終点は始点と同じビューポート（カメラ）の座標で表す。
+    const to = this.resolvePointer(end.x, end.y, from)!.normalized;
+    this.selection.selectInRect({ x1: from.normalized.x, y1: from.normalized.y, x2: to.x, y2: to.y }, from.camera, mode, marquee);
+  }
+
+  /**
+   * シーンにオブジェクトを追加します（元に戻せます）。
+   * `TypedObjectFactory`で作成したメッシュの設定に`animation`があれば、アニメーションも開始します。
+   */
+  public addObject(mesh: THREE.Mesh): void {
+    this.history.execute(createCommand({
+      label: 'Add object',
+      do: () => {
+        this.insertObject(mesh);
+        this.objects.push(mesh);
+      },
+      undo: () => this.detachObject(mesh),
+      // 追加を取り消したまま履歴から外れたら、もうシーンに戻ることはない。
+      dispose: applied => { if (!applied) this.disposeObject(mesh); }
+    }));
+  }
+
+  /**
+   * 読み込んだモデルをシーンに追加します（元に戻せます）。
+   * モデル内の全てのメッシュに影を設定し、設定に`animation`があればモデル全体を動かします。
+   */
+  public addModel(model: THREE.Object3D): void {
+    this.history.execute(createCommand({
+      label: 'Add model',
+      do: () => {
+        this.insertObject(model);
+        this.models.push(model);
+      },
+      undo: () => this.detachObject(model),
+      dispose: applied => { if (!applied) this.disposeObject(model); }
+    }));
+  }
+
+  /**
+   * 選択中のオブジェクトを全て削除します（元に戻せます）。
+   * 元に戻せるように、リソースは削除が履歴から外れたときに解放されます。
+   */
+  public removeSelectedObject(): void {
+    const selected = this.selection.getSelection();
+    if (selected.length === 0) return;
+    this.history.transaction('Delete objects', () => {
+      selected.forEach(object => this.history.execute(this.createRemoveCommand(object)));
+    });
+  }
+
+  /**
+   * シーン内の全てのオブジェクトを削除します（元に戻せます）。
+   * 元に戻せるように、リソースは削除が履歴から外れたときに解放されます。
+   */
+  public clearAllObjects(): void {
+    const all = [...this.objects, ...this.models];
+    if (all.length === 0) return;
+    this.history.transaction('Clear objects', () => {
+      all.forEach(object => this.history.execute(this.createRemoveCommand(object)));
+    });
+  }
+
+  /**
+   * メッシュのマテリアルの色を変更します（元に戻せます）。
+   * キャッシュで共有されたマテリアルの場合は、共有している全てのメッシュの色が変わります。
+   */
+  public setObjectColor(mesh: THREE.Mesh, color: THREE.ColorRepresentation): void {
+    // 選択のハイライト中は複製のマテリアルが表示されているため、元のマテリアルと両方を変える。
+    const materials = [getOriginalMaterial(mesh), mesh.material]
+      .flatMap(material => Array.isArray(material) ? material : [material])
+      .filter((material): material is ColoredMaterial => 'color' in material && material.color instanceof THREE.Color);
+    if (materials.length === 0) return;
+    this.history.execute(createColorCommand([...new Set(materials)], color));
+  }
+
+  /**
+   * 管理しているオブジェクトの一覧を取得します（追加された順）。
+   */
+  public getObjects(): readonly THREE.Mesh[] {
+    return this.objects;
+  }
+
+  /**
+   * 管理しているモデルの一覧を取得します（追加された順）。
+   */
+  public getModels(): readonly THREE.Object3D[] {
+    return this.models;
+  }
+
+  public getObjectCount(): number {
+    return this.objects.length;
+  }
+
+  /**
+   * 最後に選択したメッシュを取得します。選択中の全てのオブジェクトは`selection.getSelection()`で取得します。
+   */
+  public getSelectedObject(): THREE.Mesh | null {
+    const primary = this.selection.getPrimary();
+    return primary instanceof THREE.Mesh ? primary : null;
+  }
+
+  public dispose(): void {
+    // ハイライト用のマテリアルを元に戻してから、シーンのリソースを解放する。
+    this.selection.dispose();
+    this.transform?.dispose();
+    this.unbindHistoryShortcuts?.();
+    // 削除を元に戻すために残していたオブジェクトのリソースは、履歴を消去すると解放される。
+    this.history.dispose();
+    super.dispose();
+  }
+
+  private insertObject(object: THREE.Object3D, parent: THREE.Object3D = this.scene): void {
+    // 設定で影が指定されていない場合は、影を落とし、受けるようにする。
+    const config = TypedObjectFactory.getSourceConfig(object);
+    object.traverse(child => {
+      child.castShadow = config?.castShadow ?? true;
+      child.receiveShadow = config?.receiveShadow ?? true;
+    });
+    parent.add(object);
+
+    if (config?.animation) this.animations.add(object, config.animation);
+  }
+
+  /**
+   * オブジェクトをシーンから取り除く。リソースは解放しない。
+   */
+  private detachObject(object: THREE.Object3D): void {
+    // 先に選択を解除して、ハイライト用のマテリアルを元のマテリアルに戻す（モデルの一部のメッシュも含む）。
+    const nested: THREE.Object3D[] = [];
+    object.traverse(child => nested.push(child));
+    this.selection.deselect(nested);
+    // 基準の変換に戻してから解除する。揺れた途中の変換のままだと、元に戻したときにそれが新しい基準になってしまう。
+    this.animations.remove(object, true);
+    // object.removeFromParent(): 親から取り除く。モデルの一部のメッシュも取り除けるように、シーン直下に限らない。
+    object.removeFromParent();
+    const objectIndex = this.objects.indexOf(object as THREE.Mesh);
+    if (objectIndex > -1) this.objects.splice(objectIndex, 1);
+    const modelIndex = this.models.indexOf(object);
+    if (modelIndex > -1) this.models.splice(modelIndex, 1);
+  }
+
+  private createRemoveCommand(object: THREE.Object3D): Command {
+    const parent = object.parent ?? this.scene;
+    // 元に戻したときに、管理している一覧の同じ位置に戻す（モデルの一部のメッシュはどちらにも含まれない）。
+    const objectIndex = this.objects.indexOf(object as THREE.Mesh);
+    const modelIndex = this.models.indexOf(object);
+    return createCommand({
+      label: 'Delete object',
+      do: () => this.detachObject(object),
+      undo: () => {
+        this.insertObject(object, parent);
+        if (objectIndex > -1) this.objects.splice(objectIndex, 0, object as THREE.Mesh);
+        if (modelIndex > -1) this.models.splice(modelIndex, 0, object);
+        // 削除を取り消したオブジェクトは、削除前と同じように選択する。
+        this.selection.select(object, 'add');
+      },
+      // 削除したまま履歴から外れたら、もうシーンに戻ることはない。
+      dispose: applied => { if (applied) this.disposeObject(object); }
+    });
+  }
+
+  private disposeObject(object: THREE.Object3D): void {
+    object.traverse(child => {
+      if (child instanceof THREE.Mesh) this.disposeMesh(child as THREE.Mesh);
+    });
+  }
+
+  private disposeMesh(mesh: THREE.Mesh): void {
+    ResourceCache.releaseMesh(mesh);
+    disposeInstances(mesh);
+  }
 }
 
 // ===================================================================
 // Part 4: Builder Pattern (ビルダーパターン)
 // ===================================================================
 
-// (SceneManagerBuilder class - no new APIs)
+export class SceneManagerBuilder {
+  private readonly manager: InteractiveSceneManager;
+  // initialize()の完了後に実行する設定処理のキュー
+  private initializers: (() => void)[] = [];
+
+  /**
+   * @param environment 実行環境。省略するとブラウザ（window・document・WebGL）で動く
+   */
+  constructor(environment: SceneEnvironment = {}) {
+    this.manager = new InteractiveSceneManager(environment);
+  }
+
+  public withBackgroundColor(color: number): this {
+    this.initializers.push(() => {
+      this.manager.getScene().background = new THREE.Color(color);
+    });
+    return this;
+  }
+
+  public withCameraPosition(x: number, y: number, z: number): this {
+    this.initializers.push(() => {
+      this.manager.getCamera().position.set(x, y, z);
+    });
+    return this;
+  }
+
+  /**
+   * シーンを描画するカメラを設定します（透視投影カメラ・平行投影カメラ）。
+   */
+  public withCamera(camera: CameraConfig): this {
+    this.initializers.push(() => {
+      this.manager.setCamera(camera);
+    });
+    return this;
+  }
+
+  /**
+   * キャンバスを分割して、複数のカメラから描画するレイアウトを設定します（例: `createQuadViewLayout()`）。
+   */
+  public withViewports(viewports: readonly ViewportConfig[]): this {
+    this.initializers.push(() => {
+      this.manager.setViewports(viewports);
+    });
+    return this;
+  }
+
+  /**
+   * デフォルトのライト（環境光と太陽光）の代わりに使うライトの構成を設定します。
+   */
+  public withLighting(rig: readonly LightConfig[]): this {
+    this.manager.setLighting(rig);
+    return this;
+  }
+
+  /**
+   * カメラの操作モードと、モードごとの設定を指定します。指定しない場合、カメラはマウスやキーボードで動かせません。
+   */
+  public withCameraControls(mode: CameraControlMode, options: CameraControlsOptions = {}): this {
+    this.initializers.push(() => {
+      this.manager.setupCameraControls(mode, options);
+    });
+    return this;
+  }
+
+  /**
+   * 選択したオブジェクトを、ギズモやドラッグで移動・回転・拡大縮小できるようにします。
+   */
+  public withTransformTool(mode: TransformMode, options: Omit<TransformControlsOptions, 'mode' | 'size'> = {}): this {
+    this.initializers.push(() => {
+      this.manager.setTransformMode(mode);
+      const { transform } = this.manager;
+      if (options.space) transform.setSpace(options.space);
+      if (options.snap) transform.setSnap(options.snap);
+      if (options.dragPlane) transform.setDragPlane(options.dragPlane);
+    });
+    return this;
+  }
+
+  /**
+   * シーンの更新と描画のタイミングを設定します（固定タイムステップ・timeScale・オンデマンド描画など）。
+   */
+  public withScheduler(options: SchedulerOptions): this {
+    this.initializers.push(() => {
+      this.manager.scheduler.configure(options);
+    });
+    return this;
+  }
+
+  /**
+   * 描画に効果を加えるポストプロセスのパスを、実行する順に設定します。
+   * `{ type: 'outline' }`は選択中のオブジェクトの輪郭線を描き、選択のハイライトの代わりになります。
+   */
+  public withPostProcessing(passes: readonly PostProcessingPassConfig[]): this {
+    this.initializers.push(() => {
+      this.manager.setPostProcessing(passes);
+    });
+    return this;
+  }
+
+  public withPerformanceMonitoring(callback: PerformanceCallback): this {
+    this.initializers.push(() => {
+      this.manager.setPerformanceCallback(callback);
+    });
+    return this;
+  }
+
+  public build(): InteractiveSceneManager {
+    this.manager.initialize();
+    this.initializers.forEach(init => init());
+    return this.manager;
+  }
+}
 
 // ===================================================================
 // Part 5: Decorator Pattern (デコレータパターン)
@@ -158,21 +1212,21 @@ export class InteractiveSceneManager extends PerformanceMonitorMixin(Interactabl
 
 export class DebugSceneDecorator {
   constructor(private sceneManager: InteractiveSceneManager) {}
-  
+
   public enableWireframeMode(): void {
     // scene.traverse(callback): シーン内の全オブジェクトに処理を実行する。
-    this.sceneManager.scene.traverse((child) => {
-      if (child instanceof THREE.Mesh && child.material instanceof THREE.Material) {
+    this.sceneManager.getScene().traverse((child) => {
+      if (child instanceof THREE.Mesh && child.material instanceof THREE.Material && 'wireframe' in child.material) {
         // material.wireframe = true: オブジェクトをワイヤーフレームで表示する。
         child.material.wireframe = true;
       }
     });
   }
-  
+
   public addAxesHelper(size: number = 5): void {
     // new THREE.AxesHelper(size): 3D空間のX(赤), Y(緑), Z(青)の軸を可視化するヘルパーを追加する。
     // オブジェクトの配置や回転を確認する際のデバッグに非常に役立つ。
     const axesHelper = new THREE.AxesHelper(size);
-    this.sceneManager.scene.add(axesHelper);
+    this.sceneManager.getScene().add(axesHelper);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,409 @@
+/**
+ * Three.js TypeScript Tutorial - 19. Selection Manager
+ *
+ * シーン内のオブジェクトの選択を管理する仕組みです。
+ * クリックでの単一選択・追加選択（Shift）・切り替え（Ctrl）、画面上の矩形での選択、全選択・選択解除・選択の反転、
+ * 名前や`userData`による選択対象の絞り込みができ、選択が変わると`selectionChanged`イベントが発行されます。
+ *
+ * ハイライトはマテリアルを直接書き換えず、ハイライト用の複製に差し替えて、選択を外すと元のマテリアルに戻します。
+ * キャッシュで複数のメッシュに共有されたマテリアルでも、選択したメッシュだけが光ります。
+ *
+ * @example
+ * const selection = new SelectionManager({ candidates: () => manager.getObjects(), filter: { userData: { selectable: true } } });
+ * selection.addEventListener('selectionChanged', event => console.log(event.selection.map(object => object.name)));
+ * selection.select(mesh);               // 選択を置き換える
+ * selection.select(otherMesh, 'add');   // 追加する
+ * selection.invert();
+ */
+
+import * as THREE from 'three';
+import type {
+  HighlightStrategy,
+  HighlightStyle,
+  MarqueeMode,
+  NormalizedRect,
+  SelectionEventMap,
+  SelectionFilter,
+  SelectionManagerOptions,
+  SelectionMode
+} from '../types/selection-types';
+
+// ===================================================================
+// Part 1: Highlight Strategies (ハイライトの方法)
+// ===================================================================
+
+type EmissiveMaterial = THREE.Material & { emissive: THREE.Color; emissiveMap: THREE.Texture | null };
+
+// ハイライト中のメッシュの、差し替える前のマテリアル
+const originalMaterials = new WeakMap<THREE.Mesh, THREE.Material | THREE.Material[]>();
+
+/**
+ * ハイライトで差し替えられる前の、メッシュ本来のマテリアルを取得します。
+ * ハイライトされていないメッシュでは`mesh.material`をそのまま返します。
+ * 保存や書き出しで、ハイライトの見た目が記録されないようにするために使います。
+ */
+export function getOriginalMaterial(mesh: THREE.Mesh): THREE.Material | THREE.Material[] {
+  return originalMaterials.get(mesh) ?? mesh.material;
+}
+
+function hasEmissive(material: THREE.Material): material is EmissiveMaterial {
+  return 'emissive' in material && material.emissive instanceof THREE.Color;
+}
+
+// オブジェクト自身と子孫のメッシュ（読み込んだモデルは複数のメッシュを持つ）
+function eachMesh(object: THREE.Object3D, callback: (mesh: THREE.Mesh) => void): void {
+  object.traverse(child => {
+    if (child instanceof THREE.Mesh) callback(child as THREE.Mesh);
+  });
+}
+
+/**
+ * メッシュの外接直方体を線で描いてハイライトします。マテリアルに触れないため、どの種類のマテリアルでも使えます。
+ */
+export class OutlineHighlight implements HighlightStrategy {
+  private readonly color: THREE.Color;
+  private readonly outlines = new WeakMap<THREE.Mesh, THREE.Box3Helper>();
+
+  constructor(color: THREE.ColorRepresentation = 0xffaa00) {
+    this.color = new THREE.Color(color);
+  }
+
+  public apply(object: THREE.Object3D): void {
+    eachMesh(object, mesh => this.addOutline(mesh));
+  }
+
+  public remove(object: THREE.Object3D): void {
+    eachMesh(object, mesh => this.removeOutline(mesh));
+  }
+
+  public addOutline(mesh: THREE.Mesh): void {
+    if (this.outlines.has(mesh)) return;
+    // メッシュのローカル座標での外接直方体。InstancedMeshは全てのインスタンスを囲む。
+    const box = new THREE.Box3();
+    if (mesh instanceof THREE.InstancedMesh) {
+      mesh.computeBoundingBox();
+      box.copy(mesh.boundingBox!);
+    } else {
+      if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+      box.copy(mesh.geometry.boundingBox!);
+    }
+    // new THREE.Box3Helper(box, color): Box3の12本の辺を線で描くヘルパー。
+    // メッシュの子にすることで、メッシュが動いても一緒に動く。
+    const outline = new THREE.Box3Helper(box, this.color);
+    outline.userData.isHelper = true;
+    // クリックでの選択で、縁取りの線が拾われないようにする。
+    outline.raycast = () => {};
+    mesh.add(outline);
+    this.outlines.set(mesh, outline);
+  }
+
+  public removeOutline(mesh: THREE.Mesh): void {
+    const outline = this.outlines.get(mesh);
+    if (!outline) return;
+    outline.removeFromParent();
+    // helper.dispose(): ヘルパーが作成したジオメトリとマテリアルを破棄する。
+    outline.dispose();
+    this.outlines.delete(mesh);
+  }
+}
+
+/**
+ * マテリアルを自己発光（emissive）させた複製に差し替えてハイライトします。
+ * 選択を外すと元のマテリアルに戻し、複製は破棄します。
+ * 自己発光を持たないマテリアル（MeshBasicMaterial・ShaderMaterialなど）のメッシュは、縁取りでハイライトします。
+ */
+export class EmissiveHighlight implements HighlightStrategy {
+  private readonly color: THREE.Color;
+  private readonly fallback: OutlineHighlight;
+
+  constructor(color: THREE.ColorRepresentation = 0x444444) {
+    this.color = new THREE.Color(color);
+    this.fallback = new OutlineHighlight();
+  }
+
+  public apply(object: THREE.Object3D): void {
+    eachMesh(object, mesh => {
+      if (originalMaterials.has(mesh)) return;
+      const original = mesh.material;
+      const materials = Array.isArray(original) ? original : [original];
+      if (!materials.every(hasEmissive)) {
+        this.fallback.addOutline(mesh);
+        return;
+      }
+      const highlighted = materials.map(material => {
+        // material.clone(): 同じ設定のマテリアルを作成する。テクスチャは複製されず、元のものが共有される。
+        const copy = material.clone();
+        copy.emissive.copy(this.color);
+        // emissiveMapがあると発光色に掛け合わされるため、ハイライトでは使わない。
+        copy.emissiveMap = null;
+        return copy;
+      });
+      originalMaterials.set(mesh, original);
+      mesh.material = Array.isArray(original) ? highlighted : highlighted[0];
+    });
+  }
+
+  public remove(object: THREE.Object3D): void {
+    eachMesh(object, mesh => {
+      const original = originalMaterials.get(mesh);
+      if (!original) {
+        this.fallback.removeOutline(mesh);
+        return;
+      }
+      const highlighted = mesh.material;
+      (Array.isArray(highlighted) ? highlighted : [highlighted]).forEach(material => material.dispose());
+      mesh.material = original;
+      originalMaterials.delete(mesh);
+    });
+  }
+}
+
+const NO_HIGHLIGHT: HighlightStrategy = {
+  apply: () => {},
+  remove: () => {}
+};
+
+/**
+ * 組み込みのハイライトを作成します。
+ */
+export function createHighlightStrategy(style: HighlightStyle, color?: THREE.ColorRepresentation): HighlightStrategy {
+  switch (style) {
+    case 'emissive':
+      return new EmissiveHighlight(color);
+    case 'outline':
+      return new OutlineHighlight(color);
+    case 'none':
+      return NO_HIGHLIGHT;
+    default: {
+      const exhaustiveCheck: never = style;
+      throw new Error(`Unknown highlight style: ${String(exhaustiveCheck)}`);
+    }
+  }
+}
+
+// ===================================================================
+// Part 2: Filters (選択対象の絞り込み)
+// ===================================================================
+
+/**
+ * オブジェクトが選択の条件を満たすかどうか
+ */
+export function matchesSelectionFilter(object: THREE.Object3D, filter: SelectionFilter): boolean {
+  if (filter.name !== undefined) {
+    const matched = typeof filter.name === 'string' ? object.name === filter.name : filter.name.test(object.name);
+    if (!matched) return false;
+  }
+  if (filter.userData) {
+    const userData = object.userData as Record<string, unknown>;
+    if (!Object.entries(filter.userData).every(([key, value]) => userData[key] === value)) return false;
+  }
+  return filter.test?.(object) ?? true;
+}
+
+// ===================================================================
+// Part 3: Selection Manager (選択の管理)
+// ===================================================================
+
+/**
+ * 選択されているオブジェクトを管理し、選択が変わると`selectionChanged`イベントを発行します。
+ * THREE.EventDispatcherを継承しているため、`addEventListener`の型はイベント名から決まります。
+ */
+export class SelectionManager extends THREE.EventDispatcher<SelectionEventMap> {
+  // Setは追加した順番を保つため、最後の要素が最後に選択したオブジェクトになる。
+  private selected = new Set<THREE.Object3D>();
+  private highlight: HighlightStrategy;
+  private readonly highlightColor?: THREE.ColorRepresentation;
+  private filter: SelectionFilter | null;
+  private readonly candidates: () => Iterable<THREE.Object3D>;
+
+  constructor(options: SelectionManagerOptions = {}) {
+    super();
+    this.highlightColor = options.highlightColor;
+    this.highlight = this.toStrategy(options.highlight ?? 'emissive');
+    this.filter = options.filter ?? null;
+    this.candidates = options.candidates ?? (() => []);
+  }
+
+  /**
+   * オブジェクトを選択します。条件（フィルター）を満たさないオブジェクトは無視されます。
+   * @param mode 現在の選択との組み合わせ方 デフォルト: 'replace'
+   */
+  public select(objects: THREE.Object3D | Iterable<THREE.Object3D>, mode: SelectionMode = 'replace'): void {
+    const targets = (objects instanceof THREE.Object3D ? [objects] : [...objects]).filter(object => this.isSelectable(object));
+    const next = new Set(mode === 'replace' ? [] : this.selected);
+    targets.forEach(object => {
+      switch (mode) {
+        case 'replace':
+        case 'add':
+          // 選択済みのオブジェクトも、最後に選択したオブジェクトとして末尾に移す。
+          next.delete(object);
+          next.add(object);
+          break;
+        case 'toggle':
+          if (!next.delete(object)) next.add(object);
+          break;
+        case 'remove':
+          next.delete(object);
+          break;
+        default: {
+          const exhaustiveCheck: never = mode;
+          throw new Error(`Unknown selection mode: ${String(exhaustiveCheck)}`);
+        }
+      }
+    });
+    this.commit(next);
+  }
+
+  public deselect(objects: THREE.Object3D | Iterable<THREE.Object3D>): void {
+    this.select(objects, 'remove');
+  }
+
+  public toggle(object: THREE.Object3D): void {
+    this.select(object, 'toggle');
+  }
+
+  /**
+   * 選択対象の全てのオブジェクトを選択します。
+   */
+  public selectAll(): void {
+    this.select(this.candidates(), 'replace');
+  }
+
+  /**
+   * 選択を全て解除します。
+   */
+  public clear(): void {
+    this.commit(new Set());
+  }
+
+  /**
+   * 選択対象のうち、選択されていないオブジェクトだけを選択した状態にします。
+   */
+  public invert(): void {
+    const unselected = [...this.candidates()].filter(object => !this.selected.has(object));
+    this.select(unselected, 'replace');
+  }
+
+  /**
+   * 画面上の矩形に入ったオブジェクトを選択します（マウスのドラッグで囲んで選択する、矩形選択）。
+   * @param rect カメラの正規化デバイス座標での矩形
+   * @param mode 現在の選択との組み合わせ方 デフォルト: 'replace'
+   * @param marquee 一部でも入れば選択するか、全体が入った場合だけ選択するか デフォルト: 'intersect'
+   */
+  public selectInRect(
+    rect: NormalizedRect,
+    camera: THREE.Camera,
+    mode: SelectionMode = 'replace',
+    marquee: MarqueeMode = 'intersect'
+  ): void {
+    const bounds = new THREE.Box2(
+      new THREE.Vector2(Math.min(rect.x1, rect.x2), Math.min(rect.y1, rect.y2)),
+      new THREE.Vector2(Math.max(rect.x1, rect.x2), Math.max(rect.y1, rect.y2))
+    );
+    // camera.updateMatrixWorld(): 描画前でもproject()が正しい位置を返すよう、カメラの行列を更新する。
+    camera.updateMatrixWorld();
+    const hits = [...this.candidates()].filter(object => isInScreenRect(object, camera, bounds, marquee));
+    this.select(hits, mode);
+  }
+
+  public isSelected(object: THREE.Object3D): boolean {
+    return this.selected.has(object);
+  }
+
+  /**
+   * 選択されているオブジェクトを、選択された順に取得します。
+   */
+  public getSelection(): THREE.Object3D[] {
+    return [...this.selected];
+  }
+
+  /**
+   * 最後に選択したオブジェクトを取得します。
+   */
+  public getPrimary(): THREE.Object3D | null {
+    let last: THREE.Object3D | null = null;
+    this.selected.forEach(object => { last = object; });
+    return last;
+  }
+
+  public get size(): number {
+    return this.selected.size;
+  }
+
+  /**
+   * 選択できるオブジェクトの条件を設定します。条件を満たさなくなった選択中のオブジェクトは、選択から外れます。
+   */
+  public setFilter(filter: SelectionFilter | null): void {
+    this.filter = filter;
+    this.commit(new Set([...this.selected].filter(object => this.isSelectable(object))));
+  }
+
+  /**
+   * ハイライトの方法を変更します。選択中のオブジェクトは新しい方法でハイライトし直されます。
+   */
+  public setHighlight(highlight: HighlightStyle | HighlightStrategy): void {
+    this.selected.forEach(object => this.highlight.remove(object));
+    this.highlight = this.toStrategy(highlight);
+    this.selected.forEach(object => this.highlight.apply(object));
+  }
+
+  public getHighlight(): HighlightStrategy {
+    return this.highlight;
+  }
+
+  public isSelectable(object: THREE.Object3D): boolean {
+    return this.filter === null || matchesSelectionFilter(object, this.filter);
+  }
+
+  /**
+   * ハイライトを全て元に戻し、選択を解除します（イベントは発行しません）。
+   */
+  public dispose(): void {
+    this.selected.forEach(object => this.highlight.remove(object));
+    this.selected.clear();
+  }
+
+  private commit(next: Set<THREE.Object3D>): void {
+    const previous = [...this.selected];
+    const removed = previous.filter(object => !next.has(object));
+    const added = [...next].filter(object => !this.selected.has(object));
+    const selection = [...next];
+    const unchanged = previous.length === selection.length && previous.every((object, i) => object === selection[i]);
+    if (unchanged) return;
+
+    removed.forEach(object => this.highlight.remove(object));
+    added.forEach(object => this.highlight.apply(object));
+    this.selected = next;
+    this.dispatchEvent({ type: 'selectionChanged', selection, added, removed });
+  }
+
+  private toStrategy(highlight: HighlightStyle | HighlightStrategy): HighlightStrategy {
+    return typeof highlight === 'string' ? createHighlightStrategy(highlight, this.highlightColor) : highlight;
+  }
+}
+
+// オブジェクトのワールド座標での外接直方体を画面に投影し、矩形と比べる。
+function isInScreenRect(object: THREE.Object3D, camera: THREE.Camera, bounds: THREE.Box2, marquee: MarqueeMode): boolean {
+  // new THREE.Box3().setFromObject(object): 子孫を含むオブジェクト全体を囲む、ワールド座標の直方体を求める。
+  const box = new THREE.Box3().setFromObject(object);
+  if (box.isEmpty()) box.setFromCenterAndSize(object.getWorldPosition(new THREE.Vector3()), new THREE.Vector3());
+
+  const projected = new THREE.Box2();
+  let behindCamera = false;
+  for (let i = 0; i < 8; i++) {
+    const corner = new THREE.Vector3(
+      i & 1 ? box.max.x : box.min.x,
+      i & 2 ? box.max.y : box.min.y,
+      i & 4 ? box.max.z : box.min.z
+    );
+    // vector.project(camera): ワールド座標を、カメラの正規化デバイス座標（zが-1 〜 1なら描画範囲内）に変換する。
+    corner.project(camera);
+    if (corner.z < -1 || corner.z > 1) {
+      behindCamera = true;
+      continue;
+    }
+    projected.expandByPoint(new THREE.Vector2(corner.x, corner.y));
+  }
+  if (projected.isEmpty()) return false;
+  return marquee === 'contain' ? !behindCamera && bounds.containsBox(projected) : bounds.intersectsBox(projected);
+}
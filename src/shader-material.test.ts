@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { validateMaterialConfig } from './config-validator';
+import { createHeadlessEnvironment, HeadlessRenderer } from './scene-environment';
+import { loadSceneDocument, serializeScene, stringifySceneDocument } from './scene-document';
+import { InteractiveSceneManager } from './scene-manager';
+import { decodeUniformValue, encodeUniformValue, isEncodedUniformValue, ShaderCompileError } from './shader-material';
+import { TypedGeometryFactory, TypedObjectFactory } from './typed-geometry-factory';
+import type { UniformValue } from '../types/shader-types';
+
+const UNIFORMS: Record<string, Exclude<UniformValue, number | boolean | THREE.Texture | null>> = {
+  tint: new THREE.Color(0.2, 0.4, 0.6),
+  offset: new THREE.Vector2(1, -2),
+  direction: new THREE.Vector3(0.5, 1, -1.5),
+  bounds: new THREE.Vector4(1, 2, 3, 4),
+  basis: new THREE.Matrix3().set(1, 2, 3, 4, 5, 6, 7, 8, 9),
+  transform: new THREE.Matrix4().makeRotationY(0.7).setPosition(1, 2, 3)
+};
+
+describe('uniform encoding', () => {
+  Object.entries(UNIFORMS).forEach(([name, value]) => {
+    it(`round-trips a ${value.constructor.name} uniform (${name})`, () => {
+      const encoded = encodeUniformValue(value);
+      const parsed: unknown = JSON.parse(JSON.stringify(encoded));
+      if (!isEncodedUniformValue(parsed)) throw new Error('Expected an encoded uniform');
+      const decoded = decodeUniformValue(parsed);
+      expect(decoded).toBeInstanceOf(value.constructor);
+      expect(decoded.toArray()).toEqual(value.toArray());
+    });
+  });
+
+  it('leaves numbers, booleans and null unchanged', () => {
+    expect(encodeUniformValue(0.5)).toBe(0.5);
+    expect(encodeUniformValue(true)).toBe(true);
+    expect(encodeUniformValue(null)).toBeNull();
+  });
+
+  it('rejects values with the wrong number of components', () => {
+    expect(isEncodedUniformValue({ type: 'vec3', value: [1, 2] })).toBe(false);
+    expect(isEncodedUniformValue({ type: 'mat5', value: [1] })).toBe(false);
+    expect(isEncodedUniformValue({ type: 'vec2', value: [1, Number.NaN] })).toBe(false);
+  });
+});
+
+describe('shader material uniforms', () => {
+  let manager: InteractiveSceneManager | null = null;
+
+  afterEach(() => {
+    manager?.dispose();
+    manager = null;
+  });
+
+  it('accepts encoded uniforms in the config', () => {
+    const handle = TypedGeometryFactory.createShaderMaterial({
+      uniforms: { direction: { type: 'vec3', value: [0, 1, 0] }, strength: 2 }
+    });
+    expect(handle.get('direction')).toBeInstanceOf(THREE.Vector3);
+    expect(handle.get('direction').toArray()).toEqual([0, 1, 0]);
+    expect(validateMaterialConfig({ type: 'shader', config: { uniforms: { direction: { type: 'vec3', value: [0, 1, 0] } } } }).issues)
+      .toEqual([]);
+  });
+
+  it('keeps every uniform kind through a scene document save and load', () => {
+    manager = new InteractiveSceneManager(createHeadlessEnvironment());
+    manager.initialize();
+    manager.addObject(TypedObjectFactory.createMesh({
+      geometry: { type: 'box', config: {} },
+      material: { type: 'shader', config: { uniforms: { ...UNIFORMS, amount: 0.25, enabled: true } } }
+    }));
+
+    const json: unknown = JSON.parse(stringifySceneDocument(serializeScene(manager)));
+    const loaded = loadSceneDocument(json);
+    const uniforms = (loaded.objects[0].material as THREE.ShaderMaterial).uniforms;
+
+    Object.entries(UNIFORMS).forEach(([name, value]) => {
+      expect(uniforms[name].value).toBeInstanceOf(value.constructor);
+      expect((uniforms[name].value as typeof value).toArray()).toEqual(value.toArray());
+    });
+    expect(uniforms.amount.value).toBe(0.25);
+    expect(uniforms.enabled.value).toBe(true);
+  });
+});
+
+type ShaderErrorHandler = NonNullable<THREE.WebGLDebug['onShaderError']>;
+
+describe('shader compile errors in the scene manager', () => {
+  // 描画のたびに、1つのプログラムのコンパイルエラーをThree.jsと同じ形で報告するレンダラー
+  class FailingRenderer extends HeadlessRenderer {
+    public reported = false;
+
+    public override render(scene: THREE.Object3D, camera: THREE.Camera): void {
+      super.render(scene, camera);
+      if (this.reported) return;
+      this.reported = true;
+      const gl = {
+        getShaderInfoLog: (shader: string) => (shader === 'fragment' ? "ERROR: 0:1: 'foo' : undeclared identifier" : ''),
+        getShaderSource: () => 'foo;',
+        getProgramInfoLog: () => ''
+      };
+      const args = [gl, {}, 'vertex', 'fragment'] as unknown as Parameters<ShaderErrorHandler>;
+      this.debug.onShaderError?.(...args);
+    }
+  }
+
+  it('passes the error to the callback once, after the frame is rendered', () => {
+    const renderer = new FailingRenderer();
+    const environment = { ...createHeadlessEnvironment(), renderer };
+    const manager = new InteractiveSceneManager(environment);
+    manager.initialize();
+    const errors: ShaderCompileError[] = [];
+    manager.setShaderErrorCallback(error => errors.push(error));
+
+    manager.scheduler.step();
+    manager.scheduler.step();
+    manager.dispose();
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].stage).toBe('fragment');
+  });
+});
@@ -0,0 +1,387 @@
+/**
+ * Three.js TypeScript Tutorial - 15. Shader Material
+ *
+ * GLSLで書いた独自のシェーダーを、他のマテリアルと同じ設定オブジェクトで作成する仕組みです。
+ * - uniformの型は宣言した初期値から推論され、`ShaderHandle`で型安全に毎フレーム更新できます。
+ * - `time`のuniformには、シーンマネージャーの時計の経過時間（秒）が自動的に設定されます。
+ * - コンパイルエラーは、シェーダーの段階と行番号を持つ`ShaderCompileError`として報告されます。
+ * - 色・ベクトル・行列のuniformは`{ type: 'vec3', value: [0, 1, 0] }`の形でも指定でき、この形でシーンドキュメントに保存されます。
+ *
+ * @example
+ * const dissolve = TypedGeometryFactory.createShaderMaterial({
+ *   uniforms: { progress: 0, edgeColor: new THREE.Color('orange') },
+ *   fragmentShader: `
+ *     uniform float progress;
+ *     uniform vec3 edgeColor;
+ *     uniform float time;
+ *     varying vec2 vUv;
+ *     void main() { ... }
+ *   `
+ * });
+ * mesh.material = dissolve.material;
+ * dissolve.set('progress', 0.5);   // OK
+ * dissolve.set('progress', 'half'); // コンパイルエラー: numberではない
+ */
+
+import * as THREE from 'three';
+import type {
+  EncodedUniformType,
+  EncodedUniformValue,
+  ShaderDiagnostic,
+  ShaderStage,
+  ShaderUniforms,
+  TypedShaderMaterial,
+  UniformDeclarations,
+  UniformValue,
+  UniformValueOf
+} from '../types/shader-types';
+import type { ShaderMaterialConfig } from '../types/geometry-types';
+
+// ===================================================================
+// Part 1: Errors (エラー)
+// ===================================================================
+
+const STAGE_NAMES: Record<ShaderStage, string> = {
+  vertex: 'Vertex shader',
+  fragment: 'Fragment shader',
+  program: 'Shader program'
+};
+
+/**
+ * シェーダーのコンパイル（またはリンク）に失敗した場合のエラー
+ */
+export class ShaderCompileError extends Error {
+  /** 最初のエラーが起きた段階 */
+  public readonly stage: ShaderStage;
+  /** 最初のエラーの、マテリアルに指定したソースでの行番号。特定できない場合はnull */
+  public readonly line: number | null;
+
+  constructor(
+    public readonly diagnostics: readonly ShaderDiagnostic[],
+    /** エラーが起きたマテリアル。特定できない場合はnull */
+    public readonly material: THREE.ShaderMaterial | null,
+    /** WebGLが返したログ */
+    public readonly log: string
+  ) {
+    const [first] = diagnostics;
+    const location = first.line !== null ? ` at line ${first.line}` : '';
+    const source = first.sourceLine !== null ? `\n  > ${first.sourceLine.trim()}` : '';
+    const others = diagnostics.length > 1 ? `\n  (and ${diagnostics.length - 1} more)` : '';
+    super(`${STAGE_NAMES[first.stage]} error${location}: ${first.message}${source}${others}`);
+    this.name = 'ShaderCompileError';
+    this.stage = first.stage;
+    this.line = first.line;
+  }
+}
+
+// ===================================================================
+// Part 2: Creation (作成)
+// ===================================================================
+
+/**
+ * デフォルトの頂点シェーダー。フラグメントシェーダーにUV座標（vUv）を渡す
+ */
+export const DEFAULT_VERTEX_SHADER = `varying vec2 vUv;
+
+void main() {
+  vUv = uv;
+  gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}
+`;
+
+/**
+ * デフォルトのフラグメントシェーダー。全てのピクセルを白で塗る
+ */
+export const DEFAULT_FRAGMENT_SHADER = `void main() {
+  gl_FragColor = vec4(1.0);
+}
+`;
+
+// 自動で追加したtimeのuniformの名前（describeで宣言されたuniformと区別するため）
+const addedTimeUniforms = new WeakMap<THREE.ShaderMaterial, string>();
+
+/**
+ * デフォルト値を補ったシェーダーマテリアル設定から、マテリアルを作成します。
+ * uniformの初期値は複製されるため、`ShaderHandle.set`で変更しても設定オブジェクトは変わりません。
+ * @param parameters 透明度など、全てのマテリアルに共通するパラメータ
+ */
+export function buildShaderMaterial(
+  config: Required<ShaderMaterialConfig>,
+  parameters: THREE.ShaderMaterialParameters
+): THREE.ShaderMaterial {
+  const uniforms: Record<string, THREE.IUniform> = {};
+  Object.entries(config.uniforms).forEach(([name, value]) => {
+    uniforms[name] = { value: isEncodedUniformValue(value) ? decodeUniformValue(value) : cloneUniformValue(value) };
+  });
+
+  // new THREE.ShaderMaterial({ ... }): GLSLのシェーダーで描画するマテリアル。
+  // modelViewMatrixやuvなどの組み込みの変数は、Three.jsが先頭に宣言を追加する。
+  const material = new THREE.ShaderMaterial({
+    ...parameters,
+    vertexShader: config.vertexShader,
+    fragmentShader: config.fragmentShader,
+    uniforms,
+    defines: { ...config.defines }
+  });
+
+  const timeUniform = config.timeUniform;
+  if (timeUniform !== null) {
+    if (!(timeUniform in uniforms)) {
+      uniforms[timeUniform] = { value: 0 };
+      addedTimeUniforms.set(material, timeUniform);
+    }
+    // material.onBeforeRender: このマテリアルでオブジェクトを描画する直前に呼ばれる。
+    // 描画中のシーンの時間を使うため、複数のシーンマネージャーがあってもそれぞれの時計に従う。
+    material.onBeforeRender = (_renderer, scene) => {
+      material.uniforms[timeUniform].value = getShaderTime(scene);
+    };
+  }
+  return material;
+}
+
+/**
+ * シェーダーマテリアルから、現在のuniformと`#define`を設定として取り出します。
+ * 色・ベクトル・行列のuniformはJSONに保存できる形（`EncodedUniformValue`）にします。
+ * 自動で追加したtimeのuniformは含みません。
+ */
+export function describeShaderMaterial(material: THREE.ShaderMaterial): Partial<ShaderMaterialConfig> {
+  const addedTime = addedTimeUniforms.get(material);
+  const uniforms: UniformDeclarations = {};
+  Object.entries(material.uniforms).forEach(([name, uniform]) => {
+    if (name !== addedTime) uniforms[name] = encodeUniformValue(uniform.value as UniformValue);
+  });
+  return { uniforms, defines: { ...material.defines } };
+}
+
+function cloneUniformValue(value: UniformValue): UniformValue {
+  // テクスチャは画像を共有するため、複製しない。
+  if (value === null || typeof value !== 'object' || value instanceof THREE.Texture) return value;
+  return value.clone();
+}
+
+// 型名ごとの成分の数
+const ENCODED_UNIFORM_LENGTHS: Record<EncodedUniformType, number> = {
+  color: 3,
+  vec2: 2,
+  vec3: 3,
+  vec4: 4,
+  mat3: 9,
+  mat4: 16
+};
+
+/**
+ * 値が`{ type: 'vec3', value: [0, 1, 0] }`の形のuniformかどうかを判定します（成分の数も検査します）。
+ */
+export function isEncodedUniformValue(value: unknown): value is EncodedUniformValue {
+  if (typeof value !== 'object' || value === null || !('type' in value) || !('value' in value)) return false;
+  const { type, value: components } = value as { type: unknown; value: unknown };
+  return typeof type === 'string'
+    && Object.prototype.hasOwnProperty.call(ENCODED_UNIFORM_LENGTHS, type)
+    && Array.isArray(components)
+    && components.length === ENCODED_UNIFORM_LENGTHS[type as EncodedUniformType]
+    && components.every(component => typeof component === 'number' && Number.isFinite(component));
+}
+
+/**
+ * 色・ベクトル・行列のuniformの値を、JSONに保存できる形に変換します。
+ * それ以外の値（数値・真偽値・テクスチャ・null）はそのまま返します。
+ */
+export function encodeUniformValue(value: UniformValue): UniformValue | EncodedUniformValue {
+  // toArray(): 成分を配列にする。色は作業色空間（リニア）のRGBのため、16進数と違い値が丸められない。
+  if (value instanceof THREE.Color) return { type: 'color', value: value.toArray() };
+  if (value instanceof THREE.Vector2) return { type: 'vec2', value: value.toArray() };
+  if (value instanceof THREE.Vector3) return { type: 'vec3', value: value.toArray() };
+  if (value instanceof THREE.Vector4) return { type: 'vec4', value: value.toArray() };
+  if (value instanceof THREE.Matrix3) return { type: 'mat3', value: value.toArray() };
+  if (value instanceof THREE.Matrix4) return { type: 'mat4', value: value.toArray() };
+  return value;
+}
+
+/**
+ * `encodeUniformValue`で変換した値から、Three.jsの色・ベクトル・行列を作成します。
+ */
+export function decodeUniformValue(encoded: EncodedUniformValue): Exclude<UniformValue, number | boolean | THREE.Texture | null> {
+  const type = encoded.type;
+  // fromArray(array): 配列の成分を設定する。
+  switch (type) {
+    case 'color': return new THREE.Color().fromArray(encoded.value);
+    case 'vec2': return new THREE.Vector2().fromArray(encoded.value);
+    case 'vec3': return new THREE.Vector3().fromArray(encoded.value);
+    case 'vec4': return new THREE.Vector4().fromArray(encoded.value);
+    case 'mat3': return new THREE.Matrix3().fromArray(encoded.value);
+    case 'mat4': return new THREE.Matrix4().fromArray(encoded.value);
+    default: {
+      const _exhaustiveCheck: never = type;
+      throw new Error(`Unsupported uniform type: ${String(_exhaustiveCheck)}`);
+    }
+  }
+}
+
+// ===================================================================
+// Part 3: Time (経過時間)
+// ===================================================================
+
+const sceneTimes = new WeakMap<THREE.Object3D, number>();
+
+/**
+ * シーンの経過時間（秒）を設定します。そのシーンを描画するシェーダーマテリアルの`time`に使われます。
+ * `AbstractSceneManager`が毎フレーム自動で呼び出します。
+ */
+export function setShaderTime(scene: THREE.Object3D, seconds: number): void {
+  sceneTimes.set(scene, seconds);
+}
+
+/**
+ * シーンの経過時間（秒）を取得します。設定されていない場合は0です。
+ */
+export function getShaderTime(scene: THREE.Object3D): number {
+  return sceneTimes.get(scene) ?? 0;
+}
+
+// ===================================================================
+// Part 4: Uniform Handle (uniformの更新)
+// ===================================================================
+
+/**
+ * シェーダーマテリアルのuniformを、宣言した型で読み書きするハンドル
+ */
+export class ShaderHandle<U extends UniformDeclarations> {
+  constructor(public readonly material: TypedShaderMaterial<U>) {}
+
+  /**
+   * `material.uniforms`。値を直接変更することもできる
+   */
+  public get uniforms(): ShaderUniforms<U> {
+    return this.material.uniforms;
+  }
+
+  public get<K extends keyof U>(name: K): UniformValueOf<U[K]> {
+    return this.uniforms[name].value;
+  }
+
+  /**
+   * uniformの値を設定します。
+   * 色やベクトルは現在のオブジェクトにコピーするため、`get`で取得したオブジェクトも同じ値になります。
+   */
+  public set<K extends keyof U>(name: K, value: UniformValueOf<U[K]>): this {
+    const uniform = this.uniforms[name];
+    const current: unknown = uniform.value;
+    if (isCopyable(current) && isCopyable(value) && current.constructor === value.constructor) {
+      current.copy(value);
+    } else {
+      uniform.value = value;
+    }
+    return this;
+  }
+
+  /**
+   * 複数のuniformの値をまとめて設定します。
+   */
+  public update(values: { [K in keyof U]?: UniformValueOf<U[K]> }): this {
+    (Object.keys(values) as (keyof U)[]).forEach(name => {
+      const value = values[name];
+      if (value !== undefined) this.set(name, value);
+    });
+    return this;
+  }
+
+  public dispose(): void {
+    this.material.dispose();
+  }
+}
+
+interface Copyable {
+  copy(source: unknown): unknown;
+}
+
+function isCopyable(value: unknown): value is Copyable {
+  return typeof value === 'object' && value !== null && !(value instanceof THREE.Texture)
+    && typeof (value as Partial<Copyable>).copy === 'function';
+}
+
+// ===================================================================
+// Part 5: Error Reporting (エラーの報告)
+// ===================================================================
+
+/**
+ * `renderer.debug.onShaderError`に設定する関数を作成します。
+ * Three.jsは通常、エラーのログとシェーダーのソース全体をコンソールに出力しますが、
+ * 代わりにログを解析し、マテリアルのソースでの行番号を持つ`ShaderCompileError`を`onError`に渡します。
+ * @param materials エラーが起きたマテリアルを探す候補（シーン内のマテリアルなど）
+ */
+export function createShaderErrorHandler(
+  onError: (error: ShaderCompileError) => void,
+  materials: () => Iterable<THREE.Material> = () => []
+): NonNullable<THREE.WebGLDebug['onShaderError']> {
+  return (gl, program, vertexShader, fragmentShader) => {
+    const candidates = [...materials()].filter(
+      (material): material is THREE.ShaderMaterial => material instanceof THREE.ShaderMaterial
+    );
+    const diagnostics: ShaderDiagnostic[] = [];
+    const logs: string[] = [];
+    let material: THREE.ShaderMaterial | null = null;
+
+    ([['vertex', vertexShader], ['fragment', fragmentShader]] as const).forEach(([stage, shader]) => {
+      // gl.getShaderInfoLog(shader): シェーダーのコンパイル結果のログ。成功した場合は空になる。
+      const log = gl.getShaderInfoLog(shader)?.trim() ?? '';
+      if (log === '') return;
+      logs.push(log);
+      // gl.getShaderSource(shader): Three.jsが定義などを追加した、実際にコンパイルされたソース。
+      const compiled = gl.getShaderSource(shader) ?? '';
+      const match = findSource(compiled, candidates, stage);
+      if (match) material ??= match.material;
+      diagnostics.push(...parseShaderLog(log, stage, compiled, match?.lineOffset ?? null));
+    });
+
+    if (diagnostics.length === 0) {
+      // 各シェーダーのコンパイルは成功し、リンクで失敗した場合
+      const log = gl.getProgramInfoLog(program)?.trim() ?? '';
+      logs.push(log);
+      diagnostics.push({ stage: 'program', line: null, compiledLine: null, message: log || 'Link failed', sourceLine: null });
+    }
+    onError(new ShaderCompileError(diagnostics, material, logs.join('\n')));
+  };
+}
+
+/**
+ * WebGLのログ（"ERROR: 0:12: 'foo' : undeclared identifier"の形式）を解析します。
+ * @param lineOffset コンパイルされたソースのうち、Three.jsが先頭に追加した行数。不明な場合はnull
+ */
+export function parseShaderLog(
+  log: string,
+  stage: ShaderStage,
+  compiledSource = '',
+  lineOffset: number | null = null
+): ShaderDiagnostic[] {
+  const sourceLines = compiledSource.split('\n');
+  return log.split('\n')
+    .map(entry => entry.trim())
+    .filter(entry => entry !== '' && !entry.startsWith('WARNING'))
+    .map(entry => {
+      const match = /^ERROR:\s*\d+:(\d+):\s*(.*)$/.exec(entry);
+      if (!match) return { stage, line: null, compiledLine: null, message: entry.replace(/^ERROR:\s*/, ''), sourceLine: null };
+      const compiledLine = Number(match[1]);
+      const line = lineOffset !== null && compiledLine > lineOffset ? compiledLine - lineOffset : null;
+      return { stage, line, compiledLine, message: match[2], sourceLine: sourceLines[compiledLine - 1] ?? null };
+    });
+}
+
+/**
+ * コンパイルされたソースに含まれる、マテリアルのソースを探す。
+ * `#include`を使ったソースは展開されて一致しないため、行番号は特定できない。
+ */
+function findSource(
+  compiled: string,
+  candidates: readonly THREE.ShaderMaterial[],
+  stage: 'vertex' | 'fragment'
+): { material: THREE.ShaderMaterial; lineOffset: number } | null {
+  for (const material of candidates) {
+    const source = stage === 'vertex' ? material.vertexShader : material.fragmentShader;
+    if (source.trim() === '') continue;
+    const index = compiled.lastIndexOf(source);
+    if (index === -1) continue;
+    const lineOffset = compiled.slice(0, index).split('\n').length - 1;
+    return { material, lineOffset };
+  }
+  return null;
+}
@@ -0,0 +1,394 @@
+/**
+ * Three.js TypeScript Tutorial - 14. Texture Manager
+ *
+ * マテリアル設定の`map`などに書かれた`TextureConfig`を、`THREE.Texture`に変換するマネージャーです。
+ * - 画像は読み込み元（パスまたはData URI）ごとに1回だけ読み込み、設定の違うテクスチャ同士でも共有します。
+ * - 読み込みが終わるまでは用途に合った1×1の仮の画像を使うため、マテリアルはすぐに作成できます。
+ * - 色のテクスチャはsRGB、法線や粗さなどのデータのテクスチャは線形の色空間を自動で設定します。
+ * - テクスチャは参照カウントで管理し、使っているマテリアルが全て破棄されると解放します。
+ *
+ * @example
+ * const material = TypedGeometryFactory.createMaterial('standard', {
+ *   map: { source: 'textures/brick.jpg', repeat: { x: 4, y: 4 }, wrapS: 'repeat', wrapT: 'repeat' },
+ *   normalMap: { source: 'textures/brick_normal.png' }
+ * });
+ * await sharedTextureManager.ready(); // 全ての画像の読み込みを待つ（任意）
+ */
+
+import * as THREE from 'three';
+import type {
+  ImageLoadFunction,
+  TextureConfig,
+  TextureInput,
+  TextureLoadState,
+  TextureManagerStats,
+  TextureMagFilter,
+  TextureMinFilter,
+  TextureSlot,
+  TextureWrap
+} from '../types/texture-types';
+
+/**
+ * 画像の読み込みに失敗した場合のエラー
+ */
+export class TextureLoadError extends Error {
+  constructor(public readonly source: string, public readonly reason: unknown) {
+    super(`Failed to load texture ${describeSource(source)}: ${reason instanceof Error ? reason.message : String(reason)}`);
+    this.name = 'TextureLoadError';
+  }
+}
+
+// ===================================================================
+// Part 1: Settings (設定の変換)
+// ===================================================================
+
+/**
+ * マテリアルのプロパティ名と、テクスチャの用途の対応表。
+ * ここにないプロパティ（独自のマテリアルタイプなど）は'data'として扱う。
+ */
+export const TEXTURE_SLOTS: Readonly<Record<string, TextureSlot>> = {
+  map: 'color',
+  emissiveMap: 'color',
+  specularColorMap: 'color',
+  sheenColorMap: 'color',
+  normalMap: 'normal',
+  clearcoatNormalMap: 'normal'
+};
+
+const WRAPS: Record<TextureWrap, THREE.Wrapping> = {
+  clamp: THREE.ClampToEdgeWrapping,
+  repeat: THREE.RepeatWrapping,
+  mirror: THREE.MirroredRepeatWrapping
+};
+
+const MAG_FILTERS: Record<TextureMagFilter, THREE.MagnificationTextureFilter> = {
+  nearest: THREE.NearestFilter,
+  linear: THREE.LinearFilter
+};
+
+const MIN_FILTERS: Record<TextureMinFilter, THREE.MinificationTextureFilter> = {
+  'nearest': THREE.NearestFilter,
+  'linear': THREE.LinearFilter,
+  'nearest-mipmap-nearest': THREE.NearestMipmapNearestFilter,
+  'nearest-mipmap-linear': THREE.NearestMipmapLinearFilter,
+  'linear-mipmap-nearest': THREE.LinearMipmapNearestFilter,
+  'linear-mipmap-linear': THREE.LinearMipmapLinearFilter
+};
+
+// 読み込み中に使う仮の画像の色。色は乗算されても変わらない白、法線は平らな面の(0, 0, 1)。
+const PLACEHOLDER_COLORS: Record<TextureSlot, [number, number, number]> = {
+  color: [255, 255, 255],
+  normal: [128, 128, 255],
+  data: [255, 255, 255]
+};
+
+/**
+ * `TextureInput`が`TextureConfig`かどうか
+ */
+export function isTextureConfig(value: unknown): value is TextureConfig {
+  return typeof value === 'object' && value !== null && !(value instanceof THREE.Texture)
+    && typeof (value as { source?: unknown }).source === 'string';
+}
+
+/**
+ * デフォルト値を補ったテクスチャ設定
+ */
+function normalizeTextureConfig(config: TextureConfig, slot: TextureSlot): Required<TextureConfig> {
+  return {
+    source: config.source,
+    repeat: { x: config.repeat?.x ?? 1, y: config.repeat?.y ?? 1 },
+    offset: { x: config.offset?.x ?? 0, y: config.offset?.y ?? 0 },
+    rotation: config.rotation ?? 0,
+    center: { x: config.center?.x ?? 0, y: config.center?.y ?? 0 },
+    wrapS: config.wrapS ?? 'clamp',
+    wrapT: config.wrapT ?? 'clamp',
+    magFilter: config.magFilter ?? 'linear',
+    minFilter: config.minFilter ?? 'linear-mipmap-linear',
+    anisotropy: config.anisotropy ?? 1,
+    colorSpace: config.colorSpace ?? (slot === 'color' ? 'srgb' : 'linear'),
+    flipY: config.flipY ?? true
+  };
+}
+
+/**
+ * テクスチャ設定を、同じテクスチャになる設定なら同じになる文字列キーに変換します。
+ */
+export function textureConfigKey(config: TextureConfig, slot: TextureSlot = 'color'): string {
+  const normalized = normalizeTextureConfig(config, slot);
+  const record = normalized as unknown as Record<string, unknown>;
+  return JSON.stringify(Object.keys(record).sort().map(key => [key, record[key]]));
+}
+
+function applyTextureConfig(texture: THREE.Texture, config: Required<TextureConfig>): void {
+  texture.repeat.set(config.repeat.x, config.repeat.y);
+  texture.offset.set(config.offset.x, config.offset.y);
+  texture.rotation = config.rotation;
+  texture.center.set(config.center.x, config.center.y);
+  texture.wrapS = WRAPS[config.wrapS];
+  texture.wrapT = WRAPS[config.wrapT];
+  texture.magFilter = MAG_FILTERS[config.magFilter];
+  texture.minFilter = MIN_FILTERS[config.minFilter];
+  texture.anisotropy = config.anisotropy;
+  // texture.colorSpace: 画像の色空間。sRGBの場合、シェーダーで線形の値に変換してから計算に使われる。
+  texture.colorSpace = config.colorSpace === 'srgb' ? THREE.SRGBColorSpace : THREE.LinearSRGBColorSpace;
+  texture.flipY = config.flipY;
+}
+
+function describeSource(source: string): string {
+  return source.startsWith('data:') ? `${source.slice(0, 32)}...` : source;
+}
+
+// ===================================================================
+// Part 2: Texture Manager (テクスチャの管理)
+// ===================================================================
+
+export type { ImageLoadFunction } from '../types/texture-types';
+
+/**
+ * テクスチャマネージャーのオプション
+ */
+export interface TextureManagerOptions {
+  /** 画像を読み込む関数 デフォルト: ブラウザでは`THREE.ImageLoader`、DOMのない環境では`loadBlankImage` */
+  loadImage?: ImageLoadFunction;
+}
+
+/**
+ * DOMのない環境（Node.jsなど）で使う読み込み関数。
+ * 画像をデコードできないため、読み込み元に関係なく1×1の白い画像を返します。
+ * テクスチャの作成・共有・参照カウントはブラウザと同じように動きます。
+ */
+export const loadBlankImage: ImageLoadFunction = () =>
+  Promise.resolve({ data: new Uint8Array([255, 255, 255, 255]), width: 1, height: 1 });
+
+function defaultImageLoader(): ImageLoadFunction {
+  if (typeof document === 'undefined') return loadBlankImage;
+  // new THREE.ImageLoader().loadAsync(url): 画像を<img>要素として読み込む。
+  return source => new THREE.ImageLoader().loadAsync(source);
+}
+
+interface SourceEntry {
+  state: TextureLoadState;
+  // 読み込みが終わった画像。全てのテクスチャで共有する
+  source: THREE.Source | null;
+  error: TextureLoadError | null;
+  promise: Promise<THREE.Source>;
+  textures: Set<THREE.Texture>;
+}
+
+interface TextureEntry {
+  key: string;
+  source: string;
+  references: number;
+}
+
+export class TextureManager {
+  // テクスチャの作成に使った設定（describeMaterialで設定に戻すため）
+  private static readonly configs = new WeakMap<THREE.Texture, TextureConfig>();
+
+  private loadImage: ImageLoadFunction;
+  private readonly sources = new Map<string, SourceEntry>();
+  private readonly textures = new Map<string, THREE.Texture>();
+  private readonly entries = new Map<THREE.Texture, TextureEntry>();
+  private readonly placeholders = new Map<TextureSlot, THREE.Source>();
+
+  constructor(options: TextureManagerOptions = {}) {
+    this.loadImage = options.loadImage ?? defaultImageLoader();
+  }
+
+  /**
+   * 画像を読み込む関数を置き換えます。読み込み済み・読み込み中の画像はそのまま使われます。
+   * `sharedTextureManager`の読み込み方法を実行環境に合わせて変える場合に使います。
+   */
+  public setImageLoader(loadImage: ImageLoadFunction): void {
+    this.loadImage = loadImage;
+  }
+
+  /**
+   * テクスチャ設定に合ったテクスチャを取得し、参照カウントを1増やします。
+   * 同じ設定のテクスチャは共有され、画像の読み込みが終わるまでは仮の画像が使われます。
+   * 使い終わったら`release`を呼びます。
+   */
+  public acquire(config: TextureConfig, slot: TextureSlot = 'color'): THREE.Texture {
+    const key = textureConfigKey(config, slot);
+    const cached = this.textures.get(key);
+    if (cached) {
+      this.entries.get(cached)!.references++;
+      return cached;
+    }
+
+    const normalized = normalizeTextureConfig(config, slot);
+    const sourceEntry = this.loadSource(normalized.source);
+    // new THREE.Texture(): 画像を持たないテクスチャ。sourceを差し替えると別の画像を使うようになる。
+    const texture = new THREE.Texture();
+    texture.name = normalized.source.startsWith('data:') ? '' : normalized.source;
+    texture.source = sourceEntry.source ?? this.placeholder(slot);
+    applyTextureConfig(texture, normalized);
+    texture.needsUpdate = true;
+
+    sourceEntry.textures.add(texture);
+    this.textures.set(key, texture);
+    this.entries.set(texture, { key, source: normalized.source, references: 1 });
+    TextureManager.configs.set(texture, { ...config });
+    return texture;
+  }
+
+  /**
+   * マテリアル設定の値をテクスチャに変換します。
+   * `TextureConfig`は`acquire`し（参照カウントが増える）、`THREE.Texture`とnullはそのまま返します。
+   */
+  public resolve(value: TextureInput | null, slot: TextureSlot = 'color'): THREE.Texture | null {
+    return isTextureConfig(value) ? this.acquire(value, slot) : value;
+  }
+
+  /**
+   * テクスチャの参照カウントを1減らし、0になったら解放します。
+   * 同じ画像を使うテクスチャが全て解放されると、画像のキャッシュも削除されます。
+   * @returns このマネージャーが管理しているテクスチャだった場合はtrue
+   */
+  public release(texture: THREE.Texture): boolean {
+    const entry = this.entries.get(texture);
+    if (!entry) return false;
+    if (--entry.references > 0) return true;
+
+    this.entries.delete(texture);
+    this.textures.delete(entry.key);
+    // texture.dispose(): GPU上のテクスチャを解放する。
+    texture.dispose();
+    const sourceEntry = this.sources.get(entry.source);
+    if (sourceEntry) {
+      sourceEntry.textures.delete(texture);
+      if (sourceEntry.textures.size === 0) this.sources.delete(entry.source);
+    }
+    return true;
+  }
+
+  /**
+   * テクスチャ（または読み込み元）の読み込みの状態を取得します。
+   * @returns 管理していない場合はundefined
+   */
+  public getState(target: THREE.Texture | string): TextureLoadState | undefined {
+    const source = typeof target === 'string' ? target : this.entries.get(target)?.source;
+    return source === undefined ? undefined : this.sources.get(source)?.state;
+  }
+
+  /**
+   * テクスチャの画像の読み込みが終わるのを待ちます。
+   * @throws {TextureLoadError} 読み込みに失敗した場合
+   */
+  public async whenLoaded(texture: THREE.Texture): Promise<THREE.Texture> {
+    const entry = this.entries.get(texture);
+    const sourceEntry = entry ? this.sources.get(entry.source) : undefined;
+    if (sourceEntry) await sourceEntry.promise;
+    return texture;
+  }
+
+  /**
+   * 読み込み中の全ての画像の読み込みが終わる（成功または失敗する）のを待ちます。
+   */
+  public async ready(): Promise<void> {
+    const pending = [...this.sources.values()].filter(entry => entry.state === 'loading');
+    await Promise.allSettled(pending.map(entry => entry.promise));
+    // 待っている間に新しい読み込みが始まった場合は、それも待つ。
+    if ([...this.sources.values()].some(entry => entry.state === 'loading')) await this.ready();
+  }
+
+  /**
+   * テクスチャの作成に使った設定を取得します。
+   * マテリアルを設定に戻す（`TypedGeometryFactory.describeMaterial`）ときに使います。
+   */
+  static describe(texture: THREE.Texture): TextureConfig | undefined {
+    const config = this.configs.get(texture);
+    return config ? { ...config } : undefined;
+  }
+
+  public getStats(): TextureManagerStats {
+    let references = 0;
+    this.entries.forEach(entry => { references += entry.references; });
+    return {
+      sources: this.sources.size,
+      textures: this.textures.size,
+      loading: [...this.sources.values()].filter(entry => entry.state === 'loading').length,
+      references
+    };
+  }
+
+  /**
+   * 管理している全てのテクスチャを、参照カウントに関係なく解放します。
+   */
+  public dispose(): void {
+    this.entries.forEach((_, texture) => texture.dispose());
+    this.entries.clear();
+    this.textures.clear();
+    this.sources.clear();
+  }
+
+  private loadSource(source: string): SourceEntry {
+    const existing = this.sources.get(source);
+    if (existing) return existing;
+
+    const entry: SourceEntry = {
+      state: 'loading',
+      source: null,
+      error: null,
+      promise: Promise.resolve(null as unknown as THREE.Source),
+      textures: new Set()
+    };
+    entry.promise = this.loadImage(source).then(
+      image => {
+        // new THREE.Source(image): 複数のテクスチャで共有できる画像データ。GPUへの転送も1回で済む。
+        const loaded = new THREE.Source(image);
+        entry.state = 'loaded';
+        entry.source = loaded;
+        entry.textures.forEach(texture => {
+          texture.source = loaded;
+          texture.needsUpdate = true;
+        });
+        return loaded;
+      },
+      (reason: unknown) => {
+        entry.state = 'error';
+        entry.error = new TextureLoadError(source, reason);
+        throw entry.error;
+      }
+    );
+    // 誰も待っていない読み込みの失敗で、未処理のPromiseの拒否にならないようにする。
+    entry.promise.catch(() => undefined);
+    this.sources.set(source, entry);
+    return entry;
+  }
+
+  /**
+   * 読み込み中に使う、用途に合った1×1の仮の画像
+   */
+  private placeholder(slot: TextureSlot): THREE.Source {
+    let source = this.placeholders.get(slot);
+    if (!source) {
+      source = new THREE.Source(createPlaceholderImage(PLACEHOLDER_COLORS[slot]));
+      this.placeholders.set(slot, source);
+    }
+    return source;
+  }
+}
+
+/**
+ * 1×1の単色の画像を作る。canvasが使えない環境（Node.js）では、描画されないため同じ形のデータで代用する。
+ */
+function createPlaceholderImage([r, g, b]: [number, number, number]): unknown {
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    const context = canvas.getContext('2d');
+    if (context) {
+      context.fillStyle = `rgb(${r}, ${g}, ${b})`;
+      context.fillRect(0, 0, 1, 1);
+    }
+    return canvas;
+  }
+  return { data: new Uint8Array([r, g, b, 255]), width: 1, height: 1 };
+}
+
+/**
+ * アプリケーション全体で共有するデフォルトのテクスチャマネージャー
+ */
+export const sharedTextureManager = new TextureManager();
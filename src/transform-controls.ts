@@ -0,0 +1,590 @@
+/**
+ * Three.js TypeScript Tutorial - 21. Transform Controls
+ *
+ * シーン内のオブジェクトを、ギズモ（軸の矢印・平面の四角・回転の輪・拡大縮小の立方体）を
+ * ドラッグして移動・回転・拡大縮小する仕組みです。ギズモを使わずに、オブジェクトそのものを
+ * 地面やカメラに平行な平面の上でドラッグして動かすこともできます。
+ * ドラッグの入力は光線（THREE.Ray）で受け取るため、マウスやタッチなどの入力方法には依存しません。
+ *
+ * @example
+ * const controls = new TransformControls(scene, { mode: 'rotate', snap: { rotation: Math.PI / 12 } });
+ * controls.attach(mesh);
+ * controls.addEventListener('transformEnd', ({ object, before, after }) => {
+ *   history.record(createTransformCommand(object, before, after));
+ * });
+ */
+
+import * as THREE from 'three';
+import type { Transform } from '../types/geometry-types';
+import type {
+  DragPlane,
+  TransformAxis,
+  TransformControlsOptions,
+  TransformEventMap,
+  TransformMode,
+  TransformSnap,
+  TransformSpace
+} from '../types/transform-types';
+
+// ===================================================================
+// Part 1: Transform Values (変換の値)
+// ===================================================================
+
+/**
+ * オブジェクトの現在の変換（ローカルの位置・回転・拡大縮小率）を取得します。
+ */
+export function captureTransform(object: THREE.Object3D): Transform {
+  const { position, rotation, scale } = object;
+  return {
+    position: { x: position.x, y: position.y, z: position.z },
+    rotation: { x: rotation.x, y: rotation.y, z: rotation.z },
+    scale: { x: scale.x, y: scale.y, z: scale.z }
+  };
+}
+
+/**
+ * オブジェクトに変換を設定します。指定しなかった成分は変わりません。
+ */
+export function applyTransform(object: THREE.Object3D, transform: Transform): void {
+  const { position, rotation, scale } = transform;
+  if (position) object.position.set(position.x ?? object.position.x, position.y ?? object.position.y, position.z ?? object.position.z);
+  if (rotation) object.rotation.set(rotation.x ?? object.rotation.x, rotation.y ?? object.rotation.y, rotation.z ?? object.rotation.z);
+  if (scale) object.scale.set(scale.x ?? object.scale.x, scale.y ?? object.scale.y, scale.z ?? object.scale.z);
+}
+
+// ===================================================================
+// Part 2: Gizmo (ギズモ)
+// ===================================================================
+
+type AxisName = 'x' | 'y' | 'z';
+
+const AXIS_VECTORS: Record<AxisName, THREE.Vector3> = {
+  x: new THREE.Vector3(1, 0, 0),
+  y: new THREE.Vector3(0, 1, 0),
+  z: new THREE.Vector3(0, 0, 1)
+};
+
+const HANDLE_COLORS: Record<TransformAxis, number> = {
+  x: 0xff4040,
+  y: 0x40e040,
+  z: 0x4080ff,
+  // 平面のハンドルは、平面に垂直な軸の色にする。
+  xy: 0x4080ff,
+  yz: 0xff4040,
+  xz: 0x40e040,
+  xyz: 0xffffff
+};
+
+const HOVER_COLOR = 0xffd000;
+
+// 細いハンドルは掴みにくいため、見えない太い判定用のメッシュを重ねる。
+const PICKER_RADIUS = 0.08;
+
+/**
+ * 操作中のオブジェクトに重ねて表示するギズモ。軸の長さが1になるように作られ、
+ * `TransformControls`が画面上で一定の大きさになるように拡大縮小します。
+ * `userData.isHelper`が設定されているため、シーンの破棄・統計・書き出しの対象になりません。
+ */
+export class TransformGizmo extends THREE.Object3D {
+  private readonly baseColors = new Map<THREE.MeshBasicMaterial, THREE.Color>();
+
+  constructor() {
+    super();
+    this.name = 'TransformGizmo';
+    this.userData.isHelper = true;
+  }
+
+  /**
+   * 操作に合わせてハンドルを作り直します。
+   */
+  public build(mode: TransformMode): void {
+    this.clearHandles();
+    switch (mode) {
+      case 'translate':
+        (['x', 'y', 'z'] as const).forEach(axis => {
+          this.addHandle(axis, new THREE.CylinderGeometry(0.015, 0.015, 0.8), axis, 0.4);
+          // new THREE.ConeGeometry(radius, height): 円錐。Y軸の向きに尖る。
+          this.addHandle(axis, new THREE.ConeGeometry(0.06, 0.2), axis, 0.9);
+          this.addPicker(axis, new THREE.CylinderGeometry(PICKER_RADIUS, PICKER_RADIUS, 1), axis, 0.5);
+        });
+        (['xy', 'yz', 'xz'] as const).forEach(plane => this.addPlaneHandle(plane));
+        this.addHandle('xyz', new THREE.OctahedronGeometry(0.1), null, 0);
+        break;
+      case 'rotate':
+        (['x', 'y', 'z'] as const).forEach(axis => {
+          // new THREE.TorusGeometry(radius, tube, radialSegments, tubularSegments): 輪。XY平面に置かれる。
+          this.addRing(axis, new THREE.TorusGeometry(1, 0.015, 8, 64));
+          this.addRing(axis, new THREE.TorusGeometry(1, PICKER_RADIUS, 4, 32), true);
+        });
+        break;
+      case 'scale':
+        (['x', 'y', 'z'] as const).forEach(axis => {
+          this.addHandle(axis, new THREE.CylinderGeometry(0.015, 0.015, 0.85), axis, 0.425);
+          this.addHandle(axis, new THREE.BoxGeometry(0.12, 0.12, 0.12), axis, 0.9);
+          this.addPicker(axis, new THREE.CylinderGeometry(PICKER_RADIUS, PICKER_RADIUS, 1), axis, 0.5);
+        });
+        this.addHandle('xyz', new THREE.BoxGeometry(0.16, 0.16, 0.16), null, 0);
+        break;
+      case 'drag':
+        // オブジェクトそのものをドラッグするため、ハンドルは表示しない。
+        break;
+      default: {
+        const exhaustiveCheck: never = mode;
+        throw new Error(`Unknown transform mode: ${String(exhaustiveCheck)}`);
+      }
+    }
+  }
+
+  /**
+   * ハンドル（またはその一部のメッシュ）が操作する軸を返します。ギズモの一部でなければnullを返します。
+   */
+  public getAxis(object: THREE.Object3D): TransformAxis | null {
+    for (let current: THREE.Object3D | null = object; current && current !== this; current = current.parent) {
+      const axis = (current.userData as { transformAxis?: TransformAxis }).transformAxis;
+      if (axis) return axis;
+    }
+    return null;
+  }
+
+  /**
+   * ポインターが当たっているハンドルを強調表示します。
+   */
+  public setHovered(axis: TransformAxis | null): void {
+    this.children.forEach(child => {
+      if (!(child instanceof THREE.Mesh) || !(child.material instanceof THREE.MeshBasicMaterial)) return;
+      const base = this.baseColors.get(child.material);
+      if (!base) return;
+      child.material.color.set(axis !== null && this.getAxis(child) === axis ? HOVER_COLOR : base);
+    });
+  }
+
+  /**
+   * ハンドルのジオメトリとマテリアルを破棄します。
+   */
+  public dispose(): void {
+    this.clearHandles();
+    this.removeFromParent();
+  }
+
+  private addHandle(axis: TransformAxis, geometry: THREE.BufferGeometry, direction: AxisName | null, offset: number): THREE.Mesh {
+    const material = new THREE.MeshBasicMaterial({
+      color: HANDLE_COLORS[axis],
+      // depthTest: false: 他のオブジェクトに隠れず、常に手前に描画する（ピッキングでも優先される）。
+      depthTest: false,
+      depthWrite: false,
+      transparent: true,
+      opacity: axis.length === 2 ? 0.5 : 0.9,
+      side: THREE.DoubleSide,
+      toneMapped: false
+    });
+    this.baseColors.set(material, material.color.clone());
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.userData.transformAxis = axis;
+    // renderOrder: 大きいほど後に描画される。シーンのオブジェクトより手前に重ねる。
+    mesh.renderOrder = 999;
+    if (direction) {
+      // 円柱・円錐はY軸に沿って作られるため、軸の向きに回転させる。
+      if (direction === 'x') mesh.rotation.z = -Math.PI / 2;
+      if (direction === 'z') mesh.rotation.x = Math.PI / 2;
+      mesh.position.copy(AXIS_VECTORS[direction]).multiplyScalar(offset);
+    }
+    this.add(mesh);
+    return mesh;
+  }
+
+  private addPicker(axis: TransformAxis, geometry: THREE.BufferGeometry, direction: AxisName | null, offset: number): void {
+    // 見えないメッシュもレイキャストでは当たる（Raycasterはvisibleを確認しない）。
+    this.addHandle(axis, geometry, direction, offset).visible = false;
+  }
+
+  private addPlaneHandle(plane: 'xy' | 'yz' | 'xz'): void {
+    const mesh = this.addHandle(plane, new THREE.PlaneGeometry(0.25, 0.25), null, 0);
+    // PlaneGeometryはXY平面に作られるため、それぞれの平面に向ける。
+    if (plane === 'yz') mesh.rotation.y = Math.PI / 2;
+    if (plane === 'xz') mesh.rotation.x = -Math.PI / 2;
+    mesh.position.set(plane.includes('x') ? 0.3 : 0, plane.includes('y') ? 0.3 : 0, plane.includes('z') ? 0.3 : 0);
+  }
+
+  private addRing(axis: AxisName, geometry: THREE.TorusGeometry, picker = false): void {
+    const mesh = this.addHandle(axis, geometry, null, 0);
+    // TorusGeometryはZ軸を囲むため、回転の軸を囲むように向ける。
+    if (axis === 'x') mesh.rotation.y = Math.PI / 2;
+    if (axis === 'y') mesh.rotation.x = Math.PI / 2;
+    mesh.visible = !picker;
+  }
+
+  private clearHandles(): void {
+    [...this.children].forEach(child => {
+      if (child instanceof THREE.Mesh) {
+        (child.geometry as THREE.BufferGeometry).dispose();
+        (child.material as THREE.Material).dispose();
+      }
+      this.remove(child);
+    });
+    this.baseColors.clear();
+  }
+}
+
+// ===================================================================
+// Part 3: Controls (ドラッグによる変換)
+// ===================================================================
+
+// ドラッグ中の状態。オブジェクトの変換は、ドラッグを始めたときの値からの差で求める。
+interface DragState {
+  object: THREE.Object3D;
+  axis: TransformAxis | null;
+  camera: THREE.Camera;
+  plane: THREE.Plane;
+  /** ドラッグを始めたときの、光線と平面の交点 */
+  start: THREE.Vector3;
+  /** ギズモの軸の向き（ワールド座標） */
+  orientation: THREE.Quaternion;
+  worldPosition: THREE.Vector3;
+  worldQuaternion: THREE.Quaternion;
+  scale: THREE.Vector3;
+  /** ギズモの軸の長さ（ワールド座標）。拡大縮小率の計算に使う */
+  handleLength: number;
+  before: Transform;
+}
+
+const MIN_SCALE = 1e-3;
+
+/**
+ * ギズモやオブジェクトのドラッグで、オブジェクトを移動・回転・拡大縮小するコントロール
+ */
+export class TransformControls extends THREE.EventDispatcher<TransformEventMap> {
+  /** シーンに表示するギズモ。操作するオブジェクトがある間だけシーンに追加される */
+  public readonly gizmo = new TransformGizmo();
+  private object: THREE.Object3D | null = null;
+  private mode: TransformMode;
+  private space: TransformSpace;
+  private snap: TransformSnap;
+  private dragPlane: DragPlane;
+  private readonly size: number;
+  private drag: DragState | null = null;
+
+  constructor(private readonly scene: THREE.Object3D, options: TransformControlsOptions = {}) {
+    super();
+    this.mode = options.mode ?? 'translate';
+    this.space = options.space ?? 'world';
+    this.snap = { ...options.snap };
+    this.dragPlane = options.dragPlane ?? 'ground';
+    this.size = options.size ?? 0.15;
+    this.gizmo.build(this.mode);
+  }
+
+  /**
+   * 操作するオブジェクトを設定し、ギズモを表示します。
+   */
+  public attach(object: THREE.Object3D): void {
+    if (this.object === object) return;
+    this.endDrag();
+    this.object = object;
+    this.updateGizmoVisibility();
+  }
+
+  /**
+   * 操作するオブジェクトを外し、ギズモを隠します。
+   */
+  public detach(): void {
+    this.endDrag();
+    this.object = null;
+    this.updateGizmoVisibility();
+  }
+
+  public getObject(): THREE.Object3D | null {
+    return this.object;
+  }
+
+  public setMode(mode: TransformMode): void {
+    if (this.mode === mode) return;
+    this.endDrag();
+    this.mode = mode;
+    this.gizmo.build(mode);
+    this.updateGizmoVisibility();
+  }
+
+  public getMode(): TransformMode {
+    return this.mode;
+  }
+
+  public setSpace(space: TransformSpace): void {
+    this.space = space;
+  }
+
+  public getSpace(): TransformSpace {
+    return this.space;
+  }
+
+  public setSnap(snap: TransformSnap): void {
+    this.snap = { ...snap };
+  }
+
+  public getSnap(): Readonly<TransformSnap> {
+    return this.snap;
+  }
+
+  public setDragPlane(plane: DragPlane): void {
+    this.dragPlane = plane;
+  }
+
+  public isDragging(): boolean {
+    return this.drag !== null;
+  }
+
+  /**
+   * オブジェクトがギズモのハンドルであれば、その軸を返します。
+   */
+  public getAxis(object: THREE.Object3D): TransformAxis | null {
+    return this.gizmo.getAxis(object);
+  }
+
+  public setHovered(axis: TransformAxis | null): void {
+    this.gizmo.setHovered(this.drag ? this.drag.axis : axis);
+  }
+
+  /**
+   * ギズモをオブジェクトの位置・向きに合わせ、カメラから見て一定の大きさにします。毎フレーム呼び出します。
+   */
+  public update(camera: THREE.Camera): void {
+    if (!this.object || !this.gizmo.parent) return;
+    const { position, quaternion } = worldTransform(this.object);
+    this.gizmo.position.copy(position);
+    this.gizmo.quaternion.copy(this.gizmoOrientation(quaternion));
+    this.gizmo.scale.setScalar(this.size * visibleHeight(camera, position));
+    // ピッキングは次の描画より前に行われることがあるため、行列をすぐに更新する。
+    this.gizmo.updateMatrixWorld(true);
+  }
+
+  /**
+   * ドラッグを始めます。
+   * @param axis 掴んだハンドルの軸（'drag'モードでは使わない）
+   * @param ray ポインターの位置の光線（ワールド座標）
+   * @returns ドラッグを始められなかった場合（オブジェクトがない、平面を真横から見ているなど）はfalse
+   */
+  public beginDrag(axis: TransformAxis | null, ray: THREE.Ray, camera: THREE.Camera): boolean {
+    this.endDrag();
+    const object = this.object;
+    if (!object || (this.mode !== 'drag' && axis === null)) return false;
+    // 回転は1つの軸の周りでしか行わない。
+    if (this.mode === 'rotate' && (axis === null || axis.length !== 1)) return false;
+
+    const { position, quaternion } = worldTransform(object);
+    const orientation = this.mode === 'drag' ? new THREE.Quaternion() : this.gizmoOrientation(quaternion);
+    const normal = this.dragPlaneNormal(axis, orientation, camera, position);
+    if (!normal) return false;
+    // plane.setFromNormalAndCoplanarPoint(normal, point): 法線と、平面上の1点から平面を作る。
+    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(normal, position);
+    // ray.intersectPlane(plane, target): 光線と平面の交点。交わらない場合はnullを返す。
+    const start = ray.intersectPlane(plane, new THREE.Vector3());
+    if (!start) return false;
+
+    this.drag = {
+      object,
+      axis: this.mode === 'drag' ? null : axis,
+      camera,
+      plane,
+      start,
+      orientation,
+      worldPosition: position,
+      worldQuaternion: quaternion,
+      scale: object.scale.clone(),
+      handleLength: this.gizmo.scale.x || 1,
+      before: captureTransform(object)
+    };
+    this.gizmo.setHovered(this.drag.axis);
+    this.dispatchEvent({ type: 'transformStart', object, mode: this.mode, before: this.drag.before });
+    return true;
+  }
+
+  /**
+   * ドラッグ中のポインターの位置に合わせて、オブジェクトを変換します。
+   */
+  public updateDrag(ray: THREE.Ray): void {
+    const drag = this.drag;
+    if (!drag) return;
+    const point = ray.intersectPlane(drag.plane, new THREE.Vector3());
+    if (!point) return;
+
+    switch (this.mode) {
+      case 'translate':
+      case 'drag':
+        this.translate(drag, point.sub(drag.start));
+        break;
+      case 'rotate':
+        this.rotate(drag, point);
+        break;
+      case 'scale':
+        this.scale(drag, point.sub(drag.start));
+        break;
+      default: {
+        const exhaustiveCheck: never = this.mode;
+        throw new Error(`Unknown transform mode: ${String(exhaustiveCheck)}`);
+      }
+    }
+    this.dispatchEvent({
+      type: 'transformChange',
+      object: drag.object,
+      mode: this.mode,
+      before: drag.before,
+      after: captureTransform(drag.object)
+    });
+  }
+
+  /**
+   * ドラッグを終えます。ドラッグ中でなければ何もしません。
+   */
+  public endDrag(): void {
+    const drag = this.drag;
+    if (!drag) return;
+    this.drag = null;
+    this.gizmo.setHovered(null);
+    this.dispatchEvent({
+      type: 'transformEnd',
+      object: drag.object,
+      mode: this.mode,
+      before: drag.before,
+      after: captureTransform(drag.object)
+    });
+  }
+
+  /**
+   * ギズモをシーンから取り除き、破棄します。
+   */
+  public dispose(): void {
+    this.detach();
+    this.gizmo.dispose();
+  }
+
+  private updateGizmoVisibility(): void {
+    if (this.object && this.mode !== 'drag') this.scene.add(this.gizmo);
+    else this.gizmo.removeFromParent();
+  }
+
+  // 拡大縮小は常にオブジェクトの軸で行う（ワールドの軸で拡大縮小すると、回転したオブジェクトが歪むため）。
+  private gizmoOrientation(worldQuaternion: THREE.Quaternion): THREE.Quaternion {
+    return this.space === 'local' || this.mode === 'scale' ? worldQuaternion.clone() : new THREE.Quaternion();
+  }
+
+  /**
+   * ドラッグする平面の法線を求める。軸の場合は、軸を含む平面のうちカメラに最も正対する平面を使う。
+   */
+  private dragPlaneNormal(
+    axis: TransformAxis | null,
+    orientation: THREE.Quaternion,
+    camera: THREE.Camera,
+    center: THREE.Vector3
+  ): THREE.Vector3 | null {
+    const toCamera = directionToCamera(camera, center);
+    if (this.mode === 'drag') return this.dragPlane === 'ground' ? AXIS_VECTORS.y.clone() : toCamera;
+    if (axis === null || axis === 'xyz') return toCamera;
+
+    const axes = axisVectors(axis, orientation);
+    if (this.mode === 'rotate') return axes[0];
+    if (axes.length === 2) return new THREE.Vector3().crossVectors(axes[0], axes[1]).normalize();
+    // 視線から軸の成分を取り除くと、軸を含みカメラの方を向いた平面の法線になる。
+    const normal = toCamera.clone().addScaledVector(axes[0], -toCamera.dot(axes[0]));
+    // 軸を真正面から見ている場合は、ドラッグの向きが決まらない。
+    return normal.lengthSq() < 1e-6 ? null : normal.normalize();
+  }
+
+  private translate(drag: DragState, delta: THREE.Vector3): void {
+    const step = this.snap.translation ?? 0;
+    let move = delta.clone();
+    if (drag.axis && drag.axis !== 'xyz' && drag.axis.length === 1) {
+      const direction = axisVectors(drag.axis, drag.orientation)[0];
+      move = direction.multiplyScalar(delta.dot(direction));
+    }
+
+    if (step > 0 && this.mode === 'translate' && this.space === 'local') {
+      // オブジェクトの軸で見た移動量を刻みにそろえる。
+      const inverse = drag.orientation.clone().invert();
+      move.applyQuaternion(inverse);
+      move.set(snapTo(move.x, step), snapTo(move.y, step), snapTo(move.z, step));
+      move.applyQuaternion(drag.orientation);
+    }
+    const target = drag.worldPosition.clone().add(move);
+    if (step > 0 && !(this.mode === 'translate' && this.space === 'local')) {
+      // ワールド座標のグリッドにそろえる。動かしていない成分はそのままにする。
+      const free = this.mode === 'drag'
+        ? (this.dragPlane === 'ground' ? 'xz' : 'xyz')
+        : drag.axis ?? 'xyz';
+      (['x', 'y', 'z'] as const).forEach(component => {
+        if (free.includes(component)) target[component] = snapTo(target[component], step);
+      });
+    }
+    setWorldPosition(drag.object, target);
+  }
+
+  private rotate(drag: DragState, point: THREE.Vector3): void {
+    const axis = drag.plane.normal;
+    const from = drag.start.clone().sub(drag.worldPosition);
+    const to = point.clone().sub(drag.worldPosition);
+    // 2つのベクトルがなす角（回転軸の向きで符号が決まる）
+    let angle = Math.atan2(axis.dot(new THREE.Vector3().crossVectors(from, to)), from.dot(to));
+    angle = snapTo(angle, this.snap.rotation ?? 0);
+
+    // quaternion.setFromAxisAngle(axis, angle): 軸の周りにangleだけ回転するクォータニオン
+    const worldQuaternion = new THREE.Quaternion().setFromAxisAngle(axis, angle).multiply(drag.worldQuaternion);
+    const parentQuaternion = drag.object.parent?.getWorldQuaternion(new THREE.Quaternion()) ?? new THREE.Quaternion();
+    drag.object.quaternion.copy(parentQuaternion.invert().multiply(worldQuaternion));
+  }
+
+  private scale(drag: DragState, delta: THREE.Vector3): void {
+    const step = this.snap.scale ?? 0;
+    const uniform = drag.axis === 'xyz';
+    // 全体の拡大縮小は、画面の上に向かってドラッグすると大きくなる。
+    const direction = uniform
+      ? AXIS_VECTORS.y.clone().applyQuaternion(drag.camera.getWorldQuaternion(new THREE.Quaternion()))
+      : axisVectors(drag.axis ?? 'x', drag.orientation)[0];
+    const factor = 1 + delta.dot(direction) / drag.handleLength;
+
+    (['x', 'y', 'z'] as const).forEach(component => {
+      if (!uniform && drag.axis !== component) return;
+      const value = snapTo(drag.scale[component] * factor, step);
+      drag.object.scale[component] = Math.max(value, step > 0 ? step : MIN_SCALE);
+    });
+  }
+}
+
+function axisVectors(axis: TransformAxis, orientation: THREE.Quaternion): THREE.Vector3[] {
+  return [...axis].map(name => AXIS_VECTORS[name as AxisName].clone().applyQuaternion(orientation));
+}
+
+function snapTo(value: number, step: number): number {
+  return step > 0 ? Math.round(value / step) * step : value;
+}
+
+function worldTransform(object: THREE.Object3D): { position: THREE.Vector3; quaternion: THREE.Quaternion } {
+  // object.updateWorldMatrix(updateParents, updateChildren): 親から順にワールド行列を最新にする。
+  object.updateWorldMatrix(true, false);
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  object.matrixWorld.decompose(position, quaternion, new THREE.Vector3());
+  return { position, quaternion };
+}
+
+function setWorldPosition(object: THREE.Object3D, position: THREE.Vector3): void {
+  // parent.worldToLocal(vector): ワールド座標を親のローカル座標に変換する。
+  object.position.copy(object.parent ? object.parent.worldToLocal(position.clone()) : position);
+}
+
+/**
+ * 位置からカメラへ向かう単位ベクトル。平行投影カメラでは、どの位置でも視線の逆向きになる。
+ */
+function directionToCamera(camera: THREE.Camera, position: THREE.Vector3): THREE.Vector3 {
+  if (camera instanceof THREE.OrthographicCamera) return camera.getWorldDirection(new THREE.Vector3()).negate();
+  return camera.getWorldPosition(new THREE.Vector3()).sub(position).normalize();
+}
+
+/**
+ * 位置を通る、カメラに平行な面で、画面の高さに映る範囲（ワールド座標の長さ）
+ */
+function visibleHeight(camera: THREE.Camera, position: THREE.Vector3): number {
+  if (camera instanceof THREE.PerspectiveCamera) {
+    const distance = camera.getWorldPosition(new THREE.Vector3()).distanceTo(position);
+    return (2 * distance * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2)) / camera.zoom;
+  }
+  if (camera instanceof THREE.OrthographicCamera) return (camera.top - camera.bottom) / camera.zoom;
+  return 1;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { sequence, tween, TweenCancelledError, TweenEngine } from './tween-engine';
+
+describe('TweenEngine', () => {
+  it('reverses every other iteration with yoyo', () => {
+    const engine = new TweenEngine();
+    const object = new THREE.Object3D();
+    engine.to(object, { 'position.x': 10 }, { duration: 1, repeat: 2, yoyo: true });
+
+    engine.update(0.25);
+    expect(object.position.x).toBeCloseTo(2.5);
+    engine.update(1);
+    expect(object.position.x).toBeCloseTo(7.5);
+    engine.update(1);
+    expect(object.position.x).toBeCloseTo(2.5);
+    engine.update(1);
+    // 3回目（往路）の終わりで止まる。
+    expect(object.position.x).toBeCloseTo(10);
+    expect(engine.getActiveCount()).toBe(0);
+  });
+
+  it('seeks forwards and backwards through a sequence, even while paused', () => {
+    const engine = new TweenEngine();
+    const object = new THREE.Object3D();
+    const playback = engine.play(sequence([
+      tween(object, { 'position.x': 4 }, { duration: 2 }),
+      tween(object, { 'position.y': 6 }, { duration: 3, delay: 1 })
+    ]));
+    playback.pause();
+
+    playback.seek(4.5);
+    expect(object.position.toArray()).toEqual([4, 3, 0]);
+    // 後ろ向きに移動すると、まだ始まっていないトゥイーンの変更は取り消される。
+    playback.seek(1);
+    expect(object.position.toArray()).toEqual([2, 0, 0]);
+    playback.seek(100);
+    expect(playback.getTime()).toBe(6);
+    expect(playback.getProgress()).toBe(1);
+    expect(object.position.toArray()).toEqual([4, 6, 0]);
+
+    engine.update(1);
+    expect(playback.isPaused()).toBe(true);
+  });
+
+  it('rejects finished when stopped before completing', async () => {
+    const engine = new TweenEngine();
+    const playback = engine.to(new THREE.Object3D(), { 'scale.x': 2 }, { duration: 1 });
+    engine.update(0.5);
+    engine.stopAll();
+
+    await expect(playback.finished).rejects.toBeInstanceOf(TweenCancelledError);
+  });
+});
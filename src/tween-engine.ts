@@ -0,0 +1,478 @@
+/**
+ * Three.js TypeScript Tutorial - 07. Tween Engine
+ *
+ * 「2秒かけて目的地へ移動し、次にマテリアルをフェードアウトし、最後にカメラを回す」といった
+ * 台本どおりの動きを組み立てるためのトゥイーン・タイムラインです。
+ * `THREE.Object3D`・`Material`・カメラの数値プロパティを型付きのパス（'position.x'など）で指定し、
+ * 直列・並列のグループ、待ち時間、繰り返し、往復、一時停止と、時間を直接指定する`seek`に対応します。
+ * 各フレームでは`AbstractSceneManager`が計算した`deltaTime`で進み、完了は`Promise`で待てます。
+ */
+
+import * as THREE from 'three';
+import type {
+  EasingFamily,
+  EasingFunction,
+  EasingName,
+  NumericPath,
+  PlaybackOptions,
+  TweenOptions,
+  TweenValues
+} from '../types/tween-types';
+
+/**
+ * 再生が完了する前に`stop()`された場合に、`finished`のPromiseが拒否される理由
+ */
+export class TweenCancelledError extends Error {
+  constructor() {
+    super('Tween playback was stopped before it finished');
+    this.name = 'TweenCancelledError';
+  }
+}
+
+// ===================================================================
+// Part 1: Easing Functions (イージング関数)
+// ===================================================================
+
+/**
+ * 各系統の「In」（ゆっくり始まる）イージング。Out・InOutはここから導出する。
+ */
+const EASE_IN: Record<EasingFamily, EasingFunction> = {
+  quad: t => t * t,
+  cubic: t => t * t * t,
+  quart: t => t * t * t * t,
+  quint: t => t * t * t * t * t,
+  sine: t => 1 - Math.cos((t * Math.PI) / 2),
+  expo: t => (t === 0 ? 0 : Math.pow(2, 10 * t - 10)),
+  circ: t => 1 - Math.sqrt(1 - t * t),
+  back: t => 2.70158 * t * t * t - 1.70158 * t * t,
+  elastic: t => (t === 0 || t === 1 ? t : -Math.pow(2, 10 * t - 10) * Math.sin((t * 10 - 10.75) * ((2 * Math.PI) / 3))),
+  bounce: t => 1 - bounceOut(1 - t)
+};
+
+function bounceOut(t: number): number {
+  const n1 = 7.5625;
+  const d1 = 2.75;
+  if (t < 1 / d1) return n1 * t * t;
+  if (t < 2 / d1) return n1 * (t -= 1.5 / d1) * t + 0.75;
+  if (t < 2.5 / d1) return n1 * (t -= 2.25 / d1) * t + 0.9375;
+  return n1 * (t -= 2.625 / d1) * t + 0.984375;
+}
+
+function buildEasings(): Record<EasingName, EasingFunction> {
+  const easings = { linear: (t: number) => t } as Record<EasingName, EasingFunction>;
+  (Object.keys(EASE_IN) as EasingFamily[]).forEach(family => {
+    const easeIn = EASE_IN[family];
+    easings[`${family}In`] = easeIn;
+    // Out: Inを時間・値ともに反転させたもの（速く始まり、ゆっくり終わる）
+    easings[`${family}Out`] = t => 1 - easeIn(1 - t);
+    // InOut: 前半をIn、後半をOutでつなぐ
+    easings[`${family}InOut`] = t => (t < 0.5 ? easeIn(t * 2) / 2 : 1 - easeIn(2 - t * 2) / 2);
+  });
+  return easings;
+}
+
+/**
+ * 組み込みのイージング関数
+ * @example Easing.cubicInOut(0.5) // 0.5
+ */
+export const Easing: Readonly<Record<EasingName, EasingFunction>> = buildEasings();
+
+function resolveEasing(easing: EasingName | EasingFunction | undefined): EasingFunction {
+  if (easing === undefined) return Easing.linear;
+  return typeof easing === 'function' ? easing : Easing[easing];
+}
+
+// ===================================================================
+// Part 2: Timeline Nodes (トゥイーンとタイムライン)
+// ===================================================================
+
+/**
+ * トゥイーンとタイムラインの基底クラス
+ * 待ち時間・繰り返し・往復はここで処理し、派生クラスは1回分の再生だけを描画する。
+ * `render(time)`は同じ時間に対して常に同じ状態を書き込むため、任意の時間へ`seek`できる。
+ */
+export abstract class TimelineNode {
+  protected readonly delay: number;
+  protected readonly repeat: number;
+  protected readonly yoyo: boolean;
+
+  constructor(options: PlaybackOptions = {}) {
+    this.delay = Math.max(0, options.delay ?? 0);
+    this.repeat = Math.max(0, options.repeat ?? 0);
+    this.yoyo = options.yoyo ?? false;
+  }
+
+  /** 1回分の再生時間（秒） */
+  protected abstract getIterationDuration(): number;
+  /** 1回分の再生の中の`time`秒の状態を書き込む */
+  protected abstract renderIteration(time: number): void;
+  /**
+   * 一度でも描画されていれば、開始前の状態に戻す。
+   * 後ろ向きに`seek`したときに、まだ始まっていないノードの変更を取り消すために使う。
+   */
+  public abstract reset(): void;
+
+  /**
+   * 待ち時間と繰り返しを含めた全体の長さ（秒）。無限に繰り返す場合はInfinity
+   */
+  public get duration(): number {
+    const iteration = this.getIterationDuration();
+    if (iteration === 0) return this.delay;
+    return this.delay + iteration * (this.repeat + 1);
+  }
+
+  /**
+   * 開始から`time`秒の状態を書き込みます。待ち時間の間は開始前の状態になります。
+   */
+  public render(time: number): void {
+    const elapsed = time - this.delay;
+    if (elapsed < 0) {
+      this.reset();
+      return;
+    }
+
+    const iteration = this.getIterationDuration();
+    if (iteration === 0) {
+      this.renderIteration(0);
+      return;
+    }
+
+    let count: number;
+    let local: number;
+    if (elapsed >= iteration * (this.repeat + 1)) {
+      count = this.repeat;
+      local = iteration;
+    } else {
+      count = Math.floor(elapsed / iteration);
+      local = elapsed - count * iteration;
+    }
+    // 往復: 奇数回目の再生は逆方向に進める
+    if (this.yoyo && count % 2 === 1) local = iteration - local;
+    this.renderIteration(local);
+  }
+}
+
+/**
+ * 1つの対象の数値プロパティを、開始値から目標値へ補間するトゥイーン
+ */
+export class Tween<T extends object> extends TimelineNode {
+  private readonly easing: EasingFunction;
+  private readonly paths: NumericPath<T>[];
+  private from: Map<NumericPath<T>, number> | null = null;
+
+  constructor(
+    public readonly target: T,
+    private readonly to: TweenValues<T>,
+    private readonly options: TweenOptions<T>
+  ) {
+    super(options);
+    this.easing = resolveEasing(options.easing);
+    this.paths = Object.keys(to) as NumericPath<T>[];
+    this.paths.forEach(path => resolvePath(target, path));
+  }
+
+  protected getIterationDuration(): number {
+    return Math.max(0, this.options.duration);
+  }
+
+  protected renderIteration(time: number): void {
+    // 開始値は最初に描画された時点で記録する。
+    // 直列のタイムラインでは、前のトゥイーンが終わった後の値が開始値になる。
+    const from = this.from ?? this.captureFrom();
+    const duration = this.getIterationDuration();
+    const progress = duration === 0 ? 1 : THREE.MathUtils.clamp(time / duration, 0, 1);
+    const eased = this.easing(progress);
+
+    this.paths.forEach(path => {
+      const start = from.get(path) as number;
+      const end = this.to[path] as number;
+      const { owner, key } = resolvePath(this.target, path);
+      owner[key] = start + (end - start) * eased;
+    });
+    this.afterWrite(progress);
+  }
+
+  public reset(): void {
+    if (!this.from) return;
+    this.from.forEach((value, path) => {
+      const { owner, key } = resolvePath(this.target, path);
+      owner[key] = value;
+    });
+    this.afterWrite(0);
+  }
+
+  private afterWrite(progress: number): void {
+    if (this.target instanceof THREE.Material && 'opacity' in this.to) {
+      // 不透明度は transparent が true のときだけ描画に反映される。
+      this.target.transparent = this.target.transparent || this.target.opacity < 1;
+    }
+    if (this.target instanceof THREE.PerspectiveCamera || this.target instanceof THREE.OrthographicCamera) {
+      // camera.updateProjectionMatrix(): fovやzoomなどの変更を投影行列に反映する。
+      this.target.updateProjectionMatrix();
+    }
+    this.options.onUpdate?.(this.target, progress);
+  }
+
+  private captureFrom(): Map<NumericPath<T>, number> {
+    const from = new Map<NumericPath<T>, number>();
+    this.paths.forEach(path => {
+      const { owner, key } = resolvePath(this.target, path);
+      from.set(path, this.options.from?.[path] ?? (owner[key] as number));
+    });
+    this.from = from;
+    return from;
+  }
+}
+
+/**
+ * 'position.x'のようなパスを、書き込み先のオブジェクトとプロパティ名に分解する
+ */
+function resolvePath(target: object, path: string): { owner: Record<string, unknown>; key: string } {
+  const keys = path.split('.');
+  const key = keys.pop() as string;
+  let owner: unknown = target;
+  keys.forEach(part => {
+    owner = typeof owner === 'object' && owner !== null ? (owner as Record<string, unknown>)[part] : undefined;
+  });
+  if (typeof owner !== 'object' || owner === null || typeof (owner as Record<string, unknown>)[key] !== 'number') {
+    throw new TypeError(`Tween path "${path}" does not point to a numeric property`);
+  }
+  return { owner: owner as Record<string, unknown>, key };
+}
+
+/**
+ * 複数のトゥイーンやタイムラインを、開始時間を指定して並べるグループ
+ *
+ * @example
+ * const timeline = new Timeline()
+ *   .then(tween(mesh, { 'position.x': 3 }, { duration: 2, easing: 'cubicInOut' }))
+ *   .then(tween(material, { opacity: 0 }, { duration: 1 }))
+ *   .with(tween(camera, { 'rotation.y': Math.PI / 2 }, { duration: 1 }));
+ */
+export class Timeline extends TimelineNode {
+  private readonly children: { node: TimelineNode; start: number }[] = [];
+  private lastStart = 0;
+
+  /**
+   * 指定した時間（秒）にノードを配置します。省略した場合は現在の末尾に配置します。
+   */
+  public add(node: TimelineNode, start: number = this.getIterationDuration()): this {
+    this.children.push({ node, start: Math.max(0, start) });
+    // 描画は開始時間の順に行い、同じプロパティは後から始まるノードの値で上書きされるようにする。
+    this.children.sort((a, b) => a.start - b.start);
+    this.lastStart = start;
+    return this;
+  }
+
+  /**
+   * 現在の末尾にノードを追加します（直列）。
+   */
+  public then(node: TimelineNode): this {
+    return this.add(node);
+  }
+
+  /**
+   * 直前に追加したノードと同時にノードを開始します（並列）。
+   */
+  public with(node: TimelineNode): this {
+    return this.add(node, this.lastStart);
+  }
+
+  protected getIterationDuration(): number {
+    return this.children.reduce((end, child) => Math.max(end, child.start + child.node.duration), 0);
+  }
+
+  protected renderIteration(time: number): void {
+    // まだ始まっていないノードを後ろから順に開始前の状態へ戻してから、
+    // 始まっているノードを前から順に描画する。
+    [...this.children].reverse().forEach(child => {
+      if (time < child.start) child.node.reset();
+    });
+    this.children.forEach(child => {
+      if (time >= child.start) child.node.render(time - child.start);
+    });
+  }
+
+  public reset(): void {
+    [...this.children].reverse().forEach(child => child.node.reset());
+  }
+}
+
+/**
+ * トゥイーンを作成します。
+ * @example tween(mesh, { 'position.x': 3, 'position.z': -2 }, { duration: 2, easing: 'quadOut' })
+ */
+export function tween<T extends object>(target: T, to: TweenValues<T>, options: TweenOptions<T>): Tween<T> {
+  return new Tween(target, to, options);
+}
+
+/**
+ * ノードを順番に再生するタイムラインを作成します。
+ */
+export function sequence(nodes: readonly TimelineNode[], options: PlaybackOptions = {}): Timeline {
+  const timeline = new Timeline(options);
+  nodes.forEach(node => timeline.then(node));
+  return timeline;
+}
+
+/**
+ * ノードを同時に再生するタイムラインを作成します。
+ */
+export function parallel(nodes: readonly TimelineNode[], options: PlaybackOptions = {}): Timeline {
+  const timeline = new Timeline(options);
+  nodes.forEach(node => timeline.add(node, 0));
+  return timeline;
+}
+
+/**
+ * 何もせずに待つだけのノードを作成します。`sequence`の間に挟んで使います。
+ */
+export function wait(seconds: number): Timeline {
+  return new Timeline({ delay: seconds });
+}
+
+// ===================================================================
+// Part 3: Playback (再生の管理)
+// ===================================================================
+
+type PlaybackState = 'playing' | 'completed' | 'stopped';
+
+/**
+ * `TweenEngine.play`が返す、1つの再生を操作するハンドル
+ */
+export class TweenPlayback {
+  private time = 0;
+  private paused = false;
+  private state: PlaybackState = 'playing';
+  private promise: Promise<void> | null = null;
+  private resolve: (() => void) | null = null;
+  private reject: ((reason: TweenCancelledError) => void) | null = null;
+
+  constructor(public readonly node: TimelineNode) {}
+
+  /**
+   * 再生が完了すると解決されるPromise。完了前に`stop()`された場合は`TweenCancelledError`で拒否されます。
+   */
+  public get finished(): Promise<void> {
+    if (!this.promise) {
+      this.promise = new Promise<void>((resolve, reject) => {
+        this.resolve = resolve;
+        this.reject = reject;
+      });
+      if (this.state === 'completed') this.resolve?.();
+      if (this.state === 'stopped') this.reject?.(new TweenCancelledError());
+    }
+    return this.promise;
+  }
+
+  public pause(): void {
+    this.paused = true;
+  }
+
+  public resume(): void {
+    this.paused = false;
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  public isPlaying(): boolean {
+    return this.state === 'playing' && !this.paused;
+  }
+
+  /**
+   * 再生位置を`time`秒に移動し、その時点の状態を書き込みます。
+   * 一時停止中でも反映されるため、スライダーなどでのスクラブ操作に使えます。
+   */
+  public seek(time: number): void {
+    this.time = THREE.MathUtils.clamp(time, 0, this.node.duration);
+    this.node.render(this.time);
+  }
+
+  public getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * 0〜1の進行度。無限に繰り返す場合は常に0
+   */
+  public getProgress(): number {
+    const duration = this.node.duration;
+    if (!Number.isFinite(duration)) return 0;
+    return duration === 0 ? 1 : this.time / duration;
+  }
+
+  /**
+   * 再生を中止します。オブジェクトはその時点の状態のまま残ります。
+   */
+  public stop(): void {
+    if (this.state !== 'playing') return;
+    this.state = 'stopped';
+    this.reject?.(new TweenCancelledError());
+  }
+
+  /**
+   * `deltaTime`秒だけ再生を進めます。再生が続いている間はtrueを返します。
+   */
+  public advance(deltaTime: number): boolean {
+    if (this.state !== 'playing') return false;
+    if (this.paused) return true;
+
+    const duration = this.node.duration;
+    this.time = Math.min(this.time + deltaTime, duration);
+    this.node.render(this.time);
+    if (this.time >= duration) {
+      this.state = 'completed';
+      this.resolve?.();
+      return false;
+    }
+    return true;
+  }
+}
+
+/**
+ * 再生中のトゥイーン・タイムラインをまとめて進めるエンジン
+ */
+export class TweenEngine {
+  private playbacks = new Set<TweenPlayback>();
+
+  /**
+   * ノードの再生を開始します。
+   */
+  public play(node: TimelineNode): TweenPlayback {
+    const playback = new TweenPlayback(node);
+    this.playbacks.add(playback);
+    node.render(0);
+    return playback;
+  }
+
+  /**
+   * トゥイーンを作成してすぐに再生します。
+   * @example await manager.tweens.to(mesh, { 'position.y': 2 }, { duration: 1 }).finished;
+   */
+  public to<T extends object>(target: T, values: TweenValues<T>, options: TweenOptions<T>): TweenPlayback {
+    return this.play(tween(target, values, options));
+  }
+
+  /**
+   * 再生中の全てのノードを`deltaTime`秒だけ進めます。毎フレーム呼び出します。
+   */
+  public update(deltaTime: number): void {
+    this.playbacks.forEach(playback => {
+      if (!playback.advance(deltaTime)) this.playbacks.delete(playback);
+    });
+  }
+
+  /**
+   * 再生中の全てのノードを中止します。
+   */
+  public stopAll(): void {
+    this.playbacks.forEach(playback => playback.stop());
+    this.playbacks.clear();
+  }
+
+  public getActiveCount(): number {
+    return this.playbacks.size;
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Three.js TypeScript Tutorial - 12. Type Registry
+ *
+ * `TypedGeometryFactory`が作成できるジオメトリ・マテリアルのタイプを登録する仕組みです。
+ * 組み込みのタイプ（'box'や'standard'など）もこの仕組みで登録されているため、
+ * 独自のタイプも組み込みのタイプと同じように、設定オブジェクトから作成・キャッシュ・保存できます。
+ *
+ * 型の追加は宣言のマージ（declaration merging）で、実行時の作成方法の追加は`registerGeometryType`で行います。
+ *
+ * @example
+ * // 1. 型を追加する
+ * declare module '../types/geometry-types' {
+ *   interface GeometryTypeMap {
+ *     gear: { config: GearGeometryConfig; instance: THREE.ExtrudeGeometry };
+ *   }
+ * }
+ *
+ * // 2. 作成方法を登録する
+ * registerGeometryType('gear', {
+ *   defaults: { teeth: 12, radius: 1, depth: 0.2 },
+ *   create: config => new THREE.ExtrudeGeometry(gearShape(config.teeth, config.radius), { depth: config.depth })
+ * });
+ *
+ * // 3. 組み込みのタイプと同じように使う（configは型チェックされる）
+ * const gear = TypedGeometryFactory.createGeometry('gear', { teeth: 24 });
+ */
+
+import type * as THREE from 'three';
+import type {
+  GeometryConfigOf,
+  GeometryInstance,
+  GeometryType,
+  MaterialConfigOf,
+  MaterialInstance,
+  MaterialType
+} from '../types/geometry-types';
+import type { ResolvedTextures } from '../types/texture-types';
+
+// ===================================================================
+// Part 1: Errors (エラー)
+// ===================================================================
+
+/**
+ * 登録の対象（ジオメトリかマテリアルか）
+ */
+export type RegistryKind = 'geometry' | 'material';
+
+/**
+ * 登録済みの名前で、もう一度タイプを登録しようとした場合のエラー
+ */
+export class DuplicateTypeError extends Error {
+  constructor(public readonly kind: RegistryKind, public readonly typeName: string) {
+    super(`The ${kind} type "${typeName}" is already registered`);
+    this.name = 'DuplicateTypeError';
+  }
+}
+
+/**
+ * 登録されていないタイプを作成しようとした場合のエラー
+ */
+export class UnregisteredTypeError extends Error {
+  constructor(public readonly kind: RegistryKind, public readonly typeName: string) {
+    super(`The ${kind} type "${typeName}" is not registered`);
+    this.name = 'UnregisteredTypeError';
+  }
+}
+
+// ===================================================================
+// Part 2: Definitions (タイプの定義)
+// ===================================================================
+
+/**
+ * ジオメトリタイプの定義
+ */
+export interface GeometryTypeDefinition<T extends GeometryType> {
+  /** 省略されたフィールドを補うデフォルト値。設定の正規化（キャッシュのキー）や保存にも使われる */
+  defaults: Readonly<Required<GeometryConfigOf<T>>>;
+  /** デフォルト値を補った設定からジオメトリを作成する */
+  create: (config: Required<GeometryConfigOf<T>>) => GeometryInstance<T>;
+  /**
+   * Three.jsのジオメトリクラスの`type`（例: 'BoxGeometry'）。
+   * 指定すると、ファクトリー以外で作られたジオメトリも`geometry.parameters`から設定を読み取れる
+   */
+  classType?: string;
+}
+
+/**
+ * マテリアルタイプの定義
+ */
+export interface MaterialTypeDefinition<T extends MaterialType> {
+  /** 省略されたフィールドを補うデフォルト値 */
+  defaults: Readonly<Required<MaterialConfigOf<T>>>;
+  /** デフォルト値を補い、`TextureConfig`をテクスチャに変換した設定からマテリアルを作成する */
+  create: (config: ResolvedTextures<Required<MaterialConfigOf<T>>>) => MaterialInstance<T>;
+  /**
+   * Three.jsのマテリアルクラスの`type`（例: 'MeshStandardMaterial'）。
+   * 指定すると、ファクトリー以外で作られたマテリアルもこのタイプとして読み取れる
+   */
+  classType?: string;
+  /**
+   * マテリアルから設定を読み取る。プロパティ名と設定のフィールド名が同じでも値の形が違う場合に使う
+   * （例: シェーダーマテリアルの`uniforms`は`{ value }`の形で保持される）。
+   * 返さなかったフィールドは、同じ名前のプロパティから読み取られる
+   */
+  describe?: (material: MaterialInstance<T>) => Partial<MaterialConfigOf<T>>;
+}
+
+// ===================================================================
+// Part 3: Registry (登録と取得)
+// ===================================================================
+
+// 登録された順番を保つため、Mapを使う。
+const geometryDefinitions = new Map<string, GeometryTypeDefinition<GeometryType>>();
+const materialDefinitions = new Map<string, MaterialTypeDefinition<MaterialType>>();
+
+/**
+ * ジオメトリタイプを登録します。
+ * @throws {DuplicateTypeError} 同じ名前のタイプが登録済みの場合
+ */
+export function registerGeometryType<T extends GeometryType>(type: T, definition: GeometryTypeDefinition<T>): void {
+  if (geometryDefinitions.has(type)) throw new DuplicateTypeError('geometry', type);
+  geometryDefinitions.set(type, definition as unknown as GeometryTypeDefinition<GeometryType>);
+}
+
+/**
+ * マテリアルタイプを登録します。
+ * @throws {DuplicateTypeError} 同じ名前のタイプが登録済みの場合
+ */
+export function registerMaterialType<T extends MaterialType>(type: T, definition: MaterialTypeDefinition<T>): void {
+  if (materialDefinitions.has(type)) throw new DuplicateTypeError('material', type);
+  materialDefinitions.set(type, definition as unknown as MaterialTypeDefinition<MaterialType>);
+}
+
+/**
+ * 登録されたジオメトリタイプの定義を取得します。
+ * @throws {UnregisteredTypeError} タイプが登録されていない場合
+ */
+export function getGeometryDefinition<T extends GeometryType>(type: T): GeometryTypeDefinition<T> {
+  const definition = geometryDefinitions.get(type);
+  if (!definition) throw new UnregisteredTypeError('geometry', type);
+  return definition as unknown as GeometryTypeDefinition<T>;
+}
+
+/**
+ * 登録されたマテリアルタイプの定義を取得します。
+ * @throws {UnregisteredTypeError} タイプが登録されていない場合
+ */
+export function getMaterialDefinition<T extends MaterialType>(type: T): MaterialTypeDefinition<T> {
+  const definition = materialDefinitions.get(type);
+  if (!definition) throw new UnregisteredTypeError('material', type);
+  return definition as unknown as MaterialTypeDefinition<T>;
+}
+
+/**
+ * ジオメトリタイプが登録されているかどうか（JSONなど型のない値の判定に使う）
+ */
+export function isGeometryTypeRegistered(type: unknown): type is GeometryType {
+  return typeof type === 'string' && geometryDefinitions.has(type);
+}
+
+/**
+ * マテリアルタイプが登録されているかどうか
+ */
+export function isMaterialTypeRegistered(type: unknown): type is MaterialType {
+  return typeof type === 'string' && materialDefinitions.has(type);
+}
+
+/**
+ * 登録済みのジオメトリタイプを、登録された順に取得します。
+ */
+export function getRegisteredGeometryTypes(): GeometryType[] {
+  return [...geometryDefinitions.keys()] as GeometryType[];
+}
+
+/**
+ * 登録済みのマテリアルタイプを、登録された順に取得します。
+ */
+export function getRegisteredMaterialTypes(): MaterialType[] {
+  return [...materialDefinitions.keys()] as MaterialType[];
+}
+
+/**
+ * Three.jsのクラスの`type`から、登録済みのタイプを探します。
+ */
+export function findGeometryTypeByClass(geometry: THREE.BufferGeometry): GeometryType | null {
+  for (const [type, definition] of geometryDefinitions) {
+    if (definition.classType === geometry.type) return type as GeometryType;
+  }
+  return null;
+}
+
+export function findMaterialTypeByClass(material: THREE.Material): MaterialType | null {
+  for (const [type, definition] of materialDefinitions) {
+    if (definition.classType === material.type) return type as MaterialType;
+  }
+  return null;
+}
@@ -5,219 +5,901 @@
 
 import * as THREE from 'three';
 import type {
+  BuiltinGeometryType,
+  BuiltinMaterialType,
   GeometryType,
   MaterialType,
   GeometryConfig,
   MaterialConfig,
+  GeometryConfigOf,
+  MaterialConfigOf,
   GeometryInstance,
   MaterialInstance,
   RequiredObjectConfig,
-  ObjectConfig
+  ShaderMaterialConfig,
+  ObjectConfig,
+  BaseMaterialConfig,
+  LambertMaterialConfig,
+  StandardMaterialConfig
 } from '../types/geometry-types';
+import { InstancedBatch } from './instanced-batch';
+import {
+  PARAMETRIC_DEFAULTS,
+  ParametricSurfaceGeometry,
+  TERRAIN_DEFAULTS,
+  TerrainGeometry
+} from './procedural-geometry';
+import {
+  findGeometryTypeByClass,
+  findMaterialTypeByClass,
+  getGeometryDefinition,
+  getMaterialDefinition,
+  registerGeometryType,
+  registerMaterialType
+} from './type-registry';
+import type { GeometryTypeDefinition, MaterialTypeDefinition } from './type-registry';
+import {
+  buildShaderMaterial,
+  decodeUniformValue,
+  DEFAULT_FRAGMENT_SHADER,
+  DEFAULT_VERTEX_SHADER,
+  describeShaderMaterial,
+  isEncodedUniformValue,
+  ShaderHandle
+} from './shader-material';
+import { isTextureConfig, sharedTextureManager, textureConfigKey, TextureManager, TEXTURE_SLOTS } from './texture-manager';
+import type { ResourceCache } from './resource-cache';
+import { getOriginalMaterial } from './selection-manager';
+import type { ResolvedTextures } from '../types/texture-types';
+import type { TypedShaderMaterial, UniformDeclarations } from '../types/shader-types';
+
+// ===================================================================
+// Part 0: Defaults (デフォルト値)
+// ===================================================================
+
+const TWO_PI = Math.PI * 2;
+
+/**
+ * ジオメトリ設定のデフォルト値。`types/geometry-types.ts`に記載された値と一致させる。
+ * 省略されたフィールドはここの値で補われる。
+ */
+export const GEOMETRY_DEFAULTS: { readonly [K in BuiltinGeometryType]: Readonly<Required<GeometryConfigOf<K>>> } = {
+  box: { width: 1, height: 1, depth: 1, widthSegments: 1, heightSegments: 1, depthSegments: 1 },
+  sphere: {
+    radius: 1, widthSegments: 32, heightSegments: 16,
+    phiStart: 0, phiLength: TWO_PI, thetaStart: 0, thetaLength: Math.PI
+  },
+  cone: {
+    radius: 1, height: 1, radialSegments: 32, heightSegments: 1,
+    openEnded: false, thetaStart: 0, thetaLength: TWO_PI
+  },
+  cylinder: {
+    radiusTop: 1, radiusBottom: 1, height: 1, radialSegments: 32, heightSegments: 1,
+    openEnded: false, thetaStart: 0, thetaLength: TWO_PI
+  },
+  torus: { radius: 1, tube: 0.4, radialSegments: 12, tubularSegments: 48, arc: TWO_PI },
+  plane: { width: 1, height: 1, widthSegments: 1, heightSegments: 1 },
+  ring: { innerRadius: 0.5, outerRadius: 1, thetaSegments: 32, phiSegments: 1, thetaStart: 0, thetaLength: TWO_PI },
+  circle: { radius: 1, segments: 32, thetaStart: 0, thetaLength: TWO_PI },
+  dodecahedron: { radius: 1, detail: 0 },
+  icosahedron: { radius: 1, detail: 0 },
+  octahedron: { radius: 1, detail: 0 },
+  tetrahedron: { radius: 1, detail: 0 },
+  capsule: { radius: 1, height: 1, capSegments: 4, radialSegments: 8, heightSegments: 1 },
+  torusKnot: { radius: 1, tube: 0.4, tubularSegments: 64, radialSegments: 8, p: 2, q: 3 },
+  lathe: {
+    points: [{ x: 0, y: -0.5 }, { x: 0.5, y: 0 }, { x: 0, y: 0.5 }],
+    segments: 12, phiStart: 0, phiLength: TWO_PI
+  },
+  extrude: {
+    shape: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }],
+    holes: [], depth: 1, steps: 1, curveSegments: 12,
+    bevelEnabled: true, bevelThickness: 0.2, bevelSize: 0.1, bevelOffset: 0, bevelSegments: 3
+  },
+  tube: {
+    path: [{ x: -1, y: -1, z: 0 }, { x: -1, y: 1, z: 0 }, { x: 1, y: 1, z: 0 }],
+    tubularSegments: 64, radius: 1, radialSegments: 8, closed: false, curveType: 'centripetal', tension: 0.5
+  },
+  terrain: TERRAIN_DEFAULTS,
+  parametric: PARAMETRIC_DEFAULTS
+};
+
+const BASE_MATERIAL_DEFAULTS: Required<BaseMaterialConfig> = {
+  color: 0xffffff,
+  transparent: false,
+  opacity: 1,
+  visible: true,
+  side: THREE.FrontSide,
+  wireframe: false,
+  vertexColors: false
+};
+
+const LAMBERT_MATERIAL_DEFAULTS: Required<LambertMaterialConfig> = {
+  ...BASE_MATERIAL_DEFAULTS,
+  emissive: 0x000000,
+  emissiveIntensity: 1,
+  map: null
+};
+
+const STANDARD_MATERIAL_DEFAULTS: Required<StandardMaterialConfig> = {
+  ...BASE_MATERIAL_DEFAULTS,
+  roughness: 1,
+  metalness: 0,
+  emissive: 0x000000,
+  emissiveIntensity: 1,
+  envMapIntensity: 1,
+  map: null,
+  normalMap: null,
+  roughnessMap: null,
+  metalnessMap: null
+};
+
+/**
+ * マテリアル設定のデフォルト値。`types/geometry-types.ts`に記載された値と一致させる。
+ */
+export const MATERIAL_DEFAULTS: { readonly [K in BuiltinMaterialType]: Readonly<Required<MaterialConfigOf<K>>> } = {
+  basic: BASE_MATERIAL_DEFAULTS,
+  lambert: LAMBERT_MATERIAL_DEFAULTS,
+  phong: { ...LAMBERT_MATERIAL_DEFAULTS, specular: 0x111111, shininess: 30 },
+  standard: STANDARD_MATERIAL_DEFAULTS,
+  physical: { ...STANDARD_MATERIAL_DEFAULTS, clearcoat: 0, clearcoatRoughness: 0, transmission: 0, thickness: 0 },
+  toon: BASE_MATERIAL_DEFAULTS,
+  normal: BASE_MATERIAL_DEFAULTS,
+  depth: BASE_MATERIAL_DEFAULTS,
+  wireframe: { ...BASE_MATERIAL_DEFAULTS, wireframe: true },
+  shader: {
+    ...BASE_MATERIAL_DEFAULTS,
+    vertexShader: DEFAULT_VERTEX_SHADER,
+    fragmentShader: DEFAULT_FRAGMENT_SHADER,
+    uniforms: {},
+    defines: {},
+    timeUniform: 'time'
+  }
+};
+
+/**
+ * 設定にデフォルト値を補います。値がundefinedのフィールドもデフォルト値で置き換えます。
+ */
+export function withDefaults<T extends object>(defaults: Readonly<Required<T>>, config: T): Required<T> {
+  const result = { ...defaults } as Required<T>;
+  (Object.keys(config) as (keyof T)[]).forEach(key => {
+    if (config[key] !== undefined) result[key] = config[key] as Required<T>[keyof T];
+  });
+  return result;
+}
+
+// 色として解釈するマテリアルのフィールド。'red'・'#ff0000'・0xff0000を同じキーにまとめる。
+const COLOR_FIELDS = new Set(['color', 'emissive', 'specular']);
+
+/**
+ * ジオメトリ設定を、同じ形状なら同じになる文字列キーに変換します。
+ * デフォルト値を補ってからキーの順番をそろえるため、省略の有無や記述順が違っても同じキーになります。
+ */
+export function geometryConfigKey(config: GeometryConfig): string {
+  const normalized = withDefaults<object>(getGeometryDefinition(config.type).defaults, config.config ?? {});
+  const entries = Object.entries(normalized).map(([key, value]): [string, unknown] =>
+    [key, isReferenceValue(value) ? `ref:${referenceId(value)}` : value]
+  );
+  return `geometry:${config.type}:${stableStringify(Object.fromEntries(entries))}`;
+}
+
+/**
+ * マテリアル設定を、同じ見た目なら同じになる文字列キーに変換します。
+ * 色は16進数に、テクスチャはUUIDに、テクスチャ設定はデフォルト値を補ったキーに正規化します。
+ */
+export function materialConfigKey(config: MaterialConfig): string {
+  const normalized = withDefaults<object>(getMaterialDefinition(config.type).defaults, config.config ?? {});
+  const entries = Object.entries(normalized).map(([key, value]): [string, unknown] => {
+    if (value instanceof THREE.Texture) return [key, `texture:${value.uuid}`];
+    if (isTextureConfig(value)) return [key, `texture:${textureConfigKey(value, TEXTURE_SLOTS[key] ?? 'data')}`];
+    if (isPlainRecord(value)) {
+      // シェーダーマテリアルのuniformsのように、値に色やベクトルを含むオブジェクト
+      const nested = Object.entries(value).map(([name, item]): [string, unknown] => [name, nestedKeyValue(item)]);
+      return [key, stableStringify(Object.fromEntries(nested))];
+    }
+    if (value instanceof THREE.Color || (COLOR_FIELDS.has(key) && value !== null)) {
+      // new THREE.Color(value).getHex(): どの形式の色も0xRRGGBBの数値にそろえる。
+      return [key, new THREE.Color(value as THREE.ColorRepresentation).getHex()];
+    }
+    return [key, value];
+  });
+  return `material:${config.type}:${stableStringify(Object.fromEntries(entries))}`;
+}
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function nestedKeyValue(value: unknown): unknown {
+  // { type: 'vec3', value: [...] }の形のuniformは、Three.jsの値と同じキーにする。
+  if (isEncodedUniformValue(value)) return nestedKeyValue(decodeUniformValue(value));
+  if (value instanceof THREE.Texture) return `texture:${value.uuid}`;
+  if (value instanceof THREE.Color) return value.getHex();
+  // THREE.Vector3やTHREE.Matrix4などは、成分の配列にする。
+  if (typeof value === 'object' && value !== null && 'toArray' in value && typeof value.toArray === 'function') {
+    return (value as { toArray(): number[] }).toArray();
+  }
+  return value;
+}
+
+// 関数（パラメトリック曲面）やImageData（ハイトマップ）のようにJSONで内容を表せない値は、
+// オブジェクトごとに割り当てた番号でキーにする。
+const referenceIds = new WeakMap<object, number>();
+let nextReferenceId = 0;
+
+function isReferenceValue(value: unknown): value is object {
+  if (typeof value === 'function') return true;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  return Object.getPrototypeOf(value) !== Object.prototype;
+}
+
+function referenceId(value: object): number {
+  let id = referenceIds.get(value);
+  if (id === undefined) {
+    id = nextReferenceId++;
+    referenceIds.set(value, id);
+  }
+  return id;
+}
+
+// キーをアルファベット順に並べてJSON文字列にする
+function stableStringify(value: object): string {
+  const record = value as Record<string, unknown>;
+  return JSON.stringify(Object.keys(record).sort().map(key => [key, record[key]]));
+}
 
 // ===================================================================
 // Part 1: The "Parts" Factory (部品工場)
 // ===================================================================
 
+// 組み込みのタイプの作成方法。独自のタイプと同じく`registerGeometryType`・`registerMaterialType`で登録する。
+// マップ型を使うことで、組み込みのタイプを追加した際に定義の追加漏れがコンパイルエラーになる。
+const BUILTIN_GEOMETRY_TYPES: { [K in BuiltinGeometryType]: GeometryTypeDefinition<K> } = {
+  box: {
+    defaults: GEOMETRY_DEFAULTS.box,
+    classType: 'BoxGeometry',
+    create: cfg => {
+      // new THREE.BoxGeometry(width, height, depth, widthSegments, heightSegments, depthSegments): 立方体の形状を作成。
+      return new THREE.BoxGeometry(
+        cfg.width, cfg.height, cfg.depth,
+        cfg.widthSegments, cfg.heightSegments, cfg.depthSegments
+      );
+    }
+  },
+  sphere: {
+    defaults: GEOMETRY_DEFAULTS.sphere,
+    classType: 'SphereGeometry',
+    create: cfg => {
+      // new THREE.SphereGeometry(radius, widthSegments, heightSegments, phiStart, phiLength, thetaStart, thetaLength): 球体の形状を作成。
+      // widthSegments/heightSegmentsはポリゴンの分割数。大きいほど滑らかな球になる。
+      // phi/thetaの開始角度と範囲を指定すると、半球などの一部分だけを作成できる。
+      return new THREE.SphereGeometry(
+        cfg.radius, cfg.widthSegments, cfg.heightSegments,
+        cfg.phiStart, cfg.phiLength, cfg.thetaStart, cfg.thetaLength
+      );
+    }
+  },
+  cone: {
+    defaults: GEOMETRY_DEFAULTS.cone,
+    classType: 'ConeGeometry',
+    create: cfg => {
+      // new THREE.ConeGeometry(radius, height, radialSegments, heightSegments, openEnded, thetaStart, thetaLength): 円錐の形状を作成。
+      // openEnded: trueにすると底面が作られず、中が空洞になる。
+      return new THREE.ConeGeometry(
+        cfg.radius, cfg.height, cfg.radialSegments, cfg.heightSegments,
+        cfg.openEnded, cfg.thetaStart, cfg.thetaLength
+      );
+    }
+  },
+  cylinder: {
+    defaults: GEOMETRY_DEFAULTS.cylinder,
+    classType: 'CylinderGeometry',
+    create: cfg => {
+      // new THREE.CylinderGeometry(radiusTop, radiusBottom, height, radialSegments, heightSegments, openEnded, thetaStart, thetaLength): 円柱の形状を作成。
+      return new THREE.CylinderGeometry(
+        cfg.radiusTop, cfg.radiusBottom, cfg.height, cfg.radialSegments, cfg.heightSegments,
+        cfg.openEnded, cfg.thetaStart, cfg.thetaLength
+      );
+    }
+  },
+  torus: {
+    defaults: GEOMETRY_DEFAULTS.torus,
+    classType: 'TorusGeometry',
+    create: cfg => {
+      // new THREE.TorusGeometry(radius, tube, radialSegments, tubularSegments, arc): ドーナツ型の形状を作成。
+      // arc: 2πより小さくすると、ドーナツの一部分（円弧）だけになる。
+      return new THREE.TorusGeometry(
+        cfg.radius, cfg.tube, cfg.radialSegments, cfg.tubularSegments, cfg.arc
+      );
+    }
+  },
+  plane: {
+    defaults: GEOMETRY_DEFAULTS.plane,
+    classType: 'PlaneGeometry',
+    create: cfg => {
+      // new THREE.PlaneGeometry(width, height, widthSegments, heightSegments): 平面の形状を作成。
+      return new THREE.PlaneGeometry(
+        cfg.width, cfg.height, cfg.widthSegments, cfg.heightSegments
+      );
+    }
+  },
+  dodecahedron: {
+    defaults: GEOMETRY_DEFAULTS.dodecahedron,
+    classType: 'DodecahedronGeometry',
+    create: cfg => {
+      // new THREE.DodecahedronGeometry(radius, detail): 十二面体の形状を作成。
+      return new THREE.DodecahedronGeometry(cfg.radius, cfg.detail);
+    }
+  },
+  icosahedron: {
+    defaults: GEOMETRY_DEFAULTS.icosahedron,
+    classType: 'IcosahedronGeometry',
+    create: cfg => {
+      // new THREE.IcosahedronGeometry(radius, detail): 二十面体の形状を作成。
+      return new THREE.IcosahedronGeometry(cfg.radius, cfg.detail);
+    }
+  },
+  octahedron: {
+    defaults: GEOMETRY_DEFAULTS.octahedron,
+    classType: 'OctahedronGeometry',
+    create: cfg => {
+      // new THREE.OctahedronGeometry(radius, detail): 八面体の形状を作成。
+      return new THREE.OctahedronGeometry(cfg.radius, cfg.detail);
+    }
+  },
+  tetrahedron: {
+    defaults: GEOMETRY_DEFAULTS.tetrahedron,
+    classType: 'TetrahedronGeometry',
+    create: cfg => {
+      // new THREE.TetrahedronGeometry(radius, detail): 四面体の形状を作成。
+      return new THREE.TetrahedronGeometry(cfg.radius, cfg.detail);
+    }
+  },
+  ring: {
+    defaults: GEOMETRY_DEFAULTS.ring,
+    classType: 'RingGeometry',
+    create: cfg => {
+      // new THREE.RingGeometry(innerRadius, outerRadius, thetaSegments, phiSegments, thetaStart, thetaLength): リング（輪）の形状を作成。
+      return new THREE.RingGeometry(
+        cfg.innerRadius, cfg.outerRadius, cfg.thetaSegments, cfg.phiSegments,
+        cfg.thetaStart, cfg.thetaLength
+      );
+    }
+  },
+  circle: {
+    defaults: GEOMETRY_DEFAULTS.circle,
+    classType: 'CircleGeometry',
+    create: cfg => {
+      // new THREE.CircleGeometry(radius, segments, thetaStart, thetaLength): 円形の形状を作成。
+      return new THREE.CircleGeometry(
+        cfg.radius, cfg.segments, cfg.thetaStart, cfg.thetaLength
+      );
+    }
+  },
+  capsule: {
+    defaults: GEOMETRY_DEFAULTS.capsule,
+    classType: 'CapsuleGeometry',
+    create: cfg => {
+      // new THREE.CapsuleGeometry(radius, height, capSegments, radialSegments, heightSegments): カプセルの形状を作成。
+      return new THREE.CapsuleGeometry(
+        cfg.radius, cfg.height, cfg.capSegments, cfg.radialSegments, cfg.heightSegments
+      );
+    }
+  },
+  torusKnot: {
+    defaults: GEOMETRY_DEFAULTS.torusKnot,
+    classType: 'TorusKnotGeometry',
+    create: cfg => {
+      // new THREE.TorusKnotGeometry(radius, tube, tubularSegments, radialSegments, p, q): トーラス結び目の形状を作成。
+      // pとqの組み合わせで結び目の形が変わる（p=2, q=3は三つ葉結び目）。
+      return new THREE.TorusKnotGeometry(
+        cfg.radius, cfg.tube, cfg.tubularSegments, cfg.radialSegments, cfg.p, cfg.q
+      );
+    }
+  },
+  lathe: {
+    defaults: GEOMETRY_DEFAULTS.lathe,
+    create: cfg => {
+      // new THREE.LatheGeometry(points, segments, phiStart, phiLength): 2Dの輪郭をY軸の周りに回転させた形状を作成。
+      return new THREE.LatheGeometry(
+        cfg.points.map(point => new THREE.Vector2(point.x, point.y)),
+        cfg.segments, cfg.phiStart, cfg.phiLength
+      );
+    }
+  },
+  extrude: {
+    defaults: GEOMETRY_DEFAULTS.extrude,
+    create: cfg => {
+      // new THREE.Shape(points): 2Dの図形。shape.holesにTHREE.Pathを追加すると穴になる。
+      const shape = new THREE.Shape(cfg.shape.map(point => new THREE.Vector2(point.x, point.y)));
+      cfg.holes.forEach(hole => {
+        shape.holes.push(new THREE.Path(hole.map(point => new THREE.Vector2(point.x, point.y))));
+      });
+      // new THREE.ExtrudeGeometry(shape, options): 2Dの図形をZ軸方向に押し出した立体を作成。
+      return new THREE.ExtrudeGeometry(shape, {
+        depth: cfg.depth,
+        steps: cfg.steps,
+        curveSegments: cfg.curveSegments,
+        bevelEnabled: cfg.bevelEnabled,
+        bevelThickness: cfg.bevelThickness,
+        bevelSize: cfg.bevelSize,
+        bevelOffset: cfg.bevelOffset,
+        bevelSegments: cfg.bevelSegments
+      });
+    }
+  },
+  tube: {
+    defaults: GEOMETRY_DEFAULTS.tube,
+    create: cfg => {
+      // new THREE.CatmullRomCurve3(points, closed, curveType, tension): 点を滑らかに通る3Dの曲線。
+      const path = new THREE.CatmullRomCurve3(
+        cfg.path.map(point => new THREE.Vector3(point.x, point.y, point.z)),
+        cfg.closed, cfg.curveType, cfg.tension
+      );
+      // new THREE.TubeGeometry(path, tubularSegments, radius, radialSegments, closed): 曲線に沿ったパイプの形状を作成。
+      return new THREE.TubeGeometry(path, cfg.tubularSegments, cfg.radius, cfg.radialSegments, cfg.closed);
+    }
+  },
+  terrain: {
+    defaults: GEOMETRY_DEFAULTS.terrain,
+    classType: 'TerrainGeometry',
+    create: cfg => {
+      // TerrainGeometry: ハイトマップまたはシード付きのノイズから作る地形（procedural-geometry.ts）。
+      return new TerrainGeometry(cfg);
+    }
+  },
+  parametric: {
+    defaults: GEOMETRY_DEFAULTS.parametric,
+    classType: 'ParametricSurfaceGeometry',
+    create: cfg => {
+      // ParametricSurfaceGeometry: (u, v) => 位置の関数から作る曲面（procedural-geometry.ts）。
+      return new ParametricSurfaceGeometry(cfg);
+    }
+  }
+};
+
+const BUILTIN_MATERIAL_TYPES: { [K in BuiltinMaterialType]: MaterialTypeDefinition<K> } = {
+  basic: {
+    defaults: MATERIAL_DEFAULTS.basic,
+    classType: 'MeshBasicMaterial',
+    create: cfg => {
+      // new THREE.MeshBasicMaterial({ ... }): 光源の影響を受けない、最もシンプルなマテリアル。
+      return new THREE.MeshBasicMaterial(baseParameters(cfg));
+    }
+  },
+  lambert: {
+    defaults: MATERIAL_DEFAULTS.lambert,
+    classType: 'MeshLambertMaterial',
+    create: cfg => {
+      // new THREE.MeshLambertMaterial({ ... }): 光を拡散的に反射する、光沢のないマットなマテリアル。
+      return new THREE.MeshLambertMaterial(lambertParameters(cfg));
+    }
+  },
+  phong: {
+    defaults: MATERIAL_DEFAULTS.phong,
+    classType: 'MeshPhongMaterial',
+    create: cfg => {
+      // new THREE.MeshPhongMaterial({ ... }): 光沢のある反射（ハイライト）を表現できるマテリアル。
+      return new THREE.MeshPhongMaterial({
+        ...lambertParameters(cfg),
+        specular: cfg.specular,   // ハイライトの色
+        shininess: cfg.shininess  // ハイライトの鋭さ・強さ
+      });
+    }
+  },
+  standard: {
+    defaults: MATERIAL_DEFAULTS.standard,
+    classType: 'MeshStandardMaterial',
+    create: cfg => {
+      // new THREE.MeshStandardMaterial({ ... }): 物理ベースの、最もリアルな質感を表現できるマテリアル。
+      return new THREE.MeshStandardMaterial(standardParameters(cfg));
+    }
+  },
+  physical: {
+    defaults: MATERIAL_DEFAULTS.physical,
+    classType: 'MeshPhysicalMaterial',
+    create: cfg => {
+      // new THREE.MeshPhysicalMaterial({ ... }): StandardMaterialの拡張版で、より高度な物理的プロパティを持つ。
+      return new THREE.MeshPhysicalMaterial({
+        ...standardParameters(cfg),
+        clearcoat: cfg.clearcoat,                   // 表面のクリアコート層（車の塗装のような光沢）
+        clearcoatRoughness: cfg.clearcoatRoughness,
+        transmission: cfg.transmission,             // 光の透過（ガラスや水の表現）
+        thickness: cfg.thickness                    // 透過時の屈折計算に使う厚み
+      });
+    }
+  },
+  toon: {
+    defaults: MATERIAL_DEFAULTS.toon,
+    classType: 'MeshToonMaterial',
+    create: cfg => {
+      // new THREE.MeshToonMaterial({ ... }): トゥーンシェーディング（アニメ調）のマテリアル。
+      return new THREE.MeshToonMaterial(baseParameters(cfg));
+    }
+  },
+  normal: {
+    defaults: MATERIAL_DEFAULTS.normal,
+    classType: 'MeshNormalMaterial',
+    create: cfg => {
+      // new THREE.MeshNormalMaterial({ ... }): 法線ベクトルをRGB色として表示するマテリアル（デバッグ用）。色は指定できない。
+      return new THREE.MeshNormalMaterial(colorlessParameters(cfg));
+    }
+  },
+  depth: {
+    defaults: MATERIAL_DEFAULTS.depth,
+    classType: 'MeshDepthMaterial',
+    create: cfg => {
+      // new THREE.MeshDepthMaterial({ ... }): 深度をグレースケールで表示するマテリアル（デバッグ用）。色は指定できない。
+      return new THREE.MeshDepthMaterial(colorlessParameters(cfg));
+    }
+  },
+  wireframe: {
+    defaults: MATERIAL_DEFAULTS.wireframe,
+    create: cfg => {
+      // new THREE.MeshBasicMaterial({ wireframe: true }): ワイヤーフレーム表示専用のマテリアル。
+      return new THREE.MeshBasicMaterial({ ...baseParameters(cfg), wireframe: true });
+    }
+  },
+  shader: {
+    defaults: MATERIAL_DEFAULTS.shader,
+    classType: 'ShaderMaterial',
+    create: cfg => {
+      // new THREE.ShaderMaterial({ ... }): GLSLで書いた独自のシェーダーで描画するマテリアル（shader-material.ts）。
+      return buildShaderMaterial(cfg, colorlessParameters(cfg));
+    },
+    describe: describeShaderMaterial
+  }
+};
+
+(Object.keys(BUILTIN_GEOMETRY_TYPES) as BuiltinGeometryType[]).forEach(type => {
+  registerGeometryType(type, BUILTIN_GEOMETRY_TYPES[type] as GeometryTypeDefinition<typeof type>);
+});
+(Object.keys(BUILTIN_MATERIAL_TYPES) as BuiltinMaterialType[]).forEach(type => {
+  registerMaterialType(type, BUILTIN_MATERIAL_TYPES[type] as MaterialTypeDefinition<typeof type>);
+});
+
 export class TypedGeometryFactory {
-  
+  // 作成したジオメトリの、デフォルト値を補った設定を記録する。
+  // 独自のタイプや点の配列を使うタイプは`geometry.parameters`から設定を読み取れないため。
+  private static readonly geometryConfigs = new WeakMap<THREE.BufferGeometry, GeometryConfig>();
+  // 作成したマテリアルの設定を記録する。'wireframe'と'basic'のように同じクラスを使うタイプを区別するためと、
+  // 独自のタイプの、マテリアルのプロパティにならない設定を読み取れるようにするため。
+  private static readonly materialConfigs = new WeakMap<THREE.Material, MaterialConfig>();
+
+  /**
+   * 登録されたジオメトリタイプのジオメトリを作成します。
+   * @throws {UnregisteredTypeError} タイプが登録されていない場合
+   */
   static createGeometry<T extends GeometryType>(
     type: T,
-    config: Extract<GeometryConfig, { type: T }>['config'] = {}
+    config: GeometryConfigOf<T> = {} as GeometryConfigOf<T>
   ): GeometryInstance<T> {
-    switch (type) {
-      case 'box': {
-        const cfg = config as any;
-        // new THREE.BoxGeometry(width, height, depth): 立方体の形状を作成。
-        return new THREE.BoxGeometry(cfg.width ?? 1, cfg.height ?? 1, cfg.depth ?? 1) as GeometryInstance<T>;
-      }
-      case 'sphere': {
-        const cfg = config as any;
-        // new THREE.SphereGeometry(radius, widthSegments, heightSegments): 球体の形状を作成。
-        // widthSegments/heightSegmentsはポリゴンの分割数。大きいほど滑らかな球になる。
-        return new THREE.SphereGeometry(cfg.radius ?? 1, cfg.widthSegments ?? 32, cfg.heightSegments ?? 16) as GeometryInstance<T>;
-      }
-      case 'cone': {
-        const cfg = config as any;
-        // new THREE.ConeGeometry(radius, height, radialSegments): 円錐の形状を作成。
-        return new THREE.ConeGeometry(cfg.radius ?? 1, cfg.height ?? 1, cfg.radialSegments ?? 8) as GeometryInstance<T>;
-      }
-      case 'cylinder': {
-        const cfg = config as any;
-        // new THREE.CylinderGeometry(radiusTop, radiusBottom, height, radialSegments): 円柱の形状を作成。
-        return new THREE.CylinderGeometry(
-          cfg.radiusTop ?? 1,
-          cfg.radiusBottom ?? 1,
-          cfg.height ?? 1,
-          cfg.radialSegments ?? 8
-        ) as GeometryInstance<T>;
-      }
-      case 'torus': {
-        const cfg = config as any;
-        // new THREE.TorusGeometry(radius, tube, radialSegments, tubularSegments): ドーナツ型の形状を作成。
-        return new THREE.TorusGeometry(
-          cfg.radius ?? 1,
-          cfg.tube ?? 0.4,
-          cfg.radialSegments ?? 8,
-          cfg.tubularSegments ?? 6
-        ) as GeometryInstance<T>;
-      }
-      case 'plane': {
-        const cfg = config as any;
-        // new THREE.PlaneGeometry(width, height): 平面の形状を作成。
-        return new THREE.PlaneGeometry(
-          cfg.width ?? 1,
-          cfg.height ?? 1
-        ) as GeometryInstance<T>;
-      }
-      case 'dodecahedron': {
-        const cfg = config as any;
-        // new THREE.DodecahedronGeometry(radius, detail): 十二面体の形状を作成。
-        return new THREE.DodecahedronGeometry(
-          cfg.radius ?? 1,
-          cfg.detail ?? 0
-        ) as GeometryInstance<T>;
-      }
-      case 'icosahedron': {
-        const cfg = config as any;
-        // new THREE.IcosahedronGeometry(radius, detail): 二十面体の形状を作成。
-        return new THREE.IcosahedronGeometry(
-          cfg.radius ?? 1,
-          cfg.detail ?? 0
-        ) as GeometryInstance<T>;
-      }
-      case 'octahedron': {
-        const cfg = config as any;
-        // new THREE.OctahedronGeometry(radius, detail): 八面体の形状を作成。
-        return new THREE.OctahedronGeometry(
-          cfg.radius ?? 1,
-          cfg.detail ?? 0
-        ) as GeometryInstance<T>;
-      }
-      case 'tetrahedron': {
-        const cfg = config as any;
-        // new THREE.TetrahedronGeometry(radius, detail): 四面体の形状を作成。
-        return new THREE.TetrahedronGeometry(
-          cfg.radius ?? 1,
-          cfg.detail ?? 0
-        ) as GeometryInstance<T>;
-      }
-      case 'ring': {
-        const cfg = config as any;
-        // new THREE.RingGeometry(innerRadius, outerRadius, thetaSegments, phiSegments): リング（輪）の形状を作成。
-        return new THREE.RingGeometry(
-          cfg.innerRadius ?? 0.5,
-          cfg.outerRadius ?? 1,
-          cfg.thetaSegments ?? 8,
-          cfg.phiSegments ?? 1
-        ) as GeometryInstance<T>;
-      }
-      case 'circle': {
-        const cfg = config as any;
-        // new THREE.CircleGeometry(radius, segments, thetaStart, thetaLength): 円形の形状を作成。
-        return new THREE.CircleGeometry(
-          cfg.radius ?? 1,
-          cfg.segments ?? 8,
-          cfg.thetaStart ?? 0,
-          cfg.thetaLength ?? Math.PI * 2
-        ) as GeometryInstance<T>;
-      }
-      default: {
-        const _exhaustiveCheck: never = type;
-        throw new Error(`Unsupported geometry type: ${String(_exhaustiveCheck)}`);
-      }
-    }
+    const definition = getGeometryDefinition(type);
+    const normalized = withDefaults(definition.defaults, config);
+    const geometry = definition.create(normalized);
+    this.geometryConfigs.set(geometry, { type, config: normalized } as GeometryConfig);
+    return geometry;
   }
 
+  /**
+   * 登録されたマテリアルタイプのマテリアルを作成します。
+   * `map`などに指定された`TextureConfig`はテクスチャマネージャーでテクスチャに変換され、
+   * マテリアルの`dispose()`で一緒に解放されます（他のマテリアルが使っている場合は残ります）。
+   * @param textures テクスチャ設定の変換に使うマネージャー デフォルト: sharedTextureManager
+   * @throws {UnregisteredTypeError} タイプが登録されていない場合
+   */
   static createMaterial<T extends MaterialType>(
     type: T,
-    config: Extract<MaterialConfig, { type: T }>['config'] = {}
+    config: MaterialConfigOf<T> = {} as MaterialConfigOf<T>,
+    textures: TextureManager = sharedTextureManager
   ): MaterialInstance<T> {
-    const cfg = config as any;
-    switch (type) {
-      case 'basic': {
-        // new THREE.MeshBasicMaterial({ ... }): 光源の影響を受けない、最もシンプルなマテリアル。
-        return new THREE.MeshBasicMaterial({ color: cfg.color ?? 0xffffff, wireframe: cfg.wireframe ?? false }) as MaterialInstance<T>;
-      }
-      case 'lambert': {
-        // new THREE.MeshLambertMaterial({ ... }): 光を拡散的に反射する、光沢のないマットなマテリアル。
-        return new THREE.MeshLambertMaterial({ color: cfg.color ?? 0xffffff, emissive: cfg.emissive ?? 0x000000 }) as MaterialInstance<T>;
-      }
-      case 'phong': {
-        // new THREE.MeshPhongMaterial({ ... }): 光沢のある反射（ハイライト）を表現できるマテリアル。
-        return new THREE.MeshPhongMaterial({
-          color: cfg.color ?? 0xffffff,
-          specular: cfg.specular ?? 0x111111, // ハイライトの色
-          shininess: cfg.shininess ?? 30,     // ハイライトの鋭さ・強さ
-        }) as MaterialInstance<T>;
-      }
-      case 'standard': {
-        // new THREE.MeshStandardMaterial({ ... }): 物理ベースの、最もリアルな質感を表現できるマテリアル。
-        return new THREE.MeshStandardMaterial({
-          color: cfg.color ?? 0xffffff,
-          roughness: cfg.roughness ?? 0.5,     // 表面の粗さ (0:鏡面, 1:完全な拡散)
-          metalness: cfg.metalness ?? 0.5,     // 金属質 (0:非金属, 1:金属)
-        }) as MaterialInstance<T>;
-      }
-      case 'physical': {
-        // new THREE.MeshPhysicalMaterial({ ... }): StandardMaterialの拡張版で、より高度な物理的プロパティを持つ。
-        return new THREE.MeshPhysicalMaterial({
-          color: cfg.color ?? 0xffffff,
-          roughness: cfg.roughness ?? 0.5,
-          metalness: cfg.metalness ?? 0.5,
-        }) as MaterialInstance<T>;
-      }
-      case 'toon': {
-        // new THREE.MeshToonMaterial({ ... }): トゥーンシェーディング（アニメ調）のマテリアル。
-        return new THREE.MeshToonMaterial({
-          color: cfg.color ?? 0xffffff,
-        }) as MaterialInstance<T>;
-      }
-      case 'normal': {
-        // new THREE.MeshNormalMaterial({ ... }): 法線ベクトルをRGB色として表示するマテリアル（デバッグ用）。
-        return new THREE.MeshNormalMaterial() as MaterialInstance<T>;
-      }
-      case 'depth': {
-        // new THREE.MeshDepthMaterial({ ... }): 深度をグレースケールで表示するマテリアル（デバッグ用）。
-        return new THREE.MeshDepthMaterial() as MaterialInstance<T>;
-      }
-      case 'wireframe': {
-        // new THREE.MeshBasicMaterial({ wireframe: true }): ワイヤーフレーム表示専用のマテリアル。
-        return new THREE.MeshBasicMaterial({
-          color: cfg.color ?? 0xffffff,
-          wireframe: true
-        }) as MaterialInstance<T>;
-      }
-      default: {
-        const _exhaustiveCheck: never = type;
-        throw new Error(`Unsupported material type: ${String(_exhaustiveCheck)}`);
-      }
+    const definition = getMaterialDefinition(type);
+    const normalized = withDefaults(definition.defaults, config);
+
+    const resolved: Record<string, unknown> = { ...normalized };
+    const acquired: THREE.Texture[] = [];
+    Object.entries(normalized).forEach(([key, value]) => {
+      if (!isTextureConfig(value)) return;
+      const texture = textures.acquire(value, TEXTURE_SLOTS[key] ?? 'data');
+      resolved[key] = texture;
+      acquired.push(texture);
+    });
+
+    const material = definition.create(resolved as ResolvedTextures<Required<MaterialConfigOf<T>>>);
+    if (acquired.length > 0) {
+      // material.addEventListener('dispose', ...): material.dispose()が呼ばれたときに実行される。
+      material.addEventListener('dispose', () => acquired.forEach(texture => textures.release(texture)));
     }
+    this.materialConfigs.set(material, { type, config: normalized } as MaterialConfig);
+    return material;
   }
+
+  /**
+   * シェーダーマテリアルを作成し、uniformを宣言した型で更新できるハンドルを返します。
+   * `createMaterial('shader', config)`と同じマテリアルですが、uniformの型が初期値から推論されます。
+   * @throws {UnregisteredTypeError} タイプが登録されていない場合
+   */
+  static createShaderMaterial<U extends UniformDeclarations = Record<string, never>>(
+    config: ShaderMaterialConfig<U> = {}
+  ): ShaderHandle<U> {
+    const material = this.createMaterial('shader', config);
+    return new ShaderHandle(material as TypedShaderMaterial<U>);
+  }
+
+  /**
+   * 作成済みのジオメトリから、実際に使われているパラメータを設定として取り出します。
+   * @returns ジオメトリ設定。ファクトリーが扱えないジオメトリの場合はnull
+   */
+  static describeGeometry(geometry: THREE.BufferGeometry): GeometryConfig | null {
+    const recorded = this.geometryConfigs.get(geometry);
+    if (recorded) return { type: recorded.type, config: { ...recorded.config } } as GeometryConfig;
+
+    const type = findGeometryTypeByClass(geometry);
+    if (!type) return null;
+
+    // geometry.parameters: ジオメトリの作成時に渡された引数を保持しているオブジェクト。
+    const parameters = (geometry as THREE.BufferGeometry & { parameters?: Record<string, unknown> }).parameters ?? {};
+    const config: Record<string, unknown> = {};
+    Object.keys(getGeometryDefinition(type).defaults).forEach(key => {
+      if (parameters[key] !== undefined) config[key] = parameters[key];
+    });
+    return { type, config } as GeometryConfig;
+  }
+
+  /**
+   * 作成済みのマテリアルから、現在のプロパティ値を設定として取り出します。
+   * 色は16進数の数値として、テクスチャ設定から作られたテクスチャは元の`TextureConfig`として返されます。
+   * @returns マテリアル設定。ファクトリーが扱えないマテリアルの場合はnull
+   */
+  static describeMaterial(material: THREE.Material): MaterialConfig | null {
+    const recorded = this.materialConfigs.get(material);
+    const type = recorded?.type ?? findMaterialTypeByClass(material);
+    if (!type) return null;
+
+    // 作成後に変更されている場合があるため、マテリアルのプロパティの値を優先する。
+    const definition = getMaterialDefinition(type);
+    const described = (definition.describe?.(material as MaterialInstance<MaterialType>) ?? {}) as Record<string, unknown>;
+    const properties = material as unknown as Record<string, unknown>;
+    const fallback = (recorded?.config ?? {}) as Record<string, unknown>;
+    const config: Record<string, unknown> = {};
+    Object.keys(definition.defaults).forEach(key => {
+      const value = key in described ? described[key] : key in properties ? properties[key] : fallback[key];
+      if (value === undefined) return;
+      if (value instanceof THREE.Texture) {
+        config[key] = TextureManager.describe(value) ?? value;
+        return;
+      }
+      config[key] = value instanceof THREE.Color ? value.getHex() : value;
+    });
+    return { type, config } as MaterialConfig;
+  }
+}
+
+function colorlessParameters(cfg: Required<BaseMaterialConfig>) {
+  return {
+    transparent: cfg.transparent, // opacityを反映するにはtrueにする必要がある
+    opacity: cfg.opacity,
+    visible: cfg.visible,
+    side: cfg.side,               // THREE.DoubleSideにすると裏面も描画される
+    wireframe: cfg.wireframe,
+    vertexColors: cfg.vertexColors // ジオメトリの'color'属性を色として使う
+  };
+}
+
+function baseParameters(cfg: Required<BaseMaterialConfig>) {
+  return { color: cfg.color, ...colorlessParameters(cfg) };
+}
+
+function lambertParameters(cfg: ResolvedTextures<Required<LambertMaterialConfig>>) {
+  return {
+    ...baseParameters(cfg),
+    emissive: cfg.emissive,
+    emissiveIntensity: cfg.emissiveIntensity,
+    map: cfg.map
+  };
+}
+
+function standardParameters(cfg: ResolvedTextures<Required<StandardMaterialConfig>>) {
+  return {
+    ...baseParameters(cfg),
+    roughness: cfg.roughness,     // 表面の粗さ (0:鏡面, 1:完全な拡散)
+    metalness: cfg.metalness,     // 金属質 (0:非金属, 1:金属)
+    emissive: cfg.emissive,
+    emissiveIntensity: cfg.emissiveIntensity,
+    envMapIntensity: cfg.envMapIntensity,
+    map: cfg.map,
+    normalMap: cfg.normalMap,
+    roughnessMap: cfg.roughnessMap,
+    metalnessMap: cfg.metalnessMap
+  };
 }
 
 // ===================================================================
 // Part 2: The "Assembly" Factory (組立工場)
 // ===================================================================
 
+/**
+ * メッシュ作成時のオプション
+ */
+export interface ObjectFactoryOptions {
+  /** 指定すると、同じ設定のジオメトリ・マテリアルをこのキャッシュから共有する */
+  cache?: ResourceCache;
+  /** テクスチャ設定の変換に使うマネージャー。`cache`を指定した場合はキャッシュのマネージャーが使われる デフォルト: sharedTextureManager */
+  textures?: TextureManager;
+}
+
+/**
+ * 自動バッチ化のオプション
+ */
+export interface BatchFactoryOptions extends ObjectFactoryOptions {
+  /** この数以上の同じ設定のオブジェクトをInstancedMeshにまとめる デフォルト: 2 */
+  minInstances?: number;
+}
+
+/**
+ * 自動バッチ化の結果
+ */
+export interface BatchedObjects {
+  /** 個別のメッシュとして作成したオブジェクト */
+  meshes: THREE.Mesh[];
+  /** InstancedMeshにまとめたオブジェクト */
+  batches: InstancedBatch[];
+}
+
 export class TypedObjectFactory {
-  static createMesh(config: RequiredObjectConfig): THREE.Mesh {
-    const geometry = TypedGeometryFactory.createGeometry(config.geometry.type, config.geometry.config);
-    const material = TypedGeometryFactory.createMaterial(config.material.type, config.material.config);
+  // メッシュ作成時の設定を保持する。WeakMapなのでメッシュが破棄されれば自動的に解放される。
+  private static readonly sourceConfigs = new WeakMap<THREE.Object3D, ObjectConfig>();
+
+  static createMesh(config: RequiredObjectConfig, options: ObjectFactoryOptions = {}): THREE.Mesh {
+    const { cache, textures } = options;
+    const geometry = cache
+      ? cache.acquireGeometry(config.geometry)
+      : TypedGeometryFactory.createGeometry(config.geometry.type, config.geometry.config);
+    const material = cache
+      ? cache.acquireMaterial(config.material)
+      : TypedGeometryFactory.createMaterial(config.material.type, config.material.config, textures);
     
     // new THREE.Mesh(geometry, material): ジオメトリ（形状）とマテリアル（材質）を組み合わせて、
     // 最終的な3Dオブジェクトであるメッシュを作成する。
     const mesh = new THREE.Mesh(geometry, material);
-    
-    if (config.name) mesh.name = config.name;
-    if (config.userData) mesh.userData = { ...config.userData };
-    if (config.transform) this.applyTransform(mesh, config.transform);
-    
+    this.applyObjectConfig(mesh, config);
     return mesh;
   }
 
-  static createMeshes(configs: RequiredObjectConfig[]): THREE.Mesh[] {
-    return configs.map(config => this.createMesh(config));
+  /**
+   * オブジェクト設定の名前・userData・変換・影の設定をオブジェクトに適用し、設定を記録します。
+   * 読み込んだモデルなど、ファクトリー以外で作ったオブジェクトをプリミティブと同じように扱うために使います。
+   */
+  static applyObjectConfig(object: THREE.Object3D, config: ObjectConfig): void {
+    if (config.name) object.name = config.name;
+    if (config.userData) object.userData = { ...config.userData };
+    if (config.transform) this.applyTransform(object, config.transform);
+    // モデルの場合は、中の全てのメッシュに影の設定を適用する。
+    object.traverse(child => {
+      if (config.castShadow !== undefined) child.castShadow = config.castShadow;
+      if (config.receiveShadow !== undefined) child.receiveShadow = config.receiveShadow;
+    });
+    this.sourceConfigs.set(object, config);
+  }
+
+  /**
+   * ファクトリーでオブジェクトを作成したときの設定を取得します。
+   * @param object 対象のオブジェクト
+   * @returns 作成時の設定。ファクトリー以外で作成されたオブジェクトの場合はundefined
+   */
+  static getSourceConfig(object: THREE.Object3D): ObjectConfig | undefined {
+    return this.sourceConfigs.get(object);
+  }
+
+  /**
+   * 作成済みのメッシュから、現在の状態を再現できるオブジェクト設定を取り出します。
+   * ジオメトリとマテリアルは実際に使われているパラメータ、位置・回転・スケールは現在の値になります。
+   * @param mesh 対象のメッシュ
+   * @param options.includeDefaults falseにするとデフォルト値と同じフィールドを省略する デフォルト: true
+   * @returns オブジェクト設定。ジオメトリかマテリアルをファクトリーで扱えない場合はnull
+   */
+  static describeMesh(mesh: THREE.Mesh, options: { includeDefaults?: boolean } = {}): RequiredObjectConfig | null {
+    // 選択のハイライトで差し替えられている場合も、本来のマテリアルから読み取る。
+    const sourceMaterial = getOriginalMaterial(mesh);
+    if (Array.isArray(sourceMaterial)) return null;
+    const geometry = TypedGeometryFactory.describeGeometry(mesh.geometry);
+    const material = TypedGeometryFactory.describeMaterial(sourceMaterial);
+    if (!geometry || !material) return null;
+
+    if (options.includeDefaults === false) {
+      geometry.config = omitDefaults(geometry.config, getGeometryDefinition(geometry.type).defaults);
+      material.config = omitDefaults(material.config, getMaterialDefinition(material.type).defaults);
+    }
+
+    const config: RequiredObjectConfig = {
+      geometry,
+      material,
+      transform: {
+        position: { x: mesh.position.x, y: mesh.position.y, z: mesh.position.z },
+        rotation: { x: mesh.rotation.x, y: mesh.rotation.y, z: mesh.rotation.z },
+        scale: { x: mesh.scale.x, y: mesh.scale.y, z: mesh.scale.z }
+      }
+    };
+    const source = this.sourceConfigs.get(mesh);
+    if (source?.animation) config.animation = source.animation;
+    // 影の設定は、作成時に指定されていた場合だけ現在の値を保存する（省略時はシーンマネージャーに従うため）。
+    if (source?.castShadow !== undefined) config.castShadow = mesh.castShadow;
+    if (source?.receiveShadow !== undefined) config.receiveShadow = mesh.receiveShadow;
+    if (mesh.name) config.name = mesh.name;
+    if (Object.keys(mesh.userData).length > 0) config.userData = { ...mesh.userData };
+    return config;
+  }
+
+  static createMeshes(configs: RequiredObjectConfig[], options: ObjectFactoryOptions = {}): THREE.Mesh[] {
+    return configs.map(config => this.createMesh(config, options));
+  }
+
+  /**
+   * ジオメトリとマテリアルが同じオブジェクト設定の集まりから、1つのInstancedMeshを作成します。
+   * マテリアルは色だけが違ってもよく、色はインスタンスごとの色になります。
+   * `animation`と`name`はインスタンスには適用されません。
+   * @throws 設定が空の場合や、ジオメトリ・マテリアルが共通でない場合
+   */
+  static createInstanced(configs: RequiredObjectConfig[], options: ObjectFactoryOptions = {}): InstancedBatch {
+    if (configs.length === 0) {
+      throw new Error('createInstanced requires at least one object config');
+    }
+    const [first] = configs;
+    const key = instanceKey(first);
+    configs.forEach((config, index) => {
+      if (instanceKey(config) !== key) {
+        throw new Error(`Object config at index ${index} does not share geometry and material with the first config`);
+      }
+    });
+
+    const { cache, textures } = options;
+    // インスタンスの色がそのまま出るように、共有するマテリアルの色は白にする。
+    const material = colorless(first.material);
+    const batch = new InstancedBatch(
+      cache
+        ? cache.acquireGeometry(first.geometry)
+        : TypedGeometryFactory.createGeometry(first.geometry.type, first.geometry.config),
+      cache
+        ? cache.acquireMaterial(material)
+        : TypedGeometryFactory.createMaterial(material.type, material.config, textures),
+      configs.length
+    );
+    configs.forEach(config => {
+      batch.add({
+        transform: config.transform,
+        color: config.material.config?.color ?? getMaterialDefinition(config.material.type).defaults.color,
+        userData: config.userData
+      });
+    });
+    return batch;
+  }
+
+  /**
+   * オブジェクト設定をジオメトリとマテリアルでグループ分けし、同じ設定が`minInstances`個以上あるものは
+   * InstancedMeshにまとめ、それ以外は個別のメッシュとして作成します。
+   * `animation`を持つオブジェクトは、個別に動かせるようにメッシュとして作成します。
+   */
+  static createBatched(configs: RequiredObjectConfig[], options: BatchFactoryOptions = {}): BatchedObjects {
+    const minInstances = Math.max(1, options.minInstances ?? 2);
+    const groups = new Map<string, RequiredObjectConfig[]>();
+    const individual: RequiredObjectConfig[] = [];
+    configs.forEach(config => {
+      if (config.animation?.enabled) {
+        individual.push(config);
+        return;
+      }
+      const key = instanceKey(config);
+      const group = groups.get(key);
+      if (group) group.push(config);
+      else groups.set(key, [config]);
+    });
+
+    const batches: InstancedBatch[] = [];
+    groups.forEach(group => {
+      if (group.length >= minInstances) batches.push(this.createInstanced(group, options));
+      else individual.push(...group);
+    });
+    return { meshes: this.createMeshes(individual, options), batches };
   }
   
   private static applyTransform(object: THREE.Object3D, transform: ObjectConfig['transform']): void {
@@ -249,6 +931,26 @@ export class TypedObjectFactory {
   }
 }
 
+/**
+ * インスタンス化できるかを判定するキー。マテリアルの色の違いはインスタンスの色で表せるので無視する。
+ */
+function instanceKey(config: RequiredObjectConfig): string {
+  return `${geometryConfigKey(config.geometry)}|${materialConfigKey(colorless(config.material))}`;
+}
+
+function colorless(material: MaterialConfig): MaterialConfig {
+  return { ...material, config: { ...material.config, color: 0xffffff } } as MaterialConfig;
+}
+
+function omitDefaults<T extends object>(config: T, defaults: object): T {
+  const defaultValues = defaults as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  Object.entries(config).forEach(([key, value]) => {
+    if (value !== defaultValues[key]) result[key] = value;
+  });
+  return result as T;
+}
+
 // ===================================================================
 // Part 3: Helper Utilities (便利な道具箱)
 // ===================================================================
@@ -279,6 +981,10 @@ export const TypedHelpers = {
     );
   },
   
+  /**
+   * ジオメトリとマテリアルも含めてメッシュを複製します。
+   * キャッシュのリソースを共有したまま複製する場合は`ResourceCache.cloneMesh`を使います。
+   */
   cloneMesh<T extends THREE.Mesh>(mesh: T): T {
     // mesh.clone(): オブジェクトのトランスフォーム（位置、回転、スケール）や名前などの基本情報をコピーする。
     // ただし、ジオメトリとマテリアルは参照がコピーされるだけ（シャローコピー）。
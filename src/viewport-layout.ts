@@ -0,0 +1,308 @@
+/**
+ * Three.js TypeScript Tutorial - 18. Viewport Layout
+ *
+ * カメラを設定オブジェクトから作成する仕組みと、1つのキャンバスを分割して
+ * 同じシーンを複数のカメラから描画する仕組み（ビューポートレイアウト）です。
+ * CADソフトのように、上面・正面・側面・透視の4画面を並べて表示できます。
+ *
+ * @example
+ * const layout = new ViewportLayout(createQuadViewLayout({ perspective: manager.getCamera() }));
+ * manager.setViewports(layout);
+ */
+
+import * as THREE from 'three';
+import type { ColorInput, Vector3Like } from '../types/geometry-types';
+import type {
+  CameraConfig,
+  ConfigurableCamera,
+  QuadViewOptions,
+  ViewportConfig,
+  ViewportRect
+} from '../types/camera-types';
+import type { SceneRenderer } from '../types/renderer-types';
+
+/**
+ * 同じ名前のビューポートを、もう一度レイアウトに追加しようとした場合のエラー
+ */
+export class DuplicateViewportError extends Error {
+  constructor(public readonly viewportName: string) {
+    super(`A viewport named "${viewportName}" already exists`);
+    this.name = 'DuplicateViewportError';
+  }
+}
+
+// ===================================================================
+// Part 1: Cameras (カメラの作成)
+// ===================================================================
+
+/**
+ * 設定からカメラを作成します。
+ * @param aspect 描画先の幅/高さ
+ */
+export function createCamera(config: CameraConfig, aspect = 1): ConfigurableCamera {
+  const near = config.near ?? 0.1;
+  const far = config.far ?? 1000;
+  let camera: ConfigurableCamera;
+  switch (config.type) {
+    case 'perspective':
+      // new THREE.PerspectiveCamera(fov, aspect, near, far): 遠近感のあるカメラを作成する。
+      camera = new THREE.PerspectiveCamera(config.fov ?? 75, aspect, near, far);
+      break;
+    case 'orthographic': {
+      const halfHeight = (config.height ?? 10) / 2;
+      // new THREE.OrthographicCamera(left, right, top, bottom, near, far): 直方体の範囲を平行に投影するカメラを作成する。
+      camera = new THREE.OrthographicCamera(-halfHeight * aspect, halfHeight * aspect, halfHeight, -halfHeight, near, far);
+      camera.zoom = config.zoom ?? 1;
+      camera.updateProjectionMatrix();
+      break;
+    }
+    default: {
+      const exhaustiveCheck: never = config;
+      throw new Error(`Unknown camera type: ${String((exhaustiveCheck as CameraConfig).type)}`);
+    }
+  }
+  // camera.upはlookAtより先に設定する（lookAtは上方向を基準に向きを決める）。
+  if (config.up) camera.up.copy(toVector3(config.up, 0, 1, 0));
+  camera.position.copy(toVector3(config.position, 0, 0, 5));
+  camera.lookAt(toVector3(config.target, 0, 0, 0));
+  return camera;
+}
+
+/**
+ * 描画先のアスペクト比（幅/高さ）に合わせてカメラを更新します。
+ * 平行投影カメラは、画面の高さに映る範囲を保ったまま幅を変えます。
+ */
+export function updateCameraAspect(camera: THREE.Camera, aspect: number): void {
+  if (camera instanceof THREE.PerspectiveCamera) {
+    camera.aspect = aspect;
+  } else if (camera instanceof THREE.OrthographicCamera) {
+    const halfWidth = ((camera.top - camera.bottom) / 2) * aspect;
+    const centerX = (camera.left + camera.right) / 2;
+    camera.left = centerX - halfWidth;
+    camera.right = centerX + halfWidth;
+  } else {
+    return;
+  }
+  // camera.updateProjectionMatrix(): アスペクト比や範囲の変更を反映する。
+  camera.updateProjectionMatrix();
+}
+
+function toVector3(value: Vector3Like | undefined, x: number, y: number, z: number): THREE.Vector3 {
+  return new THREE.Vector3(value?.x ?? x, value?.y ?? y, value?.z ?? z);
+}
+
+// ===================================================================
+// Part 2: Viewport (ビューポート)
+// ===================================================================
+
+/**
+ * キャンバス上の領域（ピクセル単位、`renderer.setViewport`と同じく左下が原点）
+ */
+export interface PixelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * キャンバスの一部の領域に、1台のカメラから見たシーンを描画するビューポート
+ */
+export class Viewport {
+  public readonly name: string;
+  public readonly camera: THREE.Camera;
+  public rect: ViewportRect;
+  /** このビューポートの背景。undefinedの場合はシーンの背景を使う */
+  public background: THREE.Color | null | undefined;
+
+  constructor(config: ViewportConfig) {
+    this.name = config.name;
+    this.camera = config.camera instanceof THREE.Camera ? config.camera : createCamera(config.camera);
+    this.rect = { ...config.rect };
+    this.setBackground(config.background);
+  }
+
+  public setBackground(color: ColorInput | null | undefined): void {
+    this.background = color === undefined || color === null ? color : new THREE.Color(color);
+  }
+
+  /**
+   * キャンバスのサイズ（CSSピクセル）から、このビューポートの領域を求めます。
+   * 隣り合うビューポートの間に隙間ができないよう、境界を切り捨ててから幅を求めます。
+   */
+  public getPixelRect(canvasWidth: number, canvasHeight: number): PixelRect {
+    const left = Math.floor(this.rect.left * canvasWidth);
+    const right = Math.floor((this.rect.left + this.rect.width) * canvasWidth);
+    const top = Math.floor(this.rect.top * canvasHeight);
+    const bottom = Math.floor((this.rect.top + this.rect.height) * canvasHeight);
+    return { x: left, y: canvasHeight - bottom, width: right - left, height: bottom - top };
+  }
+
+  /**
+   * キャンバス上の位置（左上が原点の、キャンバスに対する割合）がこのビューポートの中にあるかどうか
+   */
+  public contains(x: number, y: number): boolean {
+    const { left, top, width, height } = this.rect;
+    return x >= left && x < left + width && y >= top && y < top + height;
+  }
+
+  /**
+   * キャンバス上の位置を、このビューポートの正規化デバイス座標（-1 〜 1、上が+1）に変換します。
+   */
+  public toNormalized(x: number, y: number, target = new THREE.Vector2()): THREE.Vector2 {
+    const { left, top, width, height } = this.rect;
+    return target.set(((x - left) / width) * 2 - 1, -((y - top) / height) * 2 + 1);
+  }
+}
+
+// ===================================================================
+// Part 3: Layout (レイアウト)
+// ===================================================================
+
+/**
+ * ポインターの位置にあるビューポートと、そのビューポートでの正規化デバイス座標
+ */
+export interface ViewportHit {
+  viewport: Viewport;
+  normalized: THREE.Vector2;
+}
+
+/**
+ * 複数のビューポートを並べて、同じシーンを描画するレイアウト
+ */
+export class ViewportLayout {
+  private readonly viewports: Viewport[] = [];
+  private readonly size = new THREE.Vector2(1, 1);
+
+  constructor(configs: readonly ViewportConfig[] = []) {
+    configs.forEach(config => this.add(config));
+  }
+
+  /**
+   * ビューポートを追加します。後に追加したビューポートほど手前に描画されます。
+   * @throws {DuplicateViewportError} 同じ名前のビューポートがある場合
+   */
+  public add(config: ViewportConfig): Viewport {
+    if (this.get(config.name)) throw new DuplicateViewportError(config.name);
+    const viewport = new Viewport(config);
+    this.viewports.push(viewport);
+    this.updateAspect(viewport);
+    return viewport;
+  }
+
+  /**
+   * ビューポートを取り除きます。
+   * @returns 取り除いた場合はtrue
+   */
+  public remove(name: string): boolean {
+    const index = this.viewports.findIndex(viewport => viewport.name === name);
+    if (index === -1) return false;
+    this.viewports.splice(index, 1);
+    return true;
+  }
+
+  public get(name: string): Viewport | undefined {
+    return this.viewports.find(viewport => viewport.name === name);
+  }
+
+  public getViewports(): readonly Viewport[] {
+    return this.viewports;
+  }
+
+  /**
+   * ビューポートの領域を変更します。
+   */
+  public setRect(name: string, rect: ViewportRect): void {
+    const viewport = this.get(name);
+    if (!viewport) return;
+    viewport.rect = { ...rect };
+    this.updateAspect(viewport);
+  }
+
+  /**
+   * キャンバスのサイズ（CSSピクセル）が変わったときに呼び出し、各カメラのアスペクト比を合わせます。
+   */
+  public resize(width: number, height: number): void {
+    this.size.set(width, height);
+    this.viewports.forEach(viewport => this.updateAspect(viewport));
+  }
+
+  /**
+   * 全てのビューポートを描画します。
+   */
+  public render(renderer: SceneRenderer, scene: THREE.Scene): void {
+    const background = scene.background;
+    // renderer.setScissorTest(true): setScissorで指定した領域の外には描画しない（背景のクリアも領域内だけになる）。
+    renderer.setScissorTest(true);
+    this.viewports.forEach(viewport => {
+      const { x, y, width, height } = viewport.getPixelRect(this.size.x, this.size.y);
+      if (width <= 0 || height <= 0) return;
+      // renderer.setViewport / setScissor(x, y, width, height): 描画先の領域を設定する（左下が原点のCSSピクセル）。
+      renderer.setViewport(x, y, width, height);
+      renderer.setScissor(x, y, width, height);
+      if (viewport.background !== undefined) scene.background = viewport.background;
+      renderer.render(scene, viewport.camera);
+      scene.background = background;
+    });
+    renderer.setScissorTest(false);
+    renderer.setViewport(0, 0, this.size.x, this.size.y);
+  }
+
+  /**
+   * キャンバス上の位置（左上が原点の、キャンバスに対する割合）にあるビューポートを探します。
+   * ビューポートが重なっている場合は、手前（後に追加した方）が優先されます。
+   */
+  public viewportAt(x: number, y: number): ViewportHit | null {
+    for (let i = this.viewports.length - 1; i >= 0; i--) {
+      const viewport = this.viewports[i];
+      if (viewport.contains(x, y)) return { viewport, normalized: viewport.toNormalized(x, y) };
+    }
+    return null;
+  }
+
+  private updateAspect(viewport: Viewport): void {
+    const { width, height } = viewport.getPixelRect(this.size.x, this.size.y);
+    if (width > 0 && height > 0) updateCameraAspect(viewport.camera, width / height);
+  }
+}
+
+// ===================================================================
+// Part 4: Presets (よく使うレイアウト)
+// ===================================================================
+
+/**
+ * CADソフトでおなじみの4分割レイアウトを作成します。
+ * 左上: 上面（+Yから見下ろす）、右上: 正面（+Zから）、左下: 側面（+Xから）、右下: 透視
+ */
+export function createQuadViewLayout(options: QuadViewOptions = {}): ViewportConfig[] {
+  const height = options.size ?? 10;
+  const distance = options.distance ?? 50;
+  const background = options.background === undefined ? 0x1a1a2a : options.background;
+  const half = 0.5;
+  return [
+    {
+      name: 'top',
+      // 真上から見下ろすと上方向が決まらないため、画面の上を-Z（奥）に向ける。
+      camera: { type: 'orthographic', height, far: distance * 2, position: { x: 0, y: distance, z: 0 }, up: { x: 0, y: 0, z: -1 } },
+      rect: { left: 0, top: 0, width: half, height: half },
+      background
+    },
+    {
+      name: 'front',
+      camera: { type: 'orthographic', height, far: distance * 2, position: { x: 0, y: 0, z: distance } },
+      rect: { left: half, top: 0, width: half, height: half },
+      background
+    },
+    {
+      name: 'side',
+      camera: { type: 'orthographic', height, far: distance * 2, position: { x: distance, y: 0, z: 0 } },
+      rect: { left: 0, top: half, width: half, height: half },
+      background
+    },
+    {
+      name: 'perspective',
+      camera: options.perspective ?? { type: 'perspective', position: { x: 5, y: 5, z: 5 } },
+      rect: { left: half, top: half, width: half, height: half }
+    }
+  ];
+}
@@ -0,0 +1,52 @@
+/**
+ * Three.js TypeScript Tutorial - Asset Types
+ * 3Dモデル（glTF / OBJ / STL）の読み込みに関する型定義
+ */
+
+import * as THREE from 'three';
+import type { ModelFormat } from './geometry-types';
+
+// モデルのオブジェクト設定は、プリミティブと同じ`ObjectConfig`の一部として定義されている。
+export type { ModelFormat, ModelGeometryConfig, ModelObjectConfig } from './geometry-types';
+
+// ===========================================
+// 読み込みのオプションと結果
+// ===========================================
+
+/**
+ * 読み込みの進捗
+ */
+export interface AssetLoadProgress {
+  /** 読み込んだバイト数 */
+  loaded: number;
+  /** 全体のバイト数。サーバーが通知しない場合は0 */
+  total: number;
+  /** 0〜1の進捗。全体の大きさがわからない場合はnull */
+  ratio: number | null;
+}
+
+/**
+ * 読み込みのオプション
+ */
+export interface AssetLoadOptions {
+  /** ファイル形式。省略した場合はURLの拡張子から判定する */
+  format?: ModelFormat;
+  /** 進捗が更新されるたびに呼ばれる */
+  onProgress?: (progress: AssetLoadProgress) => void;
+  /** 中止するためのシグナル。中止すると`AssetLoadCancelledError`で拒否される */
+  signal?: AbortSignal;
+}
+
+/**
+ * 読み込んだモデル
+ */
+export interface LoadedModel {
+  /** 読み込んだURL */
+  url: string;
+  /** ファイル形式 */
+  format: ModelFormat;
+  /** モデルのルートオブジェクト */
+  scene: THREE.Group;
+  /** モデルに含まれるアニメーション（glTFのみ） */
+  animations: THREE.AnimationClip[];
+}
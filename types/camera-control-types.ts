@@ -0,0 +1,117 @@
+/**
+ * Three.js TypeScript Tutorial - Camera Control Types
+ * マウス・タッチ・キーボードでカメラを動かす操作（カメラコントロール）の型定義
+ */
+
+import type { Vector3Like } from './geometry-types';
+
+// ===========================================
+// 操作モード
+// ===========================================
+
+/**
+ * カメラの操作モード
+ * - 'orbit': 注視点の周りを回る（回転・平行移動・ズーム）。モデルを眺めるのに向く
+ * - 'fly': 向いている方向へ自由に飛ぶ（上下の区別がなく、ロールもできる）
+ * - 'firstPerson': 地面に立った人の視点で歩く（上下の向きは真上・真下まで）
+ */
+export type CameraControlMode = 'orbit' | 'fly' | 'firstPerson';
+
+/**
+ * orbitモードの設定
+ */
+export interface OrbitControlsConfig {
+  /** 注視点 デフォルト: { x: 0, y: 0, z: 0 } */
+  target?: Vector3Like;
+  /** 注視点に近づける最小の距離 デフォルト: 0 */
+  minDistance?: number;
+  /** 注視点から離れられる最大の距離 デフォルト: Infinity */
+  maxDistance?: number;
+  /** 真上から測った、見下ろす角度の最小値（ラジアン） デフォルト: 0 */
+  minPolarAngle?: number;
+  /** 真上から測った、見上げる角度の最大値（ラジアン。π/2で地面より下に回り込まない） デフォルト: π */
+  maxPolarAngle?: number;
+  /** 水平方向の回転の最小値（ラジアン） デフォルト: -Infinity */
+  minAzimuthAngle?: number;
+  /** 水平方向の回転の最大値（ラジアン） デフォルト: Infinity */
+  maxAzimuthAngle?: number;
+  /** 操作を止めた後も少しずつ動き続ける（慣性） デフォルト: true */
+  enableDamping?: boolean;
+  /** 1フレーム（60fps換算）で残りの動きを反映する割合 (0.0-1.0)。小さいほど長く滑る デフォルト: 0.1 */
+  dampingFactor?: number;
+  /** 回転の速さ デフォルト: 1 */
+  rotateSpeed?: number;
+  /** 平行移動の速さ デフォルト: 1 */
+  panSpeed?: number;
+  /** ズームの速さ デフォルト: 1 */
+  zoomSpeed?: number;
+}
+
+/**
+ * flyモードの設定
+ */
+export interface FlyControlsConfig {
+  /** 移動の速さ（単位/秒） デフォルト: 5 */
+  moveSpeed?: number;
+  /** 視点の回転の速さ。画面の高さ分ドラッグするとπ×この値だけ回る デフォルト: 1 */
+  lookSpeed?: number;
+  /** ロールの速さ（ラジアン/秒） デフォルト: 1 */
+  rollSpeed?: number;
+}
+
+/**
+ * firstPersonモードの設定
+ */
+export interface FirstPersonControlsConfig {
+  /** 歩く速さ（単位/秒） デフォルト: 5 */
+  moveSpeed?: number;
+  /** 視点の回転の速さ。画面の高さ分ドラッグするとπ×この値だけ回る デフォルト: 1 */
+  lookSpeed?: number;
+  /** 見上げる・見下ろす角度の上限（ラジアン） デフォルト: π/2 - 0.01 */
+  maxPitch?: number;
+}
+
+/**
+ * 操作モードと設定の対応表
+ */
+export interface CameraControlConfigMap {
+  orbit: OrbitControlsConfig;
+  fly: FlyControlsConfig;
+  firstPerson: FirstPersonControlsConfig;
+}
+
+/**
+ * 全ての操作モードの設定。モードを切り替えたときに、そのモードの設定が使われる
+ */
+export type CameraControlsOptions = { [M in CameraControlMode]?: CameraControlConfigMap[M] };
+
+// ===========================================
+// 入力
+// ===========================================
+
+/**
+ * 1回分の入力の量。DOMのイベントとは独立しているため、合成した値を与えてカメラの動きを確かめられる。
+ * 画面上の移動量は、描画領域の高さに対する割合で表す（高さ分ドラッグすると1）
+ */
+export interface ControlInput {
+  /** 回転（orbit）・視点の向き（fly, firstPerson）を変える量。xは右、yは下が正 */
+  rotate?: { x: number; y: number };
+  /** 注視点を平行移動する量（orbitのみ）。xは右、yは下が正 */
+  pan?: { x: number; y: number };
+  /** ズームの段数（orbitのみ）。ホイールの1ノッチが1で、正の値で遠ざかる */
+  zoom?: number;
+}
+
+/**
+ * キーを押している間続く移動の向き。各軸は-1.0から1.0
+ */
+export interface MovementAxes {
+  /** 前(+)・後ろ(-) */
+  forward: number;
+  /** 右(+)・左(-) */
+  right: number;
+  /** 上(+)・下(-) */
+  up: number;
+  /** 右回り(+)・左回りのロール（flyのみ） */
+  roll: number;
+}
@@ -0,0 +1,104 @@
+/**
+ * Three.js TypeScript Tutorial - Camera Types
+ * 設定オブジェクトで記述するカメラと、画面を分割して描画するビューポートの型定義
+ */
+
+import * as THREE from 'three';
+import type { ColorInput, Vector3Like } from './geometry-types';
+
+// ===========================================
+// カメラの設定
+// ===========================================
+
+/**
+ * 全てのカメラに共通する設定
+ */
+interface BaseCameraConfig {
+  /** カメラの位置 デフォルト: { x: 0, y: 0, z: 5 } */
+  position?: Vector3Like;
+  /** カメラが向く先の位置 デフォルト: { x: 0, y: 0, z: 0 } */
+  target?: Vector3Like;
+  /** カメラの上方向 デフォルト: { x: 0, y: 1, z: 0 } */
+  up?: Vector3Like;
+  /** 近クリッピング面 デフォルト: 0.1 */
+  near?: number;
+  /** 遠クリッピング面 デフォルト: 1000 */
+  far?: number;
+}
+
+/**
+ * 透視投影カメラ。遠くのものほど小さく映る
+ */
+export interface PerspectiveCameraConfig extends BaseCameraConfig {
+  type: 'perspective';
+  /** 縦方向の視野角（度） デフォルト: 75 */
+  fov?: number;
+}
+
+/**
+ * 平行投影カメラ。距離に関係なく同じ大きさで映るため、図面のような正確な形を確認できる
+ */
+export interface OrthographicCameraConfig extends BaseCameraConfig {
+  type: 'orthographic';
+  /** 画面の高さに映る範囲の大きさ（幅はアスペクト比から決まる） デフォルト: 10 */
+  height?: number;
+  /** 拡大率 デフォルト: 1 */
+  zoom?: number;
+}
+
+/**
+ * カメラの設定（typeで種類を判別する判別共用体）
+ */
+export type CameraConfig = PerspectiveCameraConfig | OrthographicCameraConfig;
+
+/**
+ * カメラの種類
+ */
+export type CameraType = CameraConfig['type'];
+
+/**
+ * 設定から作成できるカメラ
+ */
+export type ConfigurableCamera = THREE.PerspectiveCamera | THREE.OrthographicCamera;
+
+// ===========================================
+// ビューポート
+// ===========================================
+
+/**
+ * キャンバスの中の長方形の領域。値はキャンバスの幅・高さに対する割合 (0.0-1.0) で、左上が原点
+ */
+export interface ViewportRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * ビューポート（キャンバスの一部の領域に、1台のカメラから見たシーンを描画する）の設定
+ */
+export interface ViewportConfig {
+  /** ビューポートの名前（レイアウトの中で一意） */
+  name: string;
+  /** 描画に使うカメラ。設定を渡すと新しく作成し、カメラを渡すとそのまま使う */
+  camera: CameraConfig | THREE.Camera;
+  /** 描画先の領域 */
+  rect: ViewportRect;
+  /** このビューポートだけの背景色。省略した場合はシーンの背景、nullの場合は背景なし */
+  background?: ColorInput | null;
+}
+
+/**
+ * 4分割レイアウト（上面・正面・側面・透視）の設定
+ */
+export interface QuadViewOptions {
+  /** 右下の透視ビューに使うカメラ（シーンマネージャーのカメラを渡すと、カメラ操作がそのまま使える） */
+  perspective?: THREE.Camera;
+  /** 平行投影ビューの画面の高さに映る範囲 デフォルト: 10 */
+  size?: number;
+  /** 平行投影カメラを置く、原点からの距離 デフォルト: 50 */
+  distance?: number;
+  /** 平行投影ビューの背景色 デフォルト: 0x1a1a2a */
+  background?: ColorInput | null;
+}
@@ -4,6 +4,8 @@
  */
 
 import * as THREE from 'three';
+import type { ShaderDefines, UniformDeclarations } from './shader-types';
+import type { TextureInput } from './texture-types';
 
 // ===========================================
 // 基本的な型定義
@@ -11,36 +13,25 @@ import * as THREE from 'three';
 
 /**
  * サポートされているジオメトリタイプ
- * Three.jsで使用できる基本的な3D形状の種類を定義
- */
-export type GeometryType = 
-  | 'box'          // 立方体・直方体
-  | 'sphere'       // 球体
-  | 'cone'         // 円錐
-  | 'cylinder'     // 円柱
-  | 'torus'        // トーラス（ドーナツ型）
-  | 'dodecahedron' // 正十二面体
-  | 'icosahedron'  // 正二十面体
-  | 'octahedron'   // 正八面体
-  | 'tetrahedron'  // 正四面体
-  | 'plane'        // 平面
-  | 'ring'         // リング（環状）
-  | 'circle';      // 円
+ * `GeometryTypeMap`のキーから作られるため、独自のタイプを追加すると自動的に含まれる
+ */
+export type GeometryType = Extract<keyof GeometryTypeMap, string>;
+
+/**
+ * 組み込みのジオメトリタイプ
+ */
+export type BuiltinGeometryType = keyof BuiltinGeometryTypeMap;
 
 /**
  * サポートされているマテリアルタイプ
- * Three.jsで使用できる材質・質感の種類を定義
+ * `MaterialTypeMap`のキーから作られるため、独自のタイプを追加すると自動的に含まれる
  */
-export type MaterialType = 
-  | 'basic'        // 基本マテリアル（ライティング無視）
-  | 'lambert'      // Lambert反射モデル（拡散反射のみ）
-  | 'phong'        // Phong反射モデル（拡散＋鏡面反射）
-  | 'standard'     // PBRマテリアル（物理ベースレンダリング）
-  | 'physical'     // 高度なPBRマテリアル
-  | 'toon'         // トゥーンシェーディング（アニメ調）
-  | 'normal'       // 法線ベクトルを色で表示
-  | 'depth'        // 深度を色で表示
-  | 'wireframe';   // ワイヤーフレーム表示
+export type MaterialType = Extract<keyof MaterialTypeMap, string>;
+
+/**
+ * 組み込みのマテリアルタイプ
+ */
+export type BuiltinMaterialType = keyof BuiltinMaterialTypeMap;
 
 /**
  * 色の表現方法
@@ -62,6 +53,17 @@ export interface Vector3Like {
   z: number;
 }
 
+/**
+ * 2次元の座標
+ * 回転体の輪郭や押し出す図形の頂点に使う
+ */
+export interface Vector2Like {
+  /** X座標 */
+  x: number;
+  /** Y座標 */
+  y: number;
+}
+
 // ===========================================
 // ジオメトリ設定の型定義
 // ===========================================
@@ -227,22 +229,254 @@ export interface PolyhedronGeometryConfig {
   detail?: number;
 }
 
+/**
+ * カプセルジオメトリの設定
+ * 円柱の両端に半球を付けた形状を作成するためのパラメータ
+ */
+export interface CapsuleGeometryConfig {
+  /** 半径 デフォルト: 1 */
+  radius?: number;
+  /** 中央の円柱部分の高さ（半球部分を含まない） デフォルト: 1 */
+  height?: number;
+  /** 半球部分の分割数 デフォルト: 4 */
+  capSegments?: number;
+  /** 円周方向の分割数 デフォルト: 8 */
+  radialSegments?: number;
+  /** 円柱部分の高さ方向の分割数 デフォルト: 1 */
+  heightSegments?: number;
+}
+
+/**
+ * トーラス結び目ジオメトリの設定
+ * チューブがトーラスの表面に沿って巻き付く結び目を作成するためのパラメータ
+ */
+export interface TorusKnotGeometryConfig {
+  /** 全体の半径 デフォルト: 1 */
+  radius?: number;
+  /** チューブの半径（太さ） デフォルト: 0.4 */
+  tube?: number;
+  /** チューブ方向の分割数 デフォルト: 64 */
+  tubularSegments?: number;
+  /** チューブの断面の分割数 デフォルト: 8 */
+  radialSegments?: number;
+  /** 回転軸の周りを巻く回数 デフォルト: 2 */
+  p?: number;
+  /** トーラスの内側を通る回数 デフォルト: 3 */
+  q?: number;
+}
+
+/**
+ * 回転体ジオメトリの設定
+ * 2Dの輪郭（x: 中心軸からの距離, y: 高さ）をY軸の周りに回転させて、瓶や花瓶のような形状を作成する
+ */
+export interface LatheGeometryConfig {
+  /** 輪郭の点（下から順に2点以上） デフォルト: [(0, -0.5), (0.5, 0), (0, 0.5)] */
+  points?: Vector2Like[];
+  /** 円周方向の分割数 デフォルト: 12 */
+  segments?: number;
+  /** 開始角度（ラジアン） デフォルト: 0 */
+  phiStart?: number;
+  /** 回転させる角度の範囲（ラジアン） デフォルト: Math.PI * 2 */
+  phiLength?: number;
+}
+
+/**
+ * 押し出しジオメトリの設定
+ * 2Dの図形（穴を含む）をZ軸方向に押し出して、間取り図の壁のような立体を作成する
+ */
+export interface ExtrudeGeometryConfig {
+  /** 図形の外周の頂点（3点以上） デフォルト: 1×1の正方形 */
+  shape?: Vector2Like[];
+  /** 図形に空ける穴（それぞれ3点以上の頂点） デフォルト: [] */
+  holes?: Vector2Like[][];
+  /** 押し出す深さ デフォルト: 1 */
+  depth?: number;
+  /** 深さ方向の分割数 デフォルト: 1 */
+  steps?: number;
+  /** 曲線部分の分割数 デフォルト: 12 */
+  curveSegments?: number;
+  /** 角を面取り（ベベル）するか デフォルト: true */
+  bevelEnabled?: boolean;
+  /** 面取りの深さ デフォルト: 0.2 */
+  bevelThickness?: number;
+  /** 面取りの外側への広がり デフォルト: 0.1 */
+  bevelSize?: number;
+  /** 面取りを始める位置の図形の輪郭からのずれ デフォルト: 0 */
+  bevelOffset?: number;
+  /** 面取り部分の分割数 デフォルト: 3 */
+  bevelSegments?: number;
+}
+
+/**
+ * チューブジオメトリの設定
+ * 3Dの点を滑らかに結んだ曲線（Catmull-Romスプライン）に沿って、パイプを作成する
+ */
+export interface TubeGeometryConfig {
+  /** 経路の点（2点以上） デフォルト: [(-1, -1, 0), (-1, 1, 0), (1, 1, 0)] */
+  path?: Vector3Like[];
+  /** 経路方向の分割数 デフォルト: 64 */
+  tubularSegments?: number;
+  /** チューブの半径 デフォルト: 1 */
+  radius?: number;
+  /** チューブの断面の分割数 デフォルト: 8 */
+  radialSegments?: number;
+  /** 経路の終点と始点をつないで輪にするか デフォルト: false */
+  closed?: boolean;
+  /** 曲線の種類 デフォルト: 'centripetal' */
+  curveType?: 'centripetal' | 'chordal' | 'catmullrom';
+  /** curveTypeが'catmullrom'のときの曲がり具合 デフォルト: 0.5 */
+  tension?: number;
+}
+
+/**
+ * 高さの元データ（ハイトマップ）
+ * 数値の配列のほか、`ImageData`（canvasの`getImageData()`の結果）もそのまま渡せる
+ */
+export interface HeightmapData {
+  /** 横方向のサンプル数 */
+  width: number;
+  /** 縦方向のサンプル数 */
+  height: number;
+  /**
+   * 高さの値（行優先、0〜1）。長さが`width * height * 4`の場合はRGBAの画像として扱い、
+   * 赤チャンネルの値（0〜255）を0〜1の高さとして使う
+   */
+  data: ArrayLike<number>;
+}
+
+/**
+ * 高さに応じた頂点カラーの区切り
+ */
+export interface HeightColorStop {
+  /** 高さの位置（0: 最も低い頂点, 1: 最も高い頂点） */
+  height: number;
+  /** この高さでの色。区切りの間は線形に補間される */
+  color: ColorInput;
+}
+
+/**
+ * 地形ジオメトリの設定
+ * XZ平面上のグリッドの各頂点を、ハイトマップまたはシード付きのノイズで持ち上げた地形を作成する
+ */
+export interface TerrainGeometryConfig {
+  /** 幅（X方向） デフォルト: 10 */
+  width?: number;
+  /** 奥行き（Z方向） デフォルト: 10 */
+  depth?: number;
+  /** 幅方向の分割数 デフォルト: 64 */
+  widthSegments?: number;
+  /** 奥行き方向の分割数 デフォルト: 64 */
+  depthSegments?: number;
+  /** 最も高い地点の高さ（高さの値0〜1に掛ける値） デフォルト: 1 */
+  height?: number;
+  /** 高さの元データ。nullの場合はノイズから生成する デフォルト: null */
+  heightmap?: HeightmapData | null;
+  /** ノイズの乱数シード。同じシードからは常に同じ地形が作られる デフォルト: 1 */
+  seed?: number;
+  /** 重ね合わせるノイズの数。多いほど細かい起伏が加わる デフォルト: 4 */
+  octaves?: number;
+  /** オクターブごとの振幅の倍率 デフォルト: 0.5 */
+  persistence?: number;
+  /** オクターブごとの周波数の倍率 デフォルト: 2 */
+  lacunarity?: number;
+  /** 最初のオクターブの周波数（1単位あたりの起伏の数） デフォルト: 0.1 */
+  frequency?: number;
+  /** 高さに応じた頂点カラー。空の場合は頂点カラーを作らない デフォルト: [] */
+  colors?: HeightColorStop[];
+}
+
+/**
+ * パラメトリック曲面の関数
+ * u, v（それぞれ0〜1）から曲面上の位置を返す
+ */
+export type ParametricSurfaceFunction = (u: number, v: number) => Vector3Like;
+
+/**
+ * パラメトリック曲面ジオメトリの設定
+ * `(u, v) => 位置`の関数から、波や貝殻のような曲面を作成する。
+ * 関数はJSONに保存できないため、シーンドキュメントに保存する場合は`registerParametricSurface`で登録した名前を指定する
+ */
+export interface ParametricGeometryConfig {
+  /** 曲面の関数、または登録した曲面の名前 デフォルト: 'plane'（XZ平面上の1×1の正方形） */
+  surface?: ParametricSurfaceFunction | string;
+  /** u方向の分割数 デフォルト: 32 */
+  uSegments?: number;
+  /** v方向の分割数 デフォルト: 32 */
+  vSegments?: number;
+  /** 高さ（Y座標）に応じた頂点カラー。空の場合は頂点カラーを作らない デフォルト: [] */
+  colors?: HeightColorStop[];
+}
+
+// ===========================================
+// ジオメトリタイプの対応表
+// ===========================================
+
+/**
+ * 組み込みのジオメトリタイプと、その設定型・作成されるジオメトリの型の対応表
+ */
+export interface BuiltinGeometryTypeMap {
+  box: { config: BoxGeometryConfig; instance: THREE.BoxGeometry };                            // 立方体・直方体
+  sphere: { config: SphereGeometryConfig; instance: THREE.SphereGeometry };                   // 球体
+  cone: { config: ConeGeometryConfig; instance: THREE.ConeGeometry };                         // 円錐
+  cylinder: { config: CylinderGeometryConfig; instance: THREE.CylinderGeometry };             // 円柱
+  torus: { config: TorusGeometryConfig; instance: THREE.TorusGeometry };                      // トーラス（ドーナツ型）
+  dodecahedron: { config: PolyhedronGeometryConfig; instance: THREE.DodecahedronGeometry };   // 正十二面体
+  icosahedron: { config: PolyhedronGeometryConfig; instance: THREE.IcosahedronGeometry };     // 正二十面体
+  octahedron: { config: PolyhedronGeometryConfig; instance: THREE.OctahedronGeometry };       // 正八面体
+  tetrahedron: { config: PolyhedronGeometryConfig; instance: THREE.TetrahedronGeometry };     // 正四面体
+  plane: { config: PlaneGeometryConfig; instance: THREE.PlaneGeometry };                      // 平面
+  ring: { config: RingGeometryConfig; instance: THREE.RingGeometry };                         // リング（環状）
+  circle: { config: CircleGeometryConfig; instance: THREE.CircleGeometry };                   // 円
+  capsule: { config: CapsuleGeometryConfig; instance: THREE.CapsuleGeometry };                // カプセル
+  torusKnot: { config: TorusKnotGeometryConfig; instance: THREE.TorusKnotGeometry };          // トーラス結び目
+  lathe: { config: LatheGeometryConfig; instance: THREE.LatheGeometry };                      // 回転体（2Dの輪郭を回転）
+  extrude: { config: ExtrudeGeometryConfig; instance: THREE.ExtrudeGeometry };                // 押し出し（2Dの図形に厚みを付ける）
+  tube: { config: TubeGeometryConfig; instance: THREE.TubeGeometry };                         // チューブ（点の経路に沿ったパイプ）
+  terrain: { config: TerrainGeometryConfig; instance: THREE.BufferGeometry };                 // 地形（ハイトマップ・ノイズ）
+  parametric: { config: ParametricGeometryConfig; instance: THREE.BufferGeometry };           // パラメトリック曲面
+}
+
+/**
+ * ジオメトリタイプの対応表
+ * 宣言のマージ（declaration merging）でプロパティを追加すると、`GeometryType`・`GeometryConfig`・
+ * `GeometryInstance`に独自のタイプが加わる。実行時の作成方法は`registerGeometryType`で登録する。
+ *
+ * @example
+ * declare module './types/geometry-types' {
+ *   interface GeometryTypeMap {
+ *     gear: { config: GearGeometryConfig; instance: THREE.ExtrudeGeometry };
+ *   }
+ * }
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface GeometryTypeMap extends BuiltinGeometryTypeMap {}
+
 /**
  * 統合ジオメトリ設定型（Union Types使用）
+ * 例: { type: 'box'; config: BoxGeometryConfig } | { type: 'sphere'; config: SphereGeometryConfig } | ...
+ */
+export type GeometryConfig = {
+  [K in GeometryType]: { type: K; config: GeometryTypeMap[K]['config'] }
+}[GeometryType];
+
+/**
+ * 読み込めるモデルの形式
  */
-export type GeometryConfig = 
-  | { type: 'box'; config: BoxGeometryConfig }
-  | { type: 'sphere'; config: SphereGeometryConfig }
-  | { type: 'cone'; config: ConeGeometryConfig }
-  | { type: 'cylinder'; config: CylinderGeometryConfig }
-  | { type: 'torus'; config: TorusGeometryConfig }
-  | { type: 'plane'; config: PlaneGeometryConfig }
-  | { type: 'ring'; config: RingGeometryConfig }
-  | { type: 'circle'; config: CircleGeometryConfig }
-  | { type: 'dodecahedron'; config: PolyhedronGeometryConfig }
-  | { type: 'icosahedron'; config: PolyhedronGeometryConfig }
-  | { type: 'octahedron'; config: PolyhedronGeometryConfig }
-  | { type: 'tetrahedron'; config: PolyhedronGeometryConfig };
+export type ModelFormat = 'gltf' | 'glb' | 'obj' | 'stl';
+
+/**
+ * モデルを読み込むためのジオメトリ設定
+ * プリミティブの`GeometryConfig`と同じ`{ type, config }`の形で書ける（作成には`AssetLoader`を使う）
+ */
+export interface ModelGeometryConfig {
+  type: 'model';
+  config: {
+    /** モデルファイルのURL */
+    url: string;
+    /** ファイル形式。省略した場合はURLの拡張子から判定する */
+    format?: ModelFormat;
+  };
+}
 
 // ===========================================
 // マテリアル設定の型定義
@@ -265,6 +499,8 @@ export interface BaseMaterialConfig {
   side?: THREE.Side;
   /** ワイヤーフレーム表示にするか デフォルト: false */
   wireframe?: boolean;
+  /** ジオメトリの頂点カラー（地形の高さによる色など）を使うか デフォルト: false */
+  vertexColors?: boolean;
 }
 
 /**
@@ -277,7 +513,7 @@ export interface LambertMaterialConfig extends BaseMaterialConfig {
   /** 発光の強度 デフォルト: 1.0 */
   emissiveIntensity?: number;
   /** テクスチャマップ (色情報) */
-  map?: THREE.Texture | null;
+  map?: TextureInput | null;
 }
 
 /**
@@ -307,13 +543,13 @@ export interface StandardMaterialConfig extends BaseMaterialConfig {
   /** 環境マップの強度 デフォルト: 1.0 */
   envMapIntensity?: number;
   /** テクスチャマップ (色情報) */
-  map?: THREE.Texture | null;
+  map?: TextureInput | null;
   /** 法線マップ (表面の凹凸情報) */
-  normalMap?: THREE.Texture | null;
+  normalMap?: TextureInput | null;
   /** 粗さマップ (粗さの空間変化) */
-  roughnessMap?: THREE.Texture | null;
+  roughnessMap?: TextureInput | null;
   /** 金属性マップ (金属性の空間変化) */
-  metalnessMap?: THREE.Texture | null;
+  metalnessMap?: TextureInput | null;
 }
 
 /**
@@ -327,23 +563,62 @@ export interface PhysicalMaterialConfig extends StandardMaterialConfig {
   clearcoatRoughness?: number;
   /** 透過度 (0.0-1.0) ガラスのような透明度 デフォルト: 0.0 */
   transmission?: number;
-  /** 材質の厚み（透過計算に使用） デフォルト: 0.01 */
+  /** 材質の厚み（透過計算に使用） デフォルト: 0.0 */
   thickness?: number;
 }
 
+/**
+ * シェーダーマテリアル設定
+ * GLSLで書いた独自のシェーダーで描画するマテリアル。`color`は使われないため、色はuniformで渡す
+ * @template U uniformの宣言。初期値の型から、uniformに設定できる値の型が決まる
+ */
+export interface ShaderMaterialConfig<U extends UniformDeclarations = UniformDeclarations> extends BaseMaterialConfig {
+  /** 頂点シェーダーのGLSL デフォルト: 位置をそのまま変換し、vUvを渡すシェーダー */
+  vertexShader?: string;
+  /** フラグメントシェーダーのGLSL デフォルト: 白で塗るシェーダー */
+  fragmentShader?: string;
+  /** uniformの名前と初期値 デフォルト: {} */
+  uniforms?: U;
+  /** シェーダーの先頭に追加する`#define` デフォルト: {} */
+  defines?: ShaderDefines;
+  /** 経過時間（秒）を毎フレーム設定するuniformの名前。nullの場合は設定しない デフォルト: 'time' */
+  timeUniform?: string | null;
+}
+
+// ===========================================
+// マテリアルタイプの対応表
+// ===========================================
+
+/**
+ * 組み込みのマテリアルタイプと、その設定型・作成されるマテリアルの型の対応表
+ */
+export interface BuiltinMaterialTypeMap {
+  basic: { config: BaseMaterialConfig; instance: THREE.MeshBasicMaterial };            // 基本マテリアル（ライティング無視）
+  lambert: { config: LambertMaterialConfig; instance: THREE.MeshLambertMaterial };     // Lambert反射モデル（拡散反射のみ）
+  phong: { config: PhongMaterialConfig; instance: THREE.MeshPhongMaterial };           // Phong反射モデル（拡散＋鏡面反射）
+  standard: { config: StandardMaterialConfig; instance: THREE.MeshStandardMaterial };  // PBRマテリアル（物理ベースレンダリング）
+  physical: { config: PhysicalMaterialConfig; instance: THREE.MeshPhysicalMaterial };  // 高度なPBRマテリアル
+  toon: { config: BaseMaterialConfig; instance: THREE.MeshToonMaterial };              // トゥーンシェーディング（アニメ調）
+  normal: { config: BaseMaterialConfig; instance: THREE.MeshNormalMaterial };          // 法線ベクトルを色で表示
+  depth: { config: BaseMaterialConfig; instance: THREE.MeshDepthMaterial };            // 深度を色で表示
+  wireframe: { config: BaseMaterialConfig; instance: THREE.MeshBasicMaterial };        // ワイヤーフレーム表示
+  shader: { config: ShaderMaterialConfig; instance: THREE.ShaderMaterial };            // 独自のGLSLシェーダー
+}
+
+/**
+ * マテリアルタイプの対応表
+ * `GeometryTypeMap`と同じく、宣言のマージで独自のタイプを追加できる。
+ * 設定型は`BaseMaterialConfig`を拡張したものにする（色や透明度は全てのマテリアルで共通に扱われるため）。
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-interface
+export interface MaterialTypeMap extends BuiltinMaterialTypeMap {}
+
 /**
  * 統合マテリアル設定型
  */
-export type MaterialConfig = 
-  | { type: 'basic'; config: BaseMaterialConfig }
-  | { type: 'lambert'; config: LambertMaterialConfig }
-  | { type: 'phong'; config: PhongMaterialConfig }
-  | { type: 'standard'; config: StandardMaterialConfig }
-  | { type: 'physical'; config: PhysicalMaterialConfig }
-  | { type: 'toon'; config: BaseMaterialConfig }
-  | { type: 'normal'; config: BaseMaterialConfig }
-  | { type: 'depth'; config: BaseMaterialConfig }
-  | { type: 'wireframe'; config: BaseMaterialConfig };
+export type MaterialConfig = {
+  [K in MaterialType]: { type: K; config: MaterialTypeMap[K]['config'] }
+}[MaterialType];
 
 // ===========================================
 // メッシュオブジェクト関連の型
@@ -373,43 +648,87 @@ export interface AnimationConfig {
   rotation?: Partial<Vector3Like>;
   /** 位置の振動アニメーション */
   position?: {
-    /** 振動の振幅 */
+    /** 振動の振幅 デフォルト: 0.5 */
     amplitude?: number;
-    /** 振動の周波数 (Hz) */
+    /** 振動の周波数 (Hz) デフォルト: 0.5 */
     frequency?: number;
-    /** 振動する軸 */
+    /** 振動する軸 デフォルト: 'y' */
     axis?: 'x' | 'y' | 'z';
   };
   /** スケールの周期的変化 */
   scale?: {
-    /** 最小スケール */
+    /** 最小スケール（基準スケールに対する倍率） デフォルト: 0.8 */
     min?: number;
-    /** 最大スケール */
+    /** 最大スケール（基準スケールに対する倍率） デフォルト: 1.2 */
     max?: number;
-    /** スケール変化の周波数 (Hz) */
+    /** スケール変化の周波数 (Hz) デフォルト: 0.5 */
     frequency?: number;
   };
+  /** 位相のずれ (秒)。同じ設定の複数オブジェクトの動きをずらすのに使う デフォルト: 0 */
+  phase?: number;
 }
 
 /**
- * 3Dオブジェクトの完全な設定
- * ジオメトリ、マテリアル、変換、アニメーションを統合した設定
+ * プリミティブとモデルに共通するオブジェクトの設定
  */
-export interface ObjectConfig {
-  /** ジオメトリ（形状）の設定 */
-  geometry: GeometryConfig;
-  /** マテリアル（材質）の設定 */
-  material: MaterialConfig;
+interface BaseObjectConfig {
   /** 初期の変換状態（位置、回転、スケール） */
   transform?: Transform;
   /** アニメーションの設定 */
   animation?: AnimationConfig;
+  /** 影を落とすか デフォルト: シーンマネージャーに従う（InteractiveSceneManagerではtrue） */
+  castShadow?: boolean;
+  /** 他のオブジェクトの影を受けるか デフォルト: シーンマネージャーに従う（InteractiveSceneManagerではtrue） */
+  receiveShadow?: boolean;
   /** オブジェクトの名前（デバッグや管理用） */
   name?: string;
   /** カスタムデータを格納するオブジェクト */
   userData?: Record<string, unknown>;
 }
 
+/**
+ * プリミティブ（`TypedObjectFactory`で作成するメッシュ）の設定
+ * ジオメトリ、マテリアル、変換、アニメーションを統合した設定
+ */
+export interface PrimitiveObjectConfig extends BaseObjectConfig {
+  /** ジオメトリ（形状）の設定 */
+  geometry: GeometryConfig;
+  /** マテリアル（材質）の設定 */
+  material: MaterialConfig;
+}
+
+/**
+ * 読み込んだモデルを使うオブジェクトの設定
+ * 変換・名前・アニメーション・userDataはプリミティブと同じように扱われる
+ */
+export interface ModelObjectConfig extends BaseObjectConfig {
+  /** モデルファイルの設定 */
+  geometry: ModelGeometryConfig;
+  /** 指定すると、モデル内の全てのメッシュのマテリアルをこの設定で置き換える */
+  material?: MaterialConfig;
+}
+
+/**
+ * 3Dオブジェクトの完全な設定（プリミティブかモデル）
+ * `geometry.type`が'model'かどうかで判別する
+ */
+export type ObjectConfig = PrimitiveObjectConfig | ModelObjectConfig;
+
+/**
+ * InstancedMeshの1つのインスタンスの設定
+ * ジオメトリとマテリアルはバッチ全体で共有し、変換と色だけをインスタンスごとに持つ
+ */
+export interface InstanceConfig {
+  /** 変換状態（位置、回転、スケール） */
+  transform?: Transform;
+  /** インスタンスの色 デフォルト: マテリアル設定の色 */
+  color?: ColorInput;
+  /** 表示するか デフォルト: true */
+  visible?: boolean;
+  /** カスタムデータを格納するオブジェクト */
+  userData?: Record<string, unknown>;
+}
+
 // ===========================================
 // ユーティリティ型とヘルパー
 // ===========================================
@@ -417,35 +736,12 @@ export interface ObjectConfig {
 /**
  * 型安全なジオメトリファクトリーの戻り値型
  */
-export type GeometryInstance<T extends GeometryType> = 
-  T extends 'box' ? THREE.BoxGeometry :
-  T extends 'sphere' ? THREE.SphereGeometry :
-  T extends 'cone' ? THREE.ConeGeometry :
-  T extends 'cylinder' ? THREE.CylinderGeometry :
-  T extends 'torus' ? THREE.TorusGeometry :
-  T extends 'plane' ? THREE.PlaneGeometry :
-  T extends 'ring' ? THREE.RingGeometry :
-  T extends 'circle' ? THREE.CircleGeometry :
-  T extends 'dodecahedron' ? THREE.DodecahedronGeometry :
-  T extends 'icosahedron' ? THREE.IcosahedronGeometry :
-  T extends 'octahedron' ? THREE.OctahedronGeometry :
-  T extends 'tetrahedron' ? THREE.TetrahedronGeometry :
-  THREE.BufferGeometry;
+export type GeometryInstance<T extends GeometryType> = GeometryTypeMap[T]['instance'];
 
 /**
  * 型安全なマテリアルファクトリーの戻り値型
  */
-export type MaterialInstance<T extends MaterialType> = 
-  T extends 'basic' ? THREE.MeshBasicMaterial :
-  T extends 'lambert' ? THREE.MeshLambertMaterial :
-  T extends 'phong' ? THREE.MeshPhongMaterial :
-  T extends 'standard' ? THREE.MeshStandardMaterial :
-  T extends 'physical' ? THREE.MeshPhysicalMaterial :
-  T extends 'toon' ? THREE.MeshToonMaterial :
-  T extends 'normal' ? THREE.MeshNormalMaterial :
-  T extends 'depth' ? THREE.MeshDepthMaterial :
-  T extends 'wireframe' ? THREE.MeshBasicMaterial :
-  THREE.Material;
+export type MaterialInstance<T extends MaterialType> = MaterialTypeMap[T]['instance'];
 
 /**
  * 必須フィールドを持つ型を作成するユーティリティ型
@@ -454,10 +750,22 @@ export type MaterialInstance<T extends MaterialType> =
 export type RequiredFields<T, K extends keyof T> = T & Required<Pick<T, K>>;
 
 /**
- * 部分的に必須フィールドを持つオブジェクト設定型
- * geometryとmaterialを必須にしたObjectConfig
+ * geometryとmaterialが必須のオブジェクト設定型（プリミティブ）
+ * `TypedObjectFactory`でメッシュを作成できる設定
+ */
+export type RequiredObjectConfig = RequiredFields<PrimitiveObjectConfig, 'geometry' | 'material'>;
+
+/**
+ * ジオメトリタイプに対応する設定型を取り出すユーティリティ型
+ * 例: GeometryConfigOf<'box'> は BoxGeometryConfig
+ */
+export type GeometryConfigOf<T extends GeometryType> = GeometryTypeMap[T]['config'];
+
+/**
+ * マテリアルタイプに対応する設定型を取り出すユーティリティ型
+ * 例: MaterialConfigOf<'physical'> は PhysicalMaterialConfig
  */
-export type RequiredObjectConfig = RequiredFields<ObjectConfig, 'geometry' | 'material'>;
+export type MaterialConfigOf<T extends MaterialType> = MaterialTypeMap[T]['config'];
 
 // ===========================================
 // イベント関連の型定義
@@ -474,6 +782,20 @@ export interface MouseEventInfo {
   normalized: THREE.Vector2;
   /** クリックされた3Dオブジェクト (レイキャスト結果) */
   target?: THREE.Object3D;
+  /** targetがInstancedBatchのメッシュの場合、クリックされたインスタンスのID */
+  instanceId?: number;
+  /** ビューポートレイアウトを使っている場合、ポインターがあったビューポートの名前 */
+  viewport?: string;
+  /** イベントの発生時に押されていた修飾キー */
+  modifiers: { shift: boolean; ctrl: boolean; alt: boolean; meta: boolean };
+  /** 光線がtargetと交差した位置（ワールド座標） */
+  point?: THREE.Vector3;
+  /** 交差した面の法線（ワールド座標、長さ1）。面を持たないオブジェクト（線・点）ではundefined */
+  normal?: THREE.Vector3;
+  /** カメラから交差した位置までの距離 */
+  distance?: number;
+  /** 交差した位置のテクスチャ座標 */
+  uv?: THREE.Vector2;
 }
 
 /**
@@ -523,6 +845,24 @@ export interface RenderStats {
     /** マテリアルが使用するメモリ量 (MB) */
     materials: number;
   };
+  /** 共有リソースキャッシュの統計 */
+  resources?: ResourceCacheStats;
+}
+
+/**
+ * 共有リソースキャッシュの統計
+ */
+export interface ResourceCacheStats {
+  /** キャッシュ済みのリソースを再利用した回数 */
+  hits: number;
+  /** キャッシュになく、新しく作成した回数 */
+  misses: number;
+  /** 現在キャッシュされているジオメトリの数 */
+  geometries: number;
+  /** 現在キャッシュされているマテリアルの数 */
+  materials: number;
+  /** キャッシュされたリソースへの参照数の合計（使用中のメッシュ数の目安） */
+  references: number;
 }
 
 /**
@@ -0,0 +1,71 @@
+/**
+ * Three.js TypeScript Tutorial - History Types
+ * シーンの編集を元に戻す・やり直すための、コマンドと履歴の型定義
+ */
+
+// ===========================================
+// コマンド
+// ===========================================
+
+/**
+ * 元に戻せる1つの編集。`do`と`undo`は何度でも交互に呼び出せるように作る
+ */
+export interface Command {
+  /** メニューなどに表示する編集の名前（例: 'Move object'） */
+  readonly label: string;
+  /** 編集を適用する（やり直しでも呼ばれる） */
+  do(): void;
+  /** 編集を取り消す */
+  undo(): void;
+  /**
+   * コマンドが履歴から外れ、もう呼び出されなくなったときに呼ばれる。
+   * 削除したオブジェクトのリソースなど、元に戻すために残していたものを解放する。
+   * @param applied 外れたときに編集が適用された状態（元に戻されていない）かどうか
+   */
+  dispose?(applied: boolean): void;
+}
+
+/**
+ * `createCommand`に渡す関数の組
+ */
+export interface CommandDefinition {
+  label: string;
+  do: () => void;
+  undo: () => void;
+  dispose?: (applied: boolean) => void;
+}
+
+// ===========================================
+// 履歴
+// ===========================================
+
+/**
+ * 履歴の現在の状態
+ */
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  /** 次に元に戻す編集の名前 */
+  undoLabel: string | null;
+  /** 次にやり直す編集の名前 */
+  redoLabel: string | null;
+}
+
+/**
+ * `CommandHistory`が発行するイベント（`addEventListener`で受け取る）
+ */
+export interface HistoryEventMap {
+  /** 編集の記録・元に戻す・やり直す・履歴の消去で、履歴が変わったとき */
+  change: HistoryState & {
+    /** 変わった理由 */
+    action: 'execute' | 'undo' | 'redo' | 'clear';
+  };
+}
+
+/**
+ * `CommandHistory`の作成オプション
+ */
+export interface CommandHistoryOptions {
+  /** 元に戻せる編集の数。超えた分は古いものから履歴を外れる デフォルト: 100 */
+  limit?: number;
+}
@@ -0,0 +1,189 @@
+/**
+ * Three.js TypeScript Tutorial - Light Types
+ * 設定オブジェクトで記述するライトと影の型定義
+ */
+
+import * as THREE from 'three';
+import type { ColorInput, Vector3Like } from './geometry-types';
+
+// ===========================================
+// 影の設定
+// ===========================================
+
+/**
+ * 影を描画するためのカメラ（シャドウカメラ）の範囲
+ */
+export interface ShadowCameraConfig {
+  /** 影を計算する最も近い距離 デフォルト: 0.5 */
+  near?: number;
+  /** 影を計算する最も遠い距離 デフォルト: 500 */
+  far?: number;
+  /** 範囲の左端（directionalのみ） デフォルト: -5 */
+  left?: number;
+  /** 範囲の右端（directionalのみ） デフォルト: 5 */
+  right?: number;
+  /** 範囲の上端（directionalのみ） デフォルト: 5 */
+  top?: number;
+  /** 範囲の下端（directionalのみ） デフォルト: -5 */
+  bottom?: number;
+}
+
+/**
+ * 影の設定
+ */
+export interface LightShadowConfig {
+  /** シャドウマップの解像度（幅と高さ）。大きいほど影の輪郭が細かくなる デフォルト: 1024 */
+  mapSize?: number;
+  /** 影の判定のずれ。自分自身に落ちる縞模様（シャドウアクネ）を消すのに使う デフォルト: 0 */
+  bias?: number;
+  /** 法線方向へのずれ。biasと同じ目的で、斜めの面に効果がある デフォルト: 0 */
+  normalBias?: number;
+  /** 影の輪郭のぼかし（PCFShadowMapのみ） デフォルト: 1 */
+  radius?: number;
+  /** シャドウカメラの範囲 */
+  camera?: ShadowCameraConfig;
+}
+
+// ===========================================
+// ライトの設定
+// ===========================================
+
+/**
+ * 全てのライトに共通する設定
+ */
+interface BaseLightConfig {
+  /** ライトの名前。`LightRig`で更新・削除するときに使う */
+  name?: string;
+  /** ライトの色 デフォルト: 0xffffff (白) */
+  color?: ColorInput;
+  /** ライトの強度 デフォルト: 1 */
+  intensity?: number;
+}
+
+/**
+ * 影を落とせるライトの設定
+ */
+interface ShadowCastingLightConfig extends BaseLightConfig {
+  /** 影を落とすか デフォルト: false */
+  castShadow?: boolean;
+  /** 影の設定（castShadowがtrueの場合に使う） */
+  shadow?: LightShadowConfig;
+}
+
+/**
+ * 環境光。全ての面を同じ明るさで照らす
+ */
+export interface AmbientLightConfig extends BaseLightConfig {
+  type: 'ambient';
+}
+
+/**
+ * 半球光。空の色と地面の色の2色で照らす
+ */
+export interface HemisphereLightConfig extends BaseLightConfig {
+  type: 'hemisphere';
+  /** 地面側の色 デフォルト: 0x000000 */
+  groundColor?: ColorInput;
+  /** 空の方向 デフォルト: { x: 0, y: 1, z: 0 } */
+  position?: Vector3Like;
+}
+
+/**
+ * 平行光源。太陽のように、一方向から平行に照らす
+ */
+export interface DirectionalLightConfig extends ShadowCastingLightConfig {
+  type: 'directional';
+  /** ライトの位置 デフォルト: { x: 0, y: 1, z: 0 } */
+  position?: Vector3Like;
+  /** 照らす先の位置 デフォルト: { x: 0, y: 0, z: 0 } */
+  target?: Vector3Like;
+}
+
+/**
+ * 点光源。電球のように、1点から全方向に照らす
+ */
+export interface PointLightConfig extends ShadowCastingLightConfig {
+  type: 'point';
+  /** ライトの位置 デフォルト: { x: 0, y: 0, z: 0 } */
+  position?: Vector3Like;
+  /** 光の届く距離。0の場合は無限 デフォルト: 0 */
+  distance?: number;
+  /** 距離による減衰（2が物理的に正しい値） デフォルト: 2 */
+  decay?: number;
+}
+
+/**
+ * スポットライト。1点から円錐状に照らす
+ */
+export interface SpotLightConfig extends ShadowCastingLightConfig {
+  type: 'spot';
+  /** ライトの位置 デフォルト: { x: 0, y: 1, z: 0 } */
+  position?: Vector3Like;
+  /** 照らす先の位置 デフォルト: { x: 0, y: 0, z: 0 } */
+  target?: Vector3Like;
+  /** 光の届く距離。0の場合は無限 デフォルト: 0 */
+  distance?: number;
+  /** 距離による減衰 デフォルト: 2 */
+  decay?: number;
+  /** 円錐の広がりの角度（ラジアン、最大π/2） デフォルト: π/3 */
+  angle?: number;
+  /** 円錐の縁のぼかし (0.0-1.0) デフォルト: 0 */
+  penumbra?: number;
+}
+
+/**
+ * 面光源。窓や蛍光灯のように、長方形の面から照らす（MeshStandardMaterial・MeshPhysicalMaterialのみに効果がある）。
+ * 影は落とせない
+ */
+export interface RectAreaLightConfig extends BaseLightConfig {
+  type: 'rectArea';
+  /** ライトの位置 デフォルト: { x: 0, y: 1, z: 0 } */
+  position?: Vector3Like;
+  /** 照らす先の位置（面がこの方向を向く） デフォルト: { x: 0, y: 0, z: 0 } */
+  target?: Vector3Like;
+  /** 面の幅 デフォルト: 10 */
+  width?: number;
+  /** 面の高さ デフォルト: 10 */
+  height?: number;
+}
+
+/**
+ * ライトの設定（typeで種類を判別する判別共用体）
+ */
+export type LightConfig =
+  | AmbientLightConfig
+  | HemisphereLightConfig
+  | DirectionalLightConfig
+  | PointLightConfig
+  | SpotLightConfig
+  | RectAreaLightConfig;
+
+/**
+ * ライトの種類
+ */
+export type LightType = LightConfig['type'];
+
+/**
+ * ライトの種類に対応する設定型
+ * 例: LightConfigOf<'spot'> は SpotLightConfig
+ */
+export type LightConfigOf<T extends LightType> = Extract<LightConfig, { type: T }>;
+
+/**
+ * ライトの種類と、作成されるライトの型の対応表
+ */
+export interface LightInstanceMap {
+  ambient: THREE.AmbientLight;
+  hemisphere: THREE.HemisphereLight;
+  directional: THREE.DirectionalLight;
+  point: THREE.PointLight;
+  spot: THREE.SpotLight;
+  rectArea: THREE.RectAreaLight;
+}
+
+/**
+ * 作成済みのライトに適用する変更。種類と名前は変更できない
+ */
+export type LightChanges<T extends LightType = LightType> = {
+  [K in T]: Partial<Omit<LightConfigOf<K>, 'type' | 'name'>>
+}[T];
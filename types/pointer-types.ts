@@ -0,0 +1,83 @@
+/**
+ * Three.js TypeScript Tutorial - Pointer Types
+ * 3Dオブジェクトに登録するポインターイベント（マウス・タッチ・ペン）の型定義
+ */
+
+import * as THREE from 'three';
+import type { MouseEventInfo } from './geometry-types';
+
+// ===========================================
+// イベント
+// ===========================================
+
+/**
+ * 3Dオブジェクトに届くポインターイベントの種類
+ * - 'pointerenter' / 'pointerleave': ポインターがオブジェクト（子孫を含む）に入った・出た。親には伝わらない
+ * - 'pointerover' / 'pointerout': ポインターが当たるオブジェクトが変わった。親にも伝わる
+ * - 'pointerdown' / 'pointerup' / 'pointermove': ボタン（指・ペン）を押した・離した・動かした。何もない位置で離したpointerupは押したオブジェクトに届く
+ * - 'click' / 'dblclick': 押したオブジェクトの上で、しきい値より動かさずに離した（2回続けた）
+ * - 'dragstart' / 'drag' / 'dragend': 押したまましきい値より動かした。ポインターが外れても押したオブジェクトに届く
+ * - 'wheel': ホイールを回した
+ */
+export type ScenePointerEventType =
+  | 'pointerenter'
+  | 'pointerleave'
+  | 'pointerover'
+  | 'pointerout'
+  | 'pointerdown'
+  | 'pointerup'
+  | 'pointermove'
+  | 'click'
+  | 'dblclick'
+  | 'dragstart'
+  | 'drag'
+  | 'dragend'
+  | 'wheel';
+
+/**
+ * 3Dオブジェクトに届くポインターイベント。
+ * `target`はイベントが発生したオブジェクト、`currentTarget`はリスナーが登録されたオブジェクト（DOMのイベントと同じ）
+ */
+export interface ScenePointerEvent<T extends ScenePointerEventType = ScenePointerEventType> extends MouseEventInfo {
+  type: T;
+  target: THREE.Object3D;
+  /** リスナーが呼ばれているオブジェクト（親に伝わっている間は親になる） */
+  currentTarget: THREE.Object3D;
+  /** 元になったDOMのイベント */
+  nativeEvent: MouseEvent;
+  /** ポインターのID（マルチタッチでは指ごとに異なる） */
+  pointerId: number;
+  /** 'mouse'・'touch'・'pen' */
+  pointerType: string;
+  /** 押されたボタン（0: 左, 1: 中, 2: 右） */
+  button: number;
+  /** 親のオブジェクトや、シーンマネージャーのイベントハンドラーに伝えるのをやめる */
+  stopPropagation(): void;
+}
+
+/**
+ * ポインターイベントのリスナー
+ */
+export type ScenePointerListener<T extends ScenePointerEventType = ScenePointerEventType> = (event: ScenePointerEvent<T>) => void;
+
+// ===========================================
+// 設定
+// ===========================================
+
+/**
+ * `PointerEventDispatcher`の作成オプション
+ */
+export interface PointerEventOptions {
+  /** 画面上の位置にある3Dオブジェクトを求める。どのカメラにも映らない位置ではnullを返す */
+  pick: (event: MouseEvent) => MouseEventInfo | null;
+  /** 親まで伝わった（stopPropagationされなかった）イベントを受け取る */
+  onEvent?: (event: ScenePointerEvent) => void;
+  /** クリックではなくドラッグとみなす移動量（CSSピクセル） デフォルト: 4 */
+  dragThreshold?: number;
+  /** ダブルクリックとみなす、2回のクリックの間隔（ミリ秒） デフォルト: 300 */
+  doubleClickDelay?: number;
+  /** リスナーが登録されたオブジェクトの上でのカーソル。`userData.cursor`を持つオブジェクトではその値になる デフォルト: 'pointer' */
+  hoverCursor?: string;
+  /** リスナーがなくても、操作できるオブジェクトとしてカーソルを変えるかどうか */
+  isInteractive?: (object: THREE.Object3D) => boolean;
+}
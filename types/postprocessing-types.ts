@@ -0,0 +1,115 @@
+/**
+ * Three.js TypeScript Tutorial - Post Processing Types
+ * 描画したシーンの画像に効果（ブルーム・輪郭線・アンチエイリアスなど）を加えるパスの設定の型定義
+ */
+
+import type { ColorInput } from './geometry-types';
+
+// ===========================================
+// パスの種類
+// ===========================================
+
+/**
+ * ポストプロセスのパスの種類
+ * - 'bloom': 明るい部分をにじませて光らせる
+ * - 'outline': 指定したオブジェクト（デフォルトでは選択中のオブジェクト）の輪郭線を描く
+ * - 'ssao': 物が接している部分や隙間を暗くする（スクリーンスペース・アンビエントオクルージョン）
+ * - 'colorGrading': 露出・コントラスト・彩度・色味を調整する
+ * - 'fxaa' / 'smaa': 輪郭のギザギザを滑らかにする（アンチエイリアス）
+ */
+export type PostProcessingPassType = 'bloom' | 'outline' | 'ssao' | 'colorGrading' | 'fxaa' | 'smaa';
+
+export interface BloomPassConfig {
+  /** にじみの強さ デフォルト: 1 */
+  strength?: number;
+  /** にじみの広がり（0 〜 1） デフォルト: 0.4 */
+  radius?: number;
+  /** にじませる明るさのしきい値（0 〜 1） デフォルト: 0.85 */
+  threshold?: number;
+}
+
+export interface OutlinePassConfig {
+  /** 見えている部分の輪郭線の色 デフォルト: 0xffaa00 */
+  visibleEdgeColor?: ColorInput;
+  /** 他のオブジェクトに隠れた部分の輪郭線の色 デフォルト: 0x663300 */
+  hiddenEdgeColor?: ColorInput;
+  /** 輪郭線の濃さ デフォルト: 3 */
+  edgeStrength?: number;
+  /** 輪郭線の太さ デフォルト: 1 */
+  edgeThickness?: number;
+  /** 輪郭線の光のにじみ デフォルト: 0 */
+  edgeGlow?: number;
+  /** 点滅の周期（秒）。0で点滅しない デフォルト: 0 */
+  pulsePeriod?: number;
+  /** 選択中のオブジェクトの輪郭線を描くか。falseの場合は`setOutlineObjects`で指定する デフォルト: true */
+  followSelection?: boolean;
+}
+
+export interface SsaoPassConfig {
+  /** 暗くする範囲の半径 デフォルト: 8 */
+  kernelRadius?: number;
+  /** 暗くする最小の深度の差 デフォルト: 0.005 */
+  minDistance?: number;
+  /** 暗くする最大の深度の差 デフォルト: 0.1 */
+  maxDistance?: number;
+}
+
+export interface ColorGradingPassConfig {
+  /** 明るさの倍率 デフォルト: 1 */
+  exposure?: number;
+  /** コントラスト（-1 〜 1、0で変化なし） デフォルト: 0 */
+  contrast?: number;
+  /** 彩度（-1でモノクロ、0で変化なし） デフォルト: 0 */
+  saturation?: number;
+  /** 掛け合わせる色味 デフォルト: 0xffffff */
+  tint?: ColorInput;
+}
+
+/**
+ * 設定項目のないパス（アンチエイリアス）
+ */
+export type AntialiasPassConfig = Record<never, never>;
+
+/**
+ * パスの種類と設定の対応表
+ */
+export interface PostProcessingConfigMap {
+  bloom: BloomPassConfig;
+  outline: OutlinePassConfig;
+  ssao: SsaoPassConfig;
+  colorGrading: ColorGradingPassConfig;
+  fxaa: AntialiasPassConfig;
+  smaa: AntialiasPassConfig;
+}
+
+// ===========================================
+// パイプライン
+// ===========================================
+
+/**
+ * パイプラインに並べる1つのパスの設定
+ */
+export type PostProcessingPassConfig = {
+  [T in PostProcessingPassType]: {
+    type: T;
+    /** 実行中に有効・無効や設定を変えるときの名前。同じ種類のパスが1つだけなら省略できる デフォルト: type */
+    name?: string;
+    /** デフォルト: true */
+    enabled?: boolean;
+  } & PostProcessingConfigMap[T];
+}[PostProcessingPassType];
+
+/**
+ * 実行中に変更するパスの設定（変更する項目だけを指定する）
+ */
+export type PostProcessingPassUpdate = PostProcessingConfigMap[PostProcessingPassType];
+
+/**
+ * `PostProcessingPipeline`が発行するイベント（`addEventListener`で受け取る）
+ */
+export interface PostProcessingEventMap {
+  /** パスの構成・有効無効・設定が変わったとき */
+  change: {
+    passes: readonly PostProcessingPassConfig[];
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * Three.js TypeScript Tutorial - Renderer Types
+ * シーンマネージャーが使うレンダラー・描画先・実行環境（ブラウザかヘッドレスか）の型定義
+ */
+
+import * as THREE from 'three';
+import type { FrameSource } from './scheduler-types';
+import type { ImageLoadFunction } from './texture-types';
+
+// ===========================================
+// 描画先
+// ===========================================
+
+/**
+ * 描画先の要素の、画面上の位置とサイズ（CSSピクセル）
+ */
+export interface SurfaceRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 描画先の要素（ブラウザではキャンバス）。ポインターのイベントはこの要素から受け取る
+ */
+export interface RenderSurface extends EventTarget {
+  readonly clientWidth: number;
+  readonly clientHeight: number;
+  readonly style: { cursor: string; touchAction: string };
+  addEventListener<K extends keyof HTMLElementEventMap>(
+    type: K,
+    listener: (event: HTMLElementEventMap[K]) => void,
+    options?: boolean | AddEventListenerOptions
+  ): void;
+  getBoundingClientRect(): SurfaceRect;
+  setPointerCapture(pointerId: number): void;
+  hasPointerCapture(pointerId: number): boolean;
+  releasePointerCapture(pointerId: number): void;
+  /** ページから取り除く */
+  remove(): void;
+}
+
+// ===========================================
+// レンダラー
+// ===========================================
+
+/**
+ * シーンマネージャーが使うレンダラーの機能。THREE.WebGLRendererと、GPUを使わないHeadlessRendererが満たす
+ */
+export interface SceneRenderer {
+  readonly domElement: RenderSurface;
+  readonly info: {
+    render: { calls: number; triangles: number };
+    memory: { geometries: number; textures: number };
+  };
+  readonly shadowMap: { enabled: boolean; type: THREE.ShadowMapType };
+  readonly debug: { onShaderError: THREE.WebGLDebug['onShaderError'] };
+  setPixelRatio(value: number): void;
+  getPixelRatio(): number;
+  setSize(width: number, height: number, updateStyle?: boolean): void;
+  getSize(target: THREE.Vector2): THREE.Vector2;
+  setViewport(x: number, y: number, width: number, height: number): void;
+  setScissor(x: number, y: number, width: number, height: number): void;
+  setScissorTest(enable: boolean): void;
+  render(scene: THREE.Object3D, camera: THREE.Camera): void;
+  dispose(): void;
+}
+
+// ===========================================
+// 実行環境
+// ===========================================
+
+/**
+ * 描画サイズ（CSSピクセル）とピクセル比
+ */
+export interface SurfaceSize {
+  width: number;
+  height: number;
+  pixelRatio: number;
+}
+
+/**
+ * 現在の描画サイズを返す関数（ブラウザではウィンドウの大きさ）
+ */
+export type SizeProvider = () => SurfaceSize;
+
+/**
+ * シーンマネージャーに渡す実行環境。省略した項目はブラウザ（window・document）のものを使う
+ */
+export interface SceneEnvironment {
+  /** 描画するレンダラー。省略するとWebGLRendererを作成し、キャンバスをdocument.bodyに追加する */
+  renderer?: SceneRenderer;
+  /** 描画サイズ デフォルト: ウィンドウの大きさとdevicePixelRatio */
+  size?: SizeProvider;
+  /** resizeとキーボードのイベントを受け取る対象 デフォルト: window */
+  events?: EventTarget;
+  /** フレームのタイミングと時刻 デフォルト: requestAnimationFrameとperformance.now() */
+  frames?: FrameSource;
+  /** 描画サイズを変えるときに、キャンバスのCSSの大きさも変えるか。falseの場合はCSSで大きさを決める デフォルト: true */
+  updateStyle?: boolean;
+  /** テクスチャの画像を読み込む関数。指定すると、この関数で読み込むテクスチャマネージャーをシーンごとに作成する（`manager.textures`） デフォルト: sharedTextureManager */
+  loadImage?: ImageLoadFunction;
+  /** マネージャーを破棄するときに呼ばれる（大きさの監視の解除、追加したキャンバスの削除など） */
+  dispose?(): void;
+}
+
+/**
+ * `createContainerEnvironment`のオプション
+ */
+export interface ContainerOptions {
+  /** ピクセル比の上限。高解像度ディスプレイで描画する画素数が増えすぎないようにする デフォルト: 2 */
+  maxPixelRatio?: number;
+  /** WebGLRendererの作成パラメーター（canvasは指定できない） デフォルト: { antialias: true } */
+  renderer?: Omit<THREE.WebGLRendererParameters, 'canvas'>;
+}
+
+/**
+ * `HeadlessRenderer`が記録した1回の描画
+ */
+export interface RenderRecord {
+  scene: THREE.Object3D;
+  camera: THREE.Camera;
+  /** 描画した領域（ピクセル、左下が原点）。シザーテストが無効な場合はnull（描画サイズ全体） */
+  viewport: THREE.Vector4 | null;
+}
+
+/**
+ * `HeadlessRenderer`の作成オプション
+ */
+export interface HeadlessRendererOptions {
+  /** 描画サイズ（CSSピクセル） デフォルト: 800 x 600 */
+  width?: number;
+  height?: number;
+  /** 記録しておく描画の数。超えた分は古いものから消える。0で記録しない デフォルト: 100 */
+  recordLimit?: number;
+}
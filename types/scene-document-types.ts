@@ -0,0 +1,137 @@
+/**
+ * Three.js TypeScript Tutorial - Scene Document Types
+ * シーンをJSONとして保存・読み込みするためのドキュメント型定義
+ */
+
+import type { ObjectConfig, Vector3Like } from './geometry-types';
+import type { LightConfig, LightType } from './light-types';
+
+// ===========================================
+// ドキュメント構成要素の型定義
+// ===========================================
+
+/**
+ * シーンドキュメントのメタデータ
+ * シーンの作者や説明など、描画には影響しない付加情報
+ */
+export interface SceneMetadata {
+  /** シーンの名前 */
+  name?: string;
+  /** 作成者 */
+  author?: string;
+  /** シーンの説明 */
+  description?: string;
+  /** 作成日時 (ISO 8601形式) */
+  createdAt?: string;
+  /** 最終更新日時 (ISO 8601形式) */
+  updatedAt?: string;
+  /** アプリケーション固有の追加情報 */
+  extras?: Record<string, unknown>;
+}
+
+/**
+ * 全てのカメラに共通する保存形式
+ */
+interface BaseCameraDocument {
+  /** 近クリッピング面 */
+  near: number;
+  /** 遠クリッピング面 */
+  far: number;
+  /** カメラの位置 */
+  position: Vector3Like;
+  /** カメラの回転（ラジアン） */
+  rotation: Vector3Like;
+}
+
+/**
+ * 透視投影カメラ（PerspectiveCamera）の保存形式
+ */
+export interface PerspectiveCameraDocument extends BaseCameraDocument {
+  type: 'perspective';
+  /** 視野角（度） */
+  fov: number;
+}
+
+/**
+ * 平行投影カメラ（OrthographicCamera）の保存形式
+ */
+export interface OrthographicCameraDocument extends BaseCameraDocument {
+  type: 'orthographic';
+  /** 画面の高さに映る範囲の大きさ（幅は表示先のアスペクト比から決まる） */
+  height: number;
+  /** 拡大率 */
+  zoom: number;
+}
+
+/**
+ * カメラの保存形式
+ */
+export type CameraDocument = PerspectiveCameraDocument | OrthographicCameraDocument;
+
+/**
+ * ライトの種類
+ */
+export type LightDocumentType = LightType;
+
+/**
+ * ライトの保存形式
+ * `LightRig`と同じライト設定で、色は16進数で保存される。
+ * 以前の形式（位置・色・強度などのみ）もそのまま読み込める
+ */
+export type LightDocument = LightConfig;
+
+// ===========================================
+// ドキュメント本体の型定義
+// ===========================================
+
+/**
+ * バージョン付きシーンドキュメント
+ * JSONとしてそのまま保存でき、`loadSceneDocument`で同じシーンを再構築できる
+ *
+ * `camera`・`lights`・`background`は省略可能で、省略した場合は
+ * 読み込み先のシーンマネージャーの設定がそのまま使われる。
+ */
+export interface SceneDocument {
+  /** ドキュメント形式のバージョン */
+  version: number;
+  /** メタデータ */
+  metadata: SceneMetadata;
+  /** カメラ設定 */
+  camera?: CameraDocument;
+  /** ライト一覧 */
+  lights?: LightDocument[];
+  /** 背景色 (16進数)。nullの場合は背景なし */
+  background?: number | null;
+  /** シーン内のオブジェクト（テクスチャなどを含まないJSON互換の設定） */
+  objects: ObjectConfig[];
+}
+
+/**
+ * マイグレーション関数の型
+ * あるバージョンのドキュメントを受け取り、次のバージョンの形式に変換して返す
+ */
+export type SceneDocumentMigration = (document: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * シーンのシリアライズオプション
+ */
+export interface SerializeSceneOptions {
+  /** ドキュメントに書き込むメタデータ */
+  metadata?: SceneMetadata;
+  /** カメラを含めるか デフォルト: true */
+  includeCamera?: boolean;
+  /** ライトを含めるか デフォルト: true */
+  includeLights?: boolean;
+  /** 保存できない値（テクスチャなど）をドキュメントから取り除いたときに呼ばれる */
+  onWarning?: (warning: SerializeWarning) => void;
+}
+
+/**
+ * 保存できずにドキュメントから取り除かれた値の報告
+ */
+export interface SerializeWarning {
+  /** 取り除かれた値のドキュメント内のパス（例: '$.objects[0].material.config.map'） */
+  path: string;
+  /** 取り除かれた理由 */
+  message: string;
+}
@@ -0,0 +1,73 @@
+/**
+ * Three.js TypeScript Tutorial - Scene Export Types
+ * glTF 2.0 / GLB 書き出しの型定義
+ */
+
+// ===========================================
+// 書き出しのオプション
+// ===========================================
+
+/**
+ * 書き出し形式
+ * - 'gltf': JSON形式 (.gltf)
+ * - 'glb': バイナリ形式 (.glb)。1つのファイルにJSONとバッファをまとめる
+ */
+export type SceneExportFormat = 'gltf' | 'glb';
+
+/**
+ * バッファ（頂点データなど）の保存方法。'gltf'形式でのみ意味を持つ
+ * - 'embedded': Data URIとして.gltfファイルに埋め込む
+ * - 'external': 別の.binファイルとして書き出す
+ */
+export type SceneExportBuffers = 'embedded' | 'external';
+
+/**
+ * シーン書き出しのオプション
+ */
+export interface SceneExportOptions {
+  /** 書き出し形式 デフォルト: 'glb' */
+  format?: SceneExportFormat;
+  /** バッファの保存方法 デフォルト: 'embedded' */
+  buffers?: SceneExportBuffers;
+  /** 出力ファイル名（拡張子なし） デフォルト: 'scene' */
+  fileName?: string;
+  /** 選択中のオブジェクト（複数選択の場合は全て）だけを書き出すか デフォルト: false */
+  selectedOnly?: boolean;
+  /** カメラを書き出すか デフォルト: false */
+  includeCamera?: boolean;
+  /** ライトを書き出すか（環境光はglTFでは表現できないため除外される） デフォルト: false */
+  includeLights?: boolean;
+  /** AxesHelperなどの補助オブジェクトを除外するか デフォルト: true */
+  stripHelpers?: boolean;
+  /**
+   * テクスチャを書き出すか。画像の変換にcanvasが必要なため、
+   * デフォルト: canvasが使える環境（ブラウザ）ではtrue、Node.jsではfalse
+   */
+  includeTextures?: boolean;
+}
+
+// ===========================================
+// 書き出しの結果
+// ===========================================
+
+/**
+ * 書き出された1つのファイル
+ */
+export interface SceneExportFile {
+  /** ファイル名 (例: 'scene.gltf', 'scene.bin') */
+  name: string;
+  /** MIMEタイプ */
+  mimeType: string;
+  /** ファイルの内容。.gltfはJSON文字列、.glbと.binはバイナリ */
+  data: string | ArrayBuffer;
+}
+
+/**
+ * 書き出しの結果
+ */
+export interface SceneExportResult {
+  /** 書き出し形式 */
+  format: SceneExportFormat;
+  /** 書き出されたファイル。先頭がメインのファイル（.gltfまたは.glb） */
+  files: SceneExportFile[];
+}
@@ -0,0 +1,93 @@
+/**
+ * Three.js TypeScript Tutorial - Scheduler Types
+ * フレームの更新と描画のタイミング（時計・固定タイムステップ・オンデマンド描画）の型定義
+ */
+
+// ===========================================
+// 時計
+// ===========================================
+
+/**
+ * フレームのタイミングと現在時刻を提供するもの。
+ * ブラウザではrequestAnimationFrame、テストでは手動で進める時計に差し替えられる
+ */
+export interface FrameSource {
+  /** 次のフレームでcallbackを呼ぶよう予約する（requestAnimationFrameと同じ） */
+  request(callback: () => void): number;
+  /** 予約を取り消す */
+  cancel(handle: number): void;
+  /** 現在時刻（ミリ秒） */
+  now(): number;
+}
+
+// ===========================================
+// モード
+// ===========================================
+
+/**
+ * シミュレーションの更新方法
+ * - 'variable': フレームごとに、経過時間だけ1回更新する
+ * - 'fixed': 一定の時間刻み（fixedTimeStep）で更新する。経過時間に応じて1フレームに0回以上更新される
+ */
+export type UpdateMode = 'variable' | 'fixed';
+
+/**
+ * 描画のタイミング
+ * - 'continuous': 毎フレーム描画する
+ * - 'onDemand': `invalidate()`が呼ばれたか、フレームの更新で変化があったときだけ描画する
+ */
+export type RenderMode = 'continuous' | 'onDemand';
+
+/**
+ * 1フレーム分の時間の情報
+ */
+export interface FrameTime {
+  /** シミュレーションが進んだ時間（秒）。timeScaleを掛けた値で、一時停止中は0 */
+  deltaTime: number;
+  /** 実際に経過した時間（秒）。カメラの操作など、一時停止やtimeScaleの影響を受けない処理に使う */
+  realDeltaTime: number;
+  /** シミュレーションの経過時間（秒） */
+  elapsedTime: number;
+  /** 'fixed'で、最後の更新から次の更新までのどこで描画するか（0 〜 1）。動きの補間に使う。'variable'では常に1 */
+  alpha: number;
+  /** startしてからのフレーム数 */
+  frame: number;
+}
+
+// ===========================================
+// 設定
+// ===========================================
+
+/**
+ * `FrameScheduler`が呼び出す処理
+ */
+export interface FrameCallbacks {
+  /** シミュレーションを1回更新する */
+  step: (deltaTime: number, elapsedTime: number) => void;
+  /** フレームごとに1回、stepの後に呼ばれる。描画が必要な変化があればtrueを返す */
+  frame?: (time: FrameTime) => boolean | void;
+  /** シーンを描画する */
+  render: (time: FrameTime) => void;
+}
+
+/**
+ * `FrameScheduler`の設定
+ */
+export interface SchedulerOptions {
+  /** フレームのタイミングと時刻 デフォルト: requestAnimationFrameとperformance.now() */
+  source?: FrameSource;
+  /** シミュレーションの更新方法 デフォルト: 'variable' */
+  updateMode?: UpdateMode;
+  /** 'fixed'の時間刻み（秒） デフォルト: 1/60 */
+  fixedTimeStep?: number;
+  /** 'fixed'で1フレームに更新する最大回数。追いつけない分の時間は捨てる デフォルト: 5 */
+  maxSubSteps?: number;
+  /** 1フレームの経過時間の上限（秒）。処理が止まった後に、時間が一度に進みすぎないようにする デフォルト: 0.1 */
+  maxDeltaTime?: number;
+  /** シミュレーションの速さの倍率（0.5でスローモーション） デフォルト: 1 */
+  timeScale?: number;
+  /** 描画のタイミング デフォルト: 'continuous' */
+  renderMode?: RenderMode;
+  /** ページが非表示の間は、フレームの更新を止めるか デフォルト: true */
+  suspendWhenHidden?: boolean;
+}
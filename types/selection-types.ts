@@ -0,0 +1,103 @@
+/**
+ * Three.js TypeScript Tutorial - Selection Types
+ * シーン内のオブジェクトの選択（複数選択・矩形選択・ハイライト）の型定義
+ */
+
+import * as THREE from 'three';
+
+// ===========================================
+// 選択の方法
+// ===========================================
+
+/**
+ * 選択の方法
+ * - 'replace': 現在の選択を置き換える（通常のクリック）
+ * - 'add': 現在の選択に追加する（Shift+クリック）
+ * - 'toggle': 選択中なら外し、そうでなければ追加する（Ctrl+クリック）
+ * - 'remove': 現在の選択から外す
+ */
+export type SelectionMode = 'replace' | 'add' | 'toggle' | 'remove';
+
+/**
+ * 選択できるオブジェクトの条件。指定した条件を全て満たすオブジェクトだけが選択される
+ */
+export interface SelectionFilter {
+  /** 名前（文字列の場合は完全一致） */
+  name?: string | RegExp;
+  /** userDataに含まれているべき値（各キーの値が===で等しい） */
+  userData?: Record<string, unknown>;
+  /** 任意の条件 */
+  test?: (object: THREE.Object3D) => boolean;
+}
+
+/**
+ * 矩形選択の判定方法
+ * - 'intersect': 矩形に一部でも入ったオブジェクトを選択する
+ * - 'contain': 矩形に全体が入ったオブジェクトだけを選択する
+ */
+export type MarqueeMode = 'intersect' | 'contain';
+
+/**
+ * 画面上の矩形（正規化デバイス座標 -1 〜 1、2つの角の順序は問わない）
+ */
+export interface NormalizedRect {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// ===========================================
+// イベント
+// ===========================================
+
+/**
+ * `SelectionManager`が発行するイベント（`addEventListener`で受け取る）
+ */
+export interface SelectionEventMap {
+  /** 選択が変わったとき */
+  selectionChanged: {
+    /** 変更後の選択（選択された順） */
+    selection: readonly THREE.Object3D[];
+    /** 新しく選択されたオブジェクト */
+    added: readonly THREE.Object3D[];
+    /** 選択から外れたオブジェクト */
+    removed: readonly THREE.Object3D[];
+  };
+}
+
+// ===========================================
+// ハイライト
+// ===========================================
+
+/**
+ * 選択中のオブジェクトの見た目を変える方法
+ */
+export interface HighlightStrategy {
+  /** オブジェクトをハイライトする */
+  apply(object: THREE.Object3D): void;
+  /** ハイライトをやめ、元の見た目に戻す */
+  remove(object: THREE.Object3D): void;
+}
+
+/**
+ * 組み込みのハイライトの種類
+ * - 'emissive': マテリアルを自己発光させた複製に差し替える（自己発光のないマテリアルは'outline'になる）
+ * - 'outline': 辺を線で縁取る。マテリアルの種類に関係なく使える
+ * - 'none': 見た目を変えない
+ */
+export type HighlightStyle = 'emissive' | 'outline' | 'none';
+
+/**
+ * `SelectionManager`の作成オプション
+ */
+export interface SelectionManagerOptions {
+  /** ハイライトの方法 デフォルト: 'emissive' */
+  highlight?: HighlightStyle | HighlightStrategy;
+  /** ハイライトの色 デフォルト: 'emissive'は0x444444、'outline'は0xffaa00 */
+  highlightColor?: THREE.ColorRepresentation;
+  /** 選択できるオブジェクトの条件 */
+  filter?: SelectionFilter;
+  /** 全選択・選択の反転・矩形選択の対象になるオブジェクトを返す関数 デフォルト: 対象なし */
+  candidates?: () => Iterable<THREE.Object3D>;
+}
@@ -0,0 +1,110 @@
+/**
+ * Three.js TypeScript Tutorial - Shader Types
+ * 独自のGLSLシェーダーを使うマテリアルの、uniformとエラーの型定義
+ */
+
+import * as THREE from 'three';
+
+// ===========================================
+// uniform
+// ===========================================
+
+/**
+ * uniformとして宣言できる値
+ * - number → float, boolean → bool
+ * - THREE.Color → vec3, THREE.Vector2/3/4 → vec2/3/4
+ * - THREE.Matrix3/4 → mat3/4, THREE.Texture → sampler2D（後で設定する場合はnull）
+ */
+export type UniformValue =
+  | number
+  | boolean
+  | THREE.Color
+  | THREE.Vector2
+  | THREE.Vector3
+  | THREE.Vector4
+  | THREE.Matrix3
+  | THREE.Matrix4
+  | THREE.Texture
+  | null;
+
+/**
+ * JSONで表せるuniformの型名と、作成されるThree.jsのクラスの対応表
+ */
+export interface EncodedUniformTypeMap {
+  color: THREE.Color;
+  vec2: THREE.Vector2;
+  vec3: THREE.Vector3;
+  vec4: THREE.Vector4;
+  mat3: THREE.Matrix3;
+  mat4: THREE.Matrix4;
+}
+
+export type EncodedUniformType = keyof EncodedUniformTypeMap;
+
+/**
+ * 色・ベクトル・行列のuniformを、型名と成分の配列で表した値。シーンドキュメント（JSON）に保存できる
+ * 例: { type: 'vec3', value: [0, 1, 0] }、{ type: 'color', value: [1, 0.5, 0] }（作業色空間のRGB）
+ * 行列の成分は`toArray()`と同じ列優先の順序
+ */
+export interface EncodedUniformValue<T extends EncodedUniformType = EncodedUniformType> {
+  type: T;
+  value: number[];
+}
+
+/**
+ * uniformの宣言（名前と初期値）
+ */
+export type UniformDeclarations = Record<string, UniformValue | EncodedUniformValue>;
+
+/**
+ * 宣言された初期値から求めた、uniformに設定できる値の型
+ * 例: 0 → number、null → THREE.Texture | null、{ type: 'vec3', ... } → THREE.Vector3
+ */
+export type UniformValueOf<V> =
+  V extends number ? number
+    : V extends boolean ? boolean
+      : V extends null ? THREE.Texture | null
+        : V extends EncodedUniformValue<infer T> ? EncodedUniformTypeMap[T]
+          : V;
+
+/**
+ * `material.uniforms`の型。宣言の各uniformが`{ value }`になる
+ */
+export type ShaderUniforms<U extends UniformDeclarations> = { [K in keyof U]: THREE.IUniform<UniformValueOf<U[K]>> };
+
+/**
+ * uniformの型が分かるシェーダーマテリアル
+ */
+export type TypedShaderMaterial<U extends UniformDeclarations> = THREE.ShaderMaterial & { uniforms: ShaderUniforms<U> };
+
+/**
+ * `#define`として追加する値
+ */
+export type ShaderDefines = Record<string, string | number | boolean>;
+
+// ===========================================
+// コンパイルエラー
+// ===========================================
+
+/**
+ * エラーが起きたシェーダーの段階
+ * - 'vertex': 頂点シェーダーのコンパイル
+ * - 'fragment': フラグメントシェーダーのコンパイル
+ * - 'program': 2つのシェーダーのリンク（varyingの型の不一致など）
+ */
+export type ShaderStage = 'vertex' | 'fragment' | 'program';
+
+/**
+ * シェーダーのエラー1件
+ */
+export interface ShaderDiagnostic {
+  stage: ShaderStage;
+  /** マテリアルに指定したシェーダーのソースでの行番号（1から）。特定できない場合はnull */
+  line: number | null;
+  /** Three.jsが先頭に定義などを追加した、実際にコンパイルされたソースでの行番号。リンクエラーの場合はnull */
+  compiledLine: number | null;
+  /** エラーの内容（例: "'foo' : undeclared identifier"） */
+  message: string;
+  /** エラーが起きた行のソース */
+  sourceLine: string | null;
+}
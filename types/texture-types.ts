@@ -0,0 +1,123 @@
+/**
+ * Three.js TypeScript Tutorial - Texture Types
+ * 設定オブジェクトで記述するテクスチャの型定義
+ */
+
+import * as THREE from 'three';
+import type { Vector2Like } from './geometry-types';
+
+// ===========================================
+// テクスチャの設定
+// ===========================================
+
+/**
+ * テクスチャの端の扱い
+ * - 'clamp': 端のピクセルを引き伸ばす (THREE.ClampToEdgeWrapping)
+ * - 'repeat': 繰り返す (THREE.RepeatWrapping)
+ * - 'mirror': 反転しながら繰り返す (THREE.MirroredRepeatWrapping)
+ */
+export type TextureWrap = 'clamp' | 'repeat' | 'mirror';
+
+/**
+ * 拡大時のフィルタ
+ */
+export type TextureMagFilter = 'nearest' | 'linear';
+
+/**
+ * 縮小時のフィルタ。'mipmap'の付くものはミップマップを使う
+ */
+export type TextureMinFilter =
+  | 'nearest'
+  | 'linear'
+  | 'nearest-mipmap-nearest'
+  | 'nearest-mipmap-linear'
+  | 'linear-mipmap-nearest'
+  | 'linear-mipmap-linear';
+
+/**
+ * テクスチャの色空間
+ * - 'srgb': 画像の色（map・emissiveMapなど）。シェーダーで線形に変換してから使う
+ * - 'linear': 色ではないデータ（normalMap・roughnessMapなど）。値をそのまま使う
+ */
+export type TextureColorSpace = 'srgb' | 'linear';
+
+/**
+ * テクスチャの用途。読み込み中の仮の画像と、デフォルトの色空間が決まる
+ * - 'color': 色のテクスチャ（デフォルトの色空間: 'srgb'）
+ * - 'normal': 法線マップ（デフォルトの色空間: 'linear'）
+ * - 'data': 粗さ・金属性などのデータ（デフォルトの色空間: 'linear'）
+ */
+export type TextureSlot = 'color' | 'normal' | 'data';
+
+/**
+ * テクスチャの設定
+ * `THREE.Texture`の代わりにマテリアル設定の`map`などに指定でき、JSONとして保存できる
+ */
+export interface TextureConfig {
+  /** 画像のパスまたはData URI */
+  source: string;
+  /** 繰り返す回数 デフォルト: { x: 1, y: 1 } */
+  repeat?: Vector2Like;
+  /** UVのずらし量 デフォルト: { x: 0, y: 0 } */
+  offset?: Vector2Like;
+  /** 回転（ラジアン） デフォルト: 0 */
+  rotation?: number;
+  /** 回転の中心（UV座標） デフォルト: { x: 0, y: 0 } */
+  center?: Vector2Like;
+  /** 横方向の端の扱い デフォルト: 'clamp' */
+  wrapS?: TextureWrap;
+  /** 縦方向の端の扱い デフォルト: 'clamp' */
+  wrapT?: TextureWrap;
+  /** 拡大時のフィルタ デフォルト: 'linear' */
+  magFilter?: TextureMagFilter;
+  /** 縮小時のフィルタ デフォルト: 'linear-mipmap-linear' */
+  minFilter?: TextureMinFilter;
+  /** 異方性フィルタリングのサンプル数（斜めから見た面がぼやけにくくなる） デフォルト: 1 */
+  anisotropy?: number;
+  /** 色空間 デフォルト: 用途が'color'なら'srgb'、それ以外は'linear' */
+  colorSpace?: TextureColorSpace;
+  /** 読み込み時に画像を上下反転するか デフォルト: true */
+  flipY?: boolean;
+}
+
+/**
+ * マテリアル設定でテクスチャを指定する値
+ */
+export type TextureInput = THREE.Texture | TextureConfig;
+
+/**
+ * マテリアル設定の`TextureInput`を、`TextureConfig`を含まない`THREE.Texture`に置き換えた型
+ * （テクスチャを読み込んだ後の、マテリアルを作成するときの設定）
+ */
+export type ResolvedTextures<T> = { [K in keyof T]: Exclude<T[K], TextureConfig> };
+
+// ===========================================
+// 読み込みの状態
+// ===========================================
+
+/**
+ * テクスチャの読み込みの状態
+ * - 'loading': 読み込み中（仮の画像が使われる）
+ * - 'loaded': 読み込み済み
+ * - 'error': 読み込みに失敗した（仮の画像のまま）
+ */
+export type TextureLoadState = 'loading' | 'loaded' | 'error';
+
+/**
+ * 画像を読み込む関数。`THREE.Texture`の`image`に設定できる値を返す
+ */
+export type ImageLoadFunction = (source: string) => Promise<unknown>;
+
+/**
+ * テクスチャマネージャーの統計情報
+ */
+export interface TextureManagerStats {
+  /** 読み込んだ（または読み込み中の）画像の数 */
+  sources: number;
+  /** 作成したテクスチャの数（同じ画像でも設定が違えば別のテクスチャ） */
+  textures: number;
+  /** 読み込み中の画像の数 */
+  loading: number;
+  /** テクスチャの参照の合計 */
+  references: number;
+}
@@ -0,0 +1,101 @@
+/**
+ * Three.js TypeScript Tutorial - Transform Types
+ * シーン内のオブジェクトを移動・回転・拡大縮小する操作（ギズモ・平面上のドラッグ）の型定義
+ */
+
+import * as THREE from 'three';
+import type { Transform } from './geometry-types';
+
+// ===========================================
+// 操作の種類
+// ===========================================
+
+/**
+ * 変換の操作
+ * - 'translate': 矢印（軸）と四角（平面）のハンドルで移動する
+ * - 'rotate': 輪のハンドルで軸の周りに回転する
+ * - 'scale': 軸の先の立方体で軸方向に、中心の立方体で全体を拡大縮小する
+ * - 'drag': ギズモを出さず、オブジェクトそのものをドラッグして平面上を移動する
+ */
+export type TransformMode = 'translate' | 'rotate' | 'scale' | 'drag';
+
+/**
+ * ギズモの軸の向き
+ * - 'world': ワールド座標の軸（拡大縮小は常にオブジェクトの軸で行う）
+ * - 'local': オブジェクト自身の軸
+ */
+export type TransformSpace = 'world' | 'local';
+
+/**
+ * ギズモのハンドル
+ * - 'x' / 'y' / 'z': 1つの軸
+ * - 'xy' / 'yz' / 'xz': 2つの軸が作る平面（移動のみ）
+ * - 'xyz': 画面に平行な移動・全体の拡大縮小
+ */
+export type TransformAxis = 'x' | 'y' | 'z' | 'xy' | 'yz' | 'xz' | 'xyz';
+
+/**
+ * 'drag'モードでオブジェクトを動かす平面
+ * - 'ground': オブジェクトの高さの水平面（XZ平面）
+ * - 'camera': オブジェクトを通り、カメラの方を向いた平面
+ */
+export type DragPlane = 'ground' | 'camera';
+
+/**
+ * スナップの刻み。指定しない（0以下の）項目はスナップしない
+ */
+export interface TransformSnap {
+  /** 移動の刻み（ワールド座標の単位）。'world'ではグリッドの位置に、'local'では移動量にスナップする */
+  translation?: number;
+  /** 回転の刻み（ラジアン） */
+  rotation?: number;
+  /** 拡大縮小率の刻み */
+  scale?: number;
+}
+
+// ===========================================
+// イベント
+// ===========================================
+
+/**
+ * 変換の操作の内容
+ */
+export interface TransformEventBase {
+  /** 操作しているオブジェクト */
+  object: THREE.Object3D;
+  mode: TransformMode;
+  /** 操作を始める前の変換（オブジェクトのローカルの値） */
+  before: Transform;
+}
+
+/**
+ * `TransformControls`が発行するイベント（`addEventListener`で受け取る）
+ */
+export interface TransformEventMap {
+  /** ドラッグを始めたとき */
+  transformStart: TransformEventBase;
+  /** ドラッグ中にオブジェクトの変換が変わったとき */
+  transformChange: TransformEventBase & { after: Transform };
+  /** ドラッグを終えたとき（変換が変わらなかった場合も発行される） */
+  transformEnd: TransformEventBase & { after: Transform };
+}
+
+// ===========================================
+// 設定
+// ===========================================
+
+/**
+ * `TransformControls`の作成オプション
+ */
+export interface TransformControlsOptions {
+  /** 操作 デフォルト: 'translate' */
+  mode?: TransformMode;
+  /** ギズモの軸の向き デフォルト: 'world' */
+  space?: TransformSpace;
+  /** スナップの刻み デフォルト: スナップしない */
+  snap?: TransformSnap;
+  /** 'drag'モードで動かす平面 デフォルト: 'ground' */
+  dragPlane?: DragPlane;
+  /** ギズモの大きさ（画面の高さに対する軸の長さの割合） デフォルト: 0.15 */
+  size?: number;
+}
@@ -0,0 +1,97 @@
+/**
+ * Three.js TypeScript Tutorial - Tween Types
+ * トゥイーン・タイムラインの型定義
+ */
+
+// ===========================================
+// イージング
+// ===========================================
+
+/**
+ * イージング関数。0〜1の進行度を受け取り、補間に使う値を返す（0で開始値、1で終了値）
+ */
+export type EasingFunction = (t: number) => number;
+
+/**
+ * 組み込みイージングの系統
+ */
+export type EasingFamily =
+  | 'quad'
+  | 'cubic'
+  | 'quart'
+  | 'quint'
+  | 'sine'
+  | 'expo'
+  | 'circ'
+  | 'back'
+  | 'elastic'
+  | 'bounce';
+
+/**
+ * 組み込みイージングの名前 (例: 'linear', 'cubicInOut', 'bounceOut')
+ * テンプレートリテラル型で「系統 × In/Out/InOut」の全ての組み合わせを表す
+ */
+export type EasingName = 'linear' | `${EasingFamily}${'In' | 'Out' | 'InOut'}`;
+
+// ===========================================
+// 数値プロパティのパス
+// ===========================================
+
+/**
+ * 値がnumberのプロパティ名だけを取り出す
+ */
+type NumericKeys<T> = {
+  [K in keyof T & string]: T[K] extends number ? K : never;
+}[keyof T & string];
+
+/**
+ * トゥイーンできる数値プロパティのパス
+ * 直下の数値プロパティ（'opacity', 'fov'）と、1段下の数値プロパティ（'position.x', 'color.r'）を表す
+ *
+ * @example
+ * type MeshPath = NumericPath<THREE.Mesh>; // 'position.x' | 'rotation.y' | 'scale.z' | ...
+ */
+export type NumericPath<T> =
+  | NumericKeys<T>
+  | {
+      [K in keyof T & string]: NonNullable<T[K]> extends number | ((...args: never[]) => unknown)
+        ? never
+        : NonNullable<T[K]> extends object
+          ? `${K}.${NumericKeys<NonNullable<T[K]>>}`
+          : never;
+    }[keyof T & string];
+
+/**
+ * パスごとの目標値
+ */
+export type TweenValues<T> = { [P in NumericPath<T>]?: number };
+
+// ===========================================
+// オプション
+// ===========================================
+
+/**
+ * トゥイーンとタイムラインに共通の再生オプション
+ */
+export interface PlaybackOptions {
+  /** 開始までの待ち時間（秒） デフォルト: 0 */
+  delay?: number;
+  /** 追加で繰り返す回数。Infinityで無限に繰り返す デフォルト: 0 */
+  repeat?: number;
+  /** 繰り返しのたびに再生方向を反転するか デフォルト: false */
+  yoyo?: boolean;
+}
+
+/**
+ * 1つのトゥイーンのオプション
+ */
+export interface TweenOptions<T> extends PlaybackOptions {
+  /** 再生時間（秒） */
+  duration: number;
+  /** イージング デフォルト: 'linear' */
+  easing?: EasingName | EasingFunction;
+  /** 開始値。省略したパスは、トゥイーンが最初に描画された時点の値を使う */
+  from?: TweenValues<T>;
+  /** 値を書き込んだ後に毎回呼ばれる */
+  onUpdate?: (target: T, progress: number) => void;
+}
@@ -0,0 +1,81 @@
+/**
+ * Three.js TypeScript Tutorial - Validation Types
+ * 実行時バリデーションの結果を表す型定義
+ */
+
+// ===========================================
+// バリデーション結果の型定義
+// ===========================================
+
+/**
+ * バリデーションの動作モード
+ * - 'report': 問題を報告するだけで、例外も警告も出さない
+ * - 'strict': 問題が1つでもあれば例外を投げる
+ * - 'lenient': 修正できる問題は値を補正して警告（`onWarning`）を出し、修正できない問題のみ例外を投げる
+ */
+export type ValidationMode = 'report' | 'strict' | 'lenient';
+
+/**
+ * 数値の許容範囲
+ */
+export interface NumericRange {
+  /** 最小値（この値を含む） */
+  min?: number;
+  /** 最大値（この値を含む） */
+  max?: number;
+  /** 整数のみ許可するか */
+  integer?: boolean;
+}
+
+/**
+ * lenientモードで問題をどのように解決するか
+ * - 'clamped': 許容範囲内に丸めた
+ * - 'defaulted': 値を取り除き、デフォルト値を使うようにした
+ * - 'removed': 未知のプロパティを取り除いた
+ * - 'unresolved': 自動では修正できない
+ */
+export type IssueResolution = 'clamped' | 'defaulted' | 'removed' | 'unresolved';
+
+/**
+ * バリデーションで見つかった1つの問題
+ */
+export interface ValidationIssue {
+  /** 問題のある値のJSONパス (例: '$.geometry.config.radius') */
+  path: string;
+  /** 問題の説明 */
+  message: string;
+  /** 問題のある値 */
+  value: unknown;
+  /** 期待される値の説明 (例: 'number', "one of 'box' | 'sphere'") */
+  expected: string;
+  /** 数値の許容範囲（数値の場合のみ） */
+  range?: NumericRange;
+  /** lenientモードでの解決方法 */
+  resolution: IssueResolution;
+  /** 補正後の値（resolutionが'clamped'の場合） */
+  correctedValue?: unknown;
+}
+
+/**
+ * バリデーションの結果
+ */
+export interface ValidationResult<T> {
+  /** 問題が1つもなかったか */
+  valid: boolean;
+  /** 見つかった全ての問題 */
+  issues: ValidationIssue[];
+  /** 補正済みの値。修正できない問題がある場合はnull */
+  value: T | null;
+}
+
+/**
+ * バリデーションのオプション
+ */
+export interface ValidationOptions {
+  /** 動作モード デフォルト: 'report' */
+  mode?: ValidationMode;
+  /** パスの先頭に付ける文字列 デフォルト: '$' */
+  path?: string;
+  /** lenientモードで、補正した問題ごとに呼ばれる。問題は`result.issues`にも含まれる */
+  onWarning?: (issue: ValidationIssue) => void;
+}